@@ -8,11 +8,13 @@ import {
   X,
   CheckSquare,
   Square,
-  AlertTriangle
+  AlertTriangle,
+  Printer
 } from "lucide-react";
 import { useTranslation } from "@/i18n";
 import { BatchUpdateModal } from "./batch-update-modal";
 import { BatchDeleteModal } from "./batch-delete-modal";
+import { LabelPrintModal } from "./label-print-modal";
 
 interface BatchActionsPanelProps {
   selectedFilaments: Filament[];
@@ -38,6 +40,7 @@ export function BatchActionsPanel({
   const { t } = useTranslation();
   const [showUpdateModal, setShowUpdateModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showLabelModal, setShowLabelModal] = useState(false);
 
   const selectedCount = selectedFilaments.length;
   // Ensure all IDs are valid numbers and filter out any invalid ones
@@ -131,6 +134,20 @@ export function BatchActionsPanel({
           </Button>
         </div>
 
+        <div className="border-l border-border pl-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2"
+            onClick={() => setShowLabelModal(true)}
+            disabled={selectedCount === 0}
+            title={t('batch.printLabels')}
+          >
+            <Printer className="h-4 w-4 mr-1" />
+            <span className="text-xs">{t('batch.labels')}</span>
+          </Button>
+        </div>
+
         <div className="border-l border-border pl-2">
           <Button
             variant="ghost"
@@ -172,7 +189,12 @@ export function BatchActionsPanel({
         selectedCount={selectedCount}
       />
 
-
+      {/* Batch Label Print Modal */}
+      <LabelPrintModal
+        isOpen={showLabelModal}
+        onClose={() => setShowLabelModal(false)}
+        filaments={selectedFilaments}
+      />
     </>
   );
 }
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { locationsInTreeOrder } from "@/lib/storage-locations";
 import { Filament, Material, Manufacturer, StorageLocation } from "@shared/schema";
 import { useTranslation } from "@/i18n";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
@@ -181,8 +182,8 @@ export function BatchUpdateModal({
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value={NO_CHANGE_VALUE}>{t('batch.noChange')}</SelectItem>
-                  {storageLocations.map((location) => (
-                    <SelectItem key={location.id} value={location.name}>
+                  {locationsInTreeOrder(storageLocations).map(({ location, depth }) => (
+                    <SelectItem key={location.id} value={location.name} style={{ paddingLeft: `${2 + depth}rem` }}>
                       {location.name}
                     </SelectItem>
                   ))}
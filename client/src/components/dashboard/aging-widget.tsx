@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/i18n";
+import { ColorDot } from "./color-dot";
+import { MaterialFilterSelect, WidgetCard, statisticsUrl, withParam, type WidgetProps } from "./widget-card";
+
+interface AgingReport {
+  minDays: number;
+  total: number;
+  ageBrackets: { minDays: number; maxDays: number | null; spools: number }[];
+  spools: {
+    filamentId: number;
+    name: string;
+    material: string;
+    colorCode: string | null;
+    purchaseDate: string;
+    ageDays: number;
+    remainingPercentage: number;
+  }[];
+}
+
+const MIN_AGE_OPTIONS = [0, 90, 180, 365];
+
+// Params: minDays, material
+export function AgingWidget({ params, onParamsChange }: WidgetProps) {
+  const { t } = useTranslation();
+  const minDays = Number(params.minDays ?? 180);
+
+  const { data: report } = useQuery<AgingReport>({
+    queryKey: [statisticsUrl("aging", { minDays, limit: 8, material: params.material })],
+  });
+
+  return (
+    <WidgetCard
+      title={t('statistics.aging.title')}
+      controls={<>
+        <Select value={String(minDays)} onValueChange={(value) => onParamsChange(withParam(params, "minDays", Number(value)))}>
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MIN_AGE_OPTIONS.map((days) => (
+              <SelectItem key={days} value={String(days)}>
+                {days === 0 ? t('statistics.aging.allAges') : t('statistics.aging.olderThan', { days })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <MaterialFilterSelect value={params.material} onChange={(material) => onParamsChange(withParam(params, "material", material))} />
+      </>}
+    >
+      <div className="grid grid-cols-4 gap-1 text-center">
+        {report?.ageBrackets.map((bracket) => (
+          <div key={bracket.minDays} className="rounded dark:bg-neutral-800 bg-gray-100 py-1">
+            <div className="font-medium dark:text-neutral-300 text-gray-800">{bracket.spools}</div>
+            <div className="text-xs dark:text-neutral-500 text-gray-500">
+              {bracket.maxDays === null ? `${bracket.minDays}+` : `${bracket.minDays}-${bracket.maxDays}`} {t('statistics.days')}
+            </div>
+          </div>
+        ))}
+      </div>
+      {report && report.spools.length === 0 ? (
+        <p className="text-neutral-400">{t('statistics.aging.empty')}</p>
+      ) : (
+        report?.spools.map((spool) => (
+          <div key={spool.filamentId} className="flex justify-between gap-2">
+            <span className="flex items-center gap-2 min-w-0 dark:text-neutral-300 text-gray-700">
+              <ColorDot color={spool.colorCode} />
+              <span className="truncate" title={spool.name}>{spool.name}</span>
+            </span>
+            <span className="font-medium dark:text-neutral-400 text-gray-800 whitespace-nowrap">
+              {spool.ageDays} {t('statistics.days')} · {Math.round(spool.remainingPercentage)}%
+            </span>
+          </div>
+        ))
+      )}
+      {report && report.total > report.spools.length && (
+        <p className="text-xs dark:text-neutral-500 text-gray-500">
+          {t('statistics.aging.more', { count: report.total - report.spools.length })}
+        </p>
+      )}
+    </WidgetCard>
+  );
+}
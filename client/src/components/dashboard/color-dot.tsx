@@ -0,0 +1,8 @@
+export function ColorDot({ color }: { color: string | null }) {
+  return (
+    <span
+      className="inline-block h-3 w-3 rounded-full border flex-shrink-0"
+      style={{ backgroundColor: color || "#888888" }}
+    />
+  );
+}
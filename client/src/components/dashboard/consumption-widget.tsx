@@ -0,0 +1,102 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/i18n";
+import { consumptionGroupBys, consumptionPeriods } from "@shared/schema";
+import { MaterialFilterSelect, RangeSelect, WidgetCard, rangeFrom, statisticsUrl, withParam, type WidgetProps } from "./widget-card";
+
+type ConsumptionPeriod = typeof consumptionPeriods[number];
+type ConsumptionGroupBy = typeof consumptionGroupBys[number];
+
+interface ConsumptionReport {
+  period: ConsumptionPeriod;
+  groupBy: ConsumptionGroupBy;
+  totalGrams: number;
+  groups: { key: string; grams: number }[];
+  buckets: { start: string; grams: number; byGroup: Record<string, number> }[];
+}
+
+const GROUP_COLORS = [
+  "#4C78A8", "#F58518", "#54A24B", "#E45756", "#72B7B2",
+  "#BC8F02", "#9467BD", "#D67195", "#8C564B", "#3A3A3A",
+];
+
+// Params: period, groupBy, rangeDays, material
+export function ConsumptionWidget({ params, onParamsChange }: WidgetProps) {
+  const { t } = useTranslation();
+  const period = (params.period as ConsumptionPeriod | undefined) ?? "day";
+  const groupBy = (params.groupBy as ConsumptionGroupBy | undefined) ?? "material";
+
+  const { data: report } = useQuery<ConsumptionReport>({
+    queryKey: [statisticsUrl("consumption", {
+      period,
+      groupBy,
+      from: rangeFrom(params.rangeDays),
+      material: params.material,
+    })],
+  });
+
+  const chartData = (report?.buckets ?? []).map((bucket) => ({
+    start: bucket.start,
+    ...bucket.byGroup,
+  }));
+  const groups = report?.groups.map((group) => group.key) ?? [];
+
+  return (
+    <WidgetCard
+      title={<>
+        {t('statistics.consumption.title')}
+        {report && ` · ${(report.totalGrams / 1000).toFixed(2)} kg`}
+      </>}
+      controls={<>
+        <Select value={period} onValueChange={(value) => onParamsChange(withParam(params, "period", value))}>
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {consumptionPeriods.map((p) => (
+              <SelectItem key={p} value={p}>{t(`statistics.consumption.periods.${p}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={groupBy} onValueChange={(value) => onParamsChange(withParam(params, "groupBy", value))}>
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {consumptionGroupBys.map((g) => (
+              <SelectItem key={g} value={g}>{t(`statistics.consumption.groupBy.${g}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <RangeSelect value={params.rangeDays} onChange={(days) => onParamsChange(withParam(params, "rangeDays", days))} />
+        <MaterialFilterSelect value={params.material} onChange={(material) => onParamsChange(withParam(params, "material", material))} />
+      </>}
+    >
+      {report && report.totalGrams === 0 ? (
+        <p className="text-neutral-400 py-8 text-center">{t('statistics.consumption.empty')}</p>
+      ) : (
+        <div className="h-[260px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+              <XAxis dataKey="start" tick={{ fontSize: 11 }} />
+              <YAxis unit="g" tick={{ fontSize: 11 }} />
+              <Tooltip formatter={(value: number) => `${value.toFixed(1)} g`} />
+              {groups.length > 1 && <Legend />}
+              {groups.map((group, index) => (
+                <Bar
+                  key={group}
+                  dataKey={group}
+                  name={groupBy === "none" ? t('statistics.consumption.used') : group}
+                  stackId="consumption"
+                  fill={GROUP_COLORS[index % GROUP_COLORS.length]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </WidgetCard>
+  );
+}
@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { useTranslation } from "@/i18n";
+import { ColorDot } from "./color-dot";
+import { MaterialFilterSelect, WidgetCard, statisticsUrl, withParam, type WidgetProps } from "./widget-card";
+
+interface DryingReport {
+  reminderDays: number;
+  dueCount: number;
+  spools: {
+    filamentId: number;
+    name: string;
+    material: string;
+    colorCode: string | null;
+    lastDryingDate: string | null;
+    dryerCount: number;
+    daysSinceDrying: number | null;
+    due: boolean;
+  }[];
+}
+
+// Rows shown, longest since drying first
+const DRYING_ROWS = 8;
+
+// Params: material (reminderDays follows the user's drying reminder setting)
+export function DryingWidget({ params, onParamsChange }: WidgetProps) {
+  const { t } = useTranslation();
+
+  const { data: report } = useQuery<DryingReport>({
+    queryKey: [statisticsUrl("drying", { material: params.material })],
+  });
+
+  return (
+    <WidgetCard
+      title={<>
+        {t('statistics.drying.title')}
+        {report && report.dueCount > 0 && ` · ${t('statistics.drying.dueCount', { count: report.dueCount })}`}
+      </>}
+      controls={
+        <MaterialFilterSelect value={params.material} onChange={(material) => onParamsChange(withParam(params, "material", material))} />
+      }
+    >
+      {report && report.spools.length === 0 ? (
+        <p className="text-neutral-400">{t('statistics.drying.empty')}</p>
+      ) : (
+        report?.spools.slice(0, DRYING_ROWS).map((spool) => (
+          <div key={spool.filamentId} className="flex justify-between gap-2">
+            <span className="flex items-center gap-2 min-w-0 dark:text-neutral-300 text-gray-700">
+              <ColorDot color={spool.colorCode} />
+              <span className="truncate" title={spool.name}>{spool.name}</span>
+            </span>
+            <span className="flex items-center gap-2 font-medium dark:text-neutral-400 text-gray-800 whitespace-nowrap">
+              {spool.daysSinceDrying === null
+                ? "-"
+                : t(spool.lastDryingDate ? 'statistics.drying.driedAgo' : 'statistics.drying.boughtAgo', { days: spool.daysSinceDrying })}
+              {spool.due && <Badge variant="destructive">{t('statistics.drying.due')}</Badge>}
+            </span>
+          </div>
+        ))
+      )}
+    </WidgetCard>
+  );
+}
@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/i18n";
+import { ColorDot } from "./color-dot";
+import { WidgetCard, statisticsUrl, withParam, type WidgetProps } from "./widget-card";
+
+interface ForecastEntry {
+  remainingGrams: number;
+  gramsPerDay: number;
+  daysUntilEmpty: number | null;
+}
+
+interface Forecast {
+  windowDays: number;
+  spools: (ForecastEntry & { filamentId: number; name: string; material: string; colorCode: string | null })[];
+  materials: (ForecastEntry & { material: string })[];
+}
+
+const FORECAST_WINDOWS = [7, 30, 90];
+
+// Rows shown per forecast list, soonest-empty first
+const FORECAST_ROWS = 5;
+
+// Params: windowDays
+export function ForecastWidget({ params, onParamsChange }: WidgetProps) {
+  const { t } = useTranslation();
+  const windowDays = Number(params.windowDays ?? 30);
+
+  const { data: forecast } = useQuery<Forecast>({
+    queryKey: [statisticsUrl("forecast", { windowDays })],
+  });
+
+  const formatDays = (days: number | null) =>
+    days === null ? "-" : `${Math.round(days)} ${t('statistics.days')}`;
+
+  return (
+    <WidgetCard
+      title={t('statistics.forecast.title')}
+      controls={
+        <Select value={String(windowDays)} onValueChange={(value) => onParamsChange(withParam(params, "windowDays", Number(value)))}>
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FORECAST_WINDOWS.map((days) => (
+              <SelectItem key={days} value={String(days)}>
+                {t('statistics.forecast.window', { days })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      }
+    >
+      {forecast && forecast.spools.length === 0 ? (
+        <p className="text-neutral-400">{t('statistics.forecast.empty')}</p>
+      ) : (
+        <>
+          <h4 className="text-xs uppercase dark:text-neutral-500 text-gray-500">{t('statistics.forecast.spools')}</h4>
+          {forecast?.spools.slice(0, FORECAST_ROWS).map((spool) => (
+            <div key={spool.filamentId} className="flex justify-between gap-2">
+              <span className="flex items-center gap-2 min-w-0 dark:text-neutral-300 text-gray-700">
+                <ColorDot color={spool.colorCode} />
+                <span className="truncate" title={spool.name}>{spool.name}</span>
+              </span>
+              <span
+                className="font-medium dark:text-neutral-400 text-gray-800 whitespace-nowrap"
+                title={t('statistics.forecast.burnRate', { grams: spool.gramsPerDay.toFixed(1) })}
+              >
+                {formatDays(spool.daysUntilEmpty)}
+              </span>
+            </div>
+          ))}
+          <h4 className="text-xs uppercase dark:text-neutral-500 text-gray-500 pt-2">{t('statistics.forecast.materials')}</h4>
+          {forecast?.materials.slice(0, FORECAST_ROWS).map((material) => (
+            <div key={material.material} className="flex justify-between gap-2">
+              <span className="dark:text-neutral-300 text-gray-700">{material.material}</span>
+              <span
+                className="font-medium dark:text-neutral-400 text-gray-800 whitespace-nowrap"
+                title={t('statistics.forecast.burnRate', { grams: material.gramsPerDay.toFixed(1) })}
+              >
+                {formatDays(material.daysUntilEmpty)}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+    </WidgetCard>
+  );
+}
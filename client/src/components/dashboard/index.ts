@@ -0,0 +1,9 @@
+// Export all statistics dashboard widgets
+export { OverviewWidget } from "./overview-widget";
+export { StockByLocationWidget } from "./stock-by-location-widget";
+export { ConsumptionWidget } from "./consumption-widget";
+export { ForecastWidget } from "./forecast-widget";
+export { SpendWidget } from "./spend-widget";
+export { AgingWidget } from "./aging-widget";
+export { DryingWidget } from "./drying-widget";
+export type { WidgetParams, WidgetProps } from "./widget-card";
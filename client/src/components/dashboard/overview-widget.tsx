@@ -0,0 +1,205 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { useTranslation } from "@/i18n";
+import { useUnits } from "@/lib/use-units";
+import { formatCurrency, type Currency } from "@/lib/units";
+
+interface MaterialDistribution {
+  name: string;
+  percentage: number;
+}
+
+export interface Statistics {
+  totalSpools: number;
+  archivedSpools: number;
+  totalWeight: string;
+  remainingWeight: string;
+  averageRemaining: number;
+  lowStockCount: number;
+  belowMinimumStock: unknown[];
+  costPerKgByMaterial: {material: string, costPerKg: number, kg: number}[];
+  estimatedSpools: number;
+  currency: Currency; // amounts are converted into the user's currency server-side
+  missingExchangeRates: string[];
+  materialDistribution: MaterialDistribution[];
+  topMaterials: string[];
+  topColors: string[];
+  estimatedValue: number;
+  totalPurchaseValue: number;
+  averageAge: number;
+  oldestFilament?: {name: string, days: number} | null;
+  newestFilament?: {name: string, days: number} | null;
+}
+
+// The inventory summary from /api/statistics; it takes no params
+export function OverviewWidget() {
+  const { t } = useTranslation();
+  const { currency: userCurrency } = useUnits();
+
+  const { data: statistics, isLoading } = useQuery<Statistics>({
+    queryKey: ['/api/statistics'],
+  });
+  const currency = statistics?.currency ?? userCurrency;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Inventory */}
+      <div className="space-y-2 dark:bg-neutral-900 light:bg-gray-50 p-3 rounded-lg">
+        <h3 className="dark:text-neutral-400 light:text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1">{t('statistics.inventory')}</h3>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 light:text-gray-700">{t('statistics.totalSpools')}:</span>
+          <span className="font-medium dark:text-neutral-400 light:text-gray-800">
+            {isLoading ? "..." : statistics?.totalSpools || 0}
+          </span>
+        </div>
+        {(statistics?.archivedSpools ?? 0) > 0 && (
+          <div className="flex justify-between">
+            <span className="dark:text-neutral-300 text-gray-700">{t('statistics.archivedSpools')}:</span>
+            <span className="font-medium dark:text-neutral-400 text-gray-800">{statistics!.archivedSpools}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.totalWeight')}:</span>
+          <span className="font-medium dark:text-neutral-400 text-gray-800">
+            {isLoading ? "..." : `${statistics?.totalWeight || 0} kg`}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.remainingWeight')}:</span>
+          <span className="font-medium dark:text-neutral-400 text-gray-800">
+            {isLoading ? "..." : `${statistics?.remainingWeight || 0} kg`}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.averageRemaining')}:</span>
+          <span className="font-medium dark:text-neutral-400 text-gray-800">
+            {isLoading ? "..." : `${statistics?.averageRemaining || 0}%`}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.lowStockCount')} (&lt;25%):</span>
+          <span className="font-medium dark:text-neutral-400 text-gray-800">
+            {isLoading ? "..." : statistics?.lowStockCount || 0} {t('filaments.spools')}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.belowMinimumStock')}:</span>
+          <span className="font-medium dark:text-neutral-400 text-gray-800">
+            {isLoading ? "..." : statistics?.belowMinimumStock?.length || 0} {t('statistics.filamentTypes')}
+          </span>
+        </div>
+      </div>
+
+      {/* Material Distribution */}
+      <div className="space-y-2 dark:bg-neutral-900 light:bg-gray-50 p-4 rounded-lg overflow-hidden">
+        <h3 className="dark:text-neutral-400 light:text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mb-2">{t('statistics.materialDistribution')}</h3>
+        {!isLoading && statistics?.materialDistribution && statistics.materialDistribution.map((item) => (
+          <div key={item.name} className="grid grid-cols-12 items-center gap-2 min-w-0">
+            <span className="dark:text-neutral-300 light:text-gray-700 col-span-4 min-w-0">{item.name}:</span>
+            <div className="flex items-center col-span-6 min-w-0">
+              <div className="w-full h-1.5 dark:bg-neutral-800 light:bg-gray-200 rounded-full mr-2 overflow-hidden">
+                <div
+                  className="h-full theme-primary-bg"
+                  style={{ width: `${item.percentage}%` }}
+                />
+              </div>
+            </div>
+            <span className="font-medium dark:text-neutral-400 light:text-gray-800 col-span-2 text-right whitespace-nowrap pr-1">{item.percentage}%</span>
+          </div>
+        ))}
+
+        <h3 className="dark:text-neutral-400 light:text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mt-3">{t('statistics.topMaterials')}</h3>
+        <div className="flex flex-wrap gap-2">
+          {!isLoading && statistics?.topMaterials?.map((material) => (
+            <Badge
+              key={material}
+              variant="outline"
+              className="theme-badge dark:bg-neutral-800 dark:text-neutral-200 light:bg-gray-100 light:text-gray-800"
+            >
+              {material}
+            </Badge>
+          ))}
+          {isLoading && <span className="dark:text-neutral-400 light:text-gray-500">...</span>}
+        </div>
+
+        <h3 className="dark:text-neutral-400 text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mt-3">{t('statistics.topColors')}</h3>
+        <div className="flex flex-wrap gap-2">
+          {!isLoading && statistics?.topColors?.map((color) => (
+            <Badge
+              key={color}
+              variant="outline"
+              className="theme-badge dark:bg-neutral-800 dark:text-neutral-200 light:bg-gray-100 light:text-gray-800"
+            >
+              {color}
+            </Badge>
+          ))}
+          {isLoading && <span className="dark:text-neutral-400 text-gray-500">...</span>}
+        </div>
+      </div>
+
+      {/* Values and Age */}
+      <div className="space-y-2 dark:bg-neutral-900 light:bg-gray-50 p-3 rounded-lg">
+        <h3 className="dark:text-neutral-400 text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1">{t('statistics.materialValue')}</h3>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.estimatedRemainingValue')}:</span>
+          <span className="font-medium text-green-500 dark:text-green-400">
+            {isLoading ? "..." : formatCurrency(statistics?.estimatedValue || 0, currency)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.totalPurchaseValue')}:</span>
+          <span className="font-medium text-amber-500 dark:text-amber-400">
+            {isLoading ? "..." : formatCurrency(statistics?.totalPurchaseValue || 0, currency)}
+          </span>
+        </div>
+        {!isLoading && (statistics?.costPerKgByMaterial?.length ?? 0) > 0 && (
+          <>
+            <h3 className="dark:text-neutral-400 text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mt-3">{t('statistics.costPerKg')}</h3>
+            {statistics!.costPerKgByMaterial.slice(0, 3).map((entry) => (
+              <div key={entry.material} className="flex justify-between">
+                <span className="dark:text-neutral-300 text-gray-700">{entry.material}:</span>
+                <span className="font-medium dark:text-neutral-400 text-gray-800">
+                  {formatCurrency(entry.costPerKg, currency)}/kg
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+        {!isLoading && (statistics?.estimatedSpools ?? 0) > 0 && (
+          <p className="text-xs dark:text-neutral-500 text-gray-500">
+            {t('statistics.estimatedSpools', { count: statistics!.estimatedSpools })}
+          </p>
+        )}
+        {!isLoading && (statistics?.missingExchangeRates?.length ?? 0) > 0 && (
+          <p className="text-xs dark:text-neutral-500 text-gray-500">
+            {t('settings.exchangeRates.missingRates', { currencies: statistics!.missingExchangeRates.join(", ") })}
+          </p>
+        )}
+
+        <h3 className="dark:text-neutral-400 text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mt-3">{t('statistics.filamentAge')}</h3>
+        <div className="flex justify-between">
+          <span className="dark:text-neutral-300 text-gray-700">{t('statistics.average')}:</span>
+          <span className="font-medium dark:text-neutral-400 text-gray-800">
+            {isLoading ? "..." : `${statistics?.averageAge || 0} ${t('statistics.days')}`}
+          </span>
+        </div>
+        {statistics?.oldestFilament && (
+          <div className="flex justify-between">
+            <span className="dark:text-neutral-300 text-gray-700">{t('statistics.oldest')}:</span>
+            <span className="font-medium dark:text-neutral-400 text-gray-800" title={statistics.oldestFilament.name}>
+              {isLoading ? "..." : `${statistics.oldestFilament.days} ${t('statistics.days')}`}
+            </span>
+          </div>
+        )}
+        {statistics?.newestFilament && (
+          <div className="flex justify-between">
+            <span className="dark:text-neutral-300 text-gray-700">{t('statistics.newest')}:</span>
+            <span className="font-medium dark:text-neutral-400 text-gray-800" title={statistics.newestFilament.name}>
+              {isLoading ? "..." : `${statistics.newestFilament.days} ${t('statistics.days')}`}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
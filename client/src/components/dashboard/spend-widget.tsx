@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/i18n";
+import { formatCurrency, type Currency } from "@/lib/units";
+import { consumptionPeriods, spendSources } from "@shared/schema";
+import { MaterialFilterSelect, RangeSelect, WidgetCard, rangeFrom, statisticsUrl, withParam, type WidgetProps } from "./widget-card";
+
+interface SpendReport {
+  currency: Currency;
+  total: number;
+  buckets: { start: string; amount: number; purchases: number }[];
+  missingExchangeRates: string[];
+}
+
+// Params: source, period, rangeDays, material
+export function SpendWidget({ params, onParamsChange }: WidgetProps) {
+  const { t } = useTranslation();
+  const source = String(params.source ?? "spools");
+  const period = String(params.period ?? "month");
+
+  const { data: report } = useQuery<SpendReport>({
+    queryKey: [statisticsUrl("spend", {
+      source,
+      period,
+      from: rangeFrom(params.rangeDays),
+      material: params.material,
+    })],
+  });
+
+  return (
+    <WidgetCard
+      title={<>
+        {t('statistics.spend.title')}
+        {report && ` · ${formatCurrency(report.total, report.currency)}`}
+      </>}
+      controls={<>
+        <Select value={source} onValueChange={(value) => onParamsChange(withParam(params, "source", value))}>
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {spendSources.map((s) => (
+              <SelectItem key={s} value={s}>{t(`statistics.spend.sources.${s}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={(value) => onParamsChange(withParam(params, "period", value))}>
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {consumptionPeriods.map((p) => (
+              <SelectItem key={p} value={p}>{t(`statistics.consumption.periods.${p}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <RangeSelect value={params.rangeDays} onChange={(days) => onParamsChange(withParam(params, "rangeDays", days))} />
+        <MaterialFilterSelect value={params.material} onChange={(material) => onParamsChange(withParam(params, "material", material))} />
+      </>}
+    >
+      {report && report.total === 0 ? (
+        <p className="text-neutral-400 py-8 text-center">{t('statistics.spend.empty')}</p>
+      ) : (
+        <div className="h-[260px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={report?.buckets ?? []}>
+              <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+              <XAxis dataKey="start" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip formatter={(value: number) => formatCurrency(value, report?.currency ?? "EUR")} />
+              <Bar dataKey="amount" name={t('statistics.spend.title')} fill="#54A24B" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {(report?.missingExchangeRates.length ?? 0) > 0 && (
+        <p className="text-xs dark:text-neutral-500 text-gray-500">
+          {t('settings.exchangeRates.missingRates', { currencies: report!.missingExchangeRates.join(", ") })}
+        </p>
+      )}
+    </WidgetCard>
+  );
+}
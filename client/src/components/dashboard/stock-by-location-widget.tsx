@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "@/i18n";
+import { MaterialFilterSelect, WidgetCard, statisticsUrl, withParam, type WidgetProps } from "./widget-card";
+
+interface StockByLocation {
+  locations: { location: string | null; spools: number; totalKg: number; remainingKg: number }[];
+}
+
+// Params: material
+export function StockByLocationWidget({ params, onParamsChange }: WidgetProps) {
+  const { t } = useTranslation();
+
+  const { data } = useQuery<StockByLocation>({
+    queryKey: [statisticsUrl("stock-by-location", { material: params.material })],
+  });
+  const largest = Math.max(0, ...(data?.locations ?? []).map((entry) => entry.remainingKg));
+
+  return (
+    <WidgetCard
+      title={t('statistics.stockByLocation.title')}
+      controls={
+        <MaterialFilterSelect value={params.material} onChange={(material) => onParamsChange(withParam(params, "material", material))} />
+      }
+    >
+      {data && data.locations.length === 0 ? (
+        <p className="text-neutral-400">{t('statistics.stockByLocation.empty')}</p>
+      ) : (
+        data?.locations.map((entry) => (
+          <div key={entry.location ?? ""} className="space-y-1">
+            <div className="flex justify-between gap-2">
+              <span className="truncate dark:text-neutral-300 text-gray-700">
+                {entry.location ?? t('statistics.stockByLocation.noLocation')}
+              </span>
+              <span className="font-medium dark:text-neutral-400 text-gray-800 whitespace-nowrap">
+                {entry.remainingKg.toFixed(2)} kg · {entry.spools} {t('statistics.spools')}
+              </span>
+            </div>
+            <div className="w-full h-1.5 dark:bg-neutral-800 light:bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full theme-primary-bg"
+                style={{ width: `${largest > 0 ? (entry.remainingKg / largest) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </WidgetCard>
+  );
+}
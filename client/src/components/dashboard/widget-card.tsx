@@ -0,0 +1,94 @@
+import type { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/i18n";
+import type { Material } from "@shared/schema";
+
+// A widget's stored settings: its endpoint's query parameters, with the date
+// range as `rangeDays` back from today
+export type WidgetParams = Record<string, string | number>;
+
+export interface WidgetProps {
+  params: WidgetParams;
+  onParamsChange: (params: WidgetParams) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Select values can't be empty strings, so "no filter / default range" uses this
+const ANY = "any";
+
+const RANGE_OPTIONS = [30, 90, 180, 365];
+
+/** A statistics endpoint's URL with the given params, skipping unset ones. */
+export function statisticsUrl(path: string, params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  const queryString = query.toString();
+  return `/api/statistics/${path}${queryString ? `?${queryString}` : ""}`;
+}
+
+/** The `from` date for a widget's `rangeDays`; none leaves the endpoint's default range. */
+export function rangeFrom(rangeDays: string | number | undefined): string | undefined {
+  return rangeDays ? new Date(Date.now() - Number(rangeDays) * DAY_MS).toISOString().slice(0, 10) : undefined;
+}
+
+export function WidgetCard({ title, controls, children }: { title: ReactNode; controls?: ReactNode; children: ReactNode }) {
+  return (
+    <div className="space-y-2 dark:bg-neutral-900 light:bg-gray-50 p-3 rounded-lg h-full">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b dark:border-neutral-800 light:border-gray-200 pb-1">
+        <h3 className="dark:text-neutral-400 light:text-gray-700 font-medium">{title}</h3>
+        {controls && <div className="flex flex-wrap gap-2">{controls}</div>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export function RangeSelect({ value, onChange }: { value: string | number | undefined; onChange: (rangeDays: number | undefined) => void }) {
+  const { t } = useTranslation();
+  return (
+    <Select value={value ? String(value) : ANY} onValueChange={(v) => onChange(v === ANY ? undefined : Number(v))}>
+      <SelectTrigger className="h-8 w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{t('statistics.range.auto')}</SelectItem>
+        {RANGE_OPTIONS.map((days) => (
+          <SelectItem key={days} value={String(days)}>{t('statistics.range.days', { days })}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function MaterialFilterSelect({ value, onChange }: { value: string | number | undefined; onChange: (material: string | undefined) => void }) {
+  const { t } = useTranslation();
+  const { data: materials = [] } = useQuery<Material[]>({
+    queryKey: ["/api/materials"],
+  });
+
+  return (
+    <Select value={value ? String(value) : ANY} onValueChange={(v) => onChange(v === ANY ? undefined : v)}>
+      <SelectTrigger className="h-8 w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{t('statistics.filter.allMaterials')}</SelectItem>
+        {materials.map((material) => (
+          <SelectItem key={material.id} value={material.name}>{material.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** Sets or (for undefined) removes one param. */
+export function withParam(params: WidgetParams, key: string, value: string | number | undefined): WidgetParams {
+  const next = { ...params };
+  if (value === undefined) delete next[key];
+  else next[key] = value;
+  return next;
+}
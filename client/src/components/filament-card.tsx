@@ -1,8 +1,12 @@
 import { Filament } from "@shared/schema";
 import { FilamentSpool } from "@/components/ui/filament-spool";
 import { Card } from "@/components/ui/card";
-import { Copy, CheckCircle2, Printer } from "lucide-react";
+import { Copy, CheckCircle2, Printer, FileUp, Archive, ArchiveRestore, ArrowRightLeft } from "lucide-react";
 import { useTranslation } from "@/i18n";
+import { calculateFilamentLength } from "@/lib/units";
+import { useMaterialDensities } from "@/lib/use-material-densities";
+import { useLoadedSpools } from "@/lib/use-loaded-spools";
+import { Badge } from "@/components/ui/badge";
 import {
   Tooltip,
   TooltipContent,
@@ -16,6 +20,9 @@ interface FilamentCardProps {
   onDelete: (filament: Filament) => void;
   onCopy?: (filament: Filament) => void;
   onPrintLabel?: (filament: Filament) => void;
+  onUploadGcode?: (filament: Filament) => void;
+  onTransfer?: (filament: Filament) => void;
+  onArchive?: (filament: Filament) => void; // archives, or unarchives an archived spool
   readOnly?: boolean;
   selectable?: boolean;
   selected?: boolean;
@@ -28,6 +35,9 @@ export function FilamentCard({
   onDelete,
   onCopy,
   onPrintLabel,
+  onUploadGcode,
+  onTransfer,
+  onArchive,
   readOnly = false,
   selectable = false,
   selected = false,
@@ -38,6 +48,14 @@ export function FilamentCard({
   const totalWeight = Number(filament.totalWeight);
   const remainingPercentage = Number(filament.remainingPercentage);
   const remainingWeight = (totalWeight * remainingPercentage) / 100;
+  // Materials are only readable when signed in, so shared (readOnly) views skip the length
+  const densities = useMaterialDensities(!readOnly);
+  const remainingLength = calculateFilamentLength(
+    remainingWeight * 1000,
+    filament.diameter,
+    densities.get(filament.material)
+  );
+  const loadedIn = useLoadedSpools(!readOnly).get(filament.id);
 
   // Determine color for the progress bar
   const getProgressColor = (percentage: number) => {
@@ -60,7 +78,7 @@ export function FilamentCard({
   return (
     <TooltipProvider delayDuration={300}>
       <Card
-        className={`filament-card card-hover dark:bg-neutral-800 bg-white ${selectable ? 'cursor-pointer' : ''} ${selected ? 'ring-2 ring-primary' : ''}`}
+        className={`filament-card card-hover dark:bg-neutral-800 bg-white ${selectable ? 'cursor-pointer' : ''} ${selected ? 'ring-2 ring-primary' : ''} ${filament.archivedAt ? 'opacity-70' : ''}`}
         onClick={selectable ? handleCardClick : undefined}
       >
         <div className="p-4 border-b dark:border-neutral-700 border-gray-200">
@@ -117,6 +135,45 @@ export function FilamentCard({
                   <Printer size={16} />
                 </button>
               )}
+              {onUploadGcode && (
+                <button
+                  className="dark:text-neutral-400 text-gray-500 hover:text-secondary p-1 rounded-full hover:bg-secondary/10 transition-colors"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onUploadGcode(filament);
+                  }}
+                  title={t('gcodeUpload.title')}
+                  aria-label={t('gcodeUpload.title')}
+                >
+                  <FileUp size={16} />
+                </button>
+              )}
+              {onTransfer && (
+                <button
+                  className="dark:text-neutral-400 text-gray-500 hover:text-secondary p-1 rounded-full hover:bg-secondary/10 transition-colors"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onTransfer(filament);
+                  }}
+                  title={t('transfer.title')}
+                  aria-label={t('transfer.title')}
+                >
+                  <ArrowRightLeft size={16} />
+                </button>
+              )}
+              {onArchive && (
+                <button
+                  className="dark:text-neutral-400 text-gray-500 hover:text-secondary p-1 rounded-full hover:bg-secondary/10 transition-colors"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onArchive(filament);
+                  }}
+                  title={filament.archivedAt ? t('filaments.unarchive') : t('filaments.archive')}
+                  aria-label={filament.archivedAt ? t('filaments.unarchive') : t('filaments.archive')}
+                >
+                  {filament.archivedAt ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                </button>
+              )}
               <button
                 className="dark:text-neutral-400 text-gray-500 hover:text-primary p-1 rounded-full hover:bg-primary/10 transition-colors"
                 onClick={(e) => {
@@ -170,6 +227,14 @@ export function FilamentCard({
           )}
         </div>
         <div className="text-sm dark:text-neutral-400 text-gray-500 mt-1 truncate" title={filament.manufacturer || "-"}>{filament.manufacturer || "-"}</div>
+        {loadedIn && (
+          <Badge variant="secondary" className="mt-2" title={t('filaments.loadedInPrinter')}>
+            {loadedIn.printerName} · T{loadedIn.toolIndex}
+          </Badge>
+        )}
+        {filament.archivedAt && (
+          <Badge variant="outline" className="mt-2">{t('filaments.archived')}</Badge>
+        )}
       </div>
 
       <div className="p-4">
@@ -193,7 +258,10 @@ export function FilamentCard({
               ></div>
             </div>
             <div className="flex justify-between text-xs mt-2 dark:text-neutral-300 text-gray-600 font-medium">
-              <span>{remainingWeight.toFixed(2)}kg {t('filters.available')}</span>
+              <span>
+                {remainingWeight.toFixed(2)}kg
+                {remainingLength !== null && ` (~${remainingLength.toFixed(1)}m)`} {t('filters.available')}
+              </span>
               <span>{t('filters.of')} {totalWeight}kg {t('filters.total')}</span>
             </div>
           </div>
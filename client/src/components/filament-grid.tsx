@@ -13,6 +13,9 @@ interface FilamentGridProps {
   onDeleteFilament: (filament: Filament) => void;
   onCopyFilament?: (filament: Filament) => void;
   onPrintLabel?: (filament: Filament) => void;
+  onUploadGcode?: (filament: Filament) => void;
+  onTransferFilament?: (filament: Filament) => void;
+  onArchiveFilament?: (filament: Filament) => void;
   selectable?: boolean;
   selectedFilaments?: Filament[];
   onSelectFilament?: (filament: Filament) => void;
@@ -29,6 +32,9 @@ export function FilamentGrid({
   onDeleteFilament,
   onCopyFilament,
   onPrintLabel,
+  onUploadGcode,
+  onTransferFilament,
+  onArchiveFilament,
   selectable = false,
   selectedFilaments = [],
   onSelectFilament,
@@ -140,6 +146,9 @@ export function FilamentGrid({
               onDelete={onDeleteFilament}
               onCopy={onCopyFilament}
               onPrintLabel={onPrintLabel}
+              onUploadGcode={onUploadGcode}
+              onTransfer={onTransferFilament}
+              onArchive={onArchiveFilament}
               selectable={selectable}
               selected={selectedFilaments.some(f => f.id === filament.id)}
               onSelect={onSelectFilament}
@@ -177,6 +186,9 @@ export function FilamentGrid({
           onDeleteFilament={onDeleteFilament}
           onCopyFilament={onCopyFilament}
           onPrintLabel={onPrintLabel}
+          onUploadGcode={onUploadGcode}
+          onTransferFilament={onTransferFilament}
+          onArchiveFilament={onArchiveFilament}
           selectable={selectable}
           selectedFilaments={selectedFilaments}
           onSelectFilament={onSelectFilament}
@@ -1,15 +1,16 @@
 import { useState, useEffect } from "react";
-import { Filament, InsertFilament, insertFilamentSchema } from "@shared/schema";
+import { Filament, InsertFilament, insertFilamentSchema, supportedCurrencies } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { format } from "date-fns";
 import { de, enUS } from "date-fns/locale";
-import { CalendarIcon, Scan, ScanFace, Copy } from "lucide-react";
+import { CalendarIcon, Scan, ScanFace, Copy, Undo2, Scale } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
 
 // Material types will be created with translations in the component
 const createMaterialTypes = (t: (key: string) => string) => [
@@ -149,7 +150,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { QRScanner } from "./qr-scanner";
 import { NFCScanner } from "./nfc-scanner";
 import { useUnits } from "@/lib/use-units";
-import { formatCurrency, formatTemperature, getTemperatureUnitSymbol, convertTemperature } from "@/lib/units";
+import { formatTemperature, getTemperatureUnitSymbol, convertTemperature, calculateFilamentLength } from "@/lib/units";
+import { locationsInTreeOrder } from "@/lib/storage-locations";
 
 // Create a custom schema for the form with translations
 const createFormSchema = (t: (key: string) => string) => z.object({
@@ -161,9 +163,11 @@ const createFormSchema = (t: (key: string) => string) => z.object({
   diameter: z.number().optional(),
   printTemp: z.string().optional(),
   totalWeight: z.number().min(0.1, t('filaments.weightRequired')),
+  spoolWeight: z.number().min(0).optional(),
   remainingPercentage: z.number().min(0).max(100),
   purchaseDate: z.date().optional(),
   purchasePrice: z.number().min(0).optional(),
+  purchaseCurrency: z.string().optional(), // empty means the user's currency
   status: z.enum(["sealed", "opened"]),
   spoolType: z.enum(["spooled", "spoolless"]),
   dryerCount: z.number().min(0).default(0),
@@ -186,6 +190,7 @@ interface FilamentModalProps {
 interface Manufacturer {
   id: number;
   name: string;
+  spoolWeight: string | null;
   createdAt: string;
 }
 
@@ -213,6 +218,7 @@ interface CommunityFilamentResult {
   diameter: string | null;
   extruderTemp: number | null;
   bedTemp: number | null;
+  spoolWeight: string | null;
 }
 
 interface CustomFieldDefinition {
@@ -227,6 +233,16 @@ interface FilamentUsageLogEntry {
   remainingPercentageAfter: string;
   note: string | null;
   source: string;
+  revertsLogId: number | null;
+  transferLogId: number | null;
+  createdAt: string;
+}
+
+interface FilamentLocationLogEntry {
+  id: number;
+  fromLocation: string | null;
+  toLocation: string | null;
+  source: string;
   createdAt: string;
 }
 
@@ -238,6 +254,8 @@ export function FilamentModal({
 }: FilamentModalProps) {
   const { t, language } = useTranslation();
   const { currency, temperatureUnit } = useUnits();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const isEditing = !!filament;
   const [remainingPercentage, setRemainingPercentage] = useState(100);
   const [totalWeight, setTotalWeight] = useState<number | string>(1);
@@ -246,6 +264,7 @@ export function FilamentModal({
   const [showNFCScanner, setShowNFCScanner] = useState(false);
   const [usageNote, setUsageNote] = useState("");
   const [showHistory, setShowHistory] = useState(false);
+  const [grossWeight, setGrossWeight] = useState("");
   const [customFieldValues, setCustomFieldValues] = useState<Record<string, any>>({});
   const [communitySearchQuery, setCommunitySearchQuery] = useState("");
 
@@ -261,6 +280,55 @@ export function FilamentModal({
     enabled: isOpen && isEditing && !!filament?.id && showHistory,
   });
 
+  // Entries that already have a compensating revert entry
+  const { data: locationLog = [] } = useQuery<FilamentLocationLogEntry[]>({
+    queryKey: [`/api/filaments/${filament?.id}/location-log`],
+    queryFn: () => apiRequest<FilamentLocationLogEntry[]>(`/api/filaments/${filament?.id}/location-log`),
+    enabled: isOpen && isEditing && !!filament?.id && showHistory,
+  });
+
+  const revertedLogIds = new Set(usageLog.map((entry) => entry.revertsLogId).filter((id): id is number => id !== null));
+
+  const revertMutation = useMutation({
+    mutationFn: (logId: number) =>
+      apiRequest<{ filament: Filament }>(`/api/filaments/${filament?.id}/usage-log/${logId}/revert`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      }),
+    onSuccess: ({ filament: updated }) => {
+      const percentage = Number(updated.remainingPercentage);
+      form.setValue("remainingPercentage", percentage);
+      setRemainingPercentage(percentage);
+      queryClient.invalidateQueries({ queryKey: [`/api/filaments/${filament?.id}/usage-log`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+      toast({ title: t('filaments.revertSuccess') });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('filaments.revertError'), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const weighMutation = useMutation({
+    mutationFn: (body: { grossWeight: number; spoolWeight?: number }) =>
+      apiRequest<{ filament: Filament }>(`/api/filaments/${filament?.id}/weigh`, {
+        method: "POST",
+        body: JSON.stringify({ ...body, note: usageNote.trim() || undefined }),
+      }),
+    onSuccess: ({ filament: updated }) => {
+      const percentage = Number(updated.remainingPercentage);
+      form.setValue("remainingPercentage", percentage);
+      setRemainingPercentage(percentage);
+      setGrossWeight("");
+      setUsageNote("");
+      queryClient.invalidateQueries({ queryKey: [`/api/filaments/${filament?.id}/usage-log`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+      toast({ title: t('filaments.weighSuccess', { percentage: percentage.toFixed(1) }) });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('filaments.weighError'), description: error.message, variant: "destructive" });
+    },
+  });
+
   const { data: customFieldDefinitions = [] } = useQuery<CustomFieldDefinition[]>({
     queryKey: ['/api/custom-fields'],
     queryFn: () => apiRequest<CustomFieldDefinition[]>('/api/custom-fields'),
@@ -304,12 +372,12 @@ export function FilamentModal({
   // Lagerorte aus der Datenbank
   const { data: storageLocationData = [] } = useQuery({
     queryKey: ['/api/storage-locations'],
-    queryFn: () => apiRequest<{id: number, name: string}[]>('/api/storage-locations'),
+    queryFn: () => apiRequest<{id: number, name: string, parentId: number | null}[]>('/api/storage-locations'),
     enabled: isOpen
   });
 
-  // Extract storage location names
-  const storageLocations = storageLocationData.map(loc => loc.name);
+  // Nested locations are listed below their parent
+  const storageLocations = locationsInTreeOrder(storageLocationData);
 
   // Setup form with default values or editing values
   const form = useForm<FormValues>({
@@ -323,9 +391,11 @@ export function FilamentModal({
       diameter: filament?.diameter ? Number(filament.diameter) : 1.75,
       printTemp: filament?.printTemp || "",
       totalWeight: filament?.totalWeight ? Number(filament.totalWeight) : 1,
+      spoolWeight: filament?.spoolWeight ? Number(filament.spoolWeight) : undefined,
       remainingPercentage: filament?.remainingPercentage ? Number(filament.remainingPercentage) : 100,
       purchaseDate: filament?.purchaseDate ? new Date(filament.purchaseDate) : undefined,
       purchasePrice: filament?.purchasePrice ? Number(filament.purchasePrice) : undefined,
+      purchaseCurrency: filament?.purchaseCurrency || "",
       status: (filament?.status as any) || undefined,
       spoolType: (filament?.spoolType as any) || undefined,
       dryerCount: filament?.dryerCount || 0,
@@ -346,9 +416,11 @@ export function FilamentModal({
         diameter: Number(filament.diameter),
         printTemp: filament.printTemp || "",
         totalWeight: Number(filament.totalWeight),
+        spoolWeight: filament.spoolWeight ? Number(filament.spoolWeight) : undefined,
         remainingPercentage: Number(filament.remainingPercentage),
         purchaseDate: filament.purchaseDate ? new Date(filament.purchaseDate) : undefined,
         purchasePrice: filament.purchasePrice ? Number(filament.purchasePrice) : undefined,
+        purchaseCurrency: filament.purchaseCurrency || "",
         status: (filament.status as any) || undefined,
         spoolType: (filament.spoolType as any) || undefined,
         dryerCount: filament.dryerCount || 0,
@@ -373,9 +445,11 @@ export function FilamentModal({
         diameter: 1.75,
         printTemp: "",
         totalWeight: 1,
+        spoolWeight: undefined,
         remainingPercentage: 100,
         purchaseDate: undefined,
         purchasePrice: undefined,
+        purchaseCurrency: "",
         status: undefined,
         spoolType: undefined,
         dryerCount: 0,
@@ -387,6 +461,7 @@ export function FilamentModal({
       setCustomWeightVisible(false);
     }
     setUsageNote("");
+    setGrossWeight("");
     setShowHistory(false);
     setCustomFieldValues((filament?.customFieldValues as Record<string, any>) || {});
   }, [filament, form]);
@@ -398,7 +473,11 @@ export function FilamentModal({
       data.totalWeight = totalWeight;
     }
 
-    const withCustomFields = { ...data, customFieldValues };
+    // The tare lives on the filament type shared by identical spools, so an
+    // empty field only clears it when this spool's tare was emptied
+    const spoolWeight = data.spoolWeight ?? (filament?.spoolWeight ? null : undefined);
+    const purchaseCurrency = data.purchaseCurrency || currency;
+    const withCustomFields = { ...data, spoolWeight, purchaseCurrency, customFieldValues };
     onSave(usageNote.trim() ? { ...withCustomFields, note: usageNote.trim() } : withCustomFields);
   };
 
@@ -409,6 +488,7 @@ export function FilamentModal({
     form.setValue('colorName', result.colorName);
     if (result.colorCode) form.setValue('colorCode', result.colorCode);
     if (result.diameter) form.setValue('diameter', Number(result.diameter));
+    if (result.spoolWeight) form.setValue('spoolWeight', Number(result.spoolWeight));
     if (result.extruderTemp) {
       form.setValue('printTemp', result.bedTemp
         ? `${result.extruderTemp}°C / Bed ${result.bedTemp}°C`
@@ -430,15 +510,28 @@ export function FilamentModal({
   const calculateRemainingLength = (): string | null => {
     const materialName = form.watch('material');
     const density = materials.find((m) => m.name === materialName)?.density;
-    const diameterMm = form.watch('diameter');
-    if (!density || !diameterMm) return null;
-
     const remainingWeightGrams = Number(calculateRemainingWeight()) * 1000;
-    const densityGCm3 = Number(density);
-    const radiusCm = (diameterMm / 10) / 2;
-    const crossSectionAreaCm2 = Math.PI * radiusCm * radiusCm;
-    const lengthCm = (remainingWeightGrams / densityGCm3) / crossSectionAreaCm2;
-    return (lengthCm / 100).toFixed(1);
+    const lengthM = calculateFilamentLength(remainingWeightGrams, form.watch('diameter'), density);
+    return lengthM !== null ? lengthM.toFixed(1) : null;
+  };
+
+  // Typical empty spool weight of the selected manufacturer, used when the
+  // spool has no tare of its own
+  const manufacturerSpoolWeight = (): number | undefined => {
+    const manufacturerName = form.watch('manufacturer');
+    const tare = manufacturers.find((m) => m.name === manufacturerName)?.spoolWeight;
+    return tare ? Number(tare) : undefined;
+  };
+
+  const weighInTare = (): number | undefined => form.watch('spoolWeight') ?? manufacturerSpoolWeight();
+
+  // Remaining % a gross scale reading would set, for the preview next to the input
+  const weighInPercentage = (): number | null => {
+    const tare = weighInTare();
+    const gross = parseFloat(grossWeight);
+    const total = typeof totalWeight === 'number' ? totalWeight : parseFloat(String(totalWeight)) || 0;
+    if (tare === undefined || !(gross > 0) || total <= 0) return null;
+    return Math.min(100, Math.max(0, ((gross - tare) / (total * 1000)) * 100));
   };
 
   // Handle total weight selection
@@ -946,6 +1039,64 @@ export function FilamentModal({
                       )}
                     </div>
 
+                    <FormField
+                      control={form.control}
+                      name="spoolWeight"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('filaments.spoolWeight')} (g)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="1"
+                              min="0"
+                              placeholder={manufacturerSpoolWeight()?.toString() ?? t('filaments.spoolWeightPlaceholder')}
+                              value={field.value !== undefined ? field.value : ''}
+                              onChange={(e) => {
+                                const value = e.target.value !== '' ? parseFloat(e.target.value) : undefined;
+                                field.onChange(value);
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {isEditing && (
+                      <div>
+                        <label className="text-sm dark:text-neutral-300 text-gray-600 mb-1 block">
+                          {t('filaments.weighSpool')} (g)
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            step="1"
+                            min="0"
+                            placeholder={t('filaments.grossWeightPlaceholder')}
+                            value={grossWeight}
+                            onChange={(e) => setGrossWeight(e.target.value)}
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            disabled={weighInPercentage() === null || weighMutation.isPending}
+                            onClick={() => weighMutation.mutate({ grossWeight: parseFloat(grossWeight), spoolWeight: weighInTare() })}
+                            title={t('filaments.weighSpoolApply')}
+                          >
+                            <Scale className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <p className="text-xs dark:text-neutral-400 text-gray-500 mt-1">
+                          {weighInTare() === undefined
+                            ? t('filaments.weighSpoolNoTare')
+                            : weighInPercentage() !== null
+                              ? t('filaments.weighSpoolPreview', { percentage: weighInPercentage()!.toFixed(1), tare: weighInTare()! })
+                              : t('filaments.weighSpoolHint', { tare: weighInTare()! })}
+                        </p>
+                      </div>
+                    )}
+
                     <FormField
                       control={form.control}
                       name="remainingPercentage"
@@ -1017,15 +1168,57 @@ export function FilamentModal({
                               </p>
                             ) : (
                               usageLog.map((entry) => (
-                                <div key={entry.id} className="text-sm flex justify-between gap-2 dark:text-neutral-300 text-gray-700">
+                                <div
+                                  key={entry.id}
+                                  className={cn(
+                                    "text-sm flex justify-between items-center gap-2 dark:text-neutral-300 text-gray-700",
+                                    revertedLogIds.has(entry.id) && "line-through opacity-60"
+                                  )}
+                                >
                                   <span>{new Date(entry.createdAt).toLocaleString()}</span>
                                   <span className="font-medium">
                                     {Number(entry.deltaWeight) > 0 ? '+' : ''}{Number(entry.deltaWeight).toFixed(1)}g → {entry.remainingPercentageAfter}%
                                   </span>
                                   {entry.note && <span className="italic dark:text-neutral-400 text-gray-500 truncate">{entry.note}</span>}
+                                  {entry.transferLogId !== null ? (
+                                    <span className="text-xs dark:text-neutral-500 text-gray-400 flex-shrink-0">
+                                      {t('filaments.transferEntry')}
+                                    </span>
+                                  ) : entry.revertsLogId === null && !revertedLogIds.has(entry.id) ? (
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-6 w-6 flex-shrink-0"
+                                      title={t('filaments.revertUsage')}
+                                      disabled={revertMutation.isPending}
+                                      onClick={() => revertMutation.mutate(entry.id)}
+                                    >
+                                      <Undo2 className="h-3 w-3" />
+                                    </Button>
+                                  ) : (
+                                    <span className="text-xs dark:text-neutral-500 text-gray-400 flex-shrink-0">
+                                      {entry.revertsLogId !== null ? t('filaments.revertEntry') : t('filaments.reverted')}
+                                    </span>
+                                  )}
                                 </div>
                               ))
                             )}
+                            {locationLog.length > 0 && (
+                              <>
+                                <p className="pt-2 text-xs font-medium dark:text-neutral-400 text-gray-500">
+                                  {t('filaments.locationHistory')}
+                                </p>
+                                {locationLog.map((move) => (
+                                  <div key={move.id} className="text-sm flex justify-between items-center gap-2 dark:text-neutral-300 text-gray-700">
+                                    <span>{new Date(move.createdAt).toLocaleString()}</span>
+                                    <span className="truncate">
+                                      {move.fromLocation ?? '-'} → {move.toLocation ?? '-'}
+                                    </span>
+                                  </div>
+                                ))}
+                              </>
+                            )}
                           </div>
                         )}
                       </div>
@@ -1083,20 +1276,37 @@ export function FilamentModal({
                       name="purchasePrice"
                       render={({ field }) => (
                         <FormItem className="flex flex-col">
-                          <FormLabel>{t('filaments.purchasePrice')} ({formatCurrency(0, currency).replace('0', '').trim()})</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            step="0.01"
-                            min="0"
-                            placeholder={t('filaments.purchasePricePlaceholder')}
-                            value={field.value !== undefined ? field.value : ''}
-                            onChange={(e) => {
-                              const value = e.target.value !== '' ? parseFloat(e.target.value) : undefined;
-                              field.onChange(value);
-                            }}
-                          />
-                        </FormControl>
+                          <FormLabel>{t('filaments.purchasePrice')}</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              placeholder={t('filaments.purchasePricePlaceholder')}
+                              value={field.value !== undefined ? field.value : ''}
+                              onChange={(e) => {
+                                const value = e.target.value !== '' ? parseFloat(e.target.value) : undefined;
+                                field.onChange(value);
+                              }}
+                            />
+                          </FormControl>
+                          <Select
+                            value={form.watch('purchaseCurrency') || currency}
+                            onValueChange={(value) => form.setValue('purchaseCurrency', value)}
+                          >
+                            <SelectTrigger className="w-28" aria-label={t('filaments.purchaseCurrency')}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {supportedCurrencies.map((c) => (
+                                <SelectItem key={c} value={c}>
+                                  {c}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -1136,12 +1346,13 @@ export function FilamentModal({
                                 }}
                               />
                             </div>
-                            {storageLocations.map((location) => (
+                            {storageLocations.map(({ location, depth }) => (
                               <SelectItem
-                                key={location}
-                                value={location}
+                                key={location.id}
+                                value={location.name}
+                                style={{ paddingLeft: `${2 + depth}rem` }}
                               >
-                                {location}
+                                {location.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -10,9 +10,12 @@ import {
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { FilamentSpool } from "@/components/ui/filament-spool";
-import { Copy, ArrowUp, ArrowDown, Pencil, Trash2, CheckCircle2, Circle, Printer } from "lucide-react";
+import { Copy, ArrowUp, ArrowDown, Pencil, Trash2, CheckCircle2, Circle, Printer, FileUp, Archive, ArchiveRestore, ArrowRightLeft } from "lucide-react";
 import { useTranslation } from "@/i18n";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { calculateFilamentLength } from "@/lib/units";
+import { useMaterialDensities } from "@/lib/use-material-densities";
 
 interface FilamentTableProps {
   filaments: Filament[];
@@ -20,6 +23,9 @@ interface FilamentTableProps {
   onDeleteFilament: (filament: Filament) => void;
   onCopyFilament?: (filament: Filament) => void;
   onPrintLabel?: (filament: Filament) => void;
+  onUploadGcode?: (filament: Filament) => void;
+  onTransferFilament?: (filament: Filament) => void;
+  onArchiveFilament?: (filament: Filament) => void;
   selectable?: boolean;
   selectedFilaments?: Filament[];
   onSelectFilament?: (filament: Filament) => void;
@@ -36,6 +42,9 @@ export function FilamentTable({
   onDeleteFilament,
   onCopyFilament,
   onPrintLabel,
+  onUploadGcode,
+  onTransferFilament,
+  onArchiveFilament,
   selectable = false,
   selectedFilaments = [],
   onSelectFilament,
@@ -45,6 +54,7 @@ export function FilamentTable({
   const { t } = useTranslation();
   const [sortColumn, setSortColumn] = useState<SortColumn>("name");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+  const densities = useMaterialDensities();
 
   // Function to handle column sorting
   const handleSort = (column: SortColumn) => {
@@ -111,6 +121,15 @@ export function FilamentTable({
     return "bg-green-500";
   };
 
+  // Remaining weight in grams, plus metres when the material density is known
+  const remainingLabel = (filament: Filament) => {
+    const remainingGrams = Number(filament.totalWeight) * Number(filament.remainingPercentage) * 10;
+    const lengthM = calculateFilamentLength(remainingGrams, filament.diameter, densities.get(filament.material));
+    return lengthM !== null
+      ? `${Math.round(remainingGrams)}g · ${lengthM.toFixed(1)}m`
+      : `${Math.round(remainingGrams)}g`;
+  };
+
   // Render sort indicator
   const renderSortIndicator = (column: SortColumn) => {
     if (column !== sortColumn) return null;
@@ -217,7 +236,12 @@ export function FilamentTable({
                       />
                     </TableCell>
                   )}
-                  <TableCell className="font-medium">{filament.name}</TableCell>
+                  <TableCell className="font-medium">
+                    {filament.name}
+                    {filament.archivedAt && (
+                      <Badge variant="outline" className="ml-2">{t('filaments.archived')}</Badge>
+                    )}
+                  </TableCell>
                 <TableCell>{filament.manufacturer || "-"}</TableCell>
                 <TableCell>{filament.material || "-"}</TableCell>
                 <TableCell>
@@ -239,7 +263,12 @@ export function FilamentTable({
                         ></div>
                       </div>
                     </div>
-                    <span>{filament.remainingPercentage}%</span>
+                    <div className="flex flex-col">
+                      <span>{filament.remainingPercentage}%</span>
+                      <span className="text-xs dark:text-neutral-400 text-gray-500">
+                        {remainingLabel(filament)}
+                      </span>
+                    </div>
                   </div>
                 </TableCell>
                 <TableCell>
@@ -273,6 +302,42 @@ export function FilamentTable({
                         <Printer className="h-4 w-4" />
                       </Button>
                     )}
+                    {onUploadGcode && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onUploadGcode(filament)}
+                        title={t('gcodeUpload.title')}
+                        aria-label={t('gcodeUpload.title')}
+                        className="h-8 w-8"
+                      >
+                        <FileUp className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onTransferFilament && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onTransferFilament(filament)}
+                        title={t('transfer.title')}
+                        aria-label={t('transfer.title')}
+                        className="h-8 w-8"
+                      >
+                        <ArrowRightLeft className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onArchiveFilament && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onArchiveFilament(filament)}
+                        title={filament.archivedAt ? t('filaments.unarchive') : t('filaments.archive')}
+                        aria-label={filament.archivedAt ? t('filaments.unarchive') : t('filaments.archive')}
+                        className="h-8 w-8"
+                      >
+                        {filament.archivedAt ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
@@ -1,8 +1,9 @@
 import { useState, useEffect, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Filament } from "@shared/schema";
+import { Filament, StorageLocation } from "@shared/schema";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -28,6 +29,7 @@ import {
 import { Check, ChevronDown, ChevronsUpDown, X, Search, Plus } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useTranslation } from "@/i18n";
+import { locationSubtreeNames, locationsInTreeOrder } from "@/lib/storage-locations";
 
 interface MaterialDistribution {
   name: string;
@@ -69,6 +71,10 @@ interface FilterSidebarProps {
   onMinRemaining: (value: number) => void;
   onManufacturerChange: (manufacturers: string[]) => void;
   onColorChange: (colors: string[]) => void;
+  // Names of the selected location and everything below it; empty for all
+  onStorageLocationChange?: (locations: string[]) => void;
+  showArchived?: boolean;
+  onShowArchivedChange?: (show: boolean) => void;
   filaments?: Filament[];
 }
 
@@ -78,6 +84,9 @@ export function FilterSidebar({
   onMinRemaining,
   onManufacturerChange,
   onColorChange,
+  onStorageLocationChange,
+  showArchived = false,
+  onShowArchivedChange,
   filaments = []
 }: FilterSidebarProps) {
   const { t } = useTranslation();
@@ -86,6 +95,7 @@ export function FilterSidebar({
   const [selectedManufacturers, setSelectedManufacturers] = useState<string[]>([]);
   const [selectedColors, setSelectedColors] = useState<string[]>([]);
   const [minRemaining, setMinRemaining] = useState(0);
+  const [selectedLocationId, setSelectedLocationId] = useState<number | null>(null);
 
   // Laden der Hersteller, Materialien und Farben aus der Datenbank
   const { data: manufacturers = [], isLoading: isLoadingManufacturers } = useQuery({
@@ -103,6 +113,13 @@ export function FilterSidebar({
     queryFn: () => apiRequest<Color[]>('/api/colors')
   });
 
+  const { data: storageLocationData } = useQuery({
+    queryKey: ['/api/storage-locations'],
+    queryFn: () => apiRequest<StorageLocation[]>('/api/storage-locations'),
+    enabled: !!onStorageLocationChange
+  });
+  const storageLocations = storageLocationData ?? [];
+
   // Filter manufacturers, materials, and colors to only show those that exist in actual filaments
   const availableManufacturers = useMemo(() => {
     if (filaments.length === 0) return [];
@@ -155,6 +172,12 @@ export function FilterSidebar({
     onMinRemaining(minRemaining);
   }, [minRemaining, onMinRemaining]);
 
+  useEffect(() => {
+    onStorageLocationChange?.(
+      selectedLocationId === null ? [] : locationSubtreeNames(storageLocationData ?? [], selectedLocationId)
+    );
+  }, [selectedLocationId, storageLocationData, onStorageLocationChange]);
+
   // Handle material selection/deselection
   const handleMaterialSelect = (material: string) => {
     setSelectedMaterials(prev => {
@@ -482,6 +505,29 @@ export function FilterSidebar({
         </div>
       </div>
 
+      {onStorageLocationChange && storageLocations.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-lg font-medium dark:text-neutral-400 text-gray-700 mb-3">{t('filters.storageLocationFilter')}</h2>
+          <Select
+            value={selectedLocationId === null ? "all" : String(selectedLocationId)}
+            onValueChange={(value) => setSelectedLocationId(value === "all" ? null : Number(value))}
+          >
+            <SelectTrigger className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-200 bg-white border-gray-300 text-gray-800">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('filters.allStorageLocations')}</SelectItem>
+              {locationsInTreeOrder(storageLocations).map(({ location, depth }) => (
+                <SelectItem key={location.id} value={String(location.id)} style={{ paddingLeft: `${2 + depth}rem` }}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs dark:text-neutral-400 text-gray-600 mt-2">{t('filters.storageLocationSubtree')}</p>
+        </div>
+      )}
+
       <div className="mb-6">
         <h2 className="text-lg font-medium dark:text-neutral-400 text-gray-700 mb-3">{t('filters.inventory')}</h2>
         <div className="space-y-3">
@@ -504,6 +550,12 @@ export function FilterSidebar({
               {t('filters.showFilamentsWithMax')} {minRemaining}% {t('filters.fillLevel')}
             </div>
           </div>
+          {onShowArchivedChange && (
+            <label className="flex items-center justify-between gap-2 dark:text-neutral-400 text-gray-700">
+              {t('filters.showArchived')}
+              <Switch checked={showArchived} onCheckedChange={onShowArchivedChange} />
+            </label>
+          )}
         </div>
       </div>
     </aside>
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { useMaterialDensities } from "@/lib/use-material-densities";
+import { calculateFilamentWeight } from "@/lib/units";
+import type { Filament } from "@shared/schema";
+
+interface ExtruderUsage {
+  tool: number;
+  grams: number | null;
+  lengthMm: number | null;
+}
+
+interface GcodePreview {
+  fileName: string;
+  slicer: string | null;
+  extruders: ExtruderUsage[];
+}
+
+interface GcodeUploadModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The spool the file was uploaded against; preselected for the first extruder
+  filament?: Filament;
+}
+
+// Select values can't be empty strings, so skipped extruders use this
+const SKIP = "skip";
+
+// apiRequest always sends JSON, so the file goes through fetch directly
+async function uploadForPreview(file: File): Promise<GcodePreview> {
+  const res = await fetch(`/api/print-jobs/gcode/preview?fileName=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.message || res.statusText);
+  }
+  return data;
+}
+
+export function GcodeUploadModal({ open, onOpenChange, filament }: GcodeUploadModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const densities = useMaterialDensities(open);
+  const [preview, setPreview] = useState<GcodePreview | null>(null);
+  const [assignments, setAssignments] = useState<Record<number, string>>({});
+  const [name, setName] = useState("");
+  const [printerName, setPrinterName] = useState("");
+
+  const { data: filaments = [] } = useQuery({
+    queryKey: ["/api/filaments"],
+    queryFn: () => apiRequest<Filament[]>("/api/filaments"),
+    enabled: open,
+  });
+
+  // Start over whenever the modal is reopened
+  useEffect(() => {
+    if (open) {
+      setPreview(null);
+      setAssignments({});
+      setName("");
+      setPrinterName("");
+    }
+  }, [open]);
+
+  const previewMutation = useMutation({
+    mutationFn: uploadForPreview,
+    onSuccess: (result) => {
+      setPreview(result);
+      setName(result.fileName.replace(/\.(gcode|3mf)$/i, ""));
+      // The spool the upload was started from takes the first extruder
+      setAssignments(
+        filament && result.extruders.length > 0 ? { [result.extruders[0].tool]: String(filament.id) } : {}
+      );
+    },
+    onError: (error: Error) => {
+      toast({ title: t("gcodeUpload.previewError"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filamentsById = new Map(filaments.map((f) => [f.id, f]));
+
+  // Grams to deduct for an extruder: the slicer's figure, or its length
+  // converted with the assigned spool's density and diameter
+  const estimatedGrams = (extruder: ExtruderUsage): number | null => {
+    if (extruder.grams !== null) return extruder.grams;
+    const spool = filamentsById.get(Number(assignments[extruder.tool]));
+    if (!spool || extruder.lengthMm === null) return null;
+    return calculateFilamentWeight(extruder.lengthMm, spool.diameter ?? 1.75, densities.get(spool.material));
+  };
+
+  const assigned = (preview?.extruders ?? []).filter(
+    (extruder) => assignments[extruder.tool] && assignments[extruder.tool] !== SKIP
+  );
+
+  const applyMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("/api/print-jobs/gcode", {
+        method: "POST",
+        body: JSON.stringify({
+          fileName: preview!.fileName,
+          name: name.trim() || undefined,
+          printerName: printerName.trim() || undefined,
+          entries: assigned.map((extruder) => ({
+            filamentId: Number(assignments[extruder.tool]),
+            ...(extruder.grams !== null ? { grams: extruder.grams } : { lengthMm: extruder.lengthMm }),
+          })),
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/print-jobs"] });
+      toast({ title: t("gcodeUpload.applySuccess") });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("gcodeUpload.applyError"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" aria-describedby="gcode-upload-description">
+        <DialogHeader>
+          <DialogTitle>{t("gcodeUpload.title")}</DialogTitle>
+          <DialogDescription id="gcode-upload-description">
+            {filament ? t("gcodeUpload.descriptionForSpool", { name: filament.name }) : t("gcodeUpload.description")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".gcode,.3mf"
+          disabled={previewMutation.isPending}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) previewMutation.mutate(file);
+          }}
+        />
+        {previewMutation.isPending && <div className="text-center py-2">{t("gcodeUpload.parsing")}</div>}
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {preview.slicer ? t("gcodeUpload.slicedWith", { slicer: preview.slicer }) : t("gcodeUpload.unknownSlicer")}
+            </p>
+
+            {preview.extruders.map((extruder) => {
+              const grams = estimatedGrams(extruder);
+              return (
+                <div key={extruder.tool} className="flex items-center gap-2">
+                  <span className="text-sm font-mono w-8">T{extruder.tool}</span>
+                  <span className="text-sm w-40">
+                    {extruder.grams !== null && `${extruder.grams.toFixed(1)}g`}
+                    {extruder.grams !== null && extruder.lengthMm !== null && " · "}
+                    {extruder.lengthMm !== null && `${(extruder.lengthMm / 1000).toFixed(2)}m`}
+                  </span>
+                  <Select
+                    value={assignments[extruder.tool] ?? ""}
+                    onValueChange={(value) => setAssignments((current) => ({ ...current, [extruder.tool]: value }))}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder={t("gcodeUpload.selectSpool")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP}>{t("gcodeUpload.skip")}</SelectItem>
+                      {filaments.map((f) => (
+                        <SelectItem key={f.id} value={String(f.id)}>
+                          {f.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm font-medium w-20 text-right">
+                    {grams !== null ? `-${grams.toFixed(1)}g` : "-"}
+                  </span>
+                </div>
+              );
+            })}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Input
+                placeholder={t("printJobs.namePlaceholder")}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Input
+                placeholder={t("printJobs.printerPlaceholder")}
+                value={printerName}
+                onChange={(e) => setPrinterName(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                {t("common.cancel")}
+              </Button>
+              <Button
+                disabled={assigned.length === 0 || applyMutation.isPending}
+                onClick={() => applyMutation.mutate()}
+              >
+                {t("gcodeUpload.applyButton")}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
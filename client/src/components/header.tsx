@@ -15,7 +15,13 @@ import {
   CheckSquare,
   Square,
   Gauge,
-  ClipboardList
+  ClipboardList,
+  History,
+  FileUp,
+  ShoppingCart,
+  Receipt,
+  Calculator,
+  ScanLine
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -33,6 +39,13 @@ import { UserManagementModal } from "./user-management-modal";
 import { SharingModal } from "./sharing-modal";
 import { ChangePasswordModal } from "./change-password-modal";
 import { MyRequestsModal } from "./my-requests-modal";
+import { PrintJobsModal } from "./print-jobs-modal";
+import { GcodeUploadModal } from "./gcode-upload-modal";
+import { ShoppingListModal } from "./shopping-list-modal";
+import { PurchaseOrdersModal } from "./purchase-orders-modal";
+import { PrintCostModal } from "./print-cost-modal";
+import { ScanToMoveModal } from "./scan-to-move-modal";
+import { NotificationBell } from "./notification-bell";
 import { Link, useLocation } from "wouter";
 import { Logo } from "./logo";
 import { useAuth } from "@/lib/auth";
@@ -64,6 +77,12 @@ export function Header({
   const [sharingModalOpen, setSharingModalOpen] = useState(false);
   const [changePasswordOpen, setChangePasswordOpen] = useState(false);
   const [myRequestsOpen, setMyRequestsOpen] = useState(false);
+  const [printJobsOpen, setPrintJobsOpen] = useState(false);
+  const [gcodeUploadOpen, setGcodeUploadOpen] = useState(false);
+  const [shoppingListOpen, setShoppingListOpen] = useState(false);
+  const [purchaseOrdersOpen, setPurchaseOrdersOpen] = useState(false);
+  const [printCostOpen, setPrintCostOpen] = useState(false);
+  const [scanToMoveOpen, setScanToMoveOpen] = useState(false);
   const { isAdmin, logout } = useAuth();
   const [_, navigate] = useLocation();
   const { t } = useTranslation();
@@ -86,6 +105,8 @@ export function Header({
           </Link>
         </div>
         <div className="flex flex-wrap items-center gap-2">
+          <NotificationBell />
+
           {/* Settings Dropdown */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -154,6 +175,30 @@ export function Header({
             <DropdownMenuContent align="end" className="w-56">
               <DropdownMenuLabel>{t('common.tools')}</DropdownMenuLabel>
               <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setPrintJobsOpen(true)}>
+                <History className="mr-2 h-4 w-4" />
+                {t('printJobs.title')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setGcodeUploadOpen(true)}>
+                <FileUp className="mr-2 h-4 w-4" />
+                {t('gcodeUpload.title')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShoppingListOpen(true)}>
+                <ShoppingCart className="mr-2 h-4 w-4" />
+                {t('shoppingList.title')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setPurchaseOrdersOpen(true)}>
+                <Receipt className="mr-2 h-4 w-4" />
+                {t('purchaseOrders.title')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setPrintCostOpen(true)}>
+                <Calculator className="mr-2 h-4 w-4" />
+                {t('printCost.title')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setScanToMoveOpen(true)}>
+                <ScanLine className="mr-2 h-4 w-4" />
+                {t('scanToMove.title')}
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => setSharingModalOpen(true)}>
                 <Share2 className="mr-2 h-4 w-4" />
                 {t('filaments.sharedCollection')}
@@ -250,6 +295,36 @@ export function Header({
         open={myRequestsOpen}
         onOpenChange={setMyRequestsOpen}
       />
+
+      <PrintJobsModal
+        open={printJobsOpen}
+        onOpenChange={setPrintJobsOpen}
+      />
+
+      <GcodeUploadModal
+        open={gcodeUploadOpen}
+        onOpenChange={setGcodeUploadOpen}
+      />
+
+      <ShoppingListModal
+        open={shoppingListOpen}
+        onOpenChange={setShoppingListOpen}
+      />
+
+      <PurchaseOrdersModal
+        open={purchaseOrdersOpen}
+        onOpenChange={setPurchaseOrdersOpen}
+      />
+
+      <PrintCostModal
+        open={printCostOpen}
+        onOpenChange={setPrintCostOpen}
+      />
+
+      <ScanToMoveModal
+        open={scanToMoveOpen}
+        onOpenChange={setScanToMoveOpen}
+      />
     </header>
   );
 }
@@ -1,54 +1,334 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { QRCodeSVG } from "qrcode.react";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Filament } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CustomFieldDefinition,
+  Filament,
+  LabelField,
+  LabelPrinter,
+  LabelTemplateId,
+  MAX_LABELS_PER_PDF,
+  labelFields,
+  labelTemplateIds,
+  labelTemplates,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
 import { useTranslation } from "@/i18n";
-import { Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { storageLocationLabelUrl } from "@/lib/labels";
+import { Droplets, Printer } from "lucide-react";
 
 interface LabelPrintModalProps {
   isOpen: boolean;
   onClose: () => void;
-  filament?: Filament;
+  filaments: Filament[];
+}
+
+interface LabelOptions {
+  template: LabelTemplateId;
+  fields: LabelField[];
+  customFields: number[];
+  qr: boolean;
+  printerId: number | null; // a label printer to send to, or null for the PDF
+}
+
+// Select values can't be empty strings, so the PDF destination uses this
+const PDF = "pdf";
+
+const OPTIONS_KEY = "filadex-label-options";
+
+const DEFAULT_OPTIONS: LabelOptions = {
+  template: "thermal-40x30",
+  fields: ["manufacturer", "material", "color"],
+  customFields: [],
+  qr: true,
+  printerId: null,
+};
+
+// Remembers the last template and fields, since they rarely change between prints
+function loadOptions(): LabelOptions {
+  try {
+    const saved = JSON.parse(localStorage.getItem(OPTIONS_KEY) || "{}");
+    return {
+      template: labelTemplateIds.includes(saved.template) ? saved.template : DEFAULT_OPTIONS.template,
+      fields: Array.isArray(saved.fields) ? saved.fields.filter((field: LabelField) => labelFields.includes(field)) : DEFAULT_OPTIONS.fields,
+      customFields: Array.isArray(saved.customFields) ? saved.customFields : DEFAULT_OPTIONS.customFields,
+      qr: typeof saved.qr === "boolean" ? saved.qr : DEFAULT_OPTIONS.qr,
+      printerId: typeof saved.printerId === "number" ? saved.printerId : DEFAULT_OPTIONS.printerId,
+    };
+  } catch {
+    return DEFAULT_OPTIONS;
+  }
 }
 
-export function LabelPrintModal({ isOpen, onClose, filament }: LabelPrintModalProps) {
+const toggle = <T,>(list: T[], item: T, checked: boolean) =>
+  checked ? [...list.filter((entry) => entry !== item), item] : list.filter((entry) => entry !== item);
+
+/**
+ * Spool labels are rendered to PDF by the server (GET /api/labels/pdf) in
+ * the chosen template, so roll printers and label sheets get exact sizes.
+ * With a label printer chosen they're sent to it directly instead
+ * (POST /api/labels/print), in that printer's label size.
+ */
+export function LabelPrintModal({ isOpen, onClose, filaments }: LabelPrintModalProps) {
   const { t } = useTranslation();
+  const { toast } = useToast();
+  const [options, setOptions] = useState<LabelOptions>(loadOptions);
+  const [copies, setCopies] = useState(1);
+  const [skip, setSkip] = useState(0);
+
+  const { data: customFieldDefinitions = [] } = useQuery({
+    queryKey: ["/api/custom-fields"],
+    queryFn: () => apiRequest<CustomFieldDefinition[]>("/api/custom-fields"),
+    enabled: isOpen,
+  });
+
+  const { data: labelPrinters = [] } = useQuery({
+    queryKey: ["/api/label-printers"],
+    queryFn: () => apiRequest<LabelPrinter[]>("/api/label-printers"),
+    enabled: isOpen,
+  });
+
+  // A remembered printer may have been deleted since
+  const printer = labelPrinters.find((entry) => entry.id === options.printerId);
+  const templateId = printer ? (printer.template as LabelTemplateId) : options.template;
+  const customFields = options.customFields.filter((id) => customFieldDefinitions.some((d) => d.id === id));
+
+  const printMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<{ printed: number }>("/api/labels/print", {
+        method: "POST",
+        body: JSON.stringify({
+          printerId: printer!.id,
+          filamentIds: filaments.map((filament) => filament.id),
+          fields: options.fields,
+          customFields,
+          qr: options.qr,
+          copies,
+        }),
+      }),
+    onSuccess: (result) => {
+      toast({ title: t('labels.printSuccess', { count: result.printed, name: printer!.name }) });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: t('labels.printError'), description: error.message, variant: "destructive" });
+    },
+  });
+
+  useEffect(() => {
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+  }, [options]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCopies(1);
+      setSkip(0);
+    }
+  }, [isOpen]);
 
-  if (!filament) return null;
+  if (filaments.length === 0) return null;
 
-  const labelUrl = `${window.location.origin}/?openFilament=${filament.id}`;
+  // The server renders at most MAX_LABELS_PER_PDF labels at once
+  const maxCopies = Math.max(1, Math.min(20, Math.floor(MAX_LABELS_PER_PDF / filaments.length)));
+  const template = labelTemplates[templateId];
+  const perSheet = template.columns * template.rows;
+  // Also the preview for label printers, which print the same layout
+  const params = new URLSearchParams({
+    ids: filaments.map((filament) => filament.id).join(","),
+    template: templateId,
+    // Keep the order the fields were picked in
+    fields: options.fields.join(","),
+    customFields: customFields.join(","),
+    qr: String(options.qr),
+    copies: String(Math.min(copies, maxCopies)),
+    skip: String(perSheet > 1 ? skip : 0),
+  });
+  const pdfUrl = `/api/labels/pdf?${params}`;
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="sm:max-w-md print:hidden">
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{t('filaments.printLabel')}</DialogTitle>
+          <DialogDescription>
+            {printer
+              ? t('labels.printDescription', { count: filaments.length * copies, name: printer.name })
+              : t('labels.description', { count: filaments.length * copies })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+          <div className="space-y-4">
+            {labelPrinters.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t('labels.destination')}</Label>
+                <Select
+                  value={printer ? String(printer.id) : PDF}
+                  onValueChange={(value) => setOptions({ ...options, printerId: value === PDF ? null : Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={PDF}>{t('labels.pdf')}</SelectItem>
+                    {labelPrinters.map((entry) => (
+                      <SelectItem key={entry.id} value={String(entry.id)}>{entry.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>{t('labels.template')}</Label>
+              {printer ? (
+                <p className="text-sm text-muted-foreground">{t(`labels.templates.${templateId}`)}</p>
+              ) : (
+                <Select
+                  value={options.template}
+                  onValueChange={(value) => setOptions({ ...options, template: value as LabelTemplateId })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {labelTemplateIds.map((id) => (
+                      <SelectItem key={id} value={id}>{t(`labels.templates.${id}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('labels.fields')}</Label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={options.qr} onCheckedChange={(checked) => setOptions({ ...options, qr: !!checked })} />
+                {t('labels.qrCode')}
+              </label>
+              {labelFields.map((field) => (
+                <label key={field} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={options.fields.includes(field)}
+                    onCheckedChange={(checked) => setOptions({ ...options, fields: toggle(options.fields, field, !!checked) })}
+                  />
+                  {t(`labels.fieldNames.${field}`)}
+                </label>
+              ))}
+              {customFieldDefinitions.map((definition) => (
+                <label key={definition.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={options.customFields.includes(definition.id)}
+                    onCheckedChange={(checked) => setOptions({ ...options, customFields: toggle(options.customFields, definition.id, !!checked) })}
+                  />
+                  {definition.name}
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="label-copies">{t('labels.copies')}</Label>
+                <Input
+                  id="label-copies"
+                  type="number"
+                  min="1"
+                  max={maxCopies}
+                  value={copies}
+                  onChange={(e) => setCopies(Math.min(maxCopies, Math.max(1, Number(e.target.value) || 1)))}
+                />
+              </div>
+              {perSheet > 1 && (
+                <div className="space-y-1">
+                  <Label htmlFor="label-skip">{t('labels.skip')}</Label>
+                  <Input
+                    id="label-skip"
+                    type="number"
+                    min="0"
+                    max={perSheet - 1}
+                    value={skip}
+                    onChange={(e) => setSkip(Math.min(perSheet - 1, Math.max(0, Number(e.target.value) || 0)))}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <iframe
+            key={pdfUrl}
+            src={pdfUrl}
+            title={t('labels.preview')}
+            className="h-[420px] w-full rounded-md border dark:border-neutral-700 bg-white"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+          {printer ? (
+            <Button onClick={() => printMutation.mutate()} disabled={printMutation.isPending}>
+              <Printer className="mr-2 h-4 w-4" />
+              {t('labels.print', { name: printer.name })}
+            </Button>
+          ) : (
+            <Button onClick={() => window.open(pdfUrl, '_blank')}>
+              <Printer className="mr-2 h-4 w-4" />
+              {t('labels.openPdf')}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface LocationLabelPrintModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  location?: { id: number; name: string; path: string[]; humidityControlled: boolean | null };
+}
+
+// Scanning this label, then spool labels, moves those spools here (see scan-to-move-modal.tsx)
+export function LocationLabelPrintModal({ isOpen, onClose, location }: LocationLabelPrintModalProps) {
+  const { t } = useTranslation();
+
+  if (!location) return null;
+
+  // The parents, for telling apart e.g. slots in different dry boxes
+  const parents = location.path.slice(0, -1);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md print:hidden">
+        <DialogHeader>
+          <DialogTitle>{t('settings.storageLocations.printLabel')}</DialogTitle>
         </DialogHeader>
 
         <div className="flex justify-center py-4">
           <div className="print-label border rounded-md p-4 flex items-center gap-4 dark:border-neutral-700">
-            <QRCodeSVG value={labelUrl} size={100} />
+            <QRCodeSVG value={storageLocationLabelUrl(location.id)} size={100} />
             <div className="min-w-0">
-              <p className="font-medium truncate max-w-[180px]" title={filament.name}>{filament.name}</p>
-              {filament.manufacturer && (
-                <p className="text-sm text-muted-foreground truncate max-w-[180px]">{filament.manufacturer}</p>
+              <p className="text-xs uppercase text-muted-foreground">{t('filaments.storageLocation')}</p>
+              <p className="font-medium truncate max-w-[180px] flex items-center gap-1" title={location.name}>
+                {location.humidityControlled && <Droplets className="h-4 w-4 flex-shrink-0" />}
+                <span className="truncate">{location.name}</span>
+              </p>
+              {parents.length > 0 && (
+                <p className="text-sm text-muted-foreground truncate max-w-[180px]">{parents.join(" › ")}</p>
               )}
-              <div className="flex items-center gap-2 mt-1">
-                {filament.colorCode && (
-                  <span
-                    className="inline-block h-4 w-4 rounded-full border"
-                    style={{ backgroundColor: filament.colorCode }}
-                  />
-                )}
-                <span className="text-sm">{filament.colorName}</span>
-              </div>
-              <p className="text-sm text-muted-foreground">{filament.material}</p>
             </div>
           </div>
         </div>
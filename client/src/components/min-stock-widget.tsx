@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PackageMinus, SlidersHorizontal } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { minStockUnits, type MinStockUnit } from "@shared/schema";
+
+export interface FilamentTypeStockLevel {
+  filamentTypeId: number;
+  manufacturer: string | null;
+  material: string;
+  colorName: string;
+  colorCode: string | null;
+  minStockQuantity: number | null;
+  minStockUnit: MinStockUnit | null;
+  spools: number;
+  remainingKg: number;
+  current: number | null;
+  belowMinimum: boolean;
+}
+
+const typeLabel = (level: FilamentTypeStockLevel) =>
+  [level.manufacturer, level.material, level.colorName].filter(Boolean).join(" ");
+
+function ColorSwatch({ colorCode }: { colorCode: string | null }) {
+  if (!colorCode) return null;
+  return <span className="inline-block h-3 w-3 rounded-full border flex-shrink-0" style={{ backgroundColor: colorCode }} />;
+}
+
+// One editable row; saves when the quantity field loses focus or the unit changes
+function MinStockRow({ level }: { level: FilamentTypeStockLevel }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quantity, setQuantity] = useState(level.minStockQuantity?.toString() ?? "");
+  const [unit, setUnit] = useState<MinStockUnit>(level.minStockUnit ?? "spools");
+
+  const saveMutation = useMutation({
+    mutationFn: (body: { minStockQuantity: number | null; minStockUnit: MinStockUnit }) =>
+      apiRequest(`/api/filament-types/${level.filamentTypeId}/min-stock`, { method: "PUT", body: JSON.stringify(body) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filament-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("minStock.saveError"), variant: "destructive" });
+    },
+  });
+
+  const save = (nextQuantity: string, nextUnit: MinStockUnit) => {
+    const parsed = nextQuantity.trim() === "" ? null : Number(nextQuantity);
+    if (parsed !== null && !(parsed > 0)) return;
+    if (parsed === level.minStockQuantity && (parsed === null || nextUnit === level.minStockUnit)) return;
+    saveMutation.mutate({ minStockQuantity: parsed, minStockUnit: nextUnit });
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium">
+        <span className="flex items-center gap-2">
+          <ColorSwatch colorCode={level.colorCode} />
+          {typeLabel(level)}
+        </span>
+      </TableCell>
+      <TableCell className="text-right whitespace-nowrap">
+        {t("minStock.stock", { spools: level.spools, kg: level.remainingKg.toFixed(2) })}
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min="0"
+            step={unit === "kg" ? "0.1" : "1"}
+            className="w-24 h-8"
+            placeholder={t("minStock.none")}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            onBlur={() => save(quantity, unit)}
+          />
+          <Select
+            value={unit}
+            onValueChange={(value) => {
+              setUnit(value as MinStockUnit);
+              save(quantity, value as MinStockUnit);
+            }}
+          >
+            <SelectTrigger className="w-28 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {minStockUnits.map((u) => (
+                <SelectItem key={u} value={u}>
+                  {t(`minStock.units.${u}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </TableCell>
+      <TableCell>
+        {level.belowMinimum && <Badge variant="destructive">{t("minStock.below")}</Badge>}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function MinStockDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { t } = useTranslation();
+
+  const { data: levels = [], isLoading } = useQuery({
+    queryKey: ["/api/filament-types"],
+    queryFn: () => apiRequest<FilamentTypeStockLevel[]>("/api/filament-types"),
+    enabled: open,
+  });
+
+  // Types whose spools are all gone only matter if they still have a minimum
+  const shown = levels.filter((level) => level.spools > 0 || level.minStockQuantity !== null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl" aria-describedby="min-stock-description">
+        <DialogHeader>
+          <DialogTitle>{t("minStock.manageTitle")}</DialogTitle>
+          <DialogDescription id="min-stock-description">{t("minStock.manageDescription")}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="text-center py-4">{t("common.loading")}</div>
+        ) : shown.length === 0 ? (
+          <div className="text-center py-4 text-neutral-400">{t("minStock.noTypes")}</div>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("minStock.filamentType")}</TableHead>
+                  <TableHead className="text-right">{t("minStock.inStock")}</TableHead>
+                  <TableHead>{t("minStock.minimum")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((level) => (
+                  <MinStockRow key={`${level.filamentTypeId}-${level.minStockQuantity}-${level.minStockUnit}`} level={level} />
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Dashboard card listing the filament types whose combined stock is below
+ * the minimum set on them, with the dialog to set those minimums.
+ */
+export function MinStockWidget() {
+  const { t } = useTranslation();
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const { data: statistics } = useQuery<{ belowMinimumStock: FilamentTypeStockLevel[] }>({
+    queryKey: ["/api/statistics"],
+  });
+  const below = statistics?.belowMinimumStock ?? [];
+
+  const unitLabel = (level: FilamentTypeStockLevel) => t(`minStock.units.${level.minStockUnit ?? "spools"}`);
+
+  return (
+    <div className="dark:bg-neutral-800 light:bg-white p-4 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold dark:text-neutral-200 light:text-gray-800 flex items-center gap-2">
+          <PackageMinus className="h-5 w-5" />
+          {t("minStock.title")}
+          {below.length > 0 && <Badge variant="destructive">{below.length}</Badge>}
+        </h2>
+        <Button variant="outline" size="sm" onClick={() => setManageOpen(true)}>
+          <SlidersHorizontal className="mr-1 h-4 w-4" />
+          {t("minStock.manage")}
+        </Button>
+      </div>
+
+      {below.length === 0 ? (
+        <p className="text-sm text-neutral-400 mt-2">{t("minStock.allGood")}</p>
+      ) : (
+        <div className="mt-3 space-y-1 text-sm">
+          {below.map((level) => (
+            <div key={level.filamentTypeId} className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-2 min-w-0">
+                <ColorSwatch colorCode={level.colorCode} />
+                <span className="truncate">{typeLabel(level)}</span>
+              </span>
+              <span className="font-medium text-red-500 whitespace-nowrap">
+                {level.current} / {level.minStockQuantity} {unitLabel(level)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <MinStockDialog open={manageOpen} onOpenChange={setManageOpen} />
+    </div>
+  );
+}
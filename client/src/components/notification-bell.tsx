@@ -0,0 +1,164 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bell, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "@/i18n";
+import type { UserNotification } from "@shared/schema";
+
+interface NotificationList {
+  unreadCount: number;
+  notifications: UserNotification[];
+}
+
+interface NotificationData {
+  thresholdPercent?: number;
+  reminderDays?: number;
+  filaments?: { id: number; name: string }[];
+  types?: { id: number; name: string }[];
+  entityLabel?: string;
+  reviewNote?: string | null;
+}
+
+// New notifications are only created by the 6-hourly checks and catalog
+// reviews, so a slow poll is plenty
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export function NotificationBell() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<NotificationList>({
+    queryKey: ["/api/notifications"],
+    queryFn: () => apiRequest("/api/notifications"),
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+  const unreadCount = data?.unreadCount ?? 0;
+  const notifications = data?.notifications ?? [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/notifications/${id}/read`, { method: "POST" }),
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest("/api/notifications/read-all", { method: "POST" }),
+    onSuccess: invalidate,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/notifications/${id}`, { method: "DELETE" }),
+    onSuccess: invalidate,
+  });
+
+  const render = (notification: UserNotification) => {
+    const details = notification.data as NotificationData;
+    const names = (details.filaments ?? []).map((filament) => filament.name).join(", ");
+    switch (notification.type) {
+      case "low_stock":
+        return {
+          title: t("notifications.lowStock.title"),
+          body: t("notifications.lowStock.body", { threshold: details.thresholdPercent ?? 0, names }),
+        };
+      case "drying_reminder":
+        return {
+          title: t("notifications.dryingReminder.title"),
+          body: t("notifications.dryingReminder.body", { days: details.reminderDays ?? 0, names }),
+        };
+      case "min_stock":
+        return {
+          title: t("notifications.minStock.title"),
+          body: t("notifications.minStock.body", { names: (details.types ?? []).map((type) => type.name).join(", ") }),
+        };
+      case "catalog_request_approved":
+        return {
+          title: t("notifications.catalogRequestApproved.title"),
+          body: t("notifications.catalogRequestApproved.body", { label: details.entityLabel ?? "" }),
+        };
+      case "catalog_request_rejected":
+        return {
+          title: t("notifications.catalogRequestRejected.title"),
+          body: details.reviewNote
+            ? t("notifications.catalogRequestRejected.bodyWithNote", { label: details.entityLabel ?? "", note: details.reviewNote })
+            : t("notifications.catalogRequestRejected.body", { label: details.entityLabel ?? "" }),
+        };
+      default:
+        return { title: notification.type, body: "" };
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          aria-label={t("notifications.title")}
+          className="relative bg-primary/20 hover:bg-primary/30 text-white border-white/20"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-[10px] leading-[1.1rem] font-semibold text-white text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <span className="font-medium text-sm">{t("notifications.title")}</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              {t("notifications.markAllRead")}
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">{t("notifications.empty")}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map((notification) => {
+              const { title, body } = render(notification);
+              const unread = notification.readAt === null;
+              return (
+                <div
+                  key={notification.id}
+                  className={`flex gap-2 px-3 py-2 ${unread ? "bg-primary/5 cursor-pointer" : ""}`}
+                  onClick={() => unread && markReadMutation.mutate(notification.id)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${unread ? "font-semibold" : "font-medium"}`}>{title}</p>
+                    {body && <p className="text-xs text-muted-foreground break-words">{body}</p>}
+                    <p className="text-[11px] text-muted-foreground mt-1">
+                      {notification.createdAt ? new Date(notification.createdAt).toLocaleString() : ""}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      dismissMutation.mutate(notification.id);
+                    }}
+                    aria-label={t("notifications.dismiss")}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,380 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Save, X } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, type Currency } from "@/lib/units";
+import type { Filament, Material, Printer } from "@shared/schema";
+import type { PrintJobSummary } from "./print-jobs-modal";
+
+// Amounts are in `currency`, converted by the server
+interface PrintCostDefaults {
+  currency: Currency;
+  electricityRate: number | null;
+  machineCostPerHour: number | null;
+}
+
+interface PrintCostBreakdown {
+  currency: Currency;
+  missingExchangeRates: string[];
+  grams: number;
+  materials: {
+    filamentId: number | null;
+    name: string;
+    material: string;
+    grams: number;
+    costPerKg: number;
+    source: "purchases" | "spool" | "material" | "estimate";
+    cost: number;
+  }[];
+  materialCost: number;
+  printHours: number | null;
+  electricity: { watts: number; kWh: number; rate: number; cost: number } | null;
+  machine: { hours: number; costPerHour: number; cost: number } | null;
+  subtotal: number;
+  markupPercent: number;
+  markup: number;
+  total: number;
+}
+
+type CostSourceTab = "quote" | "spools" | "job";
+
+interface ItemDraft {
+  filamentId: string;
+  grams: string;
+}
+
+interface PrintCostModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Preselects a recorded print job, e.g. when opened from the print job list
+  printJobId?: number;
+}
+
+// Select values can't be empty strings, so "printer from the job / none" uses this
+const NONE = "none";
+
+const emptyItemDraft = (): ItemDraft => ({ filamentId: "", grams: "" });
+
+// Optional number input; empty means "not given"
+const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+export function PrintCostModal({ open, onOpenChange, printJobId }: PrintCostModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<CostSourceTab>("quote");
+  const [grams, setGrams] = useState("");
+  const [material, setMaterial] = useState("PLA");
+  const [items, setItems] = useState<ItemDraft[]>([emptyItemDraft()]);
+  const [jobId, setJobId] = useState("");
+  const [printHours, setPrintHours] = useState("");
+  const [printerId, setPrinterId] = useState(NONE);
+  const [printerWatts, setPrinterWatts] = useState("");
+  const [electricityRate, setElectricityRate] = useState("");
+  const [machineCostPerHour, setMachineCostPerHour] = useState("");
+  const [markupPercent, setMarkupPercent] = useState("");
+  const [result, setResult] = useState<PrintCostBreakdown | null>(null);
+
+  const { data: defaults } = useQuery({
+    queryKey: ["/api/print-cost/defaults"],
+    queryFn: () => apiRequest<PrintCostDefaults>("/api/print-cost/defaults"),
+    enabled: open,
+  });
+
+  const { data: materials = [] } = useQuery<Material[]>({
+    queryKey: ["/api/materials"],
+    queryFn: () => apiRequest("/api/materials"),
+    enabled: open,
+  });
+
+  const { data: filaments = [] } = useQuery<Filament[]>({
+    queryKey: ["/api/filaments"],
+    queryFn: () => apiRequest("/api/filaments"),
+    enabled: open,
+  });
+
+  const { data: printers = [] } = useQuery<Printer[]>({
+    queryKey: ["/api/printers"],
+    queryFn: () => apiRequest("/api/printers"),
+    enabled: open,
+  });
+
+  const { data: jobs = [] } = useQuery<PrintJobSummary[]>({
+    queryKey: ["/api/print-jobs"],
+    queryFn: () => apiRequest("/api/print-jobs"),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!defaults) return;
+    setElectricityRate(defaults.electricityRate !== null ? String(defaults.electricityRate) : "");
+    setMachineCostPerHour(defaults.machineCostPerHour !== null ? String(defaults.machineCostPerHour) : "");
+  }, [defaults]);
+
+  useEffect(() => {
+    if (!open || printJobId === undefined) return;
+    setTab("job");
+    setJobId(String(printJobId));
+    setResult(null);
+  }, [open, printJobId]);
+
+  const calculateMutation = useMutation({
+    mutationFn: () => {
+      const source =
+        tab === "job" ? { printJobId: Number(jobId) }
+        : tab === "spools" ? {
+            items: items
+              .filter((item) => item.filamentId && Number(item.grams) > 0)
+              .map((item) => ({ filamentId: Number(item.filamentId), grams: Number(item.grams) })),
+          }
+        : { grams: Number(grams), material };
+      return apiRequest<PrintCostBreakdown>("/api/print-cost", {
+        method: "POST",
+        body: JSON.stringify({
+          ...source,
+          printHours: optionalNumber(printHours),
+          printerId: printerId === NONE ? undefined : Number(printerId),
+          printerWatts: optionalNumber(printerWatts),
+          electricityRate: optionalNumber(electricityRate),
+          machineCostPerHour: optionalNumber(machineCostPerHour),
+          markupPercent: optionalNumber(markupPercent),
+        }),
+      });
+    },
+    onSuccess: setResult,
+    onError: (error: any) => {
+      toast({ title: t("common.error"), description: error?.message || t("printCost.calculateError"), variant: "destructive" });
+    },
+  });
+
+  const saveDefaultsMutation = useMutation({
+    mutationFn: () => apiRequest("/api/print-cost/defaults", {
+      method: "PUT",
+      body: JSON.stringify({
+        electricityRate: optionalNumber(electricityRate) ?? null,
+        machineCostPerHour: optionalNumber(machineCostPerHour) ?? null,
+        currency: defaults?.currency,
+      }),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/print-cost/defaults"] });
+      toast({ title: t("printCost.defaultsSaved") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("printCost.defaultsError"), variant: "destructive" });
+    },
+  });
+
+  const updateItem = (index: number, changes: Partial<ItemDraft>) =>
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const canCalculate =
+    tab === "job" ? jobId !== ""
+    : tab === "spools" ? items.some((item) => item.filamentId && Number(item.grams) > 0)
+    : Number(grams) > 0;
+
+  const money = (value: number) => formatCurrency(value, result?.currency ?? defaults?.currency ?? "EUR");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto" aria-describedby="print-cost-description">
+        <DialogHeader>
+          <DialogTitle>{t("printCost.title")}</DialogTitle>
+          <DialogDescription id="print-cost-description">{t("printCost.description")}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as CostSourceTab)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="quote">{t("printCost.quoteTab")}</TabsTrigger>
+            <TabsTrigger value="spools">{t("printCost.spoolsTab")}</TabsTrigger>
+            <TabsTrigger value="job">{t("printCost.jobTab")}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="quote" className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder={t("printCost.gramsPlaceholder")}
+              value={grams}
+              onChange={(e) => setGrams(e.target.value)}
+            />
+            <Select value={material} onValueChange={setMaterial}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {materials.map((m) => (
+                  <SelectItem key={m.id} value={m.name}>{m.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </TabsContent>
+
+          <TabsContent value="spools" className="space-y-2">
+            {items.map((item, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={item.filamentId} onValueChange={(value) => updateItem(index, { filamentId: value })}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={t("printJobs.selectFilament")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {filaments.map((filament) => (
+                      <SelectItem key={filament.id} value={String(filament.id)}>{filament.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="w-28"
+                  placeholder={t("printCost.gramsPlaceholder")}
+                  value={item.grams}
+                  onChange={(e) => updateItem(index, { grams: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={items.length === 1}
+                  onClick={() => setItems((current) => current.filter((_, i) => i !== index))}
+                  aria-label={t("common.delete")}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setItems((current) => [...current, emptyItemDraft()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              {t("printJobs.addSpool")}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="job">
+            <Select value={jobId} onValueChange={setJobId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("printCost.selectJob")} />
+              </SelectTrigger>
+              <SelectContent>
+                {jobs.map((job) => (
+                  <SelectItem key={job.id} value={String(job.id)}>
+                    {job.name} · {job.totalGrams.toFixed(1)}g
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">{t("printCost.jobHint")}</p>
+          </TabsContent>
+        </Tabs>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="print-cost-hours">{t("printCost.printHours")}</Label>
+            <Input id="print-cost-hours" type="number" min="0" step="any" value={printHours} onChange={(e) => setPrintHours(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>{t("printJobs.printer")}</Label>
+            <Select value={printerId} onValueChange={setPrinterId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>{t("printCost.noPrinter")}</SelectItem>
+                {printers.map((printer) => (
+                  <SelectItem key={printer.id} value={String(printer.id)}>
+                    {printer.name}{printer.powerWatts !== null && ` (${printer.powerWatts} W)`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="print-cost-watts">{t("printCost.printerWatts")}</Label>
+            <Input id="print-cost-watts" type="number" min="0" value={printerWatts} onChange={(e) => setPrinterWatts(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="print-cost-rate">{t("printCost.electricityRate")}</Label>
+            <Input id="print-cost-rate" type="number" min="0" step="any" value={electricityRate} onChange={(e) => setElectricityRate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="print-cost-machine">{t("printCost.machineCostPerHour")}</Label>
+            <Input id="print-cost-machine" type="number" min="0" step="any" value={machineCostPerHour} onChange={(e) => setMachineCostPerHour(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="print-cost-markup">{t("printCost.markupPercent")}</Label>
+            <Input id="print-cost-markup" type="number" min="0" step="any" value={markupPercent} onChange={(e) => setMarkupPercent(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={() => saveDefaultsMutation.mutate()} disabled={saveDefaultsMutation.isPending}>
+            <Save className="mr-2 h-4 w-4" />
+            {t("printCost.saveDefaults")}
+          </Button>
+          <Button onClick={() => calculateMutation.mutate()} disabled={!canCalculate || calculateMutation.isPending}>
+            {t("printCost.calculate")}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="border rounded-md p-3 space-y-1 text-sm dark:border-neutral-700">
+            {result.materials.map((line, index) => (
+              <div key={index} className="flex justify-between gap-2">
+                <span>
+                  {line.name} · {line.grams.toFixed(1)}g × {money(line.costPerKg)}/kg
+                  <span className="text-xs text-muted-foreground"> ({t(`printCost.sources.${line.source}`)})</span>
+                </span>
+                <span>{money(line.cost)}</span>
+              </div>
+            ))}
+            {result.electricity && (
+              <div className="flex justify-between gap-2">
+                <span>{t("printCost.electricity", { kWh: result.electricity.kWh })}</span>
+                <span>{money(result.electricity.cost)}</span>
+              </div>
+            )}
+            {result.machine && (
+              <div className="flex justify-between gap-2">
+                <span>{t("printCost.machine", { hours: Number(result.machine.hours.toFixed(2)) })}</span>
+                <span>{money(result.machine.cost)}</span>
+              </div>
+            )}
+            {result.markupPercent > 0 && (
+              <>
+                <div className="flex justify-between gap-2 border-t pt-1 dark:border-neutral-700">
+                  <span>{t("printCost.subtotal")}</span>
+                  <span>{money(result.subtotal)}</span>
+                </div>
+                <div className="flex justify-between gap-2">
+                  <span>{t("printCost.markup", { percent: result.markupPercent })}</span>
+                  <span>{money(result.markup)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between gap-2 border-t pt-1 font-semibold dark:border-neutral-700">
+              <span>{t("printCost.total")}</span>
+              <span>{money(result.total)}</span>
+            </div>
+            {result.printHours === null && (
+              <p className="text-xs text-muted-foreground">{t("printCost.noPrintTime")}</p>
+            )}
+            {result.missingExchangeRates.length > 0 && (
+              <p className="text-xs text-amber-600">
+                {t("settings.exchangeRates.missingRates", { currencies: result.missingExchangeRates.join(", ") })}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,330 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Calculator, Plus, Trash2, X } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { useUnits } from "@/lib/use-units";
+import { formatCurrency } from "@/lib/units";
+import { PrintCostModal } from "./print-cost-modal";
+import { printJobStatuses, type Filament } from "@shared/schema";
+
+type PrintJobStatus = typeof printJobStatuses[number];
+
+export interface PrintJobUsageEntry {
+  logId: number;
+  filamentId: number;
+  filamentName: string | null;
+  colorCode: string | null;
+  grams: number;
+  cost: number | null;
+  createdAt: string;
+}
+
+export interface PrintJobSummary {
+  id: number;
+  name: string;
+  printerName: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  status: PrintJobStatus;
+  gcodeFileName: string | null;
+  externalJobId: string | null;
+  note: string | null;
+  createdAt: string;
+  usage: PrintJobUsageEntry[];
+  totalGrams: number;
+  totalCost: number | null;
+}
+
+interface UsageDraft {
+  filamentId: string;
+  grams: string;
+}
+
+interface PrintJobsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyUsageDraft = (): UsageDraft => ({ filamentId: "", grams: "" });
+
+export function PrintJobsModal({ open, onOpenChange }: PrintJobsModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { currency } = useUnits();
+  const queryClient = useQueryClient();
+  const [expandedJobId, setExpandedJobId] = useState<number | null>(null);
+  const [costJobId, setCostJobId] = useState<number | undefined>(undefined);
+  const [name, setName] = useState("");
+  const [printerName, setPrinterName] = useState("");
+  const [status, setStatus] = useState<PrintJobStatus>("completed");
+  const [usageDrafts, setUsageDrafts] = useState<UsageDraft[]>([emptyUsageDraft()]);
+
+  const { data: jobs = [], isLoading } = useQuery({
+    queryKey: ["/api/print-jobs"],
+    queryFn: () => apiRequest<PrintJobSummary[]>("/api/print-jobs"),
+    enabled: open,
+  });
+
+  const { data: filaments = [] } = useQuery({
+    queryKey: ["/api/filaments"],
+    queryFn: () => apiRequest<Filament[]>("/api/filaments"),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/print-jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+  };
+
+  const validUsage = usageDrafts
+    .filter((draft) => draft.filamentId && Number(draft.grams) > 0)
+    .map((draft) => ({ filamentId: Number(draft.filamentId), grams: Number(draft.grams) }));
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("/api/print-jobs", {
+        method: "POST",
+        body: JSON.stringify({
+          name: name.trim(),
+          printerName: printerName.trim() || undefined,
+          status,
+          usage: validUsage,
+        }),
+      }),
+    onSuccess: () => {
+      setName("");
+      setPrinterName("");
+      setStatus("completed");
+      setUsageDrafts([emptyUsageDraft()]);
+      invalidate();
+      toast({ title: t("printJobs.addSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("printJobs.addError"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/print-jobs/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("printJobs.deleteSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("printJobs.deleteError"), variant: "destructive" });
+    },
+  });
+
+  const updateUsageDraft = (index: number, changes: Partial<UsageDraft>) => {
+    setUsageDrafts((drafts) => drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const statusVariant = (jobStatus: PrintJobStatus) => {
+    if (jobStatus === "completed") return "default";
+    if (jobStatus === "failed") return "destructive";
+    return "outline";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl" aria-describedby="print-jobs-description">
+        <DialogHeader>
+          <DialogTitle>{t("printJobs.title")}</DialogTitle>
+          <DialogDescription id="print-jobs-description">{t("printJobs.description")}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-center py-4">{t("common.loading")}</div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-4 text-neutral-400">{t("printJobs.empty")}</div>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("common.name")}</TableHead>
+                  <TableHead>{t("printJobs.printer")}</TableHead>
+                  <TableHead>{t("printJobs.date")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead className="text-right">{t("printJobs.grams")}</TableHead>
+                  <TableHead className="text-right">{t("printJobs.cost")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => (
+                  <Fragment key={job.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                    >
+                      <TableCell className="font-medium">
+                        {expandedJobId === job.id ? '▾' : '▸'} {job.name}
+                      </TableCell>
+                      <TableCell>{job.printerName ?? "-"}</TableCell>
+                      <TableCell>{new Date(job.startedAt ?? job.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(job.status)}>{t(`printJobs.statuses.${job.status}`)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{job.totalGrams.toFixed(1)}g</TableCell>
+                      <TableCell className="text-right">
+                        {job.totalCost !== null ? formatCurrency(job.totalCost, currency) : "-"}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setCostJobId(job.id);
+                          }}
+                          aria-label={t("printCost.title")}
+                        >
+                          <Calculator className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteMutation.mutate(job.id);
+                          }}
+                          aria-label={t("common.delete")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedJobId === job.id && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="bg-muted/40">
+                          {job.usage.length === 0 ? (
+                            <p className="text-sm text-neutral-400">{t("printJobs.noUsage")}</p>
+                          ) : (
+                            <div className="space-y-1">
+                              {job.usage.map((entry) => (
+                                <div key={entry.logId} className="text-sm flex items-center justify-between gap-2">
+                                  <span className="flex items-center gap-2">
+                                    {entry.colorCode && (
+                                      <span
+                                        className="inline-block h-3 w-3 rounded-full border"
+                                        style={{ backgroundColor: entry.colorCode }}
+                                      />
+                                    )}
+                                    {entry.filamentName ?? `#${entry.filamentId}`}
+                                  </span>
+                                  <span className="font-medium">
+                                    {entry.grams.toFixed(1)}g
+                                    {entry.cost !== null && ` · ${formatCurrency(entry.cost, currency)}`}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          {job.note && <p className="text-sm italic text-neutral-400 mt-2">{job.note}</p>}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3 dark:border-neutral-700">
+          <h4 className="font-medium">{t("printJobs.addTitle")}</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Input
+              placeholder={t("printJobs.namePlaceholder")}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              placeholder={t("printJobs.printerPlaceholder")}
+              value={printerName}
+              onChange={(e) => setPrinterName(e.target.value)}
+            />
+            <Select value={status} onValueChange={(v) => setStatus(v as PrintJobStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {printJobStatuses.map((s) => (
+                  <SelectItem key={s} value={s}>
+                    {t(`printJobs.statuses.${s}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {usageDrafts.map((draft, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select value={draft.filamentId} onValueChange={(v) => updateUsageDraft(index, { filamentId: v })}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={t("printJobs.selectFilament")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {filaments.map((filament) => (
+                    <SelectItem key={filament.id} value={String(filament.id)}>
+                      {filament.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                step="0.1"
+                className="w-28"
+                placeholder={t("printJobs.gramsPlaceholder")}
+                value={draft.grams}
+                onChange={(e) => updateUsageDraft(index, { grams: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={usageDrafts.length === 1}
+                onClick={() => setUsageDrafts((drafts) => drafts.filter((_, i) => i !== index))}
+                aria-label={t("common.delete")}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex justify-between gap-2">
+            <Button variant="outline" size="sm" onClick={() => setUsageDrafts((drafts) => [...drafts, emptyUsageDraft()])}>
+              <Plus className="mr-1 h-4 w-4" />
+              {t("printJobs.addSpool")}
+            </Button>
+            <Button
+              disabled={!name.trim() || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+            >
+              {t("printJobs.addButton")}
+            </Button>
+          </div>
+        </div>
+
+        <PrintCostModal
+          open={costJobId !== undefined}
+          onOpenChange={(isOpen) => !isOpen && setCostJobId(undefined)}
+          printJobId={costJobId}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
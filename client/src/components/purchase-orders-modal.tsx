@@ -0,0 +1,438 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Trash2, X } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { useUnits } from "@/lib/use-units";
+import { formatCurrency, type Currency } from "@/lib/units";
+import { supportedCurrencies, type PurchaseOrderWithItems } from "@shared/schema";
+import type { FilamentTypeStockLevel } from "./min-stock-widget";
+
+export interface PurchaseOrderSummary extends PurchaseOrderWithItems {
+  subtotal: number;
+  total: number;
+}
+
+interface PriceHistoryEntry {
+  purchaseOrderId: number;
+  itemId: number;
+  orderDate: string;
+  vendor: string;
+  currency: Currency;
+  quantity: number;
+  pricePerSpool: number;
+  weightKg: number;
+  shippingPerSpool: number;
+  pricePerKg: number;
+}
+
+// Converted into the user's currency by the server
+interface PriceHistory {
+  currency: Currency;
+  missingExchangeRates: string[];
+  averagePricePerKg: number | null;
+  lastPricePerKg: number | null;
+  entries: PriceHistoryEntry[];
+}
+
+interface ItemDraft {
+  filamentTypeId: string;
+  quantity: string;
+  pricePerSpool: string;
+  weightKg: string;
+}
+
+interface PurchaseOrdersModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyItemDraft = (): ItemDraft => ({ filamentTypeId: "", quantity: "1", pricePerSpool: "", weightKg: "" });
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const typeLabel = (item: { manufacturer: string | null; material: string; colorName: string }) =>
+  [item.manufacturer, item.material, item.colorName].filter(Boolean).join(" ");
+
+function PriceHistoryTab({ types }: { types: FilamentTypeStockLevel[] }) {
+  const { t } = useTranslation();
+  const [filamentTypeId, setFilamentTypeId] = useState("");
+
+  const { data: history } = useQuery({
+    queryKey: [`/api/filament-types/${filamentTypeId}/price-history`],
+    queryFn: () => apiRequest<PriceHistory>(`/api/filament-types/${filamentTypeId}/price-history`),
+    enabled: filamentTypeId !== "",
+  });
+
+  return (
+    <div className="space-y-3">
+      <Select value={filamentTypeId} onValueChange={setFilamentTypeId}>
+        <SelectTrigger>
+          <SelectValue placeholder={t("purchaseOrders.selectType")} />
+        </SelectTrigger>
+        <SelectContent>
+          {types.map((type) => (
+            <SelectItem key={type.filamentTypeId} value={String(type.filamentTypeId)}>
+              {typeLabel(type)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {history && (history.entries.length === 0 ? (
+        <div className="text-center py-4 text-neutral-400">{t("purchaseOrders.noHistory")}</div>
+      ) : (
+        <>
+          <div className="flex gap-6 text-sm">
+            <span>
+              {t("purchaseOrders.averagePerKg")}:{" "}
+              <span className="font-medium">{formatCurrency(history.averagePricePerKg, history.currency)}</span>
+            </span>
+            <span>
+              {t("purchaseOrders.lastPerKg")}:{" "}
+              <span className="font-medium">{formatCurrency(history.lastPricePerKg, history.currency)}</span>
+            </span>
+          </div>
+          {history.missingExchangeRates.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {t("settings.exchangeRates.missingRates", { currencies: history.missingExchangeRates.join(", ") })}
+            </p>
+          )}
+          <div className="max-h-[320px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("purchaseOrders.orderDate")}</TableHead>
+                  <TableHead>{t("purchaseOrders.vendor")}</TableHead>
+                  <TableHead className="text-right">{t("purchaseOrders.quantity")}</TableHead>
+                  <TableHead className="text-right">{t("purchaseOrders.pricePerSpool")}</TableHead>
+                  <TableHead className="text-right">{t("purchaseOrders.pricePerKg")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.entries.map((entry) => (
+                  <TableRow key={entry.itemId}>
+                    <TableCell>{new Date(entry.orderDate).toLocaleDateString()}</TableCell>
+                    <TableCell>{entry.vendor}</TableCell>
+                    <TableCell className="text-right">{entry.quantity} × {entry.weightKg} kg</TableCell>
+                    <TableCell className="text-right">{formatCurrency(entry.pricePerSpool, entry.currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(entry.pricePerKg, entry.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      ))}
+    </div>
+  );
+}
+
+export function PurchaseOrdersModal({ open, onOpenChange }: PurchaseOrdersModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { currency: userCurrency } = useUnits();
+  const queryClient = useQueryClient();
+  const [expandedOrderId, setExpandedOrderId] = useState<number | null>(null);
+  const [vendor, setVendor] = useState("");
+  const [orderDate, setOrderDate] = useState(today());
+  const [shippingCost, setShippingCost] = useState("");
+  const [currency, setCurrency] = useState<Currency | "">("");
+  const [createSpools, setCreateSpools] = useState(true);
+  const [itemDrafts, setItemDrafts] = useState<ItemDraft[]>([emptyItemDraft()]);
+
+  const { data: orders = [], isLoading } = useQuery({
+    queryKey: ["/api/purchase-orders"],
+    queryFn: () => apiRequest<PurchaseOrderSummary[]>("/api/purchase-orders"),
+    enabled: open,
+  });
+
+  const { data: types = [] } = useQuery({
+    queryKey: ["/api/filament-types"],
+    queryFn: () => apiRequest<FilamentTypeStockLevel[]>("/api/filament-types"),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+  };
+
+  const validItems = itemDrafts
+    .filter((draft) => draft.filamentTypeId && draft.pricePerSpool !== "" && Number(draft.quantity) >= 1)
+    .map((draft) => ({
+      filamentTypeId: Number(draft.filamentTypeId),
+      quantity: Number(draft.quantity),
+      pricePerSpool: Number(draft.pricePerSpool),
+      weightKg: Number(draft.weightKg) > 0 ? Number(draft.weightKg) : undefined,
+    }));
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("/api/purchase-orders", {
+        method: "POST",
+        body: JSON.stringify({
+          vendor: vendor.trim(),
+          orderDate,
+          shippingCost: Number(shippingCost) || 0,
+          currency: currency || undefined,
+          items: validItems,
+          createSpools,
+        }),
+      }),
+    onSuccess: () => {
+      setVendor("");
+      setOrderDate(today());
+      setShippingCost("");
+      setItemDrafts([emptyItemDraft()]);
+      invalidate();
+      toast({ title: t("purchaseOrders.addSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("purchaseOrders.addError"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/purchase-orders/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("purchaseOrders.deleteSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("purchaseOrders.deleteError"), variant: "destructive" });
+    },
+  });
+
+  const updateItemDraft = (index: number, changes: Partial<ItemDraft>) => {
+    setItemDrafts((drafts) => drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl" aria-describedby="purchase-orders-description">
+        <DialogHeader>
+          <DialogTitle>{t("purchaseOrders.title")}</DialogTitle>
+          <DialogDescription id="purchase-orders-description">{t("purchaseOrders.description")}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="orders">
+          <TabsList>
+            <TabsTrigger value="orders">{t("purchaseOrders.ordersTab")}</TabsTrigger>
+            <TabsTrigger value="history">{t("purchaseOrders.historyTab")}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="orders" className="space-y-4">
+            {isLoading ? (
+              <div className="text-center py-4">{t("common.loading")}</div>
+            ) : orders.length === 0 ? (
+              <div className="text-center py-4 text-neutral-400">{t("purchaseOrders.empty")}</div>
+            ) : (
+              <div className="max-h-[280px] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("purchaseOrders.orderDate")}</TableHead>
+                      <TableHead>{t("purchaseOrders.vendor")}</TableHead>
+                      <TableHead className="text-right">{t("purchaseOrders.spools")}</TableHead>
+                      <TableHead className="text-right">{t("purchaseOrders.shipping")}</TableHead>
+                      <TableHead className="text-right">{t("purchaseOrders.total")}</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {orders.map((order) => (
+                      <Fragment key={order.id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                        >
+                          <TableCell>
+                            {expandedOrderId === order.id ? '▾' : '▸'} {new Date(order.orderDate).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell className="font-medium">{order.vendor}</TableCell>
+                          <TableCell className="text-right">
+                            {order.items.reduce((sum, item) => sum + item.quantity, 0)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(order.shippingCost, order.currency as Currency)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(order.total, order.currency as Currency)}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-destructive"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteMutation.mutate(order.id);
+                              }}
+                              aria-label={t("common.delete")}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {expandedOrderId === order.id && (
+                          <TableRow>
+                            <TableCell colSpan={6} className="bg-muted/40">
+                              <div className="space-y-1">
+                                {order.items.map((item) => (
+                                  <div key={item.id} className="text-sm flex items-center justify-between gap-2">
+                                    <span className="flex items-center gap-2">
+                                      {item.colorCode && (
+                                        <span
+                                          className="inline-block h-3 w-3 rounded-full border"
+                                          style={{ backgroundColor: item.colorCode }}
+                                        />
+                                      )}
+                                      {typeLabel(item)}
+                                    </span>
+                                    <span className="font-medium">
+                                      {item.quantity} × {item.weightKg} kg · {formatCurrency(item.pricePerSpool, order.currency as Currency)}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                              {order.note && <p className="text-sm italic text-neutral-400 mt-2">{order.note}</p>}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="border-t pt-4 space-y-3 dark:border-neutral-700">
+              <h4 className="font-medium">{t("purchaseOrders.addTitle")}</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <Input
+                  placeholder={t("purchaseOrders.vendorPlaceholder")}
+                  value={vendor}
+                  onChange={(e) => setVendor(e.target.value)}
+                />
+                <Input type="date" value={orderDate} onChange={(e) => setOrderDate(e.target.value)} />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={t("purchaseOrders.shippingPlaceholder")}
+                  value={shippingCost}
+                  onChange={(e) => setShippingCost(e.target.value)}
+                />
+                <Select value={currency || userCurrency} onValueChange={(v) => setCurrency(v as Currency)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {supportedCurrencies.map((c) => (
+                      <SelectItem key={c} value={c}>
+                        {c}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {itemDrafts.map((draft, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={draft.filamentTypeId} onValueChange={(v) => updateItemDraft(index, { filamentTypeId: v })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder={t("purchaseOrders.selectType")} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {types.map((type) => (
+                        <SelectItem key={type.filamentTypeId} value={String(type.filamentTypeId)}>
+                          {typeLabel(type)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    aria-label={t("purchaseOrders.quantity")}
+                    value={draft.quantity}
+                    onChange={(e) => updateItemDraft(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-28"
+                    placeholder={t("purchaseOrders.pricePerSpool")}
+                    value={draft.pricePerSpool}
+                    onChange={(e) => updateItemDraft(index, { pricePerSpool: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    className="w-24"
+                    placeholder={t("purchaseOrders.weightPlaceholder")}
+                    value={draft.weightKg}
+                    onChange={(e) => updateItemDraft(index, { weightKg: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={itemDrafts.length === 1}
+                    onClick={() => setItemDrafts((drafts) => drafts.filter((_, i) => i !== index))}
+                    aria-label={t("common.delete")}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Button variant="outline" size="sm" onClick={() => setItemDrafts((drafts) => [...drafts, emptyItemDraft()])}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  {t("purchaseOrders.addItem")}
+                </Button>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="purchase-order-create-spools"
+                      checked={createSpools}
+                      onCheckedChange={(checked) => setCreateSpools(checked === true)}
+                    />
+                    <Label htmlFor="purchase-order-create-spools" className="text-sm">
+                      {t("purchaseOrders.createSpools")}
+                    </Label>
+                  </div>
+                  <Button
+                    disabled={!vendor.trim() || validItems.length === 0 || createMutation.isPending}
+                    onClick={() => createMutation.mutate()}
+                  >
+                    {t("purchaseOrders.addButton")}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <PriceHistoryTab types={types} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,8 +8,14 @@ import { useTranslation } from "@/i18n";
 interface QRScannerProps {
   onScanSuccess: (decodedText: string) => void;
   onClose: () => void;
+  // Keep scanning after a hit and pass every code through unprocessed, e.g.
+  // for scanning several labels in a row
+  continuous?: boolean;
 }
 
+// In continuous mode, the same code seen again within this time is ignored
+const REPEAT_SCAN_MS = 2000;
+
 // Typen für Bambulab Filament Eigenschaften
 interface BambuFilamentData {
   name?: string;
@@ -22,11 +28,12 @@ interface BambuFilamentData {
   printTemp?: string;
 }
 
-export function QRScanner({ onScanSuccess, onClose }: QRScannerProps) {
+export function QRScanner({ onScanSuccess, onClose, continuous = false }: QRScannerProps) {
   const { t } = useTranslation();
   const [isScanning, setIsScanning] = useState(false);
   const [scanResult, setScanResult] = useState<string | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
   const qrScannerElementId = "qr-scanner";
 
   useEffect(() => {
@@ -97,6 +104,15 @@ export function QRScanner({ onScanSuccess, onClose }: QRScannerProps) {
 
   // Handler for successful scan
   const handleScanSuccess = (decodedText: string) => {
+    if (continuous) {
+      const last = lastScanRef.current;
+      if (last && last.code === decodedText && Date.now() - last.at < REPEAT_SCAN_MS) return;
+      lastScanRef.current = { code: decodedText, at: Date.now() };
+      setScanResult(decodedText);
+      onScanSuccess(decodedText);
+      return;
+    }
+
     // Stop scanner after successful scan
     if (scannerRef.current) {
       scannerRef.current.stop().then(() => {
@@ -0,0 +1,240 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, MapPin, X } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { parseLabelCode } from "@/lib/labels";
+import { locationsInTreeOrder } from "@/lib/storage-locations";
+import { QRScanner } from "./qr-scanner";
+import type { Filament, StorageLocation } from "@shared/schema";
+
+interface ScanToMoveModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Preselected target, e.g. when the app was opened from a location label
+  initialLocationId?: number;
+}
+
+/**
+ * Scan a storage location label, then the labels of the spools to put there,
+ * and move them all at once. Works with the camera or with a USB/Bluetooth
+ * barcode scanner typing into the code field.
+ */
+export function ScanToMoveModal({ open, onOpenChange, initialLocationId }: ScanToMoveModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [targetId, setTargetId] = useState<number | null>(null);
+  const [spoolIds, setSpoolIds] = useState<number[]>([]);
+  const [code, setCode] = useState("");
+  const [showCamera, setShowCamera] = useState(false);
+  // Set when the server refused the move for lack of room
+  const [capacityWarning, setCapacityWarning] = useState<string | null>(null);
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ["/api/storage-locations"],
+    queryFn: () => apiRequest<StorageLocation[]>("/api/storage-locations"),
+    enabled: open,
+  });
+
+  // Archived spools included, so any spool label scans
+  const { data: filaments = [] } = useQuery({
+    queryKey: ["/api/filaments", "include-archived"],
+    queryFn: () => apiRequest<Filament[]>("/api/filaments?archived=include"),
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setTargetId(initialLocationId ?? null);
+      setSpoolIds([]);
+      setCode("");
+      setCapacityWarning(null);
+    }
+  }, [open, initialLocationId]);
+
+  const target = locations.find((location) => location.id === targetId);
+  const spools = spoolIds
+    .map((id) => filaments.find((filament) => filament.id === id))
+    .filter((filament): filament is Filament => !!filament);
+
+  const handleCode = (text: string) => {
+    const label = parseLabelCode(text);
+    if (!label) {
+      toast({ title: t("scanToMove.unknownCode"), description: text, variant: "destructive" });
+      return;
+    }
+
+    if (label.kind === "storageLocation") {
+      const location = locations.find((l) => l.id === label.id);
+      if (!location) {
+        toast({ title: t("scanToMove.locationNotFound"), variant: "destructive" });
+        return;
+      }
+      setTargetId(location.id);
+      setCapacityWarning(null);
+      toast({ title: t("scanToMove.targetSet", { name: location.name }) });
+      return;
+    }
+
+    const filament = filaments.find((f) => f.id === label.id);
+    if (!filament) {
+      toast({ title: t("scanToMove.spoolNotFound"), variant: "destructive" });
+      return;
+    }
+    setSpoolIds((prev) => (prev.includes(filament.id) ? prev : [...prev, filament.id]));
+    setCapacityWarning(null);
+    toast({ title: t("scanToMove.spoolAdded", { name: filament.name }) });
+  };
+
+  // The camera scanner keeps the callback from when it started
+  const handleCodeRef = useRef(handleCode);
+  handleCodeRef.current = handleCode;
+
+  const moveMutation = useMutation({
+    mutationFn: (ignoreCapacity: boolean) =>
+      apiRequest<{ moves: unknown[] }>("/api/filaments/move", {
+        method: "POST",
+        body: JSON.stringify({ filamentIds: spoolIds, storageLocation: target!.name, source: "scan", ignoreCapacity }),
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/storage-locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      toast({ title: t("scanToMove.success", { count: result.moves.length, name: target!.name }) });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      if (error?.status === 409) {
+        setCapacityWarning(error.message);
+        return;
+      }
+      toast({ title: t("scanToMove.error"), description: error?.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <>
+      {showCamera && (
+        <QRScanner
+          continuous
+          onScanSuccess={(text) => handleCodeRef.current(text)}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg" aria-describedby="scan-to-move-description">
+          <DialogHeader>
+            <DialogTitle>{t("scanToMove.title")}</DialogTitle>
+            <DialogDescription id="scan-to-move-description">{t("scanToMove.description")}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                autoFocus
+                placeholder={t("scanToMove.codePlaceholder")}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                onKeyDown={(e) => {
+                  // Barcode scanners type the code and press Enter
+                  if (e.key === "Enter" && code.trim()) {
+                    e.preventDefault();
+                    handleCode(code);
+                    setCode("");
+                  }
+                }}
+              />
+              <Button variant="outline" onClick={() => setShowCamera(true)}>
+                <Camera className="mr-2 h-4 w-4" />
+                {t("scanToMove.camera")}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                {t("scanToMove.target")}
+              </Label>
+              <Select
+                value={targetId !== null ? String(targetId) : ""}
+                onValueChange={(value) => {
+                  setTargetId(Number(value));
+                  setCapacityWarning(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t("scanToMove.scanLocationFirst")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {locationsInTreeOrder(locations).map(({ location, depth }) => (
+                    <SelectItem key={location.id} value={String(location.id)} style={{ paddingLeft: `${2 + depth}rem` }}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("scanToMove.spools", { count: spools.length })}</Label>
+              {spools.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("scanToMove.noSpools")}</p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto space-y-1">
+                  {spools.map((spool) => (
+                    <div key={spool.id} className="flex items-center gap-2 text-sm">
+                      {spool.colorCode && (
+                        <span className="inline-block h-3 w-3 flex-shrink-0 rounded-full border" style={{ backgroundColor: spool.colorCode }} />
+                      )}
+                      <span className="truncate">{spool.name}</span>
+                      <span className="ml-auto whitespace-nowrap text-muted-foreground">
+                        {spool.storageLocation || t("scanToMove.noLocation")}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 flex-shrink-0"
+                        onClick={() => setSpoolIds((prev) => prev.filter((id) => id !== spool.id))}
+                        aria-label={t("common.delete")}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {capacityWarning && (
+              <p className="text-sm text-destructive">
+                {capacityWarning}. {t("scanToMove.capacityHint")}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button
+              onClick={() => moveMutation.mutate(!!capacityWarning)}
+              disabled={!target || spools.length === 0 || moveMutation.isPending}
+            >
+              {capacityWarning
+                ? t("scanToMove.moveAnyway")
+                : t("scanToMove.submit", { count: spools.length })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
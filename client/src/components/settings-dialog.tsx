@@ -13,8 +13,12 @@ import {
   CustomFieldsSettings,
   CommunityFilamentsSettings,
   ApiTokensSettings,
+  PrintersSettings,
+  LabelPrintersSettings,
+  WebhooksSettings,
   EmailSettingsCard,
-  CatalogRequestsReview
+  CatalogRequestsReview,
+  ExchangeRatesSettings
 } from "./settings";
 import { useAuth } from "@/lib/auth";
 import {
@@ -97,6 +101,9 @@ export function SettingsDialog({ open, onOpenChange, initialTab }: SettingsDialo
               <TabsTrigger value="notifications" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.notifications.title')}</TabsTrigger>
               <TabsTrigger value="custom-fields" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.customFields.title')}</TabsTrigger>
               <TabsTrigger value="api-tokens" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.apiTokens.title')}</TabsTrigger>
+              <TabsTrigger value="printers" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.printers.title')}</TabsTrigger>
+              <TabsTrigger value="label-printers" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.labelPrinters.title')}</TabsTrigger>
+              <TabsTrigger value="webhooks" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.webhooks.title')}</TabsTrigger>
               <TabsTrigger value="filament-import-export" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.filamentImportExport.title')}</TabsTrigger>
               {isAdmin && (
                 <TabsTrigger value="catalog-requests" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.catalogRequests.title')}</TabsTrigger>
@@ -107,6 +114,9 @@ export function SettingsDialog({ open, onOpenChange, initialTab }: SettingsDialo
               {isAdmin && (
                 <TabsTrigger value="community-filaments" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.communityFilaments.title')}</TabsTrigger>
               )}
+              {isAdmin && (
+                <TabsTrigger value="exchange-rates" className="text-xs sm:text-sm whitespace-nowrap">{t('settings.exchangeRates.title')}</TabsTrigger>
+              )}
             </TabsList>
           </div>
 
@@ -148,6 +158,18 @@ export function SettingsDialog({ open, onOpenChange, initialTab }: SettingsDialo
             <ApiTokensSettings />
           </TabsContent>
 
+          <TabsContent value="printers">
+            <PrintersSettings />
+          </TabsContent>
+
+          <TabsContent value="label-printers">
+            <LabelPrintersSettings />
+          </TabsContent>
+
+          <TabsContent value="webhooks">
+            <WebhooksSettings />
+          </TabsContent>
+
           <TabsContent value="filament-import-export">
             <FilamentImportExport title={t('settings.filamentImportExport.title')} />
           </TabsContent>
@@ -169,6 +191,12 @@ export function SettingsDialog({ open, onOpenChange, initialTab }: SettingsDialo
               <CommunityFilamentsSettings />
             </TabsContent>
           )}
+
+          {isAdmin && (
+            <TabsContent value="exchange-rates">
+              <ExchangeRatesSettings />
+            </TabsContent>
+          )}
           </div>
         </Tabs>
       </DialogContent>
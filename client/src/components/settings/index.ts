@@ -6,11 +6,15 @@ export { NotificationsSettings } from "./settings-notifications";
 export { CustomFieldsSettings } from "./settings-custom-fields";
 export { CommunityFilamentsSettings } from "./settings-community-filaments";
 export { ApiTokensSettings } from "./settings-api-tokens";
+export { PrintersSettings } from "./settings-printers";
+export { LabelPrintersSettings } from "./settings-label-printers";
+export { WebhooksSettings } from "./settings-webhooks";
 export { ColorsList } from "./settings-colors";
 export { DiametersList } from "./settings-diameters";
 export { StorageLocationsList } from "./settings-storage-locations";
 export { ImportExportCard } from "./settings-import-export-card";
 export { EmailSettingsCard } from "./settings-email";
 export { CatalogRequestsReview } from "./settings-catalog-requests";
+export { ExchangeRatesSettings } from "./settings-exchange-rates";
 export * from "./settings-types";
 
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { Save } from "lucide-react";
+import { supportedCurrencies, type ExchangeRate } from "@shared/schema";
+
+interface ExchangeRatesResponse {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+const BASE_CURRENCY = "EUR";
+const QUOTED_CURRENCIES = supportedCurrencies.filter((currency) => currency !== BASE_CURRENCY);
+
+export function ExchangeRatesSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Rate input per currency; an empty one removes the rate on save
+  const [form, setForm] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/exchange-rates"],
+    queryFn: () => apiRequest<ExchangeRatesResponse>("/api/exchange-rates"),
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setForm(Object.fromEntries(data.rates.map((rate) => [rate.currency, String(Number(rate.ratePerEur))])));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const rates = QUOTED_CURRENCIES
+        .filter((currency) => Number(form[currency]) > 0)
+        .map((currency) => ({ currency, ratePerEur: Number(form[currency]) }));
+      const removed = (data?.rates ?? [])
+        .filter((rate) => !form[rate.currency]?.trim())
+        .map((rate) => rate.currency);
+
+      if (rates.length > 0) {
+        await apiRequest("/api/exchange-rates", { method: "PUT", body: JSON.stringify({ rates }) });
+      }
+      for (const currency of removed) {
+        await apiRequest(`/api/exchange-rates/${currency}`, { method: "DELETE" });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      toast({ title: t("settings.exchangeRates.saved"), description: t("settings.exchangeRates.savedDescription") });
+    },
+    onError: (error: any) => {
+      toast({ title: t("common.error"), description: error?.message || t("settings.exchangeRates.saveError"), variant: "destructive" });
+    },
+  });
+
+  const updatedAt = (currency: string) => data?.rates.find((rate) => rate.currency === currency)?.updatedAt;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("settings.exchangeRates.title")}</CardTitle>
+        <CardDescription>{t("settings.exchangeRates.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {QUOTED_CURRENCIES.map((currency) => (
+            <div key={currency} className="space-y-1">
+              <Label htmlFor={`rate-${currency}`}>1 {BASE_CURRENCY} = … {currency}</Label>
+              <Input
+                id={`rate-${currency}`}
+                type="number"
+                step="any"
+                min="0"
+                placeholder={t("settings.exchangeRates.noRate")}
+                value={form[currency] ?? ""}
+                onChange={(e) => setForm((f) => ({ ...f, [currency]: e.target.value }))}
+              />
+              {updatedAt(currency) && (
+                <p className="text-xs text-muted-foreground">
+                  {t("settings.exchangeRates.updatedAt")}: {new Date(updatedAt(currency)!).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || isLoading} className="w-full">
+          <Save className="mr-2 h-4 w-4" />
+          {t("common.save")}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
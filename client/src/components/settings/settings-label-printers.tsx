@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Send, Trash2 } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import {
+  LABEL_PRINTER_PORTS,
+  labelPrinterLanguages,
+  labelPrinterConnections,
+  labelTemplateIds,
+  labelTemplates,
+  type LabelPrinter,
+  type LabelPrinterLanguage,
+  type LabelTemplateId,
+} from "@shared/schema";
+
+// Label printers print one label at a time, so sheet templates are out;
+// Brother QL printers only take Brother tape sizes
+const templatesFor = (language: LabelPrinterLanguage) =>
+  labelTemplateIds.filter((id) => {
+    const template = labelTemplates[id];
+    if (template.columns * template.rows > 1) return false;
+    return language !== "brother-ql" || id.startsWith("brother-");
+  });
+
+export function LabelPrintersSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [language, setLanguage] = useState<LabelPrinterLanguage>("zpl");
+  const [connection, setConnection] = useState<"tcp" | "cups">("tcp");
+  const [host, setHost] = useState("");
+  const [port, setPort] = useState("9100");
+  const [queue, setQueue] = useState("");
+  const [template, setTemplate] = useState<LabelTemplateId>("thermal-50x30");
+  const [dpi, setDpi] = useState("203");
+
+  const { data: printers = [], isLoading } = useQuery<LabelPrinter[]>({
+    queryKey: ["/api/label-printers"],
+    queryFn: () => apiRequest("/api/label-printers"),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/label-printers"] });
+
+  const changeLanguage = (value: LabelPrinterLanguage) => {
+    setLanguage(value);
+    if (!templatesFor(value).includes(template)) setTemplate(templatesFor(value)[0]);
+  };
+
+  const canCreate = name.trim() !== "" && (connection === "tcp" ? host.trim() !== "" : queue.trim() !== "");
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("/api/label-printers", {
+      method: "POST",
+      body: JSON.stringify({
+        name: name.trim(),
+        language,
+        connection,
+        // For CUPS an empty host means the server's local CUPS
+        host: host.trim() || null,
+        port: Number(port) || 9100,
+        queue: connection === "cups" ? queue.trim() : null,
+        template,
+        dpi: Number(dpi),
+      }),
+    }),
+    onSuccess: () => {
+      setName("");
+      setHost("");
+      setQueue("");
+      invalidate();
+      toast({ title: t("settings.labelPrinters.addSuccess") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("settings.labelPrinters.addError"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/label-printers/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("settings.labelPrinters.deleteSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.labelPrinters.deleteError"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/label-printers/${id}/test`, { method: "POST" }),
+    onSuccess: () => {
+      toast({ title: t("settings.labelPrinters.testSuccess") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("settings.labelPrinters.testError"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const target = (printer: LabelPrinter) =>
+    printer.connection === "cups"
+      ? `CUPS ${printer.queue}${printer.host ? ` @ ${printer.host}` : ""}`
+      : `${printer.host}:${printer.port}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium">{t("settings.labelPrinters.title")}</h3>
+          <p className="text-sm text-muted-foreground">{t("settings.labelPrinters.description")}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-center py-4">{t("common.loading")}</div>
+          ) : printers.length === 0 ? (
+            <p className="text-sm text-neutral-400">{t("settings.labelPrinters.empty")}</p>
+          ) : (
+            <div className="space-y-2">
+              {printers.map((printer) => (
+                <div key={printer.id} className="flex items-center justify-between gap-2 border rounded-md px-3 py-2 dark:border-neutral-700">
+                  <div className="min-w-0">
+                    <p className="font-medium">{printer.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {t(`settings.labelPrinters.languages.${printer.language}`)} · {target(printer)} ·{" "}
+                      {t(`labels.templates.${printer.template}`)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => testMutation.mutate(printer.id)}
+                      disabled={testMutation.isPending}
+                      title={t("settings.labelPrinters.test")}
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => deleteMutation.mutate(printer.id)}
+                      aria-label={t("common.delete")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Input
+              placeholder={t("settings.labelPrinters.namePlaceholder")}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Select value={language} onValueChange={(value) => changeLanguage(value as LabelPrinterLanguage)}>
+              <SelectTrigger aria-label={t("settings.labelPrinters.language")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {labelPrinterLanguages.map((value) => (
+                  <SelectItem key={value} value={value}>{t(`settings.labelPrinters.languages.${value}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={template} onValueChange={(value) => setTemplate(value as LabelTemplateId)}>
+              <SelectTrigger aria-label={t("labels.template")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templatesFor(language).map((id) => (
+                  <SelectItem key={id} value={id}>{t(`labels.templates.${id}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={connection} onValueChange={(value) => setConnection(value as "tcp" | "cups")}>
+              <SelectTrigger aria-label={t("settings.labelPrinters.connection")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {labelPrinterConnections.map((value) => (
+                  <SelectItem key={value} value={value}>{t(`settings.labelPrinters.connections.${value}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {connection === "tcp" ? (
+              <div className="flex gap-2 sm:col-span-2">
+                <Input
+                  className="flex-1"
+                  placeholder={t("settings.labelPrinters.hostPlaceholder")}
+                  value={host}
+                  onChange={(e) => setHost(e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min={LABEL_PRINTER_PORTS.min}
+                  max={LABEL_PRINTER_PORTS.max}
+                  className="w-24"
+                  aria-label={t("settings.labelPrinters.port")}
+                  placeholder={t("settings.labelPrinters.port")}
+                  value={port}
+                  onChange={(e) => setPort(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div className="flex gap-2 sm:col-span-2">
+                <Input
+                  className="flex-1"
+                  placeholder={t("settings.labelPrinters.queuePlaceholder")}
+                  value={queue}
+                  onChange={(e) => setQueue(e.target.value)}
+                />
+                <Input
+                  className="flex-1"
+                  placeholder={t("settings.labelPrinters.cupsHostPlaceholder")}
+                  value={host}
+                  onChange={(e) => setHost(e.target.value)}
+                />
+              </div>
+            )}
+            {language !== "brother-ql" && (
+              <Select value={dpi} onValueChange={setDpi}>
+                <SelectTrigger aria-label={t("settings.labelPrinters.dpi")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="203">203 dpi</SelectItem>
+                  <SelectItem value="300">300 dpi</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={!canCreate || createMutation.isPending}>
+            {t("settings.labelPrinters.addButton")}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
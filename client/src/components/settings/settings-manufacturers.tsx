@@ -5,51 +5,71 @@ import { useTranslation } from "@/i18n";
 import { Manufacturer, createManufacturerSchema } from "./settings-types";
 import { SettingsCrudList } from "./settings-crud-list";
 
-const MANUFACTURERS_CSV_FORMAT = `Name
-Bambu Lab
-Prusament
-Polymaker
+const MANUFACTURERS_CSV_FORMAT = `Name,SpoolWeight
+Bambu Lab,250
+Prusament,201
+Polymaker,
 ...`;
 
 export function ManufacturersList() {
   const { t } = useTranslation();
 
   return (
-    <SettingsCrudList<Manufacturer, { name: string }>
+    <SettingsCrudList<Manufacturer, { name: string; spoolWeight?: string }>
       entityKey="manufacturers"
       endpoint="/api/manufacturers"
       entityType="manufacturer"
       schema={createManufacturerSchema}
-      defaultValues={{ name: "" }}
+      defaultValues={{ name: "", spoolWeight: "" }}
       reorderable
       layout="table"
-      columnHeaders={[t("common.name")]}
+      columnHeaders={[t("common.name"), t("settings.manufacturers.spoolWeight")]}
       emptyLabelSuffix="noManufacturers"
       getSearchText={(item) => item.name}
       renderAddFields={(form) => (
-        <FormField
-          control={form.control}
-          name="name"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>{t("common.name")}</FormLabel>
-              <FormControl>
-                <Input placeholder={t("settings.manufacturers.namePlaceholder")} {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        <>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("common.name")}</FormLabel>
+                <FormControl>
+                  <Input placeholder={t("settings.manufacturers.namePlaceholder")} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="spoolWeight"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("settings.manufacturers.spoolWeight")} (g)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" min="0" placeholder="250" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </>
       )}
       renderItemCells={(item) => (
-        <TableCell className="py-1 truncate">
-          <div className="max-w-full truncate" title={item.name}>
-            {item.name}
-          </div>
-        </TableCell>
+        <>
+          <TableCell className="py-1 truncate">
+            <div className="max-w-full truncate" title={item.name}>
+              {item.name}
+            </div>
+          </TableCell>
+          <TableCell className="py-1 truncate">
+            {item.spoolWeight ? `${item.spoolWeight}g` : "-"}
+          </TableCell>
+        </>
       )}
       csvFormat={MANUFACTURERS_CSV_FORMAT}
-      csvFields={["name"]}
+      csvFields={["name", "spoolWeight"]}
     />
   );
 }
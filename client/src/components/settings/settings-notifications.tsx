@@ -6,15 +6,212 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useTranslation } from "@/i18n";
 import { useToast } from "@/hooks/use-toast";
-import { Save } from "lucide-react";
+import { Save, Send, Trash2 } from "lucide-react";
+import { notificationChannelTypes, type NotificationChannel, type NotificationChannelType } from "@shared/schema";
 
 interface NotificationPreferences {
   lowStockThresholdPercent: number;
   notifyLowStock: boolean;
   notifyDryingReminder: boolean;
   dryingReminderDays: number;
+  notifyViaEmail: boolean;
+}
+
+interface ChannelField {
+  key: string;
+  optional?: boolean;
+  placeholder?: string;
+}
+
+// Config inputs per channel type, matching notificationChannelConfigSchemas
+const CHANNEL_FIELDS: Record<NotificationChannelType, ChannelField[]> = {
+  webhook: [{ key: "url", placeholder: "https://example.com/notify" }],
+  ntfy: [
+    { key: "serverUrl", optional: true, placeholder: "https://ntfy.sh" },
+    { key: "topic" },
+    { key: "token", optional: true },
+  ],
+  gotify: [{ key: "serverUrl", placeholder: "https://gotify.example.com" }, { key: "token" }],
+  matrix: [{ key: "url", placeholder: "https://hookshot.example.com/webhook/..." }],
+  discord: [{ key: "url", placeholder: "https://discord.com/api/webhooks/..." }],
+  slack: [{ key: "url", placeholder: "https://hooks.slack.com/services/..." }],
+};
+
+// Where a channel delivers to, without exposing its token
+function channelTarget(channel: NotificationChannel): string {
+  const { url, serverUrl, topic } = channel.config;
+  if (channel.type === "ntfy") return `${serverUrl || "https://ntfy.sh"}/${topic}`;
+  return url ?? serverUrl ?? "";
+}
+
+function NotificationChannelsCard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<NotificationChannelType>("ntfy");
+  const [name, setName] = useState("");
+  const [config, setConfig] = useState<Record<string, string>>({});
+
+  const { data: channels = [], isLoading } = useQuery<NotificationChannel[]>({
+    queryKey: ["/api/notification-channels"],
+    queryFn: () => apiRequest("/api/notification-channels"),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/notification-channels"] });
+
+  // Empty optional fields are left out so the server applies its defaults
+  const filledConfig = Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [key, value.trim()]).filter(([, value]) => value !== "")
+  );
+  const canCreate = CHANNEL_FIELDS[type].every((field) => field.optional || filledConfig[field.key]);
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("/api/notification-channels", {
+      method: "POST",
+      body: JSON.stringify({ type, name: name.trim() || undefined, config: filledConfig }),
+    }),
+    onSuccess: () => {
+      setName("");
+      setConfig({});
+      invalidate();
+      toast({ title: t("settings.notifications.channels.addSuccess") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("settings.notifications.channels.addError"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: number; enabled: boolean }) =>
+      apiRequest(`/api/notification-channels/${id}`, { method: "PATCH", body: JSON.stringify({ enabled }) }),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/notification-channels/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("settings.notifications.channels.deleteSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.notifications.channels.deleteError"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/notification-channels/${id}/test`, { method: "POST" }),
+    onSuccess: () => {
+      toast({ title: t("settings.notifications.channels.testSuccess") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("settings.notifications.channels.testError"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("settings.notifications.channels.title")}</CardTitle>
+        <CardDescription>{t("settings.notifications.channels.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-4">{t("common.loading")}</div>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-neutral-400">{t("settings.notifications.channels.empty")}</p>
+        ) : (
+          <div className="space-y-2">
+            {channels.map((channel) => (
+              <div key={channel.id} className="flex items-center justify-between gap-2 border rounded-md px-3 py-2 dark:border-neutral-700">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {channel.name || t(`settings.notifications.channels.types.${channel.type}`)}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {channel.name && `${t(`settings.notifications.channels.types.${channel.type}`)} · `}
+                    {channelTarget(channel)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Switch
+                    checked={channel.enabled}
+                    onCheckedChange={(enabled) => toggleMutation.mutate({ id: channel.id, enabled })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => testMutation.mutate(channel.id)}
+                    disabled={testMutation.isPending}
+                    title={t("settings.notifications.channels.test")}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => deleteMutation.mutate(channel.id)}
+                    aria-label={t("common.delete")}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4 dark:border-neutral-700">
+          <div className="flex gap-2">
+            <Select
+              value={type}
+              onValueChange={(value) => {
+                setType(value as NotificationChannelType);
+                setConfig({});
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {notificationChannelTypes.map((channelType) => (
+                  <SelectItem key={channelType} value={channelType}>
+                    {t(`settings.notifications.channels.types.${channelType}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={t("settings.notifications.channels.namePlaceholder")}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          {CHANNEL_FIELDS[type].map((field) => (
+            <Input
+              key={`${type}-${field.key}`}
+              placeholder={field.placeholder
+                ? `${t(`settings.notifications.channels.fields.${field.key}`)}: ${field.placeholder}`
+                : t(`settings.notifications.channels.fields.${field.key}`)}
+              type={field.key === "token" ? "password" : "text"}
+              value={config[field.key] ?? ""}
+              onChange={(e) => setConfig((current) => ({ ...current, [field.key]: e.target.value }))}
+            />
+          ))}
+          <Button onClick={() => createMutation.mutate()} disabled={!canCreate || createMutation.isPending}>
+            {t("settings.notifications.channels.addButton")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
 }
 
 export function NotificationsSettings() {
@@ -31,6 +228,7 @@ export function NotificationsSettings() {
   const [notifyLowStock, setNotifyLowStock] = useState(true);
   const [notifyDryingReminder, setNotifyDryingReminder] = useState(true);
   const [dryingReminderDays, setDryingReminderDays] = useState(30);
+  const [notifyViaEmail, setNotifyViaEmail] = useState(true);
 
   useEffect(() => {
     if (user) {
@@ -38,6 +236,7 @@ export function NotificationsSettings() {
       setNotifyLowStock(user.notifyLowStock ?? true);
       setNotifyDryingReminder(user.notifyDryingReminder ?? true);
       setDryingReminderDays(user.dryingReminderDays ?? 30);
+      setNotifyViaEmail(user.notifyViaEmail ?? true);
     }
   }, [user]);
 
@@ -50,6 +249,7 @@ export function NotificationsSettings() {
           notifyLowStock,
           notifyDryingReminder,
           dryingReminderDays,
+          notifyViaEmail,
         }),
       }),
     onSuccess: () => {
@@ -69,60 +269,72 @@ export function NotificationsSettings() {
   });
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>{t("settings.notifications.title")}</CardTitle>
-        <CardDescription>{t("settings.notifications.description")}</CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        <div className="flex items-center justify-between">
-          <div className="space-y-0.5">
-            <Label>{t("settings.notifications.lowStockLabel")}</Label>
-            <p className="text-sm text-muted-foreground">{t("settings.notifications.lowStockDescription")}</p>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("settings.notifications.title")}</CardTitle>
+          <CardDescription>{t("settings.notifications.description")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t("settings.notifications.emailLabel")}</Label>
+              <p className="text-sm text-muted-foreground">{t("settings.notifications.emailDescription")}</p>
+            </div>
+            <Switch checked={notifyViaEmail} onCheckedChange={setNotifyViaEmail} />
           </div>
-          <Switch checked={notifyLowStock} onCheckedChange={setNotifyLowStock} />
-        </div>
 
-        {notifyLowStock && (
-          <div className="space-y-2">
-            <Label htmlFor="low-stock-threshold">{t("settings.notifications.thresholdLabel")}</Label>
-            <Input
-              id="low-stock-threshold"
-              type="number"
-              min={0}
-              max={100}
-              value={lowStockThresholdPercent}
-              onChange={(e) => setLowStockThresholdPercent(Number(e.target.value))}
-            />
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t("settings.notifications.lowStockLabel")}</Label>
+              <p className="text-sm text-muted-foreground">{t("settings.notifications.lowStockDescription")}</p>
+            </div>
+            <Switch checked={notifyLowStock} onCheckedChange={setNotifyLowStock} />
           </div>
-        )}
 
-        <div className="flex items-center justify-between">
-          <div className="space-y-0.5">
-            <Label>{t("settings.notifications.dryingLabel")}</Label>
-            <p className="text-sm text-muted-foreground">{t("settings.notifications.dryingDescription")}</p>
-          </div>
-          <Switch checked={notifyDryingReminder} onCheckedChange={setNotifyDryingReminder} />
-        </div>
+          {notifyLowStock && (
+            <div className="space-y-2">
+              <Label htmlFor="low-stock-threshold">{t("settings.notifications.thresholdLabel")}</Label>
+              <Input
+                id="low-stock-threshold"
+                type="number"
+                min={0}
+                max={100}
+                value={lowStockThresholdPercent}
+                onChange={(e) => setLowStockThresholdPercent(Number(e.target.value))}
+              />
+            </div>
+          )}
 
-        {notifyDryingReminder && (
-          <div className="space-y-2">
-            <Label htmlFor="drying-reminder-days">{t("settings.notifications.dryingDaysLabel")}</Label>
-            <Input
-              id="drying-reminder-days"
-              type="number"
-              min={1}
-              value={dryingReminderDays}
-              onChange={(e) => setDryingReminderDays(Number(e.target.value))}
-            />
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label>{t("settings.notifications.dryingLabel")}</Label>
+              <p className="text-sm text-muted-foreground">{t("settings.notifications.dryingDescription")}</p>
+            </div>
+            <Switch checked={notifyDryingReminder} onCheckedChange={setNotifyDryingReminder} />
           </div>
-        )}
 
-        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} className="w-full">
-          <Save className="mr-2 h-4 w-4" />
-          {t("common.save")}
-        </Button>
-      </CardContent>
-    </Card>
+          {notifyDryingReminder && (
+            <div className="space-y-2">
+              <Label htmlFor="drying-reminder-days">{t("settings.notifications.dryingDaysLabel")}</Label>
+              <Input
+                id="drying-reminder-days"
+                type="number"
+                min={1}
+                value={dryingReminderDays}
+                onChange={(e) => setDryingReminderDays(Number(e.target.value))}
+              />
+            </div>
+          )}
+
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} className="w-full">
+            <Save className="mr-2 h-4 w-4" />
+            {t("common.save")}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <NotificationChannelsCard />
+    </div>
   );
 }
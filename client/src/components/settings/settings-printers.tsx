@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import type { Filament, PrinterWithSpools } from "@shared/schema";
+
+interface ApiTokenSummary {
+  id: number;
+  label: string | null;
+}
+
+// Select values can't be empty strings, so "no token" / "empty tool" use this
+const NONE = "none";
+
+export function PrintersSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [toolCount, setToolCount] = useState("1");
+  const [apiTokenId, setApiTokenId] = useState(NONE);
+  const [powerWatts, setPowerWatts] = useState("");
+
+  const { data: printers = [], isLoading } = useQuery<PrinterWithSpools[]>({
+    queryKey: ["/api/printers"],
+    queryFn: () => apiRequest("/api/printers"),
+  });
+
+  const { data: tokens = [] } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/api-tokens"],
+    queryFn: () => apiRequest("/api/api-tokens"),
+  });
+
+  const { data: filaments = [] } = useQuery<Filament[]>({
+    queryKey: ["/api/filaments"],
+    queryFn: () => apiRequest("/api/filaments"),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/printers"] });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest("/api/printers", {
+      method: "POST",
+      body: JSON.stringify({
+        name: name.trim(),
+        toolCount: Number(toolCount),
+        apiTokenId: apiTokenId === NONE ? null : Number(apiTokenId),
+        powerWatts: powerWatts.trim() ? Number(powerWatts) : null,
+      }),
+    }),
+    onSuccess: () => {
+      setName("");
+      setToolCount("1");
+      setApiTokenId(NONE);
+      setPowerWatts("");
+      invalidate();
+      toast({ title: t("settings.printers.addSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.printers.addError"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/printers/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("settings.printers.deleteSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.printers.deleteError"), variant: "destructive" });
+    },
+  });
+
+  // Power draw is what the print cost calculator prices electricity with
+  const powerMutation = useMutation({
+    mutationFn: ({ id, watts }: { id: number; watts: number | null }) =>
+      apiRequest(`/api/printers/${id}`, { method: "PATCH", body: JSON.stringify({ powerWatts: watts }) }),
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.printers.powerError"), variant: "destructive" });
+    },
+  });
+
+  const loadMutation = useMutation({
+    mutationFn: ({ printerId, tool, filamentId }: { printerId: number; tool: number; filamentId: number | null }) =>
+      filamentId === null
+        ? apiRequest(`/api/printers/${printerId}/tools/${tool}`, { method: "DELETE" })
+        : apiRequest(`/api/printers/${printerId}/tools/${tool}`, {
+            method: "PUT",
+            body: JSON.stringify({ filamentId }),
+          }),
+    onSuccess: invalidate,
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.printers.loadError"), variant: "destructive" });
+    },
+  });
+
+  const tokenLabel = (id: number | null) => {
+    const token = tokens.find((tok) => tok.id === id);
+    return token ? token.label || t("settings.apiTokens.unlabeled") : null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium">{t("settings.printers.title")}</h3>
+          <p className="text-sm text-muted-foreground">{t("settings.printers.description")}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-center py-4">{t("common.loading")}</div>
+          ) : printers.length === 0 ? (
+            <p className="text-sm text-neutral-400">{t("settings.printers.empty")}</p>
+          ) : (
+            <div className="space-y-3">
+              {printers.map((printer) => {
+                const boundToken = tokenLabel(printer.apiTokenId);
+                return (
+                  <div key={printer.id} className="border rounded-md px-3 py-2 space-y-2 dark:border-neutral-700">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{printer.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {boundToken
+                            ? t("settings.printers.boundTo", { token: boundToken })
+                            : t("settings.printers.noToken")}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Input
+                          key={`${printer.id}-${printer.powerWatts}`}
+                          type="number"
+                          min="0"
+                          className="h-8 w-24"
+                          aria-label={t("settings.printers.powerWatts")}
+                          placeholder={t("settings.printers.powerWatts")}
+                          defaultValue={printer.powerWatts ?? ""}
+                          onBlur={(e) => {
+                            const watts = e.target.value.trim() ? Number(e.target.value) : null;
+                            if (watts !== printer.powerWatts) powerMutation.mutate({ id: printer.id, watts });
+                          }}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => deleteMutation.mutate(printer.id)}
+                          aria-label={t("common.delete")}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {Array.from({ length: printer.toolCount }, (_, tool) => {
+                      const loaded = printer.loadedSpools.find((spool) => spool.toolIndex === tool);
+                      return (
+                        <div key={tool} className="flex items-center gap-2">
+                          <span className="text-sm font-mono w-8">T{tool}</span>
+                          <Select
+                            value={loaded ? String(loaded.filamentId) : NONE}
+                            onValueChange={(value) => loadMutation.mutate({
+                              printerId: printer.id,
+                              tool,
+                              filamentId: value === NONE ? null : Number(value),
+                            })}
+                          >
+                            <SelectTrigger className="flex-1">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>{t("settings.printers.emptyTool")}</SelectItem>
+                              {filaments.map((filament) => (
+                                <SelectItem key={filament.id} value={String(filament.id)}>
+                                  {filament.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-2">
+            <Input
+              className="sm:col-span-2"
+              placeholder={t("settings.printers.namePlaceholder")}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              type="number"
+              min="1"
+              max="32"
+              aria-label={t("settings.printers.toolCount")}
+              placeholder={t("settings.printers.toolCount")}
+              value={toolCount}
+              onChange={(e) => setToolCount(e.target.value)}
+            />
+            <Input
+              type="number"
+              min="0"
+              aria-label={t("settings.printers.powerWatts")}
+              placeholder={t("settings.printers.powerWatts")}
+              value={powerWatts}
+              onChange={(e) => setPowerWatts(e.target.value)}
+            />
+            <Select value={apiTokenId} onValueChange={setApiTokenId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>{t("settings.printers.noToken")}</SelectItem>
+                {tokens.map((tok) => (
+                  <SelectItem key={tok.id} value={String(tok.id)}>
+                    {tok.label || t("settings.apiTokens.unlabeled")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || !(Number(toolCount) >= 1) || createMutation.isPending}
+            >
+              {t("settings.printers.addButton")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
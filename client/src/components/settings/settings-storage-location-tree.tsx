@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight, Droplets, Pencil, Printer } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { locationSubtreeNames, locationsInTreeOrder } from "@/lib/storage-locations";
+import { LocationLabelPrintModal } from "../label-print-modal";
+import type { StorageLocation, StorageLocationNode, StorageLocationTree } from "./settings-types";
+
+// Shares the list's key prefix, so adding/deleting locations refreshes the tree too
+const TREE_KEY = ["/api/storage-locations", "tree"];
+
+export function StorageLocationTreeCard() {
+  const { t } = useTranslation();
+  const { isAdmin } = useAuth();
+  const [editing, setEditing] = useState<StorageLocationNode | null>(null);
+  const [labelLocation, setLabelLocation] = useState<StorageLocationNode | undefined>(undefined);
+
+  const { data: tree, isLoading } = useQuery({
+    queryKey: TREE_KEY,
+    queryFn: () => apiRequest<StorageLocationTree>("/api/storage-locations/tree"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("settings.storageLocations.treeTitle")}</CardTitle>
+        <CardDescription>{t("settings.storageLocations.treeDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1 text-sm">
+        {isLoading ? (
+          <div className="text-center py-4">{t("settings.storageLocations.loading")}</div>
+        ) : !tree || tree.locations.length === 0 ? (
+          <div className="text-center py-4 text-neutral-400">{t("settings.storageLocations.noStorageLocations")}</div>
+        ) : (
+          <>
+            {tree.locations.map((node) => (
+              <LocationRow
+                key={node.id}
+                node={node}
+                depth={0}
+                onPrintLabel={setLabelLocation}
+                onEdit={isAdmin ? setEditing : undefined}
+              />
+            ))}
+            {tree.unassigned > 0 && (
+              <p className="pt-2 text-xs text-muted-foreground">
+                {t("settings.storageLocations.unassigned", { count: tree.unassigned })}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+      <EditLocationDialog location={editing} onClose={() => setEditing(null)} />
+      <LocationLabelPrintModal
+        isOpen={!!labelLocation}
+        onClose={() => setLabelLocation(undefined)}
+        location={labelLocation}
+      />
+    </Card>
+  );
+}
+
+interface LocationRowProps {
+  node: StorageLocationNode;
+  depth: number;
+  onPrintLabel: (node: StorageLocationNode) => void;
+  onEdit?: (node: StorageLocationNode) => void;
+}
+
+function LocationRow({ node, depth, onPrintLabel, onEdit }: LocationRowProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(true);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <>
+      <div className="flex items-center gap-2 py-1" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+        <button
+          type="button"
+          className={`h-4 w-4 flex-shrink-0 ${hasChildren ? "" : "invisible"}`}
+          onClick={() => setOpen(!open)}
+          aria-label={open ? t("common.collapse") : t("common.expand")}
+        >
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <span className="truncate font-medium" title={node.path.join(" › ")}>{node.name}</span>
+        {node.humidityControlled && (
+          <Droplets className="h-4 w-4 flex-shrink-0 text-blue-400" aria-label={t("settings.storageLocations.humidityControlled")} />
+        )}
+        <div className="ml-auto flex items-center gap-2 whitespace-nowrap">
+          {node.capacity !== null && (
+            <Progress value={Math.min(100, (node.occupied / node.capacity) * 100)} className="h-1.5 w-20" />
+          )}
+          <span className="text-muted-foreground">
+            {node.capacity !== null
+              ? t("settings.storageLocations.occupancy", { count: node.occupied, capacity: node.capacity })
+              : t("settings.storageLocations.spools", { count: node.totalSpools })}
+          </span>
+          {node.full && <Badge variant="destructive">{t("settings.storageLocations.full")}</Badge>}
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onPrintLabel(node)} aria-label={t("filaments.printLabel")}>
+            <Printer className="h-3 w-3" />
+          </Button>
+          {onEdit && (
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onEdit(node)} aria-label={t("common.edit")}>
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {open && node.children.map((child) => (
+        <LocationRow key={child.id} node={child} depth={depth + 1} onPrintLabel={onPrintLabel} onEdit={onEdit} />
+      ))}
+    </>
+  );
+}
+
+function EditLocationDialog({ location, onClose }: { location: StorageLocationNode | null; onClose: () => void }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [parentId, setParentId] = useState<string>("none");
+  const [capacity, setCapacity] = useState("");
+  const [humidityControlled, setHumidityControlled] = useState(false);
+  const [loadedId, setLoadedId] = useState<number | null>(null);
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ["/api/storage-locations"],
+    queryFn: () => apiRequest<StorageLocation[]>("/api/storage-locations"),
+    enabled: !!location,
+  });
+
+  // Load the form once per opened location
+  if (location && loadedId !== location.id) {
+    setLoadedId(location.id);
+    setParentId(location.parentId !== null ? String(location.parentId) : "none");
+    setCapacity(location.capacity !== null ? String(location.capacity) : "");
+    setHumidityControlled(!!location.humidityControlled);
+  }
+
+  // A location can't be moved below itself or its own children
+  const excluded = location ? locationSubtreeNames(locations, location.id) : [];
+  const parentOptions = locationsInTreeOrder(locations).filter(({ location: l }) => !excluded.includes(l.name));
+
+  const close = () => {
+    setLoadedId(null);
+    onClose();
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/storage-locations/${location!.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          parentId: parentId === "none" ? null : Number(parentId),
+          capacity: capacity ? Number(capacity) : null,
+          humidityControlled,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/storage-locations"] });
+      toast({ title: t("settings.storageLocations.updateSuccess") });
+      close();
+    },
+    onError: (error: Error) => {
+      toast({ title: t("settings.storageLocations.updateError"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const capacityValid = capacity === "" || (Number.isInteger(Number(capacity)) && Number(capacity) > 0);
+
+  return (
+    <Dialog open={!!location} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("settings.storageLocations.edit")}</DialogTitle>
+          <DialogDescription>{location?.path.join(" › ")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("settings.storageLocations.parent")}</Label>
+            <Select value={parentId} onValueChange={setParentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t("settings.storageLocations.noParent")}</SelectItem>
+                {parentOptions.map(({ location: l, depth }) => (
+                  <SelectItem key={l.id} value={String(l.id)} style={{ paddingLeft: `${2 + depth}rem` }}>
+                    {l.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="location-capacity">{t("settings.storageLocations.capacity")}</Label>
+            <Input
+              id="location-capacity"
+              type="number"
+              min="1"
+              step="1"
+              placeholder={t("settings.storageLocations.capacityPlaceholder")}
+              value={capacity}
+              onChange={(e) => setCapacity(e.target.value)}
+            />
+            {!capacityValid && <p className="text-sm text-destructive">{t("settings.storageLocations.capacityInvalid")}</p>}
+          </div>
+          <label className="flex items-center justify-between gap-2">
+            {t("settings.storageLocations.humidityControlled")}
+            <Switch checked={humidityControlled} onCheckedChange={setHumidityControlled} />
+          </label>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={() => updateMutation.mutate()} disabled={!capacityValid || updateMutation.isPending}>
+            {t("common.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
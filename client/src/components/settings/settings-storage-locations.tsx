@@ -1,56 +1,146 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TableCell } from "@/components/ui/table";
+import { Droplets } from "lucide-react";
 import { useTranslation } from "@/i18n";
+import { locationsInTreeOrder } from "@/lib/storage-locations";
 import { StorageLocation, createStorageLocationSchema } from "./settings-types";
 import { SettingsCrudList } from "./settings-crud-list";
+import { StorageLocationTreeCard } from "./settings-storage-location-tree";
 
-const STORAGE_LOCATIONS_CSV_FORMAT = `Name
-Keller
-Schrank
-Regal A
-Regal B
+const STORAGE_LOCATIONS_CSV_FORMAT = `Name,Parent,Capacity,HumidityControlled
+Werkstatt,,,false
+Regal A,Werkstatt,,false
+Trockenbox 1,Regal A,4,true
+Keller,,,false
 ...`;
 
 export function StorageLocationsList() {
   const { t } = useTranslation();
 
+  const { data: locations = [] } = useQuery({
+    queryKey: ["/api/storage-locations"],
+    queryFn: () => apiRequest<StorageLocation[]>("/api/storage-locations"),
+  });
+  const parentName = (item: StorageLocation) => locations.find((l) => l.id === item.parentId)?.name;
+
   return (
-    <SettingsCrudList<StorageLocation, { name: string }>
-      entityKey="storageLocations"
-      endpoint="/api/storage-locations"
-      entityType="storageLocation"
-      schema={createStorageLocationSchema}
-      defaultValues={{ name: "" }}
-      reorderable
-      layout="table"
-      columnHeaders={[t("common.name")]}
-      emptyLabelSuffix="noStorageLocations"
-      getSearchText={(item) => item.name}
-      renderAddFields={(form) => (
-        <FormField
-          control={form.control}
-          name="name"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>{t("common.name")}</FormLabel>
-              <FormControl>
-                <Input placeholder={t("settings.storageLocations.namePlaceholder")} {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-      )}
-      renderItemCells={(item) => (
-        <TableCell className="py-1 truncate">
-          <div className="max-w-full truncate" title={item.name}>
-            {item.name}
-          </div>
-        </TableCell>
-      )}
-      csvFormat={STORAGE_LOCATIONS_CSV_FORMAT}
-      csvFields={["name"]}
-    />
+    <div className="space-y-6">
+      <StorageLocationTreeCard />
+
+      <SettingsCrudList<StorageLocation, { name: string; parentId?: number | null; capacity?: number | null; humidityControlled?: boolean }>
+        entityKey="storageLocations"
+        endpoint="/api/storage-locations"
+        entityType="storageLocation"
+        schema={createStorageLocationSchema}
+        defaultValues={{ name: "", parentId: null, capacity: null, humidityControlled: false }}
+        reorderable
+        layout="table"
+        columnHeaders={[t("common.name"), t("settings.storageLocations.parent"), t("settings.storageLocations.capacity")]}
+        emptyLabelSuffix="noStorageLocations"
+        getSearchText={(item) => `${item.name} ${parentName(item) ?? ""}`}
+        renderAddFields={(form) => (
+          <>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("common.name")}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={t("settings.storageLocations.namePlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="parentId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("settings.storageLocations.parent")}</FormLabel>
+                  <Select
+                    value={field.value ? String(field.value) : "none"}
+                    onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">{t("settings.storageLocations.noParent")}</SelectItem>
+                      {locationsInTreeOrder(locations).map(({ location, depth }) => (
+                        <SelectItem key={location.id} value={String(location.id)} style={{ paddingLeft: `${2 + depth}rem` }}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="capacity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("settings.storageLocations.capacity")}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      placeholder={t("settings.storageLocations.capacityPlaceholder")}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="humidityControlled"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="!mt-0">{t("settings.storageLocations.humidityControlled")}</FormLabel>
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+        renderItemCells={(item) => (
+          <>
+            <TableCell className="py-1 truncate">
+              <div className="flex items-center gap-1 max-w-full truncate" title={item.name}>
+                {item.humidityControlled && (
+                  <Droplets className="h-4 w-4 flex-shrink-0 text-blue-400" aria-label={t("settings.storageLocations.humidityControlled")} />
+                )}
+                <span className="truncate">{item.name}</span>
+              </div>
+            </TableCell>
+            <TableCell className="py-1 truncate">
+              {parentName(item) ?? "-"}
+            </TableCell>
+            <TableCell className="py-1 truncate">
+              {item.capacity ?? "-"}
+            </TableCell>
+          </>
+        )}
+        csvFormat={STORAGE_LOCATIONS_CSV_FORMAT}
+        csvFields={["name", "parent", "capacity", "humidityControlled"]}
+      />
+    </div>
   );
 }
@@ -17,6 +17,7 @@ export interface CatalogRequest {
 export interface Manufacturer {
   id: number;
   name: string;
+  spoolWeight: string | null;
   createdAt: string;
 }
 
@@ -44,12 +45,31 @@ export interface Diameter {
 export interface StorageLocation {
   id: number;
   name: string;
+  parentId: number | null;
+  capacity: number | null;
+  humidityControlled: boolean | null;
   createdAt: string;
 }
 
+// GET /api/storage-locations/tree
+export interface StorageLocationNode extends StorageLocation {
+  path: string[];
+  spools: number;
+  totalSpools: number;
+  occupied: number; // everyone's spools, what capacity limits
+  full: boolean;
+  children: StorageLocationNode[];
+}
+
+export interface StorageLocationTree {
+  locations: StorageLocationNode[];
+  unassigned: number;
+}
+
 // Validation schemas with translations
 export const createManufacturerSchema = (t: (key: string) => string) => z.object({
-  name: z.string().min(1, t('settings.manufacturers.nameRequired'))
+  name: z.string().min(1, t('settings.manufacturers.nameRequired')),
+  spoolWeight: z.string().optional().transform((v) => (v ? v : undefined))
 });
 
 export const createMaterialSchema = (t: (key: string) => string) => z.object({
@@ -68,6 +88,9 @@ export const createDiameterSchema = (t: (key: string) => string) => z.object({
 });
 
 export const createStorageLocationSchema = (t: (key: string) => string) => z.object({
-  name: z.string().min(1, t('settings.storageLocations.nameRequired'))
+  name: z.string().min(1, t('settings.storageLocations.nameRequired')),
+  parentId: z.number().nullable().optional(),
+  capacity: z.number().int().positive(t('settings.storageLocations.capacityInvalid')).nullable().optional(),
+  humidityControlled: z.boolean().optional()
 });
 
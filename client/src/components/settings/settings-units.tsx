@@ -1,6 +1,9 @@
 import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { useUnits } from "@/lib/use-units";
@@ -9,6 +12,59 @@ import { useTranslation } from "@/i18n";
 import { useToast } from "@/hooks/use-toast";
 import { Save } from "lucide-react";
 
+// Whether spools are archived automatically once usage empties them
+function SpoolLifecycleCard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: user } = useQuery<{ autoArchiveEmpty: boolean | null }>({
+    queryKey: ["/api/auth/me"],
+    queryFn: () => apiRequest("/api/auth/me"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (autoArchiveEmpty: boolean) =>
+      apiRequest("/api/users/spool-preferences", {
+        method: "POST",
+        body: JSON.stringify({ autoArchiveEmpty }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({ title: t('settings.spoolLifecycle.updated') });
+    },
+    onError: () => {
+      toast({
+        title: t('common.error'),
+        description: t('settings.spoolLifecycle.updateError'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.spoolLifecycle.title')}</CardTitle>
+        <CardDescription>{t('settings.spoolLifecycle.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label>{t('settings.spoolLifecycle.autoArchiveLabel')}</Label>
+            <p className="text-sm text-muted-foreground">{t('settings.spoolLifecycle.autoArchiveDescription')}</p>
+          </div>
+          <Switch
+            checked={!!user?.autoArchiveEmpty}
+            disabled={!user || saveMutation.isPending}
+            onCheckedChange={(checked) => saveMutation.mutate(checked)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export function UnitsSettings() {
   const { t } = useTranslation();
   const { toast } = useToast();
@@ -71,71 +127,75 @@ export function UnitsSettings() {
   ];
 
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>{t('settings.units.title')}</CardTitle>
-        <CardDescription>
-          {t('settings.units.description')}
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-6">
-        {/* Currency Selection */}
-        <div className="space-y-2">
-          <Label htmlFor="currency">{t('settings.units.currency')}</Label>
-          <Select
-            value={selectedCurrency}
-            onValueChange={(value) => setSelectedCurrency(value as Currency)}
-          >
-            <SelectTrigger id="currency">
-              <SelectValue placeholder={t('settings.units.selectCurrency')} />
-            </SelectTrigger>
-            <SelectContent>
-              {currencyOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          <p className="text-sm text-muted-foreground">
-            {t('settings.units.currencyDescription')}
-          </p>
-        </div>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('settings.units.title')}</CardTitle>
+          <CardDescription>
+            {t('settings.units.description')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Currency Selection */}
+          <div className="space-y-2">
+            <Label htmlFor="currency">{t('settings.units.currency')}</Label>
+            <Select
+              value={selectedCurrency}
+              onValueChange={(value) => setSelectedCurrency(value as Currency)}
+            >
+              <SelectTrigger id="currency">
+                <SelectValue placeholder={t('settings.units.selectCurrency')} />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {t('settings.units.currencyDescription')}
+            </p>
+          </div>
+
+          {/* Temperature Unit Selection */}
+          <div className="space-y-2">
+            <Label htmlFor="temperature">{t('settings.units.temperature')}</Label>
+            <Select
+              value={selectedTemperatureUnit}
+              onValueChange={(value) => setSelectedTemperatureUnit(value as TemperatureUnit)}
+            >
+              <SelectTrigger id="temperature">
+                <SelectValue placeholder={t('settings.units.selectTemperature')} />
+              </SelectTrigger>
+              <SelectContent>
+                {temperatureOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {t('settings.units.temperatureDescription')}
+            </p>
+          </div>
 
-        {/* Temperature Unit Selection */}
-        <div className="space-y-2">
-          <Label htmlFor="temperature">{t('settings.units.temperature')}</Label>
-          <Select
-            value={selectedTemperatureUnit}
-            onValueChange={(value) => setSelectedTemperatureUnit(value as TemperatureUnit)}
+          {/* Save Button */}
+          <Button
+            onClick={handleSave}
+            disabled={!hasChanges || isLoading}
+            className="w-full"
           >
-            <SelectTrigger id="temperature">
-              <SelectValue placeholder={t('settings.units.selectTemperature')} />
-            </SelectTrigger>
-            <SelectContent>
-              {temperatureOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          <p className="text-sm text-muted-foreground">
-            {t('settings.units.temperatureDescription')}
-          </p>
-        </div>
+            <Save className="mr-2 h-4 w-4" />
+            {isLoading ? t('common.loading') : t('common.save')}
+          </Button>
+        </CardContent>
+      </Card>
 
-        {/* Save Button */}
-        <Button
-          onClick={handleSave}
-          disabled={!hasChanges || isLoading}
-          className="w-full"
-        >
-          <Save className="mr-2 h-4 w-4" />
-          {isLoading ? t('common.loading') : t('common.save')}
-        </Button>
-      </CardContent>
-    </Card>
+      <SpoolLifecycleCard />
+    </div>
   );
 }
 
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Trash2, Copy, Send, History } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { webhookEventTypes, type Webhook, type WebhookDelivery, type WebhookEventType } from "@shared/schema";
+
+type WebhookSummary = Omit<Webhook, "secret">;
+
+// Deliveries shown when a webhook's log is expanded
+const DELIVERY_LOG_LIMIT = 20;
+
+function DeliveryLog({ webhookId }: { webhookId: number }) {
+  const { t } = useTranslation();
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: [`/api/webhooks/${webhookId}/deliveries?limit=${DELIVERY_LOG_LIMIT}`],
+    queryFn: () => apiRequest(`/api/webhooks/${webhookId}/deliveries?limit=${DELIVERY_LOG_LIMIT}`),
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-center py-2">{t("common.loading")}</div>;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">{t("settings.webhooks.noDeliveries")}</p>;
+  }
+
+  return (
+    <div className="max-h-48 overflow-y-auto space-y-1">
+      {deliveries.map((delivery) => (
+        <div key={delivery.id} className="text-xs flex items-center justify-between gap-2">
+          <span className="whitespace-nowrap">{delivery.createdAt ? new Date(delivery.createdAt).toLocaleString() : "-"}</span>
+          <span className="font-mono truncate">{delivery.eventType}</span>
+          <span className="text-muted-foreground truncate" title={delivery.lastError ?? undefined}>
+            {delivery.responseStatus ?? delivery.lastError ?? ""}
+          </span>
+          <Badge
+            variant={delivery.status === "failed" ? "destructive" : delivery.status === "succeeded" ? "default" : "secondary"}
+            className="whitespace-nowrap"
+          >
+            {t(`settings.webhooks.status.${delivery.status}`)}
+            {delivery.attempts > 1 && ` (${delivery.attempts})`}
+          </Badge>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function WebhooksSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+  const [secret, setSecret] = useState("");
+  const [eventTypes, setEventTypes] = useState<WebhookEventType[]>([...webhookEventTypes]);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [expandedLog, setExpandedLog] = useState<number | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<WebhookSummary[]>({
+    queryKey: ["/api/webhooks"],
+    queryFn: () => apiRequest("/api/webhooks"),
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest<Webhook>("/api/webhooks", {
+      method: "POST",
+      body: JSON.stringify({ url: url.trim(), secret: secret.trim() || undefined, eventTypes }),
+    }),
+    onSuccess: (created) => {
+      setUrl("");
+      setSecret("");
+      setEventTypes([...webhookEventTypes]);
+      setNewSecret(created.secret);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: t("settings.webhooks.createError"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...changes }: { id: number; enabled?: boolean; eventTypes?: WebhookEventType[] }) =>
+      apiRequest(`/api/webhooks/${id}`, { method: "PATCH", body: JSON.stringify(changes) }),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/webhooks/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("settings.webhooks.deleteSuccess") });
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.webhooks.deleteError"), variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/webhooks/${id}/test`, { method: "POST" }),
+    onSuccess: (_result, id) => {
+      setExpandedLog(id);
+      toast({ title: t("settings.webhooks.testSent") });
+      // The first attempt runs in the background; refresh once it likely finished
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${id}/deliveries?limit=${DELIVERY_LOG_LIMIT}`] }), 2000);
+    },
+    onError: () => {
+      toast({ title: t("common.error"), description: t("settings.webhooks.testError"), variant: "destructive" });
+    },
+  });
+
+  const toggleEvent = (selected: WebhookEventType[], event: WebhookEventType, checked: boolean) =>
+    checked ? [...selected, event] : selected.filter((e) => e !== event);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <h3 className="text-lg font-medium">{t("settings.webhooks.title")}</h3>
+          <p className="text-sm text-muted-foreground">{t("settings.webhooks.description")}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-center py-4">{t("common.loading")}</div>
+          ) : webhooks.length === 0 ? (
+            <p className="text-sm text-neutral-400">{t("settings.webhooks.empty")}</p>
+          ) : (
+            <div className="space-y-3">
+              {webhooks.map((webhook) => (
+                <div key={webhook.id} className="border rounded-md px-3 py-2 space-y-2 dark:border-neutral-700">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium font-mono text-sm truncate" title={webhook.url}>{webhook.url}</p>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Switch
+                        checked={webhook.enabled}
+                        onCheckedChange={(enabled) => updateMutation.mutate({ id: webhook.id, enabled })}
+                        aria-label={t("settings.webhooks.enabled")}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => testMutation.mutate(webhook.id)}
+                        title={t("settings.webhooks.test")}
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setExpandedLog(expandedLog === webhook.id ? null : webhook.id)}
+                        title={t("settings.webhooks.deliveries")}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => deleteMutation.mutate(webhook.id)}
+                        aria-label={t("common.delete")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {webhookEventTypes.map((event) => (
+                      <label key={event} className="flex items-center gap-1 text-xs">
+                        <Checkbox
+                          checked={webhook.eventTypes.includes(event)}
+                          onCheckedChange={(checked) => {
+                            const next = toggleEvent(webhook.eventTypes, event, checked === true);
+                            if (next.length > 0) updateMutation.mutate({ id: webhook.id, eventTypes: next });
+                          }}
+                        />
+                        {t(`settings.webhooks.events.${event}`)}
+                      </label>
+                    ))}
+                  </div>
+                  {expandedLog === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2 border-t pt-4 dark:border-neutral-700">
+            <Input
+              placeholder={t("settings.webhooks.urlPlaceholder")}
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <Input
+              placeholder={t("settings.webhooks.secretPlaceholder")}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {webhookEventTypes.map((event) => (
+                <label key={event} className="flex items-center gap-1 text-sm">
+                  <Checkbox
+                    checked={eventTypes.includes(event)}
+                    onCheckedChange={(checked) => setEventTypes((current) => toggleEvent(current, event, checked === true))}
+                  />
+                  {t(`settings.webhooks.events.${event}`)}
+                </label>
+              ))}
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!url.trim() || eventTypes.length === 0 || createMutation.isPending}
+            >
+              {t("settings.webhooks.createButton")}
+            </Button>
+          </div>
+
+          {newSecret && (
+            <div className="border rounded-md p-3 dark:border-neutral-700 bg-primary/5">
+              <p className="text-sm font-medium mb-1">{t("settings.webhooks.newSecretTitle")}</p>
+              <p className="text-xs text-muted-foreground mb-2">{t("settings.webhooks.newSecretWarning")}</p>
+              <div className="flex gap-2">
+                <Input readOnly value={newSecret} className="font-mono text-xs" />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => navigator.clipboard.writeText(newSecret)}
+                  aria-label={t("common.copy")}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" className="mt-2" onClick={() => setNewSecret(null)}>
+                {t("common.cancel")}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
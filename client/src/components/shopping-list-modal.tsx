@@ -0,0 +1,346 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PackageCheck, RotateCcw, ShoppingCart, Trash2, Wand2 } from "lucide-react";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { useUnits } from "@/lib/use-units";
+import { formatCurrency } from "@/lib/units";
+import type { Filament, ShoppingListEntry, ShoppingListStatus } from "@shared/schema";
+
+export interface ShoppingListSummary extends ShoppingListEntry {
+  vendor: string | null;
+  lastPurchasePrice: number | null;
+  lastPurchaseDate: string | null;
+  spoolsInStock: number;
+}
+
+interface ShoppingListModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface TypeOption {
+  filamentTypeId: number;
+  label: string;
+}
+
+function typeLabel(type: Pick<ShoppingListEntry, "manufacturer" | "material" | "colorName">): string {
+  return [type.manufacturer, type.material, type.colorName].filter(Boolean).join(" ");
+}
+
+// The spools only carry their type's ID, so the types to pick from are the
+// distinct ones among them
+function typeOptions(filaments: Filament[]): TypeOption[] {
+  const byType = new Map<number, TypeOption>();
+  for (const filament of filaments) {
+    if (!byType.has(filament.filamentTypeId)) {
+      byType.set(filament.filamentTypeId, { filamentTypeId: filament.filamentTypeId, label: typeLabel(filament) });
+    }
+  }
+  return Array.from(byType.values()).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function ShoppingListModal({ open, onOpenChange }: ShoppingListModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { currency } = useUnits();
+  const queryClient = useQueryClient();
+  const [filamentTypeId, setFilamentTypeId] = useState("");
+  const [quantity, setQuantity] = useState("1");
+  const [receivingId, setReceivingId] = useState<number | null>(null);
+  const [receivePrice, setReceivePrice] = useState("");
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ["/api/shopping-list"],
+    queryFn: () => apiRequest<ShoppingListSummary[]>("/api/shopping-list"),
+    enabled: open,
+  });
+
+  const { data: filaments = [] } = useQuery({
+    queryKey: ["/api/filaments"],
+    queryFn: () => apiRequest<Filament[]>("/api/filaments"),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/shopping-list"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+  };
+
+  const onError = (description: string) => () => {
+    toast({ title: t("common.error"), description, variant: "destructive" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("/api/shopping-list", {
+        method: "POST",
+        body: JSON.stringify({ filamentTypeId: Number(filamentTypeId), quantity: Number(quantity) || 1 }),
+      }),
+    onSuccess: () => {
+      setFilamentTypeId("");
+      setQuantity("1");
+      invalidate();
+      toast({ title: t("shoppingList.addSuccess") });
+    },
+    onError: onError(t("shoppingList.addError")),
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: () => apiRequest<{ added: number }>("/api/shopping-list/generate", { method: "POST" }),
+    onSuccess: ({ added }) => {
+      invalidate();
+      toast({ title: t("shoppingList.generateSuccess", { count: added }) });
+    },
+    onError: onError(t("shoppingList.generateError")),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: number; changes: { quantity?: number; status?: ShoppingListStatus } }) =>
+      apiRequest(`/api/shopping-list/${id}`, { method: "PATCH", body: JSON.stringify(changes) }),
+    onSuccess: invalidate,
+    onError: onError(t("shoppingList.updateError")),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: (id: number) =>
+      apiRequest<{ filaments: Filament[] }>(`/api/shopping-list/${id}/receive`, {
+        method: "POST",
+        body: JSON.stringify(receivePrice.trim() !== "" ? { purchasePrice: Number(receivePrice) } : {}),
+      }),
+    onSuccess: ({ filaments: created }) => {
+      setReceivingId(null);
+      setReceivePrice("");
+      invalidate();
+      toast({ title: t("shoppingList.receiveSuccess", { count: created.length }) });
+    },
+    onError: onError(t("shoppingList.receiveError")),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/shopping-list/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t("shoppingList.deleteSuccess") });
+    },
+    onError: onError(t("shoppingList.deleteError")),
+  });
+
+  const updateQuantity = (item: ShoppingListSummary, value: string) => {
+    const next = Number(value);
+    if (Number.isInteger(next) && next >= 1 && next !== item.quantity) {
+      updateMutation.mutate({ id: item.id, changes: { quantity: next } });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl" aria-describedby="shopping-list-description">
+        <DialogHeader>
+          <DialogTitle>{t("shoppingList.title")}</DialogTitle>
+          <DialogDescription id="shopping-list-description">{t("shoppingList.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={generateMutation.isPending}
+            onClick={() => generateMutation.mutate()}
+          >
+            <Wand2 className="mr-1 h-4 w-4" />
+            {t("shoppingList.generate")}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4">{t("common.loading")}</div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-4 text-neutral-400">{t("shoppingList.empty")}</div>
+        ) : (
+          <div className="max-h-[360px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("shoppingList.filamentType")}</TableHead>
+                  <TableHead>{t("shoppingList.vendor")}</TableHead>
+                  <TableHead className="text-right">{t("shoppingList.lastPrice")}</TableHead>
+                  <TableHead className="text-right">{t("shoppingList.inStock")}</TableHead>
+                  <TableHead>{t("shoppingList.quantity")}</TableHead>
+                  <TableHead>{t("common.status")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <Fragment key={item.id}>
+                    <TableRow>
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-2">
+                          {item.colorCode && (
+                            <span
+                              className="inline-block h-3 w-3 rounded-full border"
+                              style={{ backgroundColor: item.colorCode }}
+                            />
+                          )}
+                          {typeLabel(item)}
+                        </span>
+                        {item.source === "low_stock" && (
+                          <span className="text-xs text-neutral-400">{t("shoppingList.fromLowStock")}</span>
+                        )}
+                        {item.source === "min_stock" && (
+                          <span className="text-xs text-neutral-400">{t("shoppingList.fromMinStock")}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{item.vendor ?? "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {item.lastPurchasePrice !== null ? formatCurrency(item.lastPurchasePrice, currency) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{item.spoolsInStock}</TableCell>
+                      <TableCell>
+                        <Input
+                          key={`${item.id}-${item.quantity}`}
+                          type="number"
+                          min="1"
+                          max="100"
+                          className="w-20 h-8"
+                          defaultValue={item.quantity}
+                          onBlur={(e) => updateQuantity(item, e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={item.status === "ordered" ? "default" : "outline"}>
+                          {t(`shoppingList.statuses.${item.status}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {item.status === "open" ? (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => updateMutation.mutate({ id: item.id, changes: { status: "ordered" } })}
+                              aria-label={t("shoppingList.markOrdered")}
+                              title={t("shoppingList.markOrdered")}
+                            >
+                              <ShoppingCart className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => updateMutation.mutate({ id: item.id, changes: { status: "open" } })}
+                              aria-label={t("shoppingList.reopen")}
+                              title={t("shoppingList.reopen")}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => {
+                              setReceivingId(receivingId === item.id ? null : item.id);
+                              setReceivePrice("");
+                            }}
+                            aria-label={t("shoppingList.receive")}
+                            title={t("shoppingList.receive")}
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => deleteMutation.mutate(item.id)}
+                            aria-label={t("common.delete")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {receivingId === item.id && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="bg-muted/40">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-sm">
+                              {t("shoppingList.receiveHint", { count: item.quantity })}
+                            </span>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="w-36 h-8"
+                              placeholder={
+                                item.lastPurchasePrice !== null
+                                  ? formatCurrency(item.lastPurchasePrice, currency)
+                                  : t("shoppingList.pricePlaceholder")
+                              }
+                              value={receivePrice}
+                              onChange={(e) => setReceivePrice(e.target.value)}
+                            />
+                            <Button
+                              size="sm"
+                              disabled={receiveMutation.isPending}
+                              onClick={() => receiveMutation.mutate(item.id)}
+                            >
+                              {t("shoppingList.receiveButton")}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3 dark:border-neutral-700">
+          <h4 className="font-medium">{t("shoppingList.addTitle")}</h4>
+          <div className="flex items-center gap-2">
+            <Select value={filamentTypeId} onValueChange={setFilamentTypeId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={t("shoppingList.selectType")} />
+              </SelectTrigger>
+              <SelectContent>
+                {typeOptions(filaments).map((option) => (
+                  <SelectItem key={option.filamentTypeId} value={String(option.filamentTypeId)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="1"
+              max="100"
+              className="w-24"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              aria-label={t("shoppingList.quantity")}
+            />
+            <Button
+              disabled={!filamentTypeId || addMutation.isPending}
+              onClick={() => addMutation.mutate()}
+            >
+              {t("shoppingList.addButton")}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
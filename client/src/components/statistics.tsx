@@ -1,42 +1,86 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronRight } from "lucide-react";
+import { useState, type ComponentType } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, LayoutGrid, X } from "lucide-react";
 import { useTranslation } from "@/i18n";
-import { useUnits } from "@/lib/use-units";
-import { formatCurrency } from "@/lib/units";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { statisticsWidgetTypes, type StatisticsWidget, type StatisticsWidgetType } from "@shared/schema";
+import {
+  AgingWidget,
+  ConsumptionWidget,
+  DryingWidget,
+  ForecastWidget,
+  OverviewWidget,
+  SpendWidget,
+  StockByLocationWidget,
+  type WidgetParams,
+  type WidgetProps,
+} from "./dashboard";
+import type { Statistics } from "./dashboard/overview-widget";
 
-interface MaterialDistribution {
-  name: string;
-  percentage: number;
-}
+const WIDGETS: Record<StatisticsWidgetType, { component: ComponentType<WidgetProps>; span: string }> = {
+  "overview": { component: OverviewWidget, span: "lg:col-span-3" },
+  "stock-by-location": { component: StockByLocationWidget, span: "" },
+  "consumption": { component: ConsumptionWidget, span: "lg:col-span-2" },
+  "forecast": { component: ForecastWidget, span: "" },
+  "spend": { component: SpendWidget, span: "lg:col-span-2" },
+  "aging": { component: AgingWidget, span: "" },
+  "drying": { component: DryingWidget, span: "" },
+};
 
-interface Statistics {
-  totalSpools: number;
-  totalWeight: string;
-  remainingWeight: string;
-  averageRemaining: number;
-  lowStockCount: number;
-  materialDistribution: MaterialDistribution[];
-  topMaterials: string[];
-  topColors: string[];
-  estimatedValue: number;
-  totalPurchaseValue: number;
-  averageAge: number;
-  oldestFilament?: {name: string, days: number} | null;
-  newestFilament?: {name: string, days: number} | null;
-}
+const WIDGETS_KEY = ["/api/statistics/widgets"];
+
+// Unique enough within one user's layout; crypto.randomUUID needs HTTPS
+const newWidgetId = (type: StatisticsWidgetType) => `${type}-${Date.now().toString(36)}`;
 
 export function StatisticsAccordion() {
   const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
   const { t } = useTranslation();
-  const { currency } = useUnits();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Fetch statistics from the server
   const { data: statistics, isLoading } = useQuery<Statistics>({
     queryKey: ['/api/statistics'],
   });
 
+  const { data: layout } = useQuery<{ widgets: StatisticsWidget[] }>({
+    queryKey: WIDGETS_KEY,
+    enabled: isOpen,
+  });
+  const widgets = layout?.widgets ?? [];
+
+  // The layout is updated right away and saved in the background
+  const saveMutation = useMutation({
+    mutationFn: (next: StatisticsWidget[]) => apiRequest("/api/statistics/widgets", {
+      method: "PUT",
+      body: JSON.stringify({ widgets: next }),
+    }),
+    onMutate: (next) => {
+      const previous = queryClient.getQueryData(WIDGETS_KEY);
+      queryClient.setQueryData(WIDGETS_KEY, { widgets: next });
+      return { previous };
+    },
+    onError: (_error, _next, context) => {
+      queryClient.setQueryData(WIDGETS_KEY, context?.previous);
+      toast({ title: t('common.error'), description: t('statistics.widgets.saveError'), variant: "destructive" });
+    },
+  });
+  const save = (next: StatisticsWidget[]) => saveMutation.mutate(next);
+
+  const move = (index: number, offset: number) => {
+    const next = [...widgets];
+    const [widget] = next.splice(index, 1);
+    next.splice(index + offset, 0, widget);
+    save(next);
+  };
+
+  const setParams = (id: string, params: WidgetParams) =>
+    save(widgets.map((widget) => (widget.id === id ? { ...widget, params } : widget)));
+
   return (
     <div className="dark:bg-neutral-800 light:bg-white rounded-lg shadow-md mb-6">
       <button
@@ -53,133 +97,64 @@ export function StatisticsAccordion() {
       </button>
 
       {isOpen && (
-        <div className="px-4 pb-4 pt-2 text-sm">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {/* Inventory */}
-            <div className="space-y-2 dark:bg-neutral-900 light:bg-gray-50 p-3 rounded-lg">
-              <h3 className="dark:text-neutral-400 light:text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1">{t('statistics.inventory')}</h3>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 light:text-gray-700">{t('statistics.totalSpools')}:</span>
-                <span className="font-medium dark:text-neutral-400 light:text-gray-800">
-                  {isLoading ? "..." : statistics?.totalSpools || 0}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 text-gray-700">{t('statistics.totalWeight')}:</span>
-                <span className="font-medium dark:text-neutral-400 text-gray-800">
-                  {isLoading ? "..." : `${statistics?.totalWeight || 0} kg`}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 text-gray-700">{t('statistics.remainingWeight')}:</span>
-                <span className="font-medium dark:text-neutral-400 text-gray-800">
-                  {isLoading ? "..." : `${statistics?.remainingWeight || 0} kg`}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 text-gray-700">{t('statistics.averageRemaining')}:</span>
-                <span className="font-medium dark:text-neutral-400 text-gray-800">
-                  {isLoading ? "..." : `${statistics?.averageRemaining || 0}%`}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 text-gray-700">{t('statistics.lowStockCount')} (&lt;25%):</span>
-                <span className="font-medium dark:text-neutral-400 text-gray-800">
-                  {isLoading ? "..." : statistics?.lowStockCount || 0} {t('filaments.spools')}
-                </span>
-              </div>
-            </div>
-
-            {/* Material Distribution */}
-            <div className="space-y-2 dark:bg-neutral-900 light:bg-gray-50 p-4 rounded-lg overflow-hidden">
-              <h3 className="dark:text-neutral-400 light:text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mb-2">{t('statistics.materialDistribution')}</h3>
-              {!isLoading && statistics?.materialDistribution && statistics.materialDistribution.map((item) => (
-                <div key={item.name} className="grid grid-cols-12 items-center gap-2 min-w-0">
-                  <span className="dark:text-neutral-300 light:text-gray-700 col-span-4 min-w-0">{item.name}:</span>
-                  <div className="flex items-center col-span-6 min-w-0">
-                    <div className="w-full h-1.5 dark:bg-neutral-800 light:bg-gray-200 rounded-full mr-2 overflow-hidden">
-                      <div
-                        className="h-full theme-primary-bg"
-                        style={{ width: `${item.percentage}%` }}
-                      />
-                    </div>
-                  </div>
-                  <span className="font-medium dark:text-neutral-400 light:text-gray-800 col-span-2 text-right whitespace-nowrap pr-1">{item.percentage}%</span>
-                </div>
-              ))}
-
-              <h3 className="dark:text-neutral-400 light:text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mt-3">{t('statistics.topMaterials')}</h3>
-              <div className="flex flex-wrap gap-2">
-                {!isLoading && statistics?.topMaterials?.map((material) => (
-                  <Badge
-                    key={material}
-                    variant="outline"
-                    className="theme-badge dark:bg-neutral-800 dark:text-neutral-200 light:bg-gray-100 light:text-gray-800"
-                  >
-                    {material}
-                  </Badge>
-                ))}
-                {isLoading && <span className="dark:text-neutral-400 light:text-gray-500">...</span>}
-              </div>
-
-              <h3 className="dark:text-neutral-400 text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mt-3">{t('statistics.topColors')}</h3>
-              <div className="flex flex-wrap gap-2">
-                {!isLoading && statistics?.topColors?.map((color) => (
-                  <Badge
-                    key={color}
-                    variant="outline"
-                    className="theme-badge dark:bg-neutral-800 dark:text-neutral-200 light:bg-gray-100 light:text-gray-800"
-                  >
-                    {color}
-                  </Badge>
-                ))}
-                {isLoading && <span className="dark:text-neutral-400 text-gray-500">...</span>}
-              </div>
-            </div>
+        <div className="px-4 pb-4 pt-2 text-sm space-y-4">
+          <div className="flex flex-wrap justify-end gap-2">
+            {editing && (
+              <Select
+                value=""
+                onValueChange={(type) => save([
+                  ...widgets,
+                  { id: newWidgetId(type as StatisticsWidgetType), type: type as StatisticsWidgetType, params: {} },
+                ])}
+              >
+                <SelectTrigger className="h-8 w-44">
+                  <SelectValue placeholder={t('statistics.widgets.add')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {statisticsWidgetTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{t(`statistics.widgets.types.${type}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setEditing(!editing)}>
+              <LayoutGrid className="mr-2 h-4 w-4" />
+              {editing ? t('statistics.widgets.done') : t('statistics.widgets.customize')}
+            </Button>
+          </div>
 
-            {/* Values and Age */}
-            <div className="space-y-2 dark:bg-neutral-900 light:bg-gray-50 p-3 rounded-lg">
-              <h3 className="dark:text-neutral-400 text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1">{t('statistics.materialValue')}</h3>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 text-gray-700">{t('statistics.estimatedRemainingValue')}:</span>
-                <span className="font-medium text-green-500 dark:text-green-400">
-                  {isLoading ? "..." : formatCurrency(statistics?.estimatedValue || 0, currency)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 text-gray-700">{t('statistics.totalPurchaseValue')}:</span>
-                <span className="font-medium text-amber-500 dark:text-amber-400">
-                  {isLoading ? "..." : formatCurrency(statistics?.totalPurchaseValue || 0, currency)}
-                </span>
-              </div>
+          {layout && widgets.length === 0 && (
+            <p className="text-neutral-400 text-center py-4">{t('statistics.widgets.empty')}</p>
+          )}
 
-              <h3 className="dark:text-neutral-400 text-gray-700 font-medium border-b dark:border-neutral-800 light:border-gray-200 pb-1 mt-3">{t('statistics.filamentAge')}</h3>
-              <div className="flex justify-between">
-                <span className="dark:text-neutral-300 text-gray-700">{t('statistics.average')}:</span>
-                <span className="font-medium dark:text-neutral-400 text-gray-800">
-                  {isLoading ? "..." : `${statistics?.averageAge || 0} ${t('statistics.days')}`}
-                </span>
-              </div>
-              {statistics?.oldestFilament && (
-                <div className="flex justify-between">
-                  <span className="dark:text-neutral-300 text-gray-700">{t('statistics.oldest')}:</span>
-                  <span className="font-medium dark:text-neutral-400 text-gray-800" title={statistics.oldestFilament.name}>
-                    {isLoading ? "..." : `${statistics.oldestFilament.days} ${t('statistics.days')}`}
-                  </span>
-                </div>
-              )}
-              {statistics?.newestFilament && (
-                <div className="flex justify-between">
-                  <span className="dark:text-neutral-300 text-gray-700">{t('statistics.newest')}:</span>
-                  <span className="font-medium dark:text-neutral-400 text-gray-800" title={statistics.newestFilament.name}>
-                    {isLoading ? "..." : `${statistics.newestFilament.days} ${t('statistics.days')}`}
-                  </span>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {widgets.map((widget, index) => {
+              const { component: Widget, span } = WIDGETS[widget.type];
+              return (
+                <div key={widget.id} className={`${span} ${editing ? "ring-1 ring-dashed ring-neutral-500 rounded-lg" : ""}`}>
+                  {editing && (
+                    <div className="flex items-center justify-between gap-1 px-2 py-1">
+                      <span className="text-xs dark:text-neutral-500 text-gray-500">{t(`statistics.widgets.types.${widget.type}`)}</span>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => move(index, -1)} aria-label={t('statistics.widgets.moveUp')}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === widgets.length - 1} onClick={() => move(index, 1)} aria-label={t('statistics.widgets.moveDown')}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => save(widgets.filter((w) => w.id !== widget.id))} aria-label={t('statistics.widgets.remove')}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  <Widget params={widget.params} onParamsChange={(params) => setParams(widget.id, params)} />
                 </div>
-              )}
-            </div>
+              );
+            })}
           </div>
         </div>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
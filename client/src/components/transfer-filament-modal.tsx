@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/i18n";
+import { useToast } from "@/hooks/use-toast";
+import type { Filament } from "@shared/schema";
+
+interface TransferFilamentModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The spool the transfer was started from
+  filament?: Filament;
+}
+
+// "out" moves filament off the spool the modal was opened for, "in" refills it
+type Direction = "out" | "in";
+
+// totalWeight is stored in kg
+const remainingGrams = (spool: Filament) =>
+  (Number(spool.totalWeight) * 1000 * Number(spool.remainingPercentage)) / 100;
+const freeGrams = (spool: Filament) =>
+  Number(spool.totalWeight) * 1000 - remainingGrams(spool);
+
+export function TransferFilamentModal({ open, onOpenChange, filament }: TransferFilamentModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [direction, setDirection] = useState<Direction>("out");
+  const [otherId, setOtherId] = useState("");
+  const [grams, setGrams] = useState("");
+  const [note, setNote] = useState("");
+
+  // Archived spools included: an emptied master spool is a common target
+  const { data: filaments = [] } = useQuery({
+    queryKey: ["/api/filaments", "include-archived"],
+    queryFn: () => apiRequest<Filament[]>("/api/filaments?archived=include"),
+    enabled: open,
+  });
+
+  // Start over whenever the modal is reopened
+  useEffect(() => {
+    if (open) {
+      setDirection("out");
+      setOtherId("");
+      setGrams("");
+      setNote("");
+    }
+  }, [open]);
+
+  const candidates = filament
+    ? filaments.filter((f) => f.id !== filament.id && f.filamentTypeId === filament.filamentTypeId)
+    : [];
+  const other = candidates.find((f) => String(f.id) === otherId);
+  const from = direction === "out" ? filament : other;
+  const to = direction === "out" ? other : filament;
+  const amount = grams !== "" ? Number(grams) : from ? remainingGrams(from) : 0;
+
+  const transferMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/filaments/${from!.id}/transfer`, {
+        method: "POST",
+        body: JSON.stringify({
+          toFilamentId: to!.id,
+          grams: grams !== "" ? Number(grams) : undefined,
+          note: note.trim() || undefined,
+        }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filaments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      toast({ title: t("transfer.success") });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: t("transfer.error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" aria-describedby="transfer-filament-description">
+        <DialogHeader>
+          <DialogTitle>{t("transfer.title")}</DialogTitle>
+          <DialogDescription id="transfer-filament-description">
+            {filament && t("transfer.description", { name: filament.name })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("transfer.noCandidates")}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>{t("transfer.direction")}</Label>
+              <Select value={direction} onValueChange={(value) => setDirection(value as Direction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="out">{t("transfer.directions.out")}</SelectItem>
+                  <SelectItem value="in">{t("transfer.directions.in")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{direction === "out" ? t("transfer.target") : t("transfer.source")}</Label>
+              <Select value={otherId} onValueChange={setOtherId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("transfer.selectSpool")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((f) => (
+                    <SelectItem key={f.id} value={String(f.id)}>
+                      {f.name} · {Math.round(remainingGrams(f))}g
+                      {f.archivedAt ? ` (${t("filaments.archived")})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transfer-grams">{t("transfer.grams")}</Label>
+              <Input
+                id="transfer-grams"
+                type="number"
+                min={0}
+                step="0.1"
+                placeholder={from ? t("transfer.gramsAll", { grams: remainingGrams(from).toFixed(1) }) : ""}
+                value={grams}
+                onChange={(e) => setGrams(e.target.value)}
+              />
+              {from && to && (
+                <p className="text-xs text-muted-foreground">
+                  {t("transfer.preview", {
+                    from: Math.max(0, remainingGrams(from) - amount).toFixed(1),
+                    to: (remainingGrams(to) + amount).toFixed(1),
+                  })}
+                  {amount > freeGrams(to) && ` ${t("transfer.noRoom", { grams: freeGrams(to).toFixed(1) })}`}
+                </p>
+              )}
+            </div>
+
+            <Input
+              placeholder={t("filaments.usageNotePlaceholder")}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={() => transferMutation.mutate()}
+            disabled={!from || !to || amount <= 0 || transferMutation.isPending}
+          >
+            {t("transfer.submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
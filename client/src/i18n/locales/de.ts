@@ -13,6 +13,8 @@ const translations = {
     noResults: 'Keine Ergebnisse gefunden',
     confirm: 'Bestätigen',
     actions: 'Aktionen',
+    expand: 'Aufklappen',
+    collapse: 'Zuklappen',
     status: 'Status',
     name: 'Name',
     all: 'Alle',
@@ -156,6 +158,8 @@ const translations = {
     delete: 'Löschen',
     exportCSV: 'CSV exportieren',
     exportJSON: 'JSON exportieren',
+    labels: 'Etiketten',
+    printLabels: 'Etiketten für die ausgewählten Filamente drucken',
     close: 'Schließen',
     noValidFilamentsSelected: 'Keine gültigen Filamente für die Aktualisierung ausgewählt',
     updateTitle: 'Filamente stapelweise aktualisieren',
@@ -214,14 +218,39 @@ const translations = {
     remainingPercentage: 'Verbleibender Prozentsatz',
     equivalentTo: 'Entspricht',
     printLabel: 'Etikett drucken',
+    loadedInPrinter: 'Aktuell in diesem Druckerwerkzeug geladen',
+    archive: 'Spule archivieren',
+    unarchive: 'Aus dem Archiv wiederherstellen',
+    archived: 'Archiviert',
+    archiveSuccess: 'Spule archiviert. Ihr Verlauf bleibt erhalten.',
+    unarchiveSuccess: 'Spule aus dem Archiv wiederhergestellt.',
+    archiveError: 'Archivstatus konnte nicht geändert werden:',
     usageNote: 'Notiz (optional)',
     usageNotePlaceholder: 'z.B. Deckel gedruckt',
     usageHistory: 'Verlauf',
     noUsageHistory: 'Noch keine Änderungen erfasst.',
+    revertUsage: 'Diese Änderung rückgängig machen',
+    revertSuccess: 'Änderung rückgängig gemacht',
+    revertError: 'Änderung konnte nicht rückgängig gemacht werden',
+    reverted: 'rückgängig gemacht',
+    revertEntry: 'Rücknahme',
+    transferEntry: 'Umspulung',
+    locationHistory: 'Umlagerungen',
+    spoolWeight: 'Leerspulengewicht',
+    spoolWeightPlaceholder: 'z.B. 250',
+    weighSpool: 'Spule wiegen',
+    grossWeightPlaceholder: 'Waagenanzeige inkl. Spule',
+    weighSpoolApply: 'Restmenge aus der Waagenanzeige übernehmen',
+    weighSpoolNoTare: 'Geben Sie oben das Leerspulengewicht ein, um eine Waagenanzeige zu verwenden.',
+    weighSpoolHint: 'Die leere Spule ({{tare}}g) wird von der Anzeige abgezogen.',
+    weighSpoolPreview: '≈ {{percentage}}% verbleibend nach Abzug von {{tare}}g für die Spule.',
+    weighSuccess: 'Restmenge auf {{percentage}}% gesetzt',
+    weighError: 'Waagenanzeige konnte nicht übernommen werden',
     additionalInfo: 'Zusätzliche Informationen',
     purchaseDate: 'Kaufdatum',
     purchasePrice: 'Kaufpreis',
     purchasePricePlaceholder: 'z.B. 20,99',
+    purchaseCurrency: 'Währung des Kaufpreises',
     storageLocation: 'Lagerort',
     selectStorageLocation: 'Lagerort auswählen oder eingeben',
     enterStorageLocation: 'Lagerort eingeben...',
@@ -376,18 +405,56 @@ const translations = {
       updated: 'Einheiten aktualisiert',
       updatedDescription: 'Ihre Einheiteneinstellungen wurden erfolgreich gespeichert.',
     },
+    spoolLifecycle: {
+      title: 'Leere Spulen',
+      description: 'Archivierte Spulen werden im Bestand ausgeblendet, behalten aber ihren Verbrauchsverlauf und ihre Statistiken',
+      autoArchiveLabel: 'Leere Spulen automatisch archivieren',
+      autoArchiveDescription: 'Eine Spule archivieren, sobald ihr Verbrauch sie auf 0 % bringt',
+      updated: 'Spuleneinstellungen gespeichert',
+      updateError: 'Spuleneinstellungen konnten nicht gespeichert werden.',
+    },
     notifications: {
       title: 'Benachrichtigungen',
-      description: 'E-Mail-Benachrichtigungen für niedrigen Bestand und Trocknungserinnerungen konfigurieren',
+      description: 'Benachrichtigungen für niedrigen Bestand und Trocknungserinnerungen sowie deren Empfänger konfigurieren',
+      emailLabel: 'E-Mail',
+      emailDescription: 'Benachrichtigungen an meine bestätigte E-Mail-Adresse senden',
       lowStockLabel: 'Bestandswarnungen',
-      lowStockDescription: 'Per E-Mail benachrichtigen, wenn eine Spule unter den Schwellenwert fällt',
+      lowStockDescription: 'Benachrichtigen, wenn eine Spule unter den Schwellenwert fällt',
       thresholdLabel: 'Schwellenwert für niedrigen Bestand (%)',
       dryingLabel: 'Trocknungserinnerungen',
-      dryingDescription: 'Per E-Mail benachrichtigen, wenn eine feuchtigkeitsempfindliche Spule längere Zeit nicht getrocknet wurde',
+      dryingDescription: 'Benachrichtigen, wenn eine feuchtigkeitsempfindliche Spule längere Zeit nicht getrocknet wurde',
       dryingDaysLabel: 'Erinnern nach (Tagen)',
       updated: 'Benachrichtigungseinstellungen aktualisiert',
       updatedDescription: 'Ihre Benachrichtigungseinstellungen wurden erfolgreich gespeichert.',
       updateError: 'Benachrichtigungseinstellungen konnten nicht aktualisiert werden.',
+      channels: {
+        title: 'Benachrichtigungskanäle',
+        description: 'Push- und Chat-Ziele, die Ihre Benachrichtigungen zusätzlich zur E-Mail erhalten',
+        empty: 'Noch keine Benachrichtigungskanäle',
+        namePlaceholder: 'Name (optional), z. B. Handy',
+        addButton: 'Kanal hinzufügen',
+        addSuccess: 'Benachrichtigungskanal hinzugefügt',
+        addError: 'Benachrichtigungskanal konnte nicht hinzugefügt werden.',
+        deleteSuccess: 'Benachrichtigungskanal gelöscht',
+        deleteError: 'Benachrichtigungskanal konnte nicht gelöscht werden.',
+        test: 'Testbenachrichtigung senden',
+        testSuccess: 'Testbenachrichtigung gesendet',
+        testError: 'Testbenachrichtigung fehlgeschlagen',
+        types: {
+          webhook: 'Webhook',
+          ntfy: 'ntfy',
+          gotify: 'Gotify',
+          matrix: 'Matrix',
+          discord: 'Discord',
+          slack: 'Slack',
+        },
+        fields: {
+          url: 'Webhook-URL',
+          serverUrl: 'Server-URL',
+          topic: 'Topic',
+          token: 'Zugangstoken',
+        },
+      },
     },
     customFields: {
       title: 'Benutzerdefinierte Felder',
@@ -421,6 +488,16 @@ const translations = {
       noResults: 'Keine Treffer gefunden',
       useResult: 'Übernehmen',
     },
+    exchangeRates: {
+      title: 'Wechselkurse',
+      description: 'Damit werden in anderen Währungen eingegebene Preise in die Währung des jeweiligen Benutzers umgerechnet. Die Kurse werden nicht online abgerufen - bitte aktualisieren Sie sie hier manuell.',
+      noRate: 'Kein Kurs',
+      updatedAt: 'Aktualisiert',
+      saved: 'Wechselkurse gespeichert',
+      savedDescription: 'Statistiken und Kosten verwenden jetzt die neuen Kurse.',
+      saveError: 'Wechselkurse konnten nicht gespeichert werden.',
+      missingRates: 'Kein Wechselkurs für {{currencies}} - Preise in dieser Währung werden ausgelassen oder geschätzt.',
+    },
     apiTokens: {
       title: 'API-Tokens',
       description: 'Mit Tokens können Drucker-/Druckserver-Integrationen (z.B. Moonraker) den Filamentverbrauch in Ihrem Namen melden',
@@ -437,6 +514,87 @@ const translations = {
       newTokenTitle: 'Neues API-Token',
       newTokenWarning: 'Kopieren Sie dieses Token jetzt - es wird nicht erneut angezeigt.',
     },
+    printers: {
+      title: 'Drucker',
+      description: 'Drucker und die in jedem Werkzeug geladene Spule. Verbrauchsereignisse eines verknüpften API-Tokens können filamentId weglassen und nutzen dann die geladene Spule.',
+      empty: 'Noch keine Drucker',
+      namePlaceholder: 'Druckername',
+      toolCount: 'Werkzeuge',
+      noToken: 'Kein API-Token',
+      boundTo: 'API-Token: {{token}}',
+      emptyTool: 'Leer',
+      addButton: 'Drucker hinzufügen',
+      addSuccess: 'Drucker hinzugefügt',
+      addError: 'Drucker konnte nicht hinzugefügt werden.',
+      deleteSuccess: 'Drucker gelöscht',
+      deleteError: 'Drucker konnte nicht gelöscht werden.',
+      loadError: 'Geladene Spule konnte nicht geändert werden.',
+      powerWatts: 'Leistung (W)',
+      powerError: 'Leistungsaufnahme konnte nicht gespeichert werden.',
+    },
+    labelPrinters: {
+      title: 'Etikettendrucker',
+      description: 'Etikettendrucker, an die Etiketten direkt gesendet werden, ohne den Druckdialog des Browsers: Zebra-kompatible (ZPL), Brother-QL- oder ESC/POS-Thermodrucker, erreichbar über ihren Raw-TCP-Port (meist 9100) oder über eine CUPS-Warteschlange auf dem Server.',
+      empty: 'Noch keine Etikettendrucker',
+      namePlaceholder: 'Druckername',
+      language: 'Druckersprache',
+      languages: {
+        zpl: 'ZPL (Zebra)',
+        'brother-ql': 'Brother QL',
+        escpos: 'ESC/POS',
+      },
+      connection: 'Verbindung',
+      connections: {
+        tcp: 'Netzwerk (Raw TCP)',
+        cups: 'CUPS-Warteschlange',
+      },
+      hostPlaceholder: 'IP-Adresse oder Hostname',
+      port: 'Port',
+      queuePlaceholder: 'Name der CUPS-Warteschlange',
+      cupsHostPlaceholder: 'CUPS-Server (optional)',
+      dpi: 'Auflösung',
+      addButton: 'Etikettendrucker hinzufügen',
+      addSuccess: 'Etikettendrucker hinzugefügt',
+      addError: 'Etikettendrucker konnte nicht hinzugefügt werden',
+      deleteSuccess: 'Etikettendrucker gelöscht',
+      deleteError: 'Etikettendrucker konnte nicht gelöscht werden.',
+      test: 'Testetikett drucken',
+      testSuccess: 'Testetikett gesendet',
+      testError: 'Testetikett fehlgeschlagen',
+    },
+    webhooks: {
+      title: 'Webhooks',
+      description: 'Signierte JSON-Nachrichten an eigene Endpunkte (z. B. Home Assistant, n8n) senden, wenn sich Spulen ändern. Fehlgeschlagene Zustellungen werden mit wachsendem Abstand wiederholt.',
+      empty: 'Noch keine Webhooks',
+      urlPlaceholder: 'https://example.com/hooks/filadex',
+      secretPlaceholder: 'Signatur-Secret (optional, wird sonst generiert)',
+      enabled: 'Aktiv',
+      createButton: 'Webhook hinzufügen',
+      createError: 'Webhook konnte nicht hinzugefügt werden.',
+      deleteSuccess: 'Webhook gelöscht',
+      deleteError: 'Webhook konnte nicht gelöscht werden.',
+      test: 'Test-Ereignis senden',
+      testSent: 'Test-Ereignis eingereiht',
+      testError: 'Test-Ereignis konnte nicht gesendet werden.',
+      deliveries: 'Zustellprotokoll',
+      noDeliveries: 'Noch keine Zustellungen',
+      newSecretTitle: 'Signatur-Secret',
+      newSecretWarning: 'Kopieren Sie dieses Secret jetzt - es wird nicht erneut angezeigt. Damit lässt sich der Header X-Filadex-Signature prüfen.',
+      events: {
+        filament: {
+          created: 'Spule angelegt',
+          deleted: 'Spule gelöscht',
+          usage: 'Verbrauch erfasst',
+          low_stock: 'Niedriger Bestand',
+          drying_reminder: 'Trocknungserinnerung',
+        },
+      },
+      status: {
+        pending: 'Ausstehend',
+        succeeded: 'Zugestellt',
+        failed: 'Fehlgeschlagen',
+      },
+    },
     filamentImportExport: {
       title: 'Filament Import/Export',
       description: 'Importieren und exportieren Sie Ihre Filamentdaten',
@@ -449,6 +607,7 @@ const translations = {
       addDescription: 'Fügen Sie einen neuen Hersteller zur Liste hinzu',
       addButton: 'Hersteller hinzufügen',
       namePlaceholder: 'Herstellername',
+      spoolWeight: 'Leerspulengewicht',
       edit: 'Hersteller bearbeiten',
       delete: 'Hersteller löschen',
       deleteAll: 'Alle Hersteller löschen',
@@ -656,6 +815,48 @@ const translations = {
       deleteAllSuccessDescription: 'Alle Lagerorte wurden erfolgreich gelöscht.',
       deleteAllError: 'Nicht alle Lagerorte konnten gelöscht werden. Bitte versuchen Sie es erneut.',
       importExport: 'Lagerorte Import/Export',
+      parent: 'Befindet sich in',
+      noParent: 'Keinem (oberste Ebene)',
+      capacity: 'Kapazität (Spulen)',
+      capacityPlaceholder: 'Unbegrenzt',
+      capacityInvalid: 'Die Kapazität muss eine ganze Zahl größer als 0 sein',
+      humidityControlled: 'Feuchtigkeitskontrolliert',
+      treeTitle: 'Lagerort-Baum',
+      treeDescription: 'Wie viele Ihrer aktiven Spulen jeder Lagerort enthält, einschließlich der Lagerorte darin',
+      occupancy: '{{count}} / {{capacity}} Spulen',
+      spools: '{{count}} Spulen',
+      full: 'Voll',
+      unassigned: '{{count}} Spulen ohne Lagerort',
+      updateSuccess: 'Lagerort aktualisiert',
+      updateError: 'Der Lagerort konnte nicht aktualisiert werden',
+      printLabel: 'Lagerort-Etikett drucken',
+    },
+  },
+  notifications: {
+    title: 'Benachrichtigungen',
+    empty: 'Keine Benachrichtigungen',
+    markAllRead: 'Alle als gelesen markieren',
+    dismiss: 'Verwerfen',
+    lowStock: {
+      title: 'Niedriger Restbestand',
+      body: 'Bei oder unter {{threshold}} %: {{names}}',
+    },
+    dryingReminder: {
+      title: 'Trocknungserinnerung',
+      body: 'Seit {{days}}+ Tagen nicht getrocknet: {{names}}',
+    },
+    minStock: {
+      title: 'Mindestbestand unterschritten',
+      body: 'Zur Einkaufsliste hinzugefügt: {{names}}',
+    },
+    catalogRequestApproved: {
+      title: 'Anfrage genehmigt',
+      body: '"{{label}}" wurde genehmigt und ist jetzt verfügbar.',
+    },
+    catalogRequestRejected: {
+      title: 'Anfrage abgelehnt',
+      body: '"{{label}}" wurde abgelehnt.',
+      bodyWithNote: '"{{label}}" wurde abgelehnt: {{note}}',
     },
   },
   users: {
@@ -689,10 +890,15 @@ const translations = {
   statistics: {
     title: 'Statistiken',
     totalSpools: 'Gesamtanzahl Spulen',
+    archivedSpools: 'Archivierte Spulen',
     totalWeight: 'Gesamtgewicht',
     remainingWeight: 'Verbleibendes Gewicht',
     averageRemaining: 'Durchschnittlich verbleibend',
     lowStockCount: 'Anzahl niedriger Bestände',
+    belowMinimumStock: 'Unter Mindestbestand',
+    costPerKg: 'Kosten pro kg',
+    estimatedSpools: '{{count}} Spule(n) mit geschätzten Preisen bewertet - erfassen Sie Einkäufe für genaue Werte',
+    filamentTypes: 'Filamenttypen',
     materialDistribution: 'Materialverteilung',
     topMaterials: 'Top-Materialien',
     topColors: 'Top-Farben',
@@ -712,6 +918,321 @@ const translations = {
     oldest: 'Ältestes',
     newest: 'Neuestes',
     spools: 'Rollen',
+    consumption: {
+      title: 'Verbrauch',
+      empty: 'In diesem Zeitraum wurde kein Filament verbraucht',
+      used: 'Verbraucht',
+      periods: {
+        day: 'Täglich',
+        week: 'Wöchentlich',
+        month: 'Monatlich',
+      },
+      groupBy: {
+        none: 'Gesamt',
+        material: 'Nach Material',
+        manufacturer: 'Nach Hersteller',
+        color: 'Nach Farbe',
+        source: 'Nach Quelle',
+      },
+    },
+    forecast: {
+      title: 'Tage bis leer',
+      window: 'Letzte {{days}} Tage',
+      empty: 'In diesem Zeitraum wurde kein Verbrauch erfasst',
+      spools: 'Spulen',
+      materials: 'Materialien',
+      burnRate: '{{grams}} g/Tag',
+    },
+    stockByLocation: {
+      title: 'Bestand nach Lagerort',
+      empty: 'Keine passenden Spulen',
+      noLocation: 'Kein Lagerort',
+    },
+    spend: {
+      title: 'Ausgaben',
+      empty: 'In diesem Zeitraum wurde nichts gekauft',
+      sources: {
+        spools: 'Spulenpreise',
+        orders: 'Einkäufe',
+      },
+    },
+    aging: {
+      title: 'Alter der Spulen',
+      allAges: 'Alle',
+      olderThan: 'Über {{days}} Tage',
+      empty: 'Keine so alten Spulen',
+      more: '{{count}} weitere',
+    },
+    drying: {
+      title: 'Trocknungsstatus',
+      dueCount: '{{count}} fällig',
+      empty: 'Keine Spulen aus feuchtigkeitsempfindlichen Materialien',
+      driedAgo: 'vor {{days}} Tagen getrocknet',
+      boughtAgo: 'nie getrocknet, vor {{days}} Tagen gekauft',
+      due: 'Fällig',
+    },
+    range: {
+      auto: 'Standardzeitraum',
+      days: 'Letzte {{days}} Tage',
+    },
+    filter: {
+      allMaterials: 'Alle Materialien',
+    },
+    widgets: {
+      customize: 'Anpassen',
+      done: 'Fertig',
+      add: 'Widget hinzufügen',
+      remove: 'Widget entfernen',
+      moveUp: 'Nach oben',
+      moveDown: 'Nach unten',
+      empty: 'Keine Widgets - fügen Sie über „Anpassen“ welche hinzu.',
+      saveError: 'Layout konnte nicht gespeichert werden',
+      types: {
+        overview: 'Übersicht',
+        'stock-by-location': 'Bestand nach Lagerort',
+        consumption: 'Verbrauch',
+        forecast: 'Tage bis leer',
+        spend: 'Ausgaben',
+        aging: 'Alter der Spulen',
+        drying: 'Trocknungsstatus',
+      },
+    },
+  },
+  transfer: {
+    title: 'Filament umspulen',
+    description: 'Filament zwischen „{{name}}“ und einer anderen Spule desselben Filamenttyps verschieben, z. B. um Reste umzuspulen, zwei Spulen zusammenzuführen oder eine nachzufüllen.',
+    noCandidates: 'Es gibt keine andere Spule dieses Filamenttyps.',
+    direction: 'Richtung',
+    directions: {
+      out: 'Von dieser Spule auf eine andere',
+      in: 'Von einer anderen Spule auf diese',
+    },
+    target: 'Zielspule',
+    source: 'Quellspule',
+    selectSpool: 'Spule auswählen',
+    grams: 'Menge (g)',
+    gramsAll: 'Alles Verbleibende ({{grams}} g)',
+    preview: 'Danach: {{from}} g auf der Quelle, {{to}} g auf dem Ziel.',
+    noRoom: 'Das Ziel hat nur Platz für {{grams}} g – erhöhen Sie zuerst sein Gesamtgewicht.',
+    submit: 'Umspulen',
+    success: 'Filament umgespult',
+    error: 'Filament konnte nicht umgespult werden',
+  },
+  labels: {
+    description: '{{count}} Etikett(en). Das PDF öffnet sich in einem neuen Tab; drucken Sie es in Originalgröße (100 %).',
+    template: 'Vorlage',
+    templates: {
+      'thermal-40x30': 'Thermoetikett 40 × 30 mm',
+      'thermal-50x30': 'Thermoetikett 50 × 30 mm',
+      'brother-62x29': 'Brother 62 × 29 mm (DK-11209)',
+      'brother-62x100': 'Brother 62 × 100 mm (DK-11202)',
+      'avery-l7160': 'Avery L7160 (A4, 21 pro Bogen)',
+      'avery-l7163': 'Avery L7163 (A4, 14 pro Bogen)',
+      'avery-5160': 'Avery 5160 (Letter, 30 pro Bogen)',
+    },
+    fields: 'Felder',
+    qrCode: 'QR-Code',
+    fieldNames: {
+      manufacturer: 'Hersteller',
+      material: 'Material',
+      color: 'Farbe',
+      printTemp: 'Drucktemperatur',
+      diameter: 'Durchmesser',
+      weight: 'Gesamtgewicht',
+      remaining: 'Verbleibend',
+      purchaseDate: 'Kaufdatum',
+      storageLocation: 'Lagerort',
+    },
+    copies: 'Kopien',
+    skip: 'Bereits benutzt auf dem Bogen',
+    preview: 'Etikettenvorschau',
+    openPdf: 'PDF öffnen',
+    destination: 'Drucken auf',
+    pdf: 'PDF (Browser)',
+    printDescription: '{{count}} Etikett(en), direkt an {{name}} gesendet.',
+    print: 'Auf {{name}} drucken',
+    printSuccess: '{{count}} Etikett(en) an {{name}} gesendet',
+    printError: 'Etiketten konnten nicht gedruckt werden',
+  },
+  scanToMove: {
+    title: 'Scannen und umlagern',
+    description: 'Scannen Sie das Etikett eines Lagerorts und danach die Etiketten der Spulen, die dort hin sollen. Ein Barcode-Scanner kann direkt in das Codefeld tippen.',
+    codePlaceholder: 'Etikett scannen oder Code einfügen',
+    camera: 'Kamera',
+    target: 'Ziel-Lagerort',
+    scanLocationFirst: 'Lagerort-Etikett scannen oder auswählen',
+    spools: 'Zu verschiebende Spulen ({{count}})',
+    noSpools: 'Noch keine Spulen gescannt.',
+    noLocation: 'kein Lagerort',
+    unknownCode: 'Dies ist kein Filadex-Etikett',
+    locationNotFound: 'Dieser Lagerort existiert nicht mehr',
+    spoolNotFound: 'Diese Spule wurde in Ihrer Sammlung nicht gefunden',
+    targetSet: 'Ziel: {{name}}',
+    spoolAdded: '{{name}} hinzugefügt',
+    submit: '{{count}} Spule(n) umlagern',
+    moveAnyway: 'Trotzdem umlagern',
+    capacityHint: 'Sie können die Spulen trotzdem umlagern, falls der Lagerort mehr Platz hat als eingestellt.',
+    success: '{{count}} Spule(n) nach {{name}} umgelagert',
+    error: 'Die Spulen konnten nicht umgelagert werden',
+  },
+  gcodeUpload: {
+    title: 'G-Code hochladen',
+    description: 'Laden Sie eine geslicte .gcode- oder .3mf-Datei hoch, um das verbrauchte Filament abzuziehen. Abgezogen wird erst nach Ihrer Bestätigung.',
+    descriptionForSpool: 'Laden Sie eine geslicte .gcode- oder .3mf-Datei hoch, die mit {{name}} gedruckt wurde. Abgezogen wird erst nach Ihrer Bestätigung.',
+    parsing: 'Datei wird gelesen...',
+    slicedWith: 'Geslict mit {{slicer}}',
+    unknownSlicer: 'Slicer nicht erkannt',
+    selectSpool: 'Spule auswählen',
+    skip: 'Nicht abziehen',
+    applyButton: 'Verbrauch abziehen',
+    applySuccess: 'Filamentverbrauch erfasst',
+    applyError: 'Filamentverbrauch konnte nicht erfasst werden.',
+    previewError: 'Datei konnte nicht gelesen werden',
+  },
+  printJobs: {
+    title: 'Druckaufträge',
+    description: 'Drucke und das dabei verbrauchte Filament. Von einem Druckserver gemeldete Aufträge erscheinen hier automatisch.',
+    empty: 'Noch keine Druckaufträge erfasst.',
+    noUsage: 'Für diesen Auftrag wurde kein Filamentverbrauch erfasst.',
+    printer: 'Drucker',
+    date: 'Datum',
+    grams: 'Verbraucht',
+    cost: 'Kosten',
+    addTitle: 'Druckauftrag erfassen',
+    namePlaceholder: 'Name des Auftrags',
+    printerPlaceholder: 'Drucker (optional)',
+    selectFilament: 'Filament auswählen',
+    gramsPlaceholder: 'Gramm',
+    addSpool: 'Spule hinzufügen',
+    addButton: 'Erfassen',
+    addSuccess: 'Druckauftrag erfasst',
+    addError: 'Druckauftrag konnte nicht erfasst werden',
+    deleteSuccess: 'Druckauftrag gelöscht',
+    deleteError: 'Druckauftrag konnte nicht gelöscht werden',
+    statuses: {
+      printing: 'Druckt',
+      completed: 'Abgeschlossen',
+      failed: 'Fehlgeschlagen',
+      cancelled: 'Abgebrochen',
+    },
+  },
+  printCost: {
+    title: 'Druckkosten',
+    description: 'Was ein Druck an Filament, Strom und Maschinenzeit kostet - für Ihre eigene Übersicht oder als Angebot für Freunde und Kunden.',
+    quoteTab: 'Angebot',
+    spoolsTab: 'Spulen',
+    jobTab: 'Druckauftrag',
+    gramsPlaceholder: 'Gramm',
+    selectJob: 'Druckauftrag auswählen',
+    jobHint: 'Verwendet das verbrauchte Filament, die Dauer und den Drucker des Auftrags, sofern unten nichts anderes angegeben ist.',
+    printHours: 'Druckzeit (h)',
+    noPrinter: 'Kein Drucker',
+    printerWatts: 'Leistung (W)',
+    electricityRate: 'Strompreis pro kWh',
+    machineCostPerHour: 'Maschinenkosten pro Stunde',
+    markupPercent: 'Aufschlag (%)',
+    saveDefaults: 'Als Standard speichern',
+    defaultsSaved: 'Standardwerte gespeichert',
+    defaultsError: 'Standardwerte konnten nicht gespeichert werden',
+    calculate: 'Berechnen',
+    calculateError: 'Druckkosten konnten nicht berechnet werden',
+    electricity: 'Strom ({{kWh}} kWh)',
+    machine: 'Maschinenzeit ({{hours}} h)',
+    subtotal: 'Zwischensumme',
+    markup: 'Aufschlag ({{percent}}%)',
+    total: 'Gesamt',
+    noPrintTime: 'Ohne Druckzeit werden Strom und Maschinenzeit nicht berücksichtigt.',
+    sources: {
+      purchases: 'Einkäufe',
+      spool: 'Spulenpreis',
+      material: 'Materialdurchschnitt',
+      estimate: 'Schätzung',
+    },
+  },
+  minStock: {
+    title: 'Mindestbestand',
+    allGood: 'Kein Filamenttyp liegt unter seinem Mindestbestand.',
+    manage: 'Mindestbestände festlegen',
+    manageTitle: 'Mindestbestände',
+    manageDescription: 'Halten Sie mindestens so viel eines Filamenttyps über alle seine Spulen vorrätig. Typen darunter werden hier markiert und auf Ihre Einkaufsliste gesetzt. Leer lassen für keinen Mindestbestand.',
+    noTypes: 'Noch keine Filamenttypen vorhanden.',
+    filamentType: 'Filamenttyp',
+    inStock: 'Auf Lager',
+    minimum: 'Minimum',
+    stock: '{{spools}} Spulen · {{kg}} kg',
+    none: 'Keiner',
+    below: 'Unter Minimum',
+    saveError: 'Mindestbestand konnte nicht gespeichert werden',
+    units: {
+      spools: 'Spulen',
+      kg: 'kg',
+    },
+  },
+  shoppingList: {
+    title: 'Einkaufsliste',
+    description: 'Nachzubestellende Filamenttypen. Spulen, die Ihren Schwellenwert für niedrigen Bestand erreichen, werden automatisch hinzugefügt; erhaltene Einträge werden zu neuen Spulen.',
+    empty: 'Die Einkaufsliste ist leer.',
+    filamentType: 'Filamenttyp',
+    vendor: 'Händler',
+    lastPrice: 'Letzter Preis',
+    inStock: 'Auf Lager',
+    quantity: 'Menge',
+    fromLowStock: 'Niedriger Bestand',
+    fromMinStock: 'Unter Mindestbestand',
+    generate: 'Spulen mit niedrigem Bestand hinzufügen',
+    generateSuccess: '{{count}} Filamenttyp(en) hinzugefügt',
+    generateError: 'Einkaufsliste konnte nicht erstellt werden',
+    markOrdered: 'Als bestellt markieren',
+    reopen: 'Wieder öffnen',
+    receive: 'Erhalten',
+    receiveHint: 'Legt {{count}} neue Spule(n) an. Preis pro Spule:',
+    pricePlaceholder: 'Preis (optional)',
+    receiveButton: 'Erhalten',
+    receiveSuccess: '{{count}} Spule(n) zum Bestand hinzugefügt',
+    receiveError: 'Eintrag konnte nicht als erhalten markiert werden',
+    updateError: 'Eintrag konnte nicht aktualisiert werden',
+    addTitle: 'Zur Einkaufsliste hinzufügen',
+    selectType: 'Filamenttyp auswählen',
+    addButton: 'Hinzufügen',
+    addSuccess: 'Zur Einkaufsliste hinzugefügt',
+    addError: 'Konnte nicht zur Einkaufsliste hinzugefügt werden',
+    deleteSuccess: 'Von der Einkaufsliste entfernt',
+    deleteError: 'Konnte nicht von der Einkaufsliste entfernt werden',
+    statuses: {
+      open: 'Offen',
+      ordered: 'Bestellt',
+      received: 'Erhalten',
+    },
+  },
+  purchaseOrders: {
+    title: 'Einkäufe',
+    description: 'Erfassen Sie, was Sie wo zu welchem Preis gekauft haben. Die Preishistorie jedes Filamenttyps bestimmt die Kosten pro kg in der Statistik.',
+    ordersTab: 'Bestellungen',
+    historyTab: 'Preishistorie',
+    empty: 'Noch keine Einkäufe erfasst.',
+    orderDate: 'Datum',
+    vendor: 'Händler',
+    spools: 'Spulen',
+    shipping: 'Versand',
+    total: 'Gesamt',
+    addTitle: 'Einkauf erfassen',
+    vendorPlaceholder: 'Händler / Shop',
+    shippingPlaceholder: 'Versand',
+    selectType: 'Filamenttyp auswählen',
+    quantity: 'Menge',
+    pricePerSpool: 'Preis pro Spule',
+    pricePerKg: 'Preis pro kg',
+    weightPlaceholder: 'kg/Spule',
+    addItem: 'Position hinzufügen',
+    createSpools: 'Spulen zum Bestand hinzufügen',
+    addButton: 'Erfassen',
+    addSuccess: 'Einkauf erfasst',
+    addError: 'Einkauf konnte nicht erfasst werden',
+    deleteSuccess: 'Einkauf gelöscht',
+    deleteError: 'Einkauf konnte nicht gelöscht werden',
+    noHistory: 'Für diesen Filamenttyp wurden noch keine Einkäufe erfasst.',
+    averagePerKg: 'Durchschnitt pro kg',
+    lastPerKg: 'Zuletzt pro kg',
   },
   filters: {
     searchFilaments: 'Filamente suchen',
@@ -740,6 +1261,10 @@ const translations = {
     inventory: 'Bestand',
     maxRemainingPercentage: 'Max. Restmenge (%)',
     showFilamentsWithMax: 'Nur Filamente mit max.',
+    showArchived: 'Archivierte Spulen anzeigen',
+    storageLocationFilter: 'Lagerort',
+    allStorageLocations: 'Alle Lagerorte',
+    storageLocationSubtree: 'Schließt die Lagerorte innerhalb des gewählten ein',
     fillLevel: 'Füllstand anzeigen',
     sortBy: 'Sortieren nach...',
     nameAZ: 'Name (A-Z)',
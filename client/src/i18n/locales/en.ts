@@ -13,6 +13,8 @@ const translations = {
     noResults: 'No results found',
     confirm: 'Confirm',
     actions: 'Actions',
+    expand: 'Expand',
+    collapse: 'Collapse',
     status: 'Status',
     name: 'Name',
     all: 'All',
@@ -156,6 +158,8 @@ const translations = {
     delete: 'Delete',
     exportCSV: 'Export CSV',
     exportJSON: 'Export JSON',
+    labels: 'Labels',
+    printLabels: 'Print labels for the selected filaments',
     close: 'Close',
     noValidFilamentsSelected: 'No valid filaments selected for update',
     updateTitle: 'Batch Update Filaments',
@@ -214,14 +218,39 @@ const translations = {
     remainingPercentage: 'Remaining Percentage',
     equivalentTo: 'Equivalent to',
     printLabel: 'Print Label',
+    loadedInPrinter: 'Currently loaded in this printer tool',
+    archive: 'Archive spool',
+    unarchive: 'Restore from archive',
+    archived: 'Archived',
+    archiveSuccess: 'Spool archived. Its history is kept.',
+    unarchiveSuccess: 'Spool restored from the archive.',
+    archiveError: 'Failed to update archive state:',
     usageNote: 'Note (optional)',
     usageNotePlaceholder: 'e.g. printing cover piece',
     usageHistory: 'History',
     noUsageHistory: 'No changes recorded yet.',
+    revertUsage: 'Revert this change',
+    revertSuccess: 'Change reverted',
+    revertError: 'Could not revert the change',
+    reverted: 'reverted',
+    revertEntry: 'revert',
+    transferEntry: 'transfer',
+    locationHistory: 'Moves',
+    spoolWeight: 'Empty spool weight',
+    spoolWeightPlaceholder: 'e.g. 250',
+    weighSpool: 'Weigh spool',
+    grossWeightPlaceholder: 'Scale reading incl. spool',
+    weighSpoolApply: 'Set remaining filament from the scale reading',
+    weighSpoolNoTare: 'Enter the empty spool weight above to use a scale reading.',
+    weighSpoolHint: 'The empty spool ({{tare}}g) is subtracted from the reading.',
+    weighSpoolPreview: '≈ {{percentage}}% remaining after subtracting {{tare}}g for the spool.',
+    weighSuccess: 'Remaining filament set to {{percentage}}%',
+    weighError: 'Could not record the scale reading',
     additionalInfo: 'Additional Information',
     purchaseDate: 'Purchase Date',
     purchasePrice: 'Purchase Price',
     purchasePricePlaceholder: 'e.g. 20.99',
+    purchaseCurrency: 'Currency of the purchase price',
     storageLocation: 'Storage Location',
     selectStorageLocation: 'Select or enter storage location',
     enterStorageLocation: 'Enter storage location...',
@@ -395,18 +424,56 @@ const translations = {
       updated: 'Units updated',
       updatedDescription: 'Your unit preferences have been saved successfully.',
     },
+    spoolLifecycle: {
+      title: 'Empty Spools',
+      description: 'Archived spools are hidden from the inventory but keep their usage history and statistics',
+      autoArchiveLabel: 'Archive empty spools automatically',
+      autoArchiveDescription: 'Archive a spool as soon as its usage brings it down to 0%',
+      updated: 'Spool preferences saved',
+      updateError: 'Could not save spool preferences.',
+    },
     notifications: {
       title: 'Notifications',
-      description: 'Configure low-stock and drying-reminder email alerts',
+      description: 'Configure low-stock and drying-reminder alerts and where they are sent',
+      emailLabel: 'Email',
+      emailDescription: 'Send alerts to my verified email address',
       lowStockLabel: 'Low-stock alerts',
-      lowStockDescription: 'Email me when a spool drops below the threshold',
+      lowStockDescription: 'Notify me when a spool drops below the threshold',
       thresholdLabel: 'Low-stock threshold (%)',
       dryingLabel: 'Drying reminders',
-      dryingDescription: 'Email me when a moisture-sensitive spool hasn\'t been dried in a while',
+      dryingDescription: 'Notify me when a moisture-sensitive spool hasn\'t been dried in a while',
       dryingDaysLabel: 'Remind after (days)',
       updated: 'Notification preferences updated',
       updatedDescription: 'Your notification preferences have been saved successfully.',
       updateError: 'Could not update notification preferences.',
+      channels: {
+        title: 'Notification channels',
+        description: 'Push and chat targets that receive your alerts in addition to email',
+        empty: 'No notification channels yet',
+        namePlaceholder: 'Name (optional), e.g. Phone',
+        addButton: 'Add channel',
+        addSuccess: 'Notification channel added',
+        addError: 'Could not add notification channel.',
+        deleteSuccess: 'Notification channel deleted',
+        deleteError: 'Could not delete notification channel.',
+        test: 'Send test notification',
+        testSuccess: 'Test notification sent',
+        testError: 'Test notification failed',
+        types: {
+          webhook: 'Webhook',
+          ntfy: 'ntfy',
+          gotify: 'Gotify',
+          matrix: 'Matrix',
+          discord: 'Discord',
+          slack: 'Slack',
+        },
+        fields: {
+          url: 'Webhook URL',
+          serverUrl: 'Server URL',
+          topic: 'Topic',
+          token: 'Access token',
+        },
+      },
     },
     customFields: {
       title: 'Custom Fields',
@@ -440,6 +507,16 @@ const translations = {
       noResults: 'No matches found',
       useResult: 'Use',
     },
+    exchangeRates: {
+      title: 'Exchange Rates',
+      description: 'Used to convert prices entered in other currencies into each user\'s currency. Rates are not fetched online - update them here by hand.',
+      noRate: 'No rate',
+      updatedAt: 'Updated',
+      saved: 'Exchange rates saved',
+      savedDescription: 'Statistics and costs now use the new rates.',
+      saveError: 'Could not save the exchange rates.',
+      missingRates: 'No exchange rate for {{currencies}} - prices in it are left out or estimated.',
+    },
     apiTokens: {
       title: 'API Tokens',
       description: 'Tokens let printer/print-server integrations (e.g. Moonraker) report filament usage on your behalf',
@@ -456,6 +533,87 @@ const translations = {
       newTokenTitle: 'New API token',
       newTokenWarning: 'Copy this token now - it will not be shown again.',
     },
+    printers: {
+      title: 'Printers',
+      description: 'Printers and the spool loaded in each tool. Usage events from a bound API token may omit filamentId and use the loaded spool instead.',
+      empty: 'No printers yet',
+      namePlaceholder: 'Printer name',
+      toolCount: 'Tools',
+      noToken: 'No API token',
+      boundTo: 'API token: {{token}}',
+      emptyTool: 'Empty',
+      addButton: 'Add printer',
+      addSuccess: 'Printer added',
+      addError: 'Could not add printer.',
+      deleteSuccess: 'Printer deleted',
+      deleteError: 'Could not delete printer.',
+      loadError: 'Could not change the loaded spool.',
+      powerWatts: 'Power (W)',
+      powerError: 'Could not update the power draw.',
+    },
+    labelPrinters: {
+      title: 'Label printers',
+      description: 'Label printers that labels are sent to directly, without the browser\'s print dialog: Zebra-compatible (ZPL), Brother QL or ESC/POS thermal printers, reached over their raw TCP port (usually 9100) or through a CUPS queue on the server.',
+      empty: 'No label printers yet',
+      namePlaceholder: 'Printer name',
+      language: 'Printer language',
+      languages: {
+        zpl: 'ZPL (Zebra)',
+        'brother-ql': 'Brother QL',
+        escpos: 'ESC/POS',
+      },
+      connection: 'Connection',
+      connections: {
+        tcp: 'Network (raw TCP)',
+        cups: 'CUPS queue',
+      },
+      hostPlaceholder: 'IP address or hostname',
+      port: 'Port',
+      queuePlaceholder: 'CUPS queue name',
+      cupsHostPlaceholder: 'CUPS server (optional)',
+      dpi: 'Resolution',
+      addButton: 'Add label printer',
+      addSuccess: 'Label printer added',
+      addError: 'Could not add label printer',
+      deleteSuccess: 'Label printer deleted',
+      deleteError: 'Could not delete label printer.',
+      test: 'Print test label',
+      testSuccess: 'Test label sent',
+      testError: 'Test label failed',
+    },
+    webhooks: {
+      title: 'Webhooks',
+      description: 'Send signed JSON payloads to your own endpoints (e.g. Home Assistant, n8n) when spools change. Failed deliveries are retried with backoff.',
+      empty: 'No webhooks yet',
+      urlPlaceholder: 'https://example.com/hooks/filadex',
+      secretPlaceholder: 'Signing secret (optional, generated if empty)',
+      enabled: 'Enabled',
+      createButton: 'Add webhook',
+      createError: 'Could not add webhook.',
+      deleteSuccess: 'Webhook deleted',
+      deleteError: 'Could not delete webhook.',
+      test: 'Send test event',
+      testSent: 'Test event queued',
+      testError: 'Could not send test event.',
+      deliveries: 'Delivery log',
+      noDeliveries: 'No deliveries yet',
+      newSecretTitle: 'Signing secret',
+      newSecretWarning: 'Copy this secret now - it will not be shown again. Use it to verify the X-Filadex-Signature header.',
+      events: {
+        filament: {
+          created: 'Spool created',
+          deleted: 'Spool deleted',
+          usage: 'Usage logged',
+          low_stock: 'Low stock',
+          drying_reminder: 'Drying reminder',
+        },
+      },
+      status: {
+        pending: 'Pending',
+        succeeded: 'Delivered',
+        failed: 'Failed',
+      },
+    },
     filamentImportExport: {
       title: 'Filament Import/Export',
       description: 'Import and export your filament data',
@@ -468,6 +626,7 @@ const translations = {
       addDescription: 'Add a new manufacturer to the list',
       addButton: 'Add Manufacturer',
       namePlaceholder: 'Manufacturer name',
+      spoolWeight: 'Empty spool weight',
       edit: 'Edit Manufacturer',
       delete: 'Delete Manufacturer',
       deleteAll: 'Delete All Manufacturers',
@@ -675,6 +834,48 @@ const translations = {
       deleteAllSuccessDescription: 'All storage locations were successfully deleted.',
       deleteAllError: 'Not all storage locations could be deleted. Please try again.',
       importExport: 'Storage Location Import/Export',
+      parent: 'Inside',
+      noParent: 'None (top level)',
+      capacity: 'Capacity (spools)',
+      capacityPlaceholder: 'Unlimited',
+      capacityInvalid: 'Capacity must be a whole number above 0',
+      humidityControlled: 'Humidity controlled',
+      treeTitle: 'Location Tree',
+      treeDescription: 'How many of your active spools each location holds, including the locations inside it',
+      occupancy: '{{count}} / {{capacity}} spools',
+      spools: '{{count}} spools',
+      full: 'Full',
+      unassigned: '{{count}} spools without a storage location',
+      updateSuccess: 'Storage location updated',
+      updateError: 'The storage location could not be updated',
+      printLabel: 'Print Location Label',
+    },
+  },
+  notifications: {
+    title: 'Notifications',
+    empty: 'No notifications',
+    markAllRead: 'Mark all as read',
+    dismiss: 'Dismiss',
+    lowStock: {
+      title: 'Low filament stock',
+      body: 'At or below {{threshold}}%: {{names}}',
+    },
+    dryingReminder: {
+      title: 'Drying reminder',
+      body: 'Not dried in {{days}}+ days: {{names}}',
+    },
+    minStock: {
+      title: 'Below minimum stock',
+      body: 'Added to your shopping list: {{names}}',
+    },
+    catalogRequestApproved: {
+      title: 'Request approved',
+      body: '"{{label}}" was approved and is now available.',
+    },
+    catalogRequestRejected: {
+      title: 'Request rejected',
+      body: '"{{label}}" was rejected.',
+      bodyWithNote: '"{{label}}" was rejected: {{note}}',
     },
   },
   users: {
@@ -708,10 +909,15 @@ const translations = {
   statistics: {
     title: 'Statistics',
     totalSpools: 'Total Spools',
+    archivedSpools: 'Archived Spools',
     totalWeight: 'Total Weight',
     remainingWeight: 'Remaining Weight',
     averageRemaining: 'Average Remaining',
     lowStockCount: 'Low Stock Count',
+    belowMinimumStock: 'Below minimum stock',
+    costPerKg: 'Cost per kg',
+    estimatedSpools: '{{count}} spool(s) valued with estimated prices - record purchases for exact values',
+    filamentTypes: 'filament types',
     materialDistribution: 'Material Distribution',
     topMaterials: 'Top Materials',
     topColors: 'Top Colors',
@@ -731,6 +937,321 @@ const translations = {
     oldest: 'Oldest',
     newest: 'Newest',
     spools: 'spools',
+    consumption: {
+      title: 'Consumption',
+      empty: 'No filament used in this period',
+      used: 'Used',
+      periods: {
+        day: 'Daily',
+        week: 'Weekly',
+        month: 'Monthly',
+      },
+      groupBy: {
+        none: 'Total',
+        material: 'By material',
+        manufacturer: 'By manufacturer',
+        color: 'By color',
+        source: 'By source',
+      },
+    },
+    forecast: {
+      title: 'Days until empty',
+      window: 'Last {{days}} days',
+      empty: 'No usage recorded in this window',
+      spools: 'Spools',
+      materials: 'Materials',
+      burnRate: '{{grams}} g/day',
+    },
+    stockByLocation: {
+      title: 'Stock by location',
+      empty: 'No spools match',
+      noLocation: 'No location',
+    },
+    spend: {
+      title: 'Spending',
+      empty: 'Nothing bought in this period',
+      sources: {
+        spools: 'Spool prices',
+        orders: 'Purchase orders',
+      },
+    },
+    aging: {
+      title: 'Spool age',
+      allAges: 'All ages',
+      olderThan: 'Over {{days}} days',
+      empty: 'No spools this old',
+      more: '{{count}} more',
+    },
+    drying: {
+      title: 'Drying status',
+      dueCount: '{{count}} due',
+      empty: 'No spools of moisture-sensitive materials',
+      driedAgo: 'dried {{days}} days ago',
+      boughtAgo: 'never dried, bought {{days}} days ago',
+      due: 'Due',
+    },
+    range: {
+      auto: 'Default range',
+      days: 'Last {{days}} days',
+    },
+    filter: {
+      allMaterials: 'All materials',
+    },
+    widgets: {
+      customize: 'Customize',
+      done: 'Done',
+      add: 'Add widget',
+      remove: 'Remove widget',
+      moveUp: 'Move up',
+      moveDown: 'Move down',
+      empty: 'No widgets - add some with Customize.',
+      saveError: 'Failed to save the dashboard layout',
+      types: {
+        overview: 'Overview',
+        'stock-by-location': 'Stock by location',
+        consumption: 'Consumption',
+        forecast: 'Days until empty',
+        spend: 'Spending',
+        aging: 'Spool age',
+        drying: 'Drying status',
+      },
+    },
+  },
+  transfer: {
+    title: 'Transfer filament',
+    description: 'Move filament between "{{name}}" and another spool of the same filament type, e.g. to re-spool leftovers, merge two spools or refill one.',
+    noCandidates: 'There is no other spool of this filament type.',
+    direction: 'Direction',
+    directions: {
+      out: 'From this spool to another',
+      in: 'From another spool onto this one',
+    },
+    target: 'Target spool',
+    source: 'Source spool',
+    selectSpool: 'Select spool',
+    grams: 'Amount (g)',
+    gramsAll: 'All remaining ({{grams}}g)',
+    preview: 'Afterwards: {{from}}g left on the source, {{to}}g on the target.',
+    noRoom: 'The target only has room for {{grams}}g - raise its total weight first.',
+    submit: 'Transfer',
+    success: 'Filament transferred',
+    error: 'Could not transfer filament',
+  },
+  labels: {
+    description: '{{count}} label(s). The PDF opens in a new tab, ready to print at 100% scale.',
+    template: 'Template',
+    templates: {
+      'thermal-40x30': 'Thermal label 40 × 30 mm',
+      'thermal-50x30': 'Thermal label 50 × 30 mm',
+      'brother-62x29': 'Brother 62 × 29 mm (DK-11209)',
+      'brother-62x100': 'Brother 62 × 100 mm (DK-11202)',
+      'avery-l7160': 'Avery L7160 (A4, 21 per sheet)',
+      'avery-l7163': 'Avery L7163 (A4, 14 per sheet)',
+      'avery-5160': 'Avery 5160 (Letter, 30 per sheet)',
+    },
+    fields: 'Fields',
+    qrCode: 'QR code',
+    fieldNames: {
+      manufacturer: 'Manufacturer',
+      material: 'Material',
+      color: 'Color',
+      printTemp: 'Print temperature',
+      diameter: 'Diameter',
+      weight: 'Total weight',
+      remaining: 'Remaining',
+      purchaseDate: 'Purchase date',
+      storageLocation: 'Storage location',
+    },
+    copies: 'Copies',
+    skip: 'Already used on sheet',
+    preview: 'Label preview',
+    openPdf: 'Open PDF',
+    destination: 'Print to',
+    pdf: 'PDF (browser)',
+    printDescription: '{{count}} label(s), sent straight to {{name}}.',
+    print: 'Print on {{name}}',
+    printSuccess: '{{count}} label(s) sent to {{name}}',
+    printError: 'Could not print labels',
+  },
+  scanToMove: {
+    title: 'Scan to move',
+    description: 'Scan a storage location label, then the labels of the spools to put there. A barcode scanner can type into the code field.',
+    codePlaceholder: 'Scan or paste a label code',
+    camera: 'Camera',
+    target: 'Target location',
+    scanLocationFirst: 'Scan a location label or choose one',
+    spools: 'Spools to move ({{count}})',
+    noSpools: 'No spools scanned yet.',
+    noLocation: 'no location',
+    unknownCode: 'This is not a Filadex label',
+    locationNotFound: 'This storage location no longer exists',
+    spoolNotFound: 'This spool was not found in your collection',
+    targetSet: 'Target: {{name}}',
+    spoolAdded: 'Added {{name}}',
+    submit: 'Move {{count}} spool(s)',
+    moveAnyway: 'Move anyway',
+    capacityHint: 'You can still move the spools if the location has more room than configured.',
+    success: '{{count}} spool(s) moved to {{name}}',
+    error: 'Could not move the spools',
+  },
+  gcodeUpload: {
+    title: 'Upload G-code',
+    description: 'Upload a sliced .gcode or .3mf file to deduct the filament it uses. Nothing is deducted until you confirm.',
+    descriptionForSpool: 'Upload a sliced .gcode or .3mf file printed with {{name}}. Nothing is deducted until you confirm.',
+    parsing: 'Reading file...',
+    slicedWith: 'Sliced with {{slicer}}',
+    unknownSlicer: 'Slicer not recognized',
+    selectSpool: 'Select spool',
+    skip: "Don't deduct",
+    applyButton: 'Deduct usage',
+    applySuccess: 'Filament usage recorded',
+    applyError: 'Could not record filament usage.',
+    previewError: 'Could not read file',
+  },
+  printJobs: {
+    title: 'Print Jobs',
+    description: 'Prints and the filament they consumed. Jobs reported by a print server appear here automatically.',
+    empty: 'No print jobs recorded yet.',
+    noUsage: 'No filament usage recorded for this job.',
+    printer: 'Printer',
+    date: 'Date',
+    grams: 'Used',
+    cost: 'Cost',
+    addTitle: 'Record Print Job',
+    namePlaceholder: 'Job name',
+    printerPlaceholder: 'Printer (optional)',
+    selectFilament: 'Select filament',
+    gramsPlaceholder: 'Grams',
+    addSpool: 'Add spool',
+    addButton: 'Record',
+    addSuccess: 'Print job recorded',
+    addError: 'Failed to record print job',
+    deleteSuccess: 'Print job deleted',
+    deleteError: 'Failed to delete print job',
+    statuses: {
+      printing: 'Printing',
+      completed: 'Completed',
+      failed: 'Failed',
+      cancelled: 'Cancelled',
+    },
+  },
+  printCost: {
+    title: 'Print Cost',
+    description: 'What a print costs in filament, electricity and machine time - for your own records or to quote prints for friends and customers.',
+    quoteTab: 'Quote',
+    spoolsTab: 'Spools',
+    jobTab: 'Print job',
+    gramsPlaceholder: 'Grams',
+    selectJob: 'Select print job',
+    jobHint: 'Uses the filament the job consumed, its duration and its printer unless set below.',
+    printHours: 'Print time (h)',
+    noPrinter: 'No printer',
+    printerWatts: 'Power (W)',
+    electricityRate: 'Electricity per kWh',
+    machineCostPerHour: 'Machine cost per hour',
+    markupPercent: 'Markup (%)',
+    saveDefaults: 'Save as defaults',
+    defaultsSaved: 'Defaults saved',
+    defaultsError: 'Failed to save defaults',
+    calculate: 'Calculate',
+    calculateError: 'Failed to calculate print cost',
+    electricity: 'Electricity ({{kWh}} kWh)',
+    machine: 'Machine time ({{hours}} h)',
+    subtotal: 'Subtotal',
+    markup: 'Markup ({{percent}}%)',
+    total: 'Total',
+    noPrintTime: 'Without a print time, electricity and machine time are left out.',
+    sources: {
+      purchases: 'purchases',
+      spool: 'spool price',
+      material: 'material average',
+      estimate: 'estimate',
+    },
+  },
+  minStock: {
+    title: 'Minimum Stock',
+    allGood: 'No filament type is below its minimum stock.',
+    manage: 'Set minimums',
+    manageTitle: 'Minimum Stock Levels',
+    manageDescription: 'Keep at least this much of a filament type across all its spools. Types that drop below it are flagged here and added to your shopping list. Leave empty for no minimum.',
+    noTypes: 'No filament types yet.',
+    filamentType: 'Filament type',
+    inStock: 'In stock',
+    minimum: 'Minimum',
+    stock: '{{spools}} spools · {{kg}} kg',
+    none: 'None',
+    below: 'Below minimum',
+    saveError: 'Failed to save minimum stock',
+    units: {
+      spools: 'spools',
+      kg: 'kg',
+    },
+  },
+  shoppingList: {
+    title: 'Shopping List',
+    description: 'Filament types to reorder. Spools that drop to your low-stock threshold are added automatically; received items become new spools.',
+    empty: 'Nothing on the shopping list.',
+    filamentType: 'Filament type',
+    vendor: 'Vendor',
+    lastPrice: 'Last price',
+    inStock: 'In stock',
+    quantity: 'Quantity',
+    fromLowStock: 'Low stock',
+    fromMinStock: 'Below minimum',
+    generate: 'Add low-stock spools',
+    generateSuccess: '{{count}} filament type(s) added',
+    generateError: 'Failed to generate shopping list',
+    markOrdered: 'Mark as ordered',
+    reopen: 'Back to open',
+    receive: 'Receive',
+    receiveHint: 'Creates {{count}} new spool(s). Price per spool:',
+    pricePlaceholder: 'Price (optional)',
+    receiveButton: 'Receive',
+    receiveSuccess: '{{count}} spool(s) added to your inventory',
+    receiveError: 'Failed to receive item',
+    updateError: 'Failed to update item',
+    addTitle: 'Add to Shopping List',
+    selectType: 'Select filament type',
+    addButton: 'Add',
+    addSuccess: 'Added to shopping list',
+    addError: 'Failed to add to shopping list',
+    deleteSuccess: 'Removed from shopping list',
+    deleteError: 'Failed to remove from shopping list',
+    statuses: {
+      open: 'Open',
+      ordered: 'Ordered',
+      received: 'Received',
+    },
+  },
+  purchaseOrders: {
+    title: 'Purchases',
+    description: 'Record what you bought where and for how much. Each filament type\'s price history feeds the cost per kg in the statistics.',
+    ordersTab: 'Orders',
+    historyTab: 'Price history',
+    empty: 'No purchases recorded yet.',
+    orderDate: 'Date',
+    vendor: 'Vendor',
+    spools: 'Spools',
+    shipping: 'Shipping',
+    total: 'Total',
+    addTitle: 'Record Purchase',
+    vendorPlaceholder: 'Vendor / shop',
+    shippingPlaceholder: 'Shipping',
+    selectType: 'Select filament type',
+    quantity: 'Quantity',
+    pricePerSpool: 'Price per spool',
+    pricePerKg: 'Price per kg',
+    weightPlaceholder: 'kg/spool',
+    addItem: 'Add item',
+    createSpools: 'Add spools to inventory',
+    addButton: 'Record',
+    addSuccess: 'Purchase recorded',
+    addError: 'Failed to record purchase',
+    deleteSuccess: 'Purchase deleted',
+    deleteError: 'Failed to delete purchase',
+    noHistory: 'No purchases of this filament type recorded yet.',
+    averagePerKg: 'Average per kg',
+    lastPerKg: 'Last per kg',
   },
   filters: {
     searchFilaments: 'Search Filaments',
@@ -759,6 +1280,10 @@ const translations = {
     inventory: 'Inventory',
     maxRemainingPercentage: 'Max. Remaining (%)',
     showFilamentsWithMax: 'Show filaments with max.',
+    showArchived: 'Show archived spools',
+    storageLocationFilter: 'Storage Location',
+    allStorageLocations: 'All storage locations',
+    storageLocationSubtree: 'Includes the locations inside the selected one',
     fillLevel: 'fill level',
     sortBy: 'Sort by...',
     nameAZ: 'Name (A-Z)',
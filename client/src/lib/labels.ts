@@ -0,0 +1,25 @@
+// QR codes on printed labels are plain app URLs, so a phone's camera app opens
+// the right view directly; the in-app scanner reads the same URLs. Spool
+// labels are rendered by the server (server/utils/label-pdf.ts).
+
+export const storageLocationLabelUrl = (id: number) => `${window.location.origin}/?storageLocation=${id}`;
+
+export type LabelCode = { kind: "filament"; id: number } | { kind: "storageLocation"; id: number };
+
+/** What a scanned label points at; null for anything that isn't one of our labels */
+export function parseLabelCode(text: string): LabelCode | null {
+  let params: URLSearchParams;
+  try {
+    params = new URL(text.trim()).searchParams;
+  } catch {
+    return null;
+  }
+
+  const filamentId = Number(params.get("openFilament"));
+  if (Number.isInteger(filamentId) && filamentId > 0) return { kind: "filament", id: filamentId };
+
+  const locationId = Number(params.get("storageLocation"));
+  if (Number.isInteger(locationId) && locationId > 0) return { kind: "storageLocation", id: locationId };
+
+  return null;
+}
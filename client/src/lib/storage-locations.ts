@@ -0,0 +1,34 @@
+import type { StorageLocation } from "@shared/schema";
+
+type LocationRef = Pick<StorageLocation, "id" | "name" | "parentId">;
+
+/** Locations depth-first, each after its parent, for indented pickers */
+export function locationsInTreeOrder<T extends LocationRef>(locations: T[]): { location: T; depth: number }[] {
+  const ids = new Set(locations.map((location) => location.id));
+  const ordered: { location: T; depth: number }[] = [];
+  const visit = (parentId: number | null, depth: number) => {
+    for (const location of locations) {
+      // Locations whose parent is gone are shown as roots
+      const effectiveParent = location.parentId !== null && ids.has(location.parentId) ? location.parentId : null;
+      if (effectiveParent === parentId) {
+        ordered.push({ location, depth });
+        visit(location.id, depth + 1);
+      }
+    }
+  };
+  visit(null, 0);
+  return ordered;
+}
+
+/** Names of a location and everything below it; spools reference locations by name */
+export function locationSubtreeNames(locations: LocationRef[], id: number): string[] {
+  const names: string[] = [];
+  const visit = (currentId: number) => {
+    const location = locations.find((l) => l.id === currentId);
+    if (!location || names.includes(location.name)) return;
+    names.push(location.name);
+    locations.filter((l) => l.parentId === currentId).forEach((child) => visit(child.id));
+  };
+  visit(id);
+  return names;
+}
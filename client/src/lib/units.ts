@@ -129,3 +129,39 @@ export function getTemperatureUnitSymbol(unit: TemperatureUnit): string {
   return unit === 'F' ? '°F' : '°C';
 }
 
+
+/**
+ * Length in metres of `weightGrams` of filament, from the material density
+ * (g/cm³) and filament diameter (mm). Returns null if either is unknown.
+ */
+export function calculateFilamentLength(
+  weightGrams: number,
+  diameterMm: number | string | null | undefined,
+  density: number | string | null | undefined
+): number | null {
+  const diameter = Number(diameterMm);
+  const densityGCm3 = Number(density);
+  if (!diameter || !densityGCm3) return null;
+
+  const radiusCm = (diameter / 10) / 2;
+  const crossSectionAreaCm2 = Math.PI * radiusCm * radiusCm;
+  const lengthCm = (weightGrams / densityGCm3) / crossSectionAreaCm2;
+  return lengthCm / 100;
+}
+
+/**
+ * Grams of filament in `lengthMm` of strand - the inverse of
+ * calculateFilamentLength. Returns null if density or diameter is unknown.
+ */
+export function calculateFilamentWeight(
+  lengthMm: number,
+  diameterMm: number | string | null | undefined,
+  density: number | string | null | undefined
+): number | null {
+  const diameter = Number(diameterMm);
+  const densityGCm3 = Number(density);
+  if (!diameter || !densityGCm3) return null;
+
+  const radiusCm = (diameter / 10) / 2;
+  return Math.PI * radiusCm * radiusCm * (lengthMm / 10) * densityGCm3;
+}
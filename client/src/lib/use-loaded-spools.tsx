@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { PrinterWithSpools } from '@shared/schema';
+
+export interface LoadedSpoolLocation {
+  printerName: string;
+  toolIndex: number;
+}
+
+/**
+ * Hook mapping filament id -> the printer/tool that spool is currently
+ * loaded in, for the "in printer" badge on spool cards.
+ */
+export function useLoadedSpools(enabled = true) {
+  const { data: printers = [] } = useQuery({
+    queryKey: ['/api/printers'],
+    queryFn: () => apiRequest<PrinterWithSpools[]>('/api/printers'),
+    enabled,
+  });
+
+  return new Map<number, LoadedSpoolLocation>(
+    printers.flatMap((printer) =>
+      printer.loadedSpools.map((spool) => [
+        spool.filamentId,
+        { printerName: printer.name, toolIndex: spool.toolIndex },
+      ] as const)
+    )
+  );
+}
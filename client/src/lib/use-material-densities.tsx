@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+
+/**
+ * Hook mapping material name -> density (g/cm³) for the materials that have
+ * one set, so spool weights can be shown as lengths too.
+ */
+export function useMaterialDensities(enabled = true) {
+  const { data: materials = [] } = useQuery({
+    queryKey: ['/api/materials'],
+    queryFn: () => apiRequest<{ name: string; density?: string | null }[]>('/api/materials'),
+    enabled,
+  });
+
+  return new Map(
+    materials
+      .filter((m) => m.density)
+      .map((m) => [m.name, Number(m.density)])
+  );
+}
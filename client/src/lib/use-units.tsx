@@ -38,6 +38,10 @@ export function useUnits() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      // Costs come converted into the user's currency, so a switch changes them
+      queryClient.invalidateQueries({ queryKey: ['/api/statistics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/print-jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/shopping-list'] });
     },
   });
 
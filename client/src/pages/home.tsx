@@ -11,8 +11,12 @@ import { FilamentGrid } from "@/components/filament-grid";
 import { FilamentModal } from "@/components/filament-modal";
 import { DeleteModal } from "@/components/delete-modal";
 import { LabelPrintModal } from "@/components/label-print-modal";
+import { GcodeUploadModal } from "@/components/gcode-upload-modal";
+import { TransferFilamentModal } from "@/components/transfer-filament-modal";
+import { ScanToMoveModal } from "@/components/scan-to-move-modal";
 import { MaterialColorChart } from "@/components/material-color-chart";
 import { StatisticsAccordion } from "@/components/statistics";
+import { MinStockWidget } from "@/components/min-stock-widget";
 import { BatchActionsPanel } from "@/components/batch-actions-panel";
 import { useTranslation } from "@/i18n";
 import { useToast } from "@/hooks/use-toast";
@@ -25,6 +29,9 @@ export default function Home() {
   const [selectedFilament, setSelectedFilament] = useState<Filament | undefined>(undefined);
   const [copyFromFilament, setCopyFromFilament] = useState<Filament | undefined>(undefined);
   const [labelFilament, setLabelFilament] = useState<Filament | undefined>(undefined);
+  const [gcodeFilament, setGcodeFilament] = useState<Filament | undefined>(undefined);
+  const [transferFilament, setTransferFilament] = useState<Filament | undefined>(undefined);
+  const [scanToLocationId, setScanToLocationId] = useState<number | undefined>(undefined);
 
   // Batch selection state
   const [selectionMode, setSelectionMode] = useState(false);
@@ -35,11 +42,15 @@ export default function Home() {
   const [selectedMaterials, setSelectedMaterials] = useState<string[]>([]);
   const [selectedManufacturers, setSelectedManufacturers] = useState<string[]>([]);
   const [selectedColors, setSelectedColors] = useState<string[]>([]);
+  const [selectedStorageLocations, setSelectedStorageLocations] = useState<string[]>([]);
   const [minRemainingPercentage, setMinRemainingPercentage] = useState(0);
+  const [showArchived, setShowArchived] = useState(false);
 
-  // Fetch filaments with auto-refresh
+  // Fetch filaments with auto-refresh; archived spools only when asked for.
+  // The key still starts with '/api/filaments', so invalidating that refetches it.
   const { data: filaments = [], isLoading } = useQuery<Filament[]>({
-    queryKey: ['/api/filaments'],
+    queryKey: ['/api/filaments', showArchived ? 'include-archived' : 'active'],
+    queryFn: () => apiRequest<Filament[]>(`/api/filaments${showArchived ? '?archived=include' : ''}`),
     staleTime: 0, // Daten immer als veraltet betrachten, um Auto-Refresh zu unterstützen
     refetchOnMount: true, // Bei Mounten immer neu laden
   });
@@ -73,11 +84,15 @@ export default function Home() {
     const matchesColor = selectedColors.length === 0 ||
       (filament.colorName && selectedColors.includes(filament.colorName));
 
+    // Filter by storage location, including the locations nested in it
+    const matchesStorageLocation = selectedStorageLocations.length === 0 ||
+      (filament.storageLocation && selectedStorageLocations.includes(filament.storageLocation));
+
     // Filter by remaining percentage (umgedreht: zeige nur Filamente mit höchstens diesem Prozentsatz)
     const matchesRemaining = minRemainingPercentage === 0 ||
       Number(filament.remainingPercentage) <= minRemainingPercentage;
 
-    return matchesSearch && matchesMaterial && matchesManufacturer && matchesColor && matchesRemaining;
+    return matchesSearch && matchesMaterial && matchesManufacturer && matchesColor && matchesStorageLocation && matchesRemaining;
   });
 
   // Add a new filament
@@ -162,6 +177,31 @@ export default function Home() {
     },
   });
 
+  // Archive a used-up spool, or bring an archived one back
+  const archiveFilamentMutation = useMutation({
+    mutationFn: async (filament: Filament) => {
+      return apiRequest(`/api/filaments/${filament.id}/${filament.archivedAt ? 'unarchive' : 'archive'}`, {
+        method: 'POST'
+      });
+    },
+    onSuccess: (_data, filament) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/filaments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/statistics'] });
+
+      toast({
+        title: t('common.success'),
+        description: filament.archivedAt ? t('filaments.unarchiveSuccess') : t('filaments.archiveSuccess'),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: t('common.error'),
+        description: `${t('filaments.archiveError')} ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handler for adding/editing filament
   const handleSaveFilament = (formData: any) => {
     if (selectedFilament) {
@@ -260,7 +300,7 @@ export default function Home() {
     setLabelFilament(filament);
   };
 
-  // Deep link from a scanned label QR code (see label-print-modal.tsx):
+  // Deep link from a scanned label QR code (see lib/labels.ts):
   // ?openFilament=<id> opens that spool's edit modal directly.
   useEffect(() => {
     if (filaments.length === 0) return;
@@ -277,6 +317,21 @@ export default function Home() {
     window.history.replaceState({}, '', window.location.pathname + (newSearch ? `?${newSearch}` : ''));
   }, [filaments]);
 
+  // ?storageLocation=<id> comes from a location label and starts a
+  // scan-to-move with that location as the target.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const locationId = Number(params.get('storageLocation'));
+    if (!params.has('storageLocation')) return;
+
+    if (Number.isInteger(locationId) && locationId > 0) {
+      setScanToLocationId(locationId);
+    }
+    params.delete('storageLocation');
+    const newSearch = params.toString();
+    window.history.replaceState({}, '', window.location.pathname + (newSearch ? `?${newSearch}` : ''));
+  }, []);
+
   // Batch operation handlers
   const handleToggleSelectionMode = () => {
     setSelectionMode(prev => !prev);
@@ -368,6 +423,10 @@ export default function Home() {
     setSelectedColors(colors);
   }, []);
 
+  const handleStorageLocationChange = useCallback((locations: string[]) => {
+    setSelectedStorageLocations(locations);
+  }, []);
+
   return (
     <div className="flex flex-col min-h-screen">
       {/* Header with Add Filament button */}
@@ -390,6 +449,9 @@ export default function Home() {
               onMinRemaining={handleMinRemainingChange}
               onManufacturerChange={handleManufacturerChange}
               onColorChange={handleColorChange}
+              onStorageLocationChange={handleStorageLocationChange}
+              showArchived={showArchived}
+              onShowArchivedChange={setShowArchived}
               filaments={filaments}
             />
           </aside>
@@ -410,6 +472,9 @@ export default function Home() {
                   <MaterialColorChart filaments={filaments} />
                 </div>
 
+                {/* Filament types below their minimum stock */}
+                <MinStockWidget />
+
                 {/* Statistics Accordion */}
                 <StatisticsAccordion />
 
@@ -420,6 +485,9 @@ export default function Home() {
                   onDeleteFilament={handleDeleteFilament}
                   onCopyFilament={handleCopyFilament}
                   onPrintLabel={handlePrintLabel}
+                  onUploadGcode={setGcodeFilament}
+                  onTransferFilament={setTransferFilament}
+                  onArchiveFilament={(filament) => archiveFilamentMutation.mutate(filament)}
                   selectable={selectionMode}
                   selectedFilaments={selectedFilaments}
                   onSelectFilament={handleSelectFilament}
@@ -465,7 +533,28 @@ export default function Home() {
       <LabelPrintModal
         isOpen={!!labelFilament}
         onClose={() => setLabelFilament(undefined)}
-        filament={labelFilament}
+        filaments={labelFilament ? [labelFilament] : []}
+      />
+
+      {/* G-code Upload Modal */}
+      <GcodeUploadModal
+        open={!!gcodeFilament}
+        onOpenChange={(open) => !open && setGcodeFilament(undefined)}
+        filament={gcodeFilament}
+      />
+
+      {/* Transfer Filament Modal */}
+      <TransferFilamentModal
+        open={!!transferFilament}
+        onOpenChange={(open) => !open && setTransferFilament(undefined)}
+        filament={transferFilament}
+      />
+
+      {/* Scan to Move Modal, opened from a location label */}
+      <ScanToMoveModal
+        open={scanToLocationId !== undefined}
+        onOpenChange={(open) => !open && setScanToLocationId(undefined)}
+        initialLocationId={scanToLocationId}
       />
 
       {/* Delete Confirmation Modal */}
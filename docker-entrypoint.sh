@@ -289,6 +289,73 @@ run_migration "drop redundant filament type columns" migrations/drop_filament_ty
 # to per-user columns (backfills every user from theme.json if present)
 run_migration "add per-user theme preferences" migrations/add_user_theme_preferences.ts
 
+# Run the migration adding print jobs and linking usage log rows to them
+run_migration "add print jobs table" migrations/add_print_jobs.ts
+
+# Run the migration making printer usage events idempotent (unique
+# externalJobId + sequence per user)
+run_migration "add printer usage events table" migrations/add_printer_usage_events.ts
+
+# Run the migration adding printers and the spools loaded in their tools
+run_migration "add printers tables" migrations/add_printers.ts
+
+# Run the migration indexing usage log rows by date for consumption statistics
+run_migration "add usage log created_at index" migrations/add_usage_log_created_at_index.ts
+
+# Run the migration linking revert entries to the usage log entry they back out
+run_migration "add usage log reverts" migrations/add_usage_log_reverts.ts
+
+# Run the migration adding empty spool weights for scale weigh-ins
+run_migration "add spool weights" migrations/add_spool_weights.ts
+
+# Run the migration creating outgoing webhooks and their delivery log
+run_migration "add webhooks" migrations/add_webhooks.ts
+
+# Run the migration adding notification channels (ntfy, Gotify, chat webhooks) besides email
+run_migration "add notification channels" migrations/add_notification_channels.ts
+
+# Run the migration creating the in-app notification center
+run_migration "add notifications" migrations/add_notifications.ts
+
+# Run the migration creating the shopping list / reorder planner
+run_migration "add shopping list" migrations/add_shopping_list.ts
+
+# Run the migration adding minimum stock levels per filament type
+run_migration "add min stock levels" migrations/add_min_stock_levels.ts
+
+# Run the migration creating purchase orders (price history)
+run_migration "add purchase orders" migrations/add_purchase_orders.ts
+
+# Run the migration adding price currencies and the exchange-rate table
+run_migration "add price currencies" migrations/add_price_currencies.ts
+
+# Run the migration adding print cost calculator defaults and printer power draw
+run_migration "add print cost" migrations/add_print_cost.ts
+
+# Run the migration adding the configurable statistics dashboard
+run_migration "add statistics widgets" migrations/add_statistics_widgets.ts
+
+# Run the migration adding spool archiving
+run_migration "add spool archiving" migrations/add_spool_archiving.ts
+
+# Run the migration linking the two entries of a filament transfer
+run_migration "add usage log transfers" migrations/add_usage_log_transfers.ts
+
+# Run the migration nesting storage locations
+run_migration "add storage location hierarchy" migrations/add_storage_location_hierarchy.ts
+
+# Run the migration adding the storage location move log
+run_migration "add filament location log" migrations/add_filament_location_log.ts
+
+# Run the migration adding label printers
+run_migration "add label printers" migrations/add_label_printers.ts
+
+# Run the migration giving the shopping list its own low-stock latch
+run_migration "add low stock listed at" migrations/add_low_stock_listed_at.ts
+
+# Run the migration making print job external IDs unique per user
+run_migration "add print job external id unique" migrations/add_print_job_external_id_unique.ts
+
 # Start the application
 echo "Starting application..."
 exec "$@"
@@ -0,0 +1,40 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: adds the filament_location_log table, recording every move of a
+ * spool between storage locations (from, to, source).
+ * Run with: npx tsx migrations/add_filament_location_log.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: filament location log...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS filament_location_log (
+      id SERIAL PRIMARY KEY,
+      filament_id INTEGER NOT NULL REFERENCES filaments(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      from_location TEXT,
+      to_location TEXT,
+      source TEXT NOT NULL DEFAULT 'manual',
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created filament_location_log table");
+
+  await createIndexIfMissing(
+    "filament_location_log_filament_id_idx",
+    sql`CREATE INDEX filament_location_log_filament_id_idx ON filament_location_log (filament_id);`,
+  );
+  console.log("✓ Added index on filament_id");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
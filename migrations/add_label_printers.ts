@@ -0,0 +1,37 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+
+/**
+ * Migration: adds the label_printers table - per-user label printers (ZPL,
+ * Brother QL, ESC/POS) reached over raw TCP or a CUPS queue.
+ * Run with: npx tsx migrations/add_label_printers.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: label printers...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS label_printers (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      language TEXT NOT NULL,
+      connection TEXT NOT NULL,
+      host TEXT,
+      port INTEGER NOT NULL DEFAULT 9100,
+      queue TEXT,
+      template TEXT NOT NULL,
+      dpi INTEGER NOT NULL DEFAULT 203,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created label_printers table");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
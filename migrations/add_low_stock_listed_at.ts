@@ -0,0 +1,30 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { columnExists } from "./helpers";
+
+/**
+ * Migration: adds the shopping list's own low-stock latch to filaments, so
+ * listing a low spool no longer marks it as notified. Spools already latched
+ * were listed at the same time, so they start out listed.
+ * Run with: npx tsx migrations/add_low_stock_listed_at.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: low-stock shopping list latch...");
+
+  if (await columnExists("filaments", "low_stock_listed_at")) {
+    console.log("✓ filaments.low_stock_listed_at already exists - skipping");
+  } else {
+    await db.execute(sql`ALTER TABLE filaments ADD COLUMN low_stock_listed_at TIMESTAMP;`);
+    await db.execute(sql`UPDATE filaments SET low_stock_listed_at = low_stock_notified_at WHERE low_stock_notified_at IS NOT NULL;`);
+    console.log("✓ Added low_stock_listed_at column to filaments");
+  }
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,42 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { addColumnIfMissing } from "./helpers";
+
+/**
+ * Migration: adds per-filament-type minimum stock levels (in spools or kg)
+ * and the latch the scheduled check uses to report each shortfall once.
+ * Run with: npx tsx migrations/add_min_stock_levels.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: minimum stock levels...");
+
+  await addColumnIfMissing(
+    "filament_types",
+    "min_stock_quantity",
+    sql`ALTER TABLE filament_types ADD COLUMN min_stock_quantity NUMERIC;`,
+  );
+  console.log("✓ Added filament_types.min_stock_quantity");
+
+  await addColumnIfMissing(
+    "filament_types",
+    "min_stock_unit",
+    sql`ALTER TABLE filament_types ADD COLUMN min_stock_unit TEXT;`,
+  );
+  console.log("✓ Added filament_types.min_stock_unit");
+
+  await addColumnIfMissing(
+    "filament_types",
+    "min_stock_notified_at",
+    sql`ALTER TABLE filament_types ADD COLUMN min_stock_notified_at TIMESTAMP;`,
+  );
+  console.log("✓ Added filament_types.min_stock_notified_at");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
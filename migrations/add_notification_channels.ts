@@ -0,0 +1,49 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { addColumnIfMissing, createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: adds users.notify_via_email (email becomes one notification
+ * channel that can be turned off) and the notification_channels table for
+ * the others (generic webhook, ntfy, Gotify, Matrix/Discord/Slack).
+ * Email stays on by default, so existing users keep getting their reminders.
+ * Run with: npx tsx migrations/add_notification_channels.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: notification channels...");
+
+  await addColumnIfMissing(
+    "users",
+    "notify_via_email",
+    sql`ALTER TABLE users ADD COLUMN notify_via_email BOOLEAN DEFAULT TRUE;`,
+  );
+  console.log("✓ Added notify_via_email to users");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS notification_channels (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      name TEXT,
+      config JSONB NOT NULL,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created notification_channels table");
+
+  await createIndexIfMissing(
+    "notification_channels_user_id_idx",
+    sql`CREATE INDEX notification_channels_user_id_idx ON notification_channels (user_id);`,
+  );
+  console.log("✓ Added notification_channels index");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,44 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: creates the notifications table backing the in-app
+ * notification center (low-stock, drying reminders, catalog-request reviews).
+ * Run with: npx tsx migrations/add_notifications.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: notifications...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      data JSONB NOT NULL,
+      read_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created notifications table");
+
+  await createIndexIfMissing(
+    "notifications_user_id_created_at_idx",
+    sql`CREATE INDEX notifications_user_id_created_at_idx ON notifications (user_id, created_at);`,
+  );
+  // The header bell polls the unread count
+  await createIndexIfMissing(
+    "notifications_unread_idx",
+    sql`CREATE INDEX notifications_unread_idx ON notifications (user_id) WHERE read_at IS NULL;`,
+  );
+  console.log("✓ Added notifications indexes");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,71 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { addColumnIfMissing } from "./helpers";
+
+// Approximate units per 1 EUR, only so conversions work out of the box -
+// admins are expected to update them in the settings
+const DEFAULT_RATES: [string, string][] = [
+  ["USD", "1.08"], ["GBP", "0.85"], ["JPY", "162"], ["CAD", "1.47"],
+  ["AUD", "1.63"], ["CHF", "0.95"], ["CNY", "7.8"], ["PLN", "4.3"],
+  ["CZK", "25"], ["NOK", "11.6"], ["SEK", "11.3"], ["DKK", "7.46"],
+  ["HUF", "395"], ["RON", "4.97"], ["BGN", "1.9558"], ["HRK", "7.5345"],
+];
+
+/**
+ * Migration: records the currency each spool price was entered in and adds
+ * the admin-maintained exchange-rate table. Existing prices are taken to be
+ * in their owner's current currency.
+ * Run with: npx tsx migrations/add_price_currencies.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: price currencies...");
+
+  await addColumnIfMissing(
+    "filaments",
+    "purchase_currency",
+    sql`ALTER TABLE filaments ADD COLUMN purchase_currency TEXT;`,
+  );
+  console.log("✓ Added filaments.purchase_currency");
+
+  await db.execute(sql`
+    UPDATE filaments
+    SET purchase_currency = COALESCE(users.currency, 'EUR')
+    FROM users
+    WHERE filaments.user_id = users.id
+      AND filaments.purchase_price IS NOT NULL
+      AND filaments.purchase_currency IS NULL;
+  `);
+  console.log("✓ Backfilled filaments.purchase_currency from the owners' currency");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      currency TEXT PRIMARY KEY,
+      rate_per_eur NUMERIC NOT NULL,
+      updated_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created exchange_rates table");
+
+  // Only into a fresh table, so rates an admin removed don't come back
+  const { rows } = await db.execute(sql`SELECT 1 FROM exchange_rates LIMIT 1;`);
+  if (rows.length === 0) {
+    for (const [currency, ratePerEur] of DEFAULT_RATES) {
+      await db.execute(sql`
+        INSERT INTO exchange_rates (currency, rate_per_eur)
+        VALUES (${currency}, ${ratePerEur});
+      `);
+    }
+    console.log("✓ Seeded default exchange rates");
+  } else {
+    console.log("✓ exchange_rates already has rates - skipping seed");
+  }
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
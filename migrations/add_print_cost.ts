@@ -0,0 +1,48 @@
+import { sql } from "drizzle-orm";
+import { addColumnIfMissing } from "./helpers";
+
+/**
+ * Migration: adds the print cost calculator's per-user defaults (electricity
+ * rate, machine cost per hour) and each printer's power draw.
+ * Run with: npx tsx migrations/add_print_cost.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: print cost calculator...");
+
+  await addColumnIfMissing(
+    "users",
+    "electricity_rate",
+    sql`ALTER TABLE users ADD COLUMN electricity_rate NUMERIC;`,
+  );
+  console.log("✓ Added users.electricity_rate");
+
+  await addColumnIfMissing(
+    "users",
+    "machine_cost_per_hour",
+    sql`ALTER TABLE users ADD COLUMN machine_cost_per_hour NUMERIC;`,
+  );
+  console.log("✓ Added users.machine_cost_per_hour");
+
+  await addColumnIfMissing(
+    "users",
+    "print_cost_currency",
+    sql`ALTER TABLE users ADD COLUMN print_cost_currency TEXT;`,
+  );
+  console.log("✓ Added users.print_cost_currency");
+
+  await addColumnIfMissing(
+    "printers",
+    "power_watts",
+    sql`ALTER TABLE printers ADD COLUMN power_watts INTEGER;`,
+  );
+  console.log("✓ Added printers.power_watts");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
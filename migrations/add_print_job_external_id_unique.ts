@@ -0,0 +1,51 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { indexExists } from "./helpers";
+
+/**
+ * Migration: makes print_jobs.external_job_id unique per user, so concurrent
+ * printer events of a new job can't each create it. Duplicates left behind
+ * by that race are merged into the oldest job first, keeping their usage.
+ * Run with: npx tsx migrations/add_print_job_external_id_unique.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: unique print job external IDs...");
+
+  if (await indexExists("print_jobs_user_external_job_id_key")) {
+    console.log("✓ print_jobs_user_external_job_id_key already exists - skipping");
+  } else {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        UPDATE filament_usage_log AS log
+        SET print_job_id = kept.keep_id
+        FROM (
+          SELECT id, MIN(id) OVER (PARTITION BY user_id, external_job_id) AS keep_id
+          FROM print_jobs
+          WHERE external_job_id IS NOT NULL
+        ) AS kept
+        WHERE log.print_job_id = kept.id AND kept.id <> kept.keep_id;
+      `);
+      await tx.execute(sql`
+        DELETE FROM print_jobs AS duplicate
+        USING print_jobs AS kept
+        WHERE duplicate.user_id = kept.user_id
+          AND duplicate.external_job_id = kept.external_job_id
+          AND duplicate.id > kept.id;
+      `);
+      await tx.execute(sql`
+        CREATE UNIQUE INDEX print_jobs_user_external_job_id_key ON print_jobs (user_id, external_job_id);
+      `);
+      await tx.execute(sql`DROP INDEX IF EXISTS print_jobs_user_external_job_id_idx;`);
+    });
+    console.log("✓ Merged duplicate print jobs and made (user_id, external_job_id) unique");
+  }
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,57 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { addColumnIfMissing, createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: adds the print_jobs table and links filament_usage_log rows to
+ * the job that consumed them (print_job_id, nulled if the job is deleted).
+ * Run with: npx tsx migrations/add_print_jobs.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: print jobs...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS print_jobs (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      printer_name TEXT,
+      started_at TIMESTAMP,
+      ended_at TIMESTAMP,
+      status TEXT NOT NULL DEFAULT 'completed',
+      gcode_file_name TEXT,
+      external_job_id TEXT,
+      note TEXT,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created print_jobs table");
+
+  await createIndexIfMissing(
+    "print_jobs_user_external_job_id_idx",
+    sql`CREATE INDEX print_jobs_user_external_job_id_idx ON print_jobs (user_id, external_job_id);`,
+  );
+  console.log("✓ Added index on (user_id, external_job_id)");
+
+  await addColumnIfMissing(
+    "filament_usage_log",
+    "print_job_id",
+    sql`ALTER TABLE filament_usage_log ADD COLUMN print_job_id INTEGER REFERENCES print_jobs(id) ON DELETE SET NULL;`,
+  );
+  console.log("✓ Added filament_usage_log.print_job_id");
+
+  await createIndexIfMissing(
+    "filament_usage_log_print_job_id_idx",
+    sql`CREATE INDEX filament_usage_log_print_job_id_idx ON filament_usage_log (print_job_id);`,
+  );
+  console.log("✓ Added index on print_job_id");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
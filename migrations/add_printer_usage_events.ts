@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: adds the printer_usage_events table, which makes
+ * POST /api/integrations/usage idempotent per (externalJobId, sequence).
+ * Run with: npx tsx migrations/add_printer_usage_events.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: printer usage events...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS printer_usage_events (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      external_job_id TEXT NOT NULL,
+      sequence INTEGER,
+      result JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created printer_usage_events table");
+
+  // COALESCE so an event without a sequence is unique per job too (NULLs
+  // would otherwise never conflict with each other)
+  await createIndexIfMissing(
+    "printer_usage_events_key_idx",
+    sql`CREATE UNIQUE INDEX printer_usage_events_key_idx ON printer_usage_events (user_id, external_job_id, COALESCE(sequence, -1));`,
+  );
+  console.log("✓ Added unique index on (user_id, external_job_id, sequence)");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
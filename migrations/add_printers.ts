@@ -0,0 +1,63 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: adds the printers and printer_loaded_spools tables, tracking
+ * which spool sits in which tool so token-bound usage events can omit
+ * filamentId.
+ * Run with: npx tsx migrations/add_printers.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: printers...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS printers (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      tool_count INTEGER NOT NULL DEFAULT 1,
+      api_token_id INTEGER REFERENCES api_tokens(id) ON DELETE SET NULL,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created printers table");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS printer_loaded_spools (
+      id SERIAL PRIMARY KEY,
+      printer_id INTEGER NOT NULL REFERENCES printers(id) ON DELETE CASCADE,
+      tool_index INTEGER NOT NULL,
+      filament_id INTEGER NOT NULL REFERENCES filaments(id) ON DELETE CASCADE,
+      loaded_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created printer_loaded_spools table");
+
+  // A token drives at most one printer
+  await createIndexIfMissing(
+    "printers_api_token_id_idx",
+    sql`CREATE UNIQUE INDEX printers_api_token_id_idx ON printers (api_token_id);`,
+  );
+  console.log("✓ Added unique index on printers.api_token_id");
+
+  // One spool per tool, and one tool per spool
+  await createIndexIfMissing(
+    "printer_loaded_spools_tool_idx",
+    sql`CREATE UNIQUE INDEX printer_loaded_spools_tool_idx ON printer_loaded_spools (printer_id, tool_index);`,
+  );
+  await createIndexIfMissing(
+    "printer_loaded_spools_filament_idx",
+    sql`CREATE UNIQUE INDEX printer_loaded_spools_filament_idx ON printer_loaded_spools (filament_id);`,
+  );
+  console.log("✓ Added unique indexes on printer_loaded_spools");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,57 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: creates purchase orders and their items, which make up each
+ * filament type's price history.
+ * Run with: npx tsx migrations/add_purchase_orders.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: purchase orders...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS purchase_orders (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      vendor TEXT NOT NULL,
+      order_date DATE NOT NULL,
+      shipping_cost NUMERIC NOT NULL DEFAULT 0,
+      currency TEXT NOT NULL DEFAULT 'EUR',
+      note TEXT,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created purchase_orders table");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS purchase_order_items (
+      id SERIAL PRIMARY KEY,
+      purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+      filament_type_id INTEGER NOT NULL REFERENCES filament_types(id) ON DELETE CASCADE,
+      quantity INTEGER NOT NULL DEFAULT 1,
+      price_per_spool NUMERIC NOT NULL,
+      weight_kg NUMERIC NOT NULL
+    );
+  `);
+  console.log("✓ Created purchase_order_items table");
+
+  await createIndexIfMissing(
+    "purchase_orders_user_id_order_date_idx",
+    sql`CREATE INDEX purchase_orders_user_id_order_date_idx ON purchase_orders (user_id, order_date);`,
+  );
+  await createIndexIfMissing(
+    "purchase_order_items_purchase_order_id_idx",
+    sql`CREATE INDEX purchase_order_items_purchase_order_id_idx ON purchase_order_items (purchase_order_id);`,
+  );
+  console.log("✓ Added purchase order indexes");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,43 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: creates the shopping list (reorder planner) items, one per
+ * filament type to buy, with their open -> ordered -> received status.
+ * Run with: npx tsx migrations/add_shopping_list.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: shopping list...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS shopping_list_items (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      filament_type_id INTEGER NOT NULL REFERENCES filament_types(id) ON DELETE CASCADE,
+      quantity INTEGER NOT NULL DEFAULT 1,
+      status TEXT NOT NULL DEFAULT 'open',
+      source TEXT NOT NULL DEFAULT 'manual',
+      note TEXT,
+      ordered_at TIMESTAMP,
+      received_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created shopping_list_items table");
+
+  await createIndexIfMissing(
+    "shopping_list_items_user_id_status_idx",
+    sql`CREATE INDEX shopping_list_items_user_id_status_idx ON shopping_list_items (user_id, status);`,
+  );
+  console.log("✓ Added shopping_list_items index");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
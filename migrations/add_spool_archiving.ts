@@ -0,0 +1,34 @@
+import { sql } from "drizzle-orm";
+import { addColumnIfMissing } from "./helpers";
+
+/**
+ * Migration: lets used-up spools be archived instead of deleted, keeping
+ * their usage history, and adds the per-user auto-archive preference.
+ * Run with: npx tsx migrations/add_spool_archiving.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: spool archiving...");
+
+  await addColumnIfMissing(
+    "filaments",
+    "archived_at",
+    sql`ALTER TABLE filaments ADD COLUMN archived_at TIMESTAMP;`,
+  );
+  console.log("✓ Added filaments.archived_at");
+
+  await addColumnIfMissing(
+    "users",
+    "auto_archive_empty",
+    sql`ALTER TABLE users ADD COLUMN auto_archive_empty BOOLEAN DEFAULT FALSE;`,
+  );
+  console.log("✓ Added users.auto_archive_empty");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
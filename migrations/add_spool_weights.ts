@@ -0,0 +1,44 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { addColumnIfMissing } from "./helpers";
+
+/**
+ * Migration: adds empty spool (tare) weights in grams, so a scale reading
+ * of the whole spool can be turned into remaining filament - per filament
+ * type, per manufacturer as the fallback, and on the SpoolmanDB cache so
+ * picking a community profile pre-fills it.
+ * Run with: npx tsx migrations/add_spool_weights.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: spool weights...");
+
+  await addColumnIfMissing(
+    "filament_types",
+    "spool_weight",
+    sql`ALTER TABLE filament_types ADD COLUMN spool_weight NUMERIC;`,
+  );
+  console.log("✓ Added filament_types.spool_weight");
+
+  await addColumnIfMissing(
+    "manufacturers",
+    "spool_weight",
+    sql`ALTER TABLE manufacturers ADD COLUMN spool_weight NUMERIC;`,
+  );
+  console.log("✓ Added manufacturers.spool_weight");
+
+  await addColumnIfMissing(
+    "community_filament_cache",
+    "spool_weight",
+    sql`ALTER TABLE community_filament_cache ADD COLUMN spool_weight NUMERIC;`,
+  );
+  console.log("✓ Added community_filament_cache.spool_weight");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
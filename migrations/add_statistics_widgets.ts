@@ -0,0 +1,27 @@
+import { sql } from "drizzle-orm";
+import { addColumnIfMissing } from "./helpers";
+
+/**
+ * Migration: stores each user's statistics dashboard layout. Users without
+ * one keep seeing the default widgets.
+ * Run with: npx tsx migrations/add_statistics_widgets.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: statistics widgets...");
+
+  await addColumnIfMissing(
+    "users",
+    "statistics_widgets",
+    sql`ALTER TABLE users ADD COLUMN statistics_widgets JSONB;`,
+  );
+  console.log("✓ Added users.statistics_widgets");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
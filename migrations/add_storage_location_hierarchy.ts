@@ -0,0 +1,41 @@
+import { sql } from "drizzle-orm";
+import { addColumnIfMissing } from "./helpers";
+
+/**
+ * Migration: adds parent_id, capacity and humidity_controlled to
+ * storage_locations so locations can be nested (room > shelf > dry box > slot).
+ * Run with: npx tsx migrations/add_storage_location_hierarchy.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: storage location hierarchy...");
+
+  await addColumnIfMissing(
+    "storage_locations",
+    "parent_id",
+    sql`ALTER TABLE storage_locations ADD COLUMN parent_id INTEGER REFERENCES storage_locations(id) ON DELETE SET NULL;`,
+  );
+  console.log("✓ Added storage_locations.parent_id");
+
+  await addColumnIfMissing(
+    "storage_locations",
+    "capacity",
+    sql`ALTER TABLE storage_locations ADD COLUMN capacity INTEGER;`,
+  );
+  console.log("✓ Added storage_locations.capacity");
+
+  await addColumnIfMissing(
+    "storage_locations",
+    "humidity_controlled",
+    sql`ALTER TABLE storage_locations ADD COLUMN humidity_controlled BOOLEAN DEFAULT FALSE;`,
+  );
+  console.log("✓ Added storage_locations.humidity_controlled");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
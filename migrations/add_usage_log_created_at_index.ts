@@ -0,0 +1,27 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: indexes filament_usage_log by (user_id, created_at) for the
+ * date-range scans behind /api/statistics/consumption and /forecast.
+ * Run with: npx tsx migrations/add_usage_log_created_at_index.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: usage log created_at index...");
+
+  await createIndexIfMissing(
+    "filament_usage_log_user_created_at_idx",
+    sql`CREATE INDEX filament_usage_log_user_created_at_idx ON filament_usage_log (user_id, created_at);`,
+  );
+  console.log("✓ Added index on filament_usage_log (user_id, created_at)");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
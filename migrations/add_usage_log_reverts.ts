@@ -0,0 +1,35 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { addColumnIfMissing, createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: adds filament_usage_log.reverts_log_id, linking a compensating
+ * 'revert' entry to the entry it backs out. The unique index makes sure an
+ * entry is reverted at most once.
+ * Run with: npx tsx migrations/add_usage_log_reverts.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: usage log reverts...");
+
+  await addColumnIfMissing(
+    "filament_usage_log",
+    "reverts_log_id",
+    sql`ALTER TABLE filament_usage_log ADD COLUMN reverts_log_id INTEGER REFERENCES filament_usage_log(id) ON DELETE SET NULL;`,
+  );
+  console.log("✓ Added filament_usage_log.reverts_log_id");
+
+  await createIndexIfMissing(
+    "filament_usage_log_reverts_log_id_idx",
+    sql`CREATE UNIQUE INDEX filament_usage_log_reverts_log_id_idx ON filament_usage_log (reverts_log_id);`,
+  );
+  console.log("✓ Added unique index on filament_usage_log.reverts_log_id");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
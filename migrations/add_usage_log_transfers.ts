@@ -0,0 +1,27 @@
+import { sql } from "drizzle-orm";
+import { addColumnIfMissing } from "./helpers";
+
+/**
+ * Migration: adds filament_usage_log.transfer_log_id, linking the two
+ * 'transfer' entries written when filament moves between spools.
+ * Run with: npx tsx migrations/add_usage_log_transfers.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: usage log transfers...");
+
+  await addColumnIfMissing(
+    "filament_usage_log",
+    "transfer_log_id",
+    sql`ALTER TABLE filament_usage_log ADD COLUMN transfer_log_id INTEGER REFERENCES filament_usage_log(id) ON DELETE SET NULL;`,
+  );
+  console.log("✓ Added filament_usage_log.transfer_log_id");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
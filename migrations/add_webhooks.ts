@@ -0,0 +1,67 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+import { createIndexIfMissing } from "./helpers";
+
+/**
+ * Migration: creates the webhooks table (per-user outgoing webhook
+ * subscriptions) and webhook_deliveries (the delivery log, which doubles as
+ * the retry queue).
+ * Run with: npx tsx migrations/add_webhooks.ts
+ */
+export async function runMigration() {
+  console.log("Starting migration: webhooks...");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      event_types JSONB NOT NULL,
+      enabled BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created webhooks table");
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id SERIAL PRIMARY KEY,
+      webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+      event_type TEXT NOT NULL,
+      payload JSONB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      last_error TEXT,
+      next_attempt_at TIMESTAMP,
+      delivered_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT now()
+    );
+  `);
+  console.log("✓ Created webhook_deliveries table");
+
+  await createIndexIfMissing(
+    "webhooks_user_id_idx",
+    sql`CREATE INDEX webhooks_user_id_idx ON webhooks (user_id);`,
+  );
+  await createIndexIfMissing(
+    "webhook_deliveries_webhook_id_created_at_idx",
+    sql`CREATE INDEX webhook_deliveries_webhook_id_created_at_idx ON webhook_deliveries (webhook_id, created_at);`,
+  );
+  // The retry sweep only ever looks at pending deliveries
+  await createIndexIfMissing(
+    "webhook_deliveries_pending_idx",
+    sql`CREATE INDEX webhook_deliveries_pending_idx ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';`,
+  );
+  console.log("✓ Added webhook indexes");
+
+  console.log("Migration completed successfully!");
+}
+
+runMigration()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -114,12 +114,13 @@ export async function requireApiToken(req: Request, res: Response, next: NextFun
     return res.status(401).json({ message: "API token required" });
   }
 
-  const userId = await storage.getUserIdByTokenHash(hashApiToken(token));
-  if (!userId) {
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken) {
     return res.status(401).json({ message: "Invalid API token" });
   }
 
-  req.userId = userId;
+  req.userId = apiToken.userId;
+  req.apiTokenId = apiToken.id;
   next();
 }
 
@@ -4,6 +4,7 @@ import helmet from "helmet";
 import { registerRoutes } from "./routes/index";
 import { setupVite, serveStatic, log } from "./vite";
 import { runScheduledChecks } from "./utils/notification-checks";
+import { retryDueWebhookDeliveries } from "./utils/webhooks";
 import { logger } from "./utils/logger";
 
 const app = express();
@@ -92,4 +93,10 @@ app.use((req, res, next) => {
   setInterval(() => {
     runScheduledChecks().catch((error) => logger.error("Scheduled notification check failed:", error));
   }, SCHEDULED_CHECKS_INTERVAL_MS);
+
+  // Webhook deliveries whose retry backoff has elapsed (see utils/webhooks.ts)
+  const WEBHOOK_RETRY_INTERVAL_MS = 60 * 1000;
+  setInterval(() => {
+    retryDueWebhookDeliveries().catch((error) => logger.error("Webhook retry sweep failed:", error));
+  }, WEBHOOK_RETRY_INTERVAL_MS);
 })();
@@ -4,6 +4,8 @@ import { authenticate } from "../auth";
 import { InsertFilament } from "@shared/schema";
 import { logger as appLogger } from "../utils/logger";
 import { validateBatchIds } from "../utils/batch-operations";
+import { emitWebhookEvent } from "../utils/webhooks";
+import { isSupportedCurrency, userCurrency } from "../utils/currency";
 
 export function registerBatchRoutes(app: Express): void {
   // BATCH DELETE multiple filaments
@@ -22,7 +24,12 @@ export function registerBatchRoutes(app: Express): void {
         return res.status(400).json({ message: "No valid filament IDs provided" });
       }
 
+      // Snapshots for the filament.deleted webhook events
+      const deleted = (await storage.getFilaments(req.userId)).filter((f) => validIds.includes(f.id));
       const deletedCount = await storage.batchDeleteFilaments(validIds, req.userId);
+      for (const filament of deleted) {
+        await emitWebhookEvent(req.userId, "filament.deleted", { filament });
+      }
 
       appLogger.info(`Batch delete completed: ${deletedCount} out of ${validIds.length} filaments deleted`);
 
@@ -75,6 +82,14 @@ export function registerBatchRoutes(app: Express): void {
       // Additional fields
       if (updates.purchaseDate !== undefined) updateData.purchaseDate = updates.purchaseDate;
       if (updates.purchasePrice !== undefined) updateData.purchasePrice = String(updates.purchasePrice);
+      if (updates.purchaseCurrency !== undefined) {
+        if (!isSupportedCurrency(updates.purchaseCurrency)) {
+          return res.status(400).json({ message: "Invalid purchase currency" });
+        }
+        updateData.purchaseCurrency = updates.purchaseCurrency;
+      } else if (updates.purchasePrice !== undefined) {
+        updateData.purchaseCurrency = await userCurrency(req.userId);
+      }
       if (updates.status !== undefined) updateData.status = String(updates.status);
       if (updates.spoolType !== undefined) updateData.spoolType = String(updates.spoolType);
       if (updates.dryerCount !== undefined) updateData.dryerCount = Number(updates.dryerCount);
@@ -104,13 +104,20 @@ export function registerCatalogRequestRoutes(app: Express): void {
     return request;
   }
 
+  // In-app notification always, email too if the requester has an address
   async function notifyRequester(request: CatalogRequest, approved: boolean, reviewNote?: string | null) {
-    const [requester] = await db.select().from(users).where(eq(users.id, request.userId));
-    if (!requester?.email) return;
-
     const config = ENTITY_CONFIG[request.entityType as keyof typeof ENTITY_CONFIG];
     const entityLabel = config ? config.label(request.payload as any) : request.entityType;
 
+    await storage.createNotification(
+      request.userId,
+      approved ? "catalog_request_approved" : "catalog_request_rejected",
+      { requestId: request.id, entityType: request.entityType, entityLabel, reviewNote: reviewNote ?? null },
+    );
+
+    const [requester] = await db.select().from(users).where(eq(users.id, request.userId));
+    if (!requester?.email) return;
+
     await sendMail({
       to: requester.email,
       ...catalogRequestReviewedEmail((requester.language as "en" | "de") || "en", approved, entityLabel, reviewNote),
@@ -0,0 +1,63 @@
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticate, isAdmin } from "../auth";
+import { updateExchangeRatesSchema } from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { BASE_CURRENCY, isSupportedCurrency } from "../utils/currency";
+
+/**
+ * The exchange rates statistics and cost figures are converted with (see
+ * server/utils/currency.ts). Every user can read them; only admins maintain
+ * them, by hand - there is no online rate source.
+ */
+export function registerExchangeRateRoutes(app: Express): void {
+  app.get("/api/exchange-rates", authenticate, async (_req, res) => {
+    try {
+      res.json({ baseCurrency: BASE_CURRENCY, rates: await storage.getExchangeRates() });
+    } catch (error) {
+      appLogger.error("Error fetching exchange rates:", error);
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  // Adds or replaces the given rates; currencies not listed are left as they are
+  app.put("/api/exchange-rates", authenticate, isAdmin, async (req, res) => {
+    try {
+      const { rates } = updateExchangeRatesSchema.parse(req.body);
+      await storage.setExchangeRates(rates.map((rate) => ({
+        currency: rate.currency,
+        ratePerEur: String(rate.ratePerEur),
+      })));
+      res.json({ baseCurrency: BASE_CURRENCY, rates: await storage.getExchangeRates() });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating exchange rates:", error);
+      res.status(500).json({ message: "Failed to update exchange rates" });
+    }
+  });
+
+  // Amounts in the currency stop being converted until a rate is set again
+  app.delete("/api/exchange-rates/:currency", authenticate, isAdmin, async (req, res) => {
+    try {
+      const currency = req.params.currency.toUpperCase();
+      if (!isSupportedCurrency(currency) || currency === BASE_CURRENCY) {
+        return res.status(400).json({ message: "Invalid currency" });
+      }
+
+      const success = await storage.deleteExchangeRate(currency);
+      if (!success) {
+        return res.status(404).json({ message: "Exchange rate not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting exchange rate:", error);
+      res.status(500).json({ message: "Failed to delete exchange rate" });
+    }
+  });
+}
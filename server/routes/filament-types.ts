@@ -0,0 +1,99 @@
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import { updateMinStockSchema } from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import { stockLevels } from "../utils/min-stock";
+import { priceHistory, historyInCurrency } from "../utils/purchase-prices";
+import { loadUserCurrencyConverter } from "../utils/currency";
+
+/**
+ * Filament types (products) with their combined stock, the per-type
+ * minimum stock levels that the scheduled checks and statistics flag, and
+ * each type's price history from purchase orders.
+ */
+export function registerFilamentTypeRoutes(app: Express): void {
+  app.get("/api/filament-types", authenticate, async (req, res) => {
+    try {
+      const [types, userFilaments] = await Promise.all([
+        storage.getFilamentTypes(req.userId),
+        storage.getFilaments(req.userId),
+      ]);
+      res.json(stockLevels(types, userFilaments));
+    } catch (error) {
+      appLogger.error("Error fetching filament types:", error);
+      res.status(500).json({ message: "Failed to fetch filament types" });
+    }
+  });
+
+  app.put("/api/filament-types/:id/min-stock", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament type ID" });
+      }
+
+      const { minStockQuantity, minStockUnit } = updateMinStockSchema.parse(req.body);
+      // A changed minimum is a fresh one, so a shortfall under it gets reported
+      const updated = await storage.updateFilamentType(id, {
+        minStockQuantity: minStockQuantity !== null ? String(minStockQuantity) : null,
+        minStockUnit: minStockQuantity !== null ? minStockUnit : null,
+        minStockNotifiedAt: null,
+      }, req.userId);
+      if (!updated) {
+        return res.status(404).json({ message: "Filament type not found" });
+      }
+
+      const typeFilaments = (await storage.getFilaments(req.userId))
+        .filter((filament) => filament.filamentTypeId === id);
+      res.json(stockLevels([updated], typeFilaments)[0]);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating minimum stock:", error);
+      res.status(500).json({ message: "Failed to update minimum stock" });
+    }
+  });
+
+  // Every purchase of the type, newest first, with the weighted average
+  // landed cost per kg over all of them - all in the user's currency
+  app.get("/api/filament-types/:id/price-history", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament type ID" });
+      }
+
+      const filamentType = await storage.getFilamentType(id, req.userId);
+      if (!filamentType) {
+        return res.status(404).json({ message: "Filament type not found" });
+      }
+
+      const [purchaseOrders, converter] = await Promise.all([
+        storage.getPurchaseOrders(req.userId),
+        loadUserCurrencyConverter(req.userId),
+      ]);
+      const entries = historyInCurrency(priceHistory(purchaseOrders), converter)
+        .filter((entry) => entry.filamentTypeId === id);
+      const kg = entries.reduce((sum, entry) => sum + entry.weightKg * entry.quantity, 0);
+      const cost = entries.reduce((sum, entry) => sum + entry.pricePerKg * entry.weightKg * entry.quantity, 0);
+
+      res.json({
+        filamentTypeId: id,
+        currency: converter.currency,
+        missingExchangeRates: Array.from(converter.missing),
+        averagePricePerKg: kg > 0 ? Math.round((cost / kg) * 100) / 100 : null,
+        lastPricePerKg: entries[0]?.pricePerKg ?? null,
+        entries,
+      });
+    } catch (error) {
+      appLogger.error("Error fetching price history:", error);
+      res.status(500).json({ message: "Failed to fetch price history" });
+    }
+  });
+}
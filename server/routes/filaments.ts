@@ -1,19 +1,38 @@
 import type { Express } from "express";
-import { storage } from "../storage";
+import { eq } from "drizzle-orm";
+import { storage, archiveChangeAfterUsage } from "../storage";
+import { db } from "../db";
 import { authenticate } from "../auth";
-import { InsertFilament } from "@shared/schema";
+import {
+  InsertFilament,
+  filamentListQuerySchema,
+  moveFilamentsSchema,
+  revertUsageLogSchema,
+  transferFilamentSchema,
+  users,
+  weighSpoolSchema,
+} from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { logger as appLogger } from "../utils/logger";
 import { validateId } from "../utils/validation";
 import { parseCSVLine, detectCSVFormat, escapeCsvField } from "../utils/csv-parser";
 import { validateBatchIds } from "../utils/batch-operations";
+import { emptySpoolWeight } from "../utils/filament-usage";
+import { emitUsageEvents, emitWebhookEvent } from "../utils/webhooks";
+import { isSupportedCurrency, userCurrency } from "../utils/currency";
+import { locationsOverCapacity } from "../utils/storage-locations";
 
 export function registerFilamentRoutes(app: Express): void {
-  // GET all filaments with optional export
+  // GET all filaments with optional export. Archived spools are left out
+  // unless ?archived=include|only; exports always contain every spool.
   app.get("/api/filaments", authenticate, async (req, res) => {
     try {
-      const filaments = await storage.getFilaments(req.userId);
+      const { archived } = filamentListQuerySchema.parse(req.query);
+      const allFilaments = await storage.getFilaments(req.userId);
+      const filaments = req.query.export || archived === "include"
+        ? allFilaments
+        : allFilaments.filter((filament) => (archived === "only") === !!filament.archivedAt);
 
       // Check if export parameter is set
       if (req.query.export === 'csv') {
@@ -21,7 +40,7 @@ export function registerFilamentRoutes(app: Express): void {
         res.setHeader('Content-Disposition', 'attachment; filename="filaments.csv"');
 
         // Create CSV header and content
-        let csvContent = 'name,manufacturer,material,colorName,colorCode,diameter,printTemp,totalWeight,remainingPercentage,purchaseDate,purchasePrice,status,spoolType,dryerCount,lastDryingDate,storageLocation\n';
+        let csvContent = 'name,manufacturer,material,colorName,colorCode,diameter,printTemp,totalWeight,remainingPercentage,purchaseDate,purchasePrice,status,spoolType,dryerCount,lastDryingDate,storageLocation,purchaseCurrency,archivedAt\n';
 
         filaments.forEach(filament => {
           // Format date fields
@@ -43,7 +62,9 @@ export function registerFilamentRoutes(app: Express): void {
           csvContent += `${escapeCsvField(filament.spoolType)},`;
           csvContent += `${escapeCsvField(filament.dryerCount)},`;
           csvContent += `${escapeCsvField(lastDryingDate)},`;
-          csvContent += `${escapeCsvField(filament.storageLocation)}\n`;
+          csvContent += `${escapeCsvField(filament.storageLocation)},`;
+          csvContent += `${escapeCsvField(filament.purchaseCurrency)},`;
+          csvContent += `${escapeCsvField(filament.archivedAt ? filament.archivedAt.toISOString() : '')}\n`;
         });
 
         return res.send(csvContent);
@@ -56,6 +77,10 @@ export function registerFilamentRoutes(app: Express): void {
 
       res.json(filaments);
     } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
       appLogger.error("Error fetching filaments:", error);
       res.status(500).json({ message: "Failed to fetch filaments" });
     }
@@ -100,9 +125,13 @@ export function registerFilamentRoutes(app: Express): void {
           'name', 'manufacturer', 'material', 'colorname', 'colorcode',
           'diameter', 'printtemp', 'totalweight', 'remainingpercentage',
           'purchasedate', 'purchaseprice', 'status', 'spooltype',
-          'dryercount', 'lastdryingdate', 'storagelocation'
+          'dryercount', 'lastdryingdate', 'storagelocation', 'purchasecurrency',
+          'archivedat'
         ];
 
+        // Prices without a (known) currency column are taken to be in the user's
+        const importCurrency = await userCurrency(req.userId);
+
         // Detect CSV format
         const { startIndex, columnMap } = detectCSVFormat(csvLines, expectedColumns);
 
@@ -141,6 +170,8 @@ export function registerFilamentRoutes(app: Express): void {
             const dryerCount = getValue('dryercount', 13);
             const lastDryingDate = getValue('lastdryingdate', 14);
             const storageLocation = getValue('storagelocation', 15);
+            const purchaseCurrency = getValue('purchasecurrency', 16).toUpperCase();
+            const archivedAt = getValue('archivedat', 17);
 
             // Validate required fields
             if (!name || !material || !colorName) {
@@ -174,15 +205,18 @@ export function registerFilamentRoutes(app: Express): void {
               remainingPercentage: remainingPercentage ? remainingPercentage.toString() : "100",
               purchaseDate: purchaseDate ? purchaseDate : undefined,
               purchasePrice: purchasePrice ? purchasePrice.toString() : undefined,
+              purchaseCurrency: purchasePrice ? (isSupportedCurrency(purchaseCurrency) ? purchaseCurrency : importCurrency) : undefined,
               status: status || undefined,
               spoolType: spoolType || undefined,
               dryerCount: dryerCount ? parseInt(dryerCount) : 0,
               lastDryingDate: lastDryingDate ? lastDryingDate : undefined,
-              storageLocation
+              storageLocation,
+              archivedAt: archivedAt ? new Date(archivedAt) : undefined
             };
 
             // Create the filament
-            await storage.createFilament(insertData);
+            const created = await storage.createFilament(insertData);
+            await emitWebhookEvent(req.userId, "filament.created", { filament: created });
             results.created++;
             appLogger.debug(`Created filament: "${name}" at line ${i + 1}`);
           } catch (err) {
@@ -209,6 +243,7 @@ export function registerFilamentRoutes(app: Express): void {
 
           // Get existing filaments to check for duplicates
           const existingFilaments = await storage.getFilaments(req.userId);
+          const importCurrency = await userCurrency(req.userId);
 
           // Process each filament
           for (const filament of filaments) {
@@ -245,15 +280,20 @@ export function registerFilamentRoutes(app: Express): void {
                 remainingPercentage: filament.remainingPercentage ? filament.remainingPercentage.toString() : "100",
                 purchaseDate: filament.purchaseDate || undefined,
                 purchasePrice: filament.purchasePrice ? filament.purchasePrice.toString() : undefined,
+                purchaseCurrency: filament.purchasePrice
+                  ? (isSupportedCurrency(filament.purchaseCurrency) ? filament.purchaseCurrency : importCurrency)
+                  : undefined,
                 status: filament.status || undefined,
                 spoolType: filament.spoolType || undefined,
                 dryerCount: filament.dryerCount || 0,
                 lastDryingDate: filament.lastDryingDate || undefined,
-                storageLocation: filament.storageLocation
+                storageLocation: filament.storageLocation,
+                archivedAt: filament.archivedAt ? new Date(filament.archivedAt) : undefined
               };
 
               // Create the filament
-              await storage.createFilament(insertData);
+              const created = await storage.createFilament(insertData);
+              await emitWebhookEvent(req.userId, "filament.created", { filament: created });
               results.created++;
               appLogger.debug(`Created filament: "${filament.name}"`);
             } catch (err) {
@@ -273,6 +313,9 @@ export function registerFilamentRoutes(app: Express): void {
       appLogger.debug("Creating filament", { userId: req.userId });
 
       const data = req.body;
+      if (data.purchaseCurrency != null && !isSupportedCurrency(data.purchaseCurrency)) {
+        return res.status(400).json({ message: "Invalid purchase currency" });
+      }
       const insertData: InsertFilament = {
         userId: req.userId,
         name: data.name,
@@ -286,6 +329,7 @@ export function registerFilamentRoutes(app: Express): void {
         remainingPercentage: data.remainingPercentage.toString(),
         purchaseDate: data.purchaseDate,
         purchasePrice: data.purchasePrice ? data.purchasePrice.toString() : undefined,
+        purchaseCurrency: data.purchasePrice ? data.purchaseCurrency ?? await userCurrency(req.userId) : undefined,
         status: data.status,
         spoolType: data.spoolType,
         dryerCount: data.dryerCount,
@@ -295,6 +339,7 @@ export function registerFilamentRoutes(app: Express): void {
       };
 
       const newFilament = await storage.createFilament(insertData);
+      await emitWebhookEvent(req.userId, "filament.created", { filament: newFilament });
       res.status(201).json(newFilament);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -328,6 +373,274 @@ export function registerFilamentRoutes(app: Express): void {
     }
   });
 
+  // GET the storage location moves of a filament, newest first
+  app.get("/api/filaments/:id/location-log", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament ID" });
+      }
+
+      const filament = await storage.getFilament(id, req.userId);
+      if (!filament) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+
+      const log = await storage.getFilamentLocationLog(id, req.userId);
+      res.json(log);
+    } catch (error) {
+      appLogger.error("Error fetching filament location log:", error);
+      res.status(500).json({ message: "Failed to fetch filament location log" });
+    }
+  });
+
+  // Move several spools to one storage location in one go (e.g. after
+  // scanning a location label and then the spools' labels). Every spool
+  // that changes location gets a location log entry.
+  app.post("/api/filaments/move", authenticate, async (req, res) => {
+    try {
+      const { filamentIds, storageLocation, source, ignoreCapacity } = moveFilamentsSchema.parse(req.body);
+
+      if (storageLocation !== null) {
+        const [locations, filaments, occupancy] = await Promise.all([
+          storage.getStorageLocations(),
+          storage.getFilaments(req.userId),
+          storage.getStorageLocationOccupancy(),
+        ]);
+        if (!locations.some((location) => location.name === storageLocation)) {
+          return res.status(400).json({ message: "Storage location not found" });
+        }
+
+        const overCapacity = locationsOverCapacity(locations, filaments, occupancy, storageLocation, filamentIds);
+        if (overCapacity.length > 0 && !ignoreCapacity) {
+          return res.status(409).json({
+            message: `Not enough room in ${overCapacity.map((location) => location.name).join(", ")}`,
+            overCapacity: overCapacity.map(({ id, name, capacity, occupied }) => ({ id, name, capacity, occupied })),
+          });
+        }
+      }
+
+      const moved = await storage.moveFilaments(req.userId, filamentIds, storageLocation, source);
+      if (!moved) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+      res.json(moved);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error moving filaments:", error);
+      res.status(500).json({ message: "Failed to move filaments" });
+    }
+  });
+
+  // Back out a usage log entry by writing a compensating 'revert' entry with
+  // the opposite deltaWeight. The original entry stays in the history.
+  app.post("/api/filaments/:id/usage-log/:logId/revert", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament ID" });
+      }
+      const logId = validateId(req.params.logId);
+      if (logId === null) {
+        return res.status(400).json({ message: "Invalid usage log ID" });
+      }
+
+      const { note } = revertUsageLogSchema.parse(req.body ?? {});
+      const log = await storage.getFilamentUsageLog(id, req.userId);
+      const entry = log.find((row) => row.id === logId);
+      if (!entry) {
+        return res.status(404).json({ message: "Usage log entry not found" });
+      }
+      if (entry.revertsLogId !== null) {
+        return res.status(409).json({ message: "A revert entry can't be reverted" });
+      }
+      if (entry.transferLogId !== null) {
+        return res.status(409).json({ message: "A transfer can't be reverted on one spool; transfer the filament back instead" });
+      }
+
+      const applied = await storage.applyFilamentUsage(
+        req.userId,
+        [{ filamentId: id, deltaWeight: -Number(entry.deltaWeight) }],
+        {
+          note: note?.trim() || `Revert of entry ${entry.id}`,
+          source: "revert",
+          // Linked to the same job, so the job's totals net out
+          printJobId: entry.printJobId,
+          revertsLogId: entry.id,
+        }
+      );
+      if (!applied) {
+        return res.status(409).json({ message: "Usage log entry is already reverted" });
+      }
+      await emitUsageEvents(req.userId, applied);
+
+      res.status(201).json({ log: applied.logs[0], filament: applied.filaments[0] });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error reverting usage log entry:", error);
+      res.status(500).json({ message: "Failed to revert usage log entry" });
+    }
+  });
+
+  // Set the remaining filament from a scale reading of the whole spool: the
+  // tare is subtracted and the difference to the current remaining weight is
+  // logged with source 'scale'.
+  app.post("/api/filaments/:id/weigh", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament ID" });
+      }
+
+      const { grossWeight, spoolWeight, note } = weighSpoolSchema.parse(req.body);
+      const filament = await storage.getFilament(id, req.userId);
+      if (!filament) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+
+      let tare = spoolWeight ?? null;
+      if (tare === null) {
+        const manufacturers = await storage.getManufacturers();
+        tare = emptySpoolWeight(filament, manufacturers.find((m) => m.name === filament.manufacturer));
+      }
+      if (tare === null) {
+        return res.status(400).json({ message: "No empty spool weight is known for this filament; pass spoolWeight" });
+      }
+
+      const totalWeightGrams = Number(filament.totalWeight) * 1000;
+      const remainingGrams = (totalWeightGrams * Number(filament.remainingPercentage)) / 100;
+      // A reading above the rated weight (a heavier spool than assumed, or
+      // something else on the scale) fills the spool to 100% and no further
+      const netGrams = Math.min(totalWeightGrams, Math.max(0, grossWeight - tare));
+
+      const applied = await storage.applyFilamentUsage(
+        req.userId,
+        [{ filamentId: id, deltaWeight: netGrams - remainingGrams }],
+        { note: note?.trim() || `Weighed ${grossWeight}g`, source: "scale" }
+      );
+      await emitUsageEvents(req.userId, applied!);
+
+      res.status(201).json({ log: applied!.logs[0], filament: applied!.filaments[0] });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error recording spool weight:", error);
+      res.status(500).json({ message: "Failed to record spool weight" });
+    }
+  });
+
+  // Move filament from this spool onto another of the same filament type,
+  // as a pair of linked 'transfer' usage entries written in one transaction
+  app.post("/api/filaments/:id/transfer", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament ID" });
+      }
+
+      const { toFilamentId, grams, note } = transferFilamentSchema.parse(req.body);
+      if (toFilamentId === id) {
+        return res.status(400).json({ message: "Source and target spool must differ" });
+      }
+
+      const [from, to] = await Promise.all([
+        storage.getFilament(id, req.userId),
+        storage.getFilament(toFilamentId, req.userId),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+      if (from.filamentTypeId !== to.filamentTypeId) {
+        return res.status(400).json({ message: "Filament can only be transferred between spools of the same filament type" });
+      }
+
+      // totalWeight is stored in kg; the usage log records grams
+      const available = (Number(from.totalWeight) * 1000 * Number(from.remainingPercentage)) / 100;
+      const room = Number(to.totalWeight) * 1000 * (1 - Number(to.remainingPercentage) / 100);
+      const amount = grams ?? available;
+      if (amount <= 0) {
+        return res.status(400).json({ message: "The source spool is empty" });
+      }
+      if (amount > available + 0.001) {
+        return res.status(400).json({ message: `Only ${available.toFixed(1)}g left on the source spool` });
+      }
+      if (amount > room + 0.001) {
+        return res.status(400).json({ message: `The target spool only has room for ${room.toFixed(1)}g; raise its total weight first` });
+      }
+
+      const applied = await storage.applyFilamentUsage(
+        req.userId,
+        [
+          { filamentId: from.id, deltaWeight: -amount, note: note?.trim() || `Transferred to ${to.name} (#${to.id})` },
+          { filamentId: to.id, deltaWeight: amount, note: note?.trim() || `Transferred from ${from.name} (#${from.id})` },
+        ],
+        { source: "transfer", transfer: true }
+      );
+      await emitUsageEvents(req.userId, applied!);
+
+      res.status(201).json({ logs: applied!.logs, filaments: applied!.filaments });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error transferring filament:", error);
+      res.status(500).json({ message: "Failed to transfer filament" });
+    }
+  });
+
+  // Archive a spool: it leaves the default list, stock levels and reminders,
+  // while its usage log stays for statistics and history. Unlike DELETE,
+  // nothing is lost, and unarchiving brings it back as it was.
+  app.post("/api/filaments/:id/archive", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament ID" });
+      }
+
+      const filament = await storage.getFilament(id, req.userId);
+      if (!filament) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+      if (filament.archivedAt) {
+        return res.json(filament);
+      }
+
+      const updated = await storage.updateFilament(id, { archivedAt: new Date() }, req.userId);
+      res.json(updated);
+    } catch (error) {
+      appLogger.error("Error archiving filament:", error);
+      res.status(500).json({ message: "Failed to archive filament" });
+    }
+  });
+
+  app.post("/api/filaments/:id/unarchive", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid filament ID" });
+      }
+
+      const updated = await storage.updateFilament(id, { archivedAt: null }, req.userId);
+      if (!updated) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      appLogger.error("Error unarchiving filament:", error);
+      res.status(500).json({ message: "Failed to unarchive filament" });
+    }
+  });
+
   // PATCH update an existing filament
   app.patch("/api/filaments/:id", authenticate, async (req, res) => {
     try {
@@ -344,6 +657,9 @@ export function registerFilamentRoutes(app: Express): void {
       }
 
       const data = req.body;
+      if (data.purchaseCurrency != null && !isSupportedCurrency(data.purchaseCurrency)) {
+        return res.status(400).json({ message: "Invalid purchase currency" });
+      }
       const updateData: Partial<InsertFilament> = {};
 
       if (data.name !== undefined) updateData.name = data.name;
@@ -355,12 +671,19 @@ export function registerFilamentRoutes(app: Express): void {
 
       // Numeric values stored as strings
       if (data.diameter !== undefined) updateData.diameter = data.diameter.toString();
+      if (data.spoolWeight !== undefined) updateData.spoolWeight = data.spoolWeight === null ? null : data.spoolWeight.toString();
       if (data.totalWeight !== undefined) updateData.totalWeight = data.totalWeight.toString();
       if (data.remainingPercentage !== undefined) updateData.remainingPercentage = data.remainingPercentage.toString();
 
       // Additional fields
       if (data.purchaseDate !== undefined) updateData.purchaseDate = data.purchaseDate;
       if (data.purchasePrice !== undefined) updateData.purchasePrice = data.purchasePrice.toString();
+      if (data.purchaseCurrency !== undefined) {
+        updateData.purchaseCurrency = data.purchaseCurrency;
+      } else if (data.purchasePrice !== undefined && !existingFilament.purchaseCurrency) {
+        // A price entered without a currency is in the user's
+        updateData.purchaseCurrency = await userCurrency(req.userId);
+      }
       if (data.status !== undefined) updateData.status = data.status;
       if (data.spoolType !== undefined) updateData.spoolType = data.spoolType;
       if (data.dryerCount !== undefined) updateData.dryerCount = data.dryerCount;
@@ -371,13 +694,19 @@ export function registerFilamentRoutes(app: Express): void {
       if (data.storageLocation !== undefined) updateData.storageLocation = data.storageLocation;
       if (data.customFieldValues !== undefined) updateData.customFieldValues = data.customFieldValues;
 
-      // A top-up clears the low-stock notification latch, so a future drop
-      // back below the threshold triggers a fresh email instead of staying silent.
+      // A top-up clears the low-stock notification and shopping list latches, so
+      // a future drop back below the threshold triggers a fresh email instead of staying silent.
       if (data.remainingPercentage !== undefined) {
         const newPercentage = Number(data.remainingPercentage);
         if (newPercentage > Number(existingFilament.remainingPercentage)) {
           updateData.lowStockNotifiedAt = null;
+          updateData.lowStockListedAt = null;
         }
+        const [owner] = await db.select({ autoArchiveEmpty: users.autoArchiveEmpty })
+          .from(users).where(eq(users.id, req.userId));
+        Object.assign(updateData, archiveChangeAfterUsage(
+          Number(existingFilament.remainingPercentage), newPercentage, !!owner?.autoArchiveEmpty,
+        ));
       }
 
       const updatedFilament = await storage.updateFilament(id, updateData, req.userId);
@@ -394,7 +723,7 @@ export function registerFilamentRoutes(app: Express): void {
           // totalWeight is stored in kg; the usage log records grams.
           const totalWeightGrams = Number(updatedFilament.totalWeight) * 1000;
           const deltaWeight = ((newPercentage - oldPercentage) / 100) * totalWeightGrams;
-          await storage.createFilamentUsageLog({
+          const log = await storage.createFilamentUsageLog({
             filamentId: id,
             userId: req.userId,
             deltaWeight: deltaWeight.toFixed(3),
@@ -402,6 +731,7 @@ export function registerFilamentRoutes(app: Express): void {
             note: typeof data.note === "string" && data.note.trim() ? data.note.trim() : undefined,
             source: "manual",
           });
+          await emitUsageEvents(req.userId, { logs: [log], filaments: [updatedFilament] });
         }
       }
 
@@ -425,11 +755,13 @@ export function registerFilamentRoutes(app: Express): void {
         return res.status(400).json({ message: "Invalid filament ID" });
       }
 
+      const filament = await storage.getFilament(id, req.userId);
       const success = await storage.deleteFilament(id, req.userId);
-      if (!success) {
+      if (!filament || !success) {
         return res.status(404).json({ message: "Filament not found" });
       }
 
+      await emitWebhookEvent(req.userId, "filament.deleted", { filament });
       res.status(204).end();
     } catch (error) {
       appLogger.error("Error deleting filament:", error);
@@ -15,6 +15,17 @@ import { registerCustomFieldRoutes } from "./custom-fields";
 import { registerCommunityFilamentRoutes } from "./community-filaments";
 import { registerIntegrationRoutes } from "./integrations";
 import { registerSpoolmanCompatRoutes } from "./spoolman-compat";
+import { registerPrintJobRoutes } from "./print-jobs";
+import { registerPrinterRoutes } from "./printers";
+import { registerWebhookRoutes } from "./webhooks";
+import { registerNotificationChannelRoutes } from "./notification-channels";
+import { registerNotificationRoutes } from "./notifications";
+import { registerShoppingListRoutes } from "./shopping-list";
+import { registerFilamentTypeRoutes } from "./filament-types";
+import { registerPurchaseOrderRoutes } from "./purchase-orders";
+import { registerExchangeRateRoutes } from "./exchange-rates";
+import { registerPrintCostRoutes } from "./print-cost";
+import { registerLabelRoutes } from "./labels";
 // All routes have been extracted - routes.ts is now empty or contains only legacy code
 // Keeping registerRemainingRoutes import for backward compatibility
 import { registerRemainingRoutes } from "../routes";
@@ -46,6 +57,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   registerCommunityFilamentRoutes(app);
   registerIntegrationRoutes(app);
   registerSpoolmanCompatRoutes(app);
+  registerPrintJobRoutes(app);
+  registerPrinterRoutes(app);
+  registerWebhookRoutes(app);
+  registerNotificationChannelRoutes(app);
+  registerNotificationRoutes(app);
+  registerShoppingListRoutes(app);
+  registerFilamentTypeRoutes(app);
+  registerPurchaseOrderRoutes(app);
+  registerExchangeRateRoutes(app);
+  registerPrintCostRoutes(app);
+  registerLabelRoutes(app);
 
   // Register any remaining routes from routes.ts (should be empty now)
   registerRemainingRoutes(app);
@@ -1,11 +1,13 @@
 import type { Express } from "express";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { storage } from "../storage";
+import { storage, type FilamentUsageChange } from "../storage";
 import { authenticate, requireApiToken, generateApiToken } from "../auth";
-import { insertApiTokenSchema, printerUsageEventSchema } from "@shared/schema";
+import { insertApiTokenSchema, printerUsageEventSchema, type PrinterWithSpools } from "@shared/schema";
 import { logger as appLogger } from "../utils/logger";
 import { validateId } from "../utils/validation";
+import { filamentDiameterMm, lengthToGrams, loadMaterialDensities } from "../utils/filament-usage";
+import { emitUsageEvents } from "../utils/webhooks";
 
 /**
  * Phase A of the printer integration (see IMPLEMENTATION_PLAN.md #5): a
@@ -65,39 +67,101 @@ export function registerIntegrationRoutes(app: Express): void {
     try {
       const event = printerUsageEventSchema.parse(req.body);
 
-      const filament = await storage.getFilament(event.filamentId, req.userId);
-      if (!filament) {
-        return res.status(404).json({ message: "Filament not found" });
-      }
+      const requested = event.entries ??
+        [{ filamentId: event.filamentId, tool: event.tool, deltaWeight: event.deltaWeight, deltaLength: event.deltaLength }];
+
+      // Single-spool events keep returning just the updated filament
+      const respond = (filaments: unknown[]) => res.json(event.entries ? filaments : filaments[0]);
+
+      // A retried event (same externalJobId + sequence) gets the original
+      // result back instead of being deducted again
+      const replay = async () => {
+        const recorded = await storage.getPrinterUsageEvent(req.userId, event.externalJobId!, event.sequence);
+        if (!recorded) return false;
+        res.setHeader("Idempotent-Replayed", "true");
+        respond(recorded.result as unknown[]);
+        return true;
+      };
+      if (event.externalJobId && await replay()) return;
+
+      // Check every spool before touching any of them, converting
+      // length-based entries to grams on the way
+      const densityByMaterial = requested.some((entry) => entry.deltaLength !== undefined)
+        ? await loadMaterialDensities()
+        : new Map<string, number>();
+      // Entries without a filamentId fall back to the spool loaded in the
+      // reported tool of the printer this token is bound to
+      let boundPrinter: PrinterWithSpools | undefined;
+      const entries: FilamentUsageChange[] = [];
+      for (const entry of requested) {
+        let filamentId = entry.filamentId;
+        if (filamentId === undefined) {
+          boundPrinter ??= await storage.getPrinterByApiToken(req.apiTokenId!, req.userId);
+          if (!boundPrinter) {
+            return res.status(400).json({ message: "filamentId is required unless the API token is bound to a printer" });
+          }
+          const toolIndex = entry.tool ?? 0;
+          const loaded = boundPrinter.loadedSpools.find((spool) => spool.toolIndex === toolIndex);
+          if (!loaded) {
+            return res.status(400).json({ message: `No spool loaded in tool ${toolIndex} of printer ${boundPrinter.name}` });
+          }
+          filamentId = loaded.filamentId;
+        }
 
-      // totalWeight is stored in kg; deltaWeight (from the print server) is in grams.
-      const totalWeightGrams = Number(filament.totalWeight) * 1000;
-      const oldPercentage = Number(filament.remainingPercentage);
-      const deltaPercentage = totalWeightGrams > 0 ? (event.deltaWeight / totalWeightGrams) * 100 : 0;
-      const newPercentage = Math.min(100, Math.max(0, oldPercentage + deltaPercentage));
-
-      const updatedFilament = await storage.updateFilament(
-        event.filamentId,
-        {
-          remainingPercentage: newPercentage.toString(),
-          ...(newPercentage > oldPercentage ? { lowStockNotifiedAt: null } : {}),
-        },
-        req.userId
-      );
-      if (!updatedFilament) {
-        return res.status(404).json({ message: "Filament not found" });
+        const filament = await storage.getFilament(filamentId, req.userId);
+        if (!filament) {
+          return res.status(404).json({ message: `Filament ${filamentId} not found` });
+        }
+
+        if (entry.deltaWeight !== undefined) {
+          entries.push({ filamentId, deltaWeight: entry.deltaWeight });
+          continue;
+        }
+
+        const density = densityByMaterial.get(filament.material);
+        if (!density) {
+          return res.status(400).json({
+            message: `Material ${filament.material} has no density set, so deltaLength can't be converted to grams`,
+          });
+        }
+        entries.push({
+          filamentId,
+          deltaWeight: lengthToGrams(entry.deltaLength!, filamentDiameterMm(filament), density),
+        });
       }
 
-      await storage.createFilamentUsageLog({
-        filamentId: event.filamentId,
-        userId: req.userId,
-        deltaWeight: event.deltaWeight.toString(),
-        remainingPercentageAfter: updatedFilament.remainingPercentage,
+      // Events sharing an externalJobId are grouped under one print job,
+      // created on first sight and ended by the event carrying jobStatus -
+      // both in the same transaction as the usage.
+      const applied = await storage.applyFilamentUsage(req.userId, entries, {
         note: event.externalJobId ? `Print job ${event.externalJobId}` : undefined,
         source: "printer",
+        externalEvent: event.externalJobId
+          ? { externalJobId: event.externalJobId, sequence: event.sequence }
+          : undefined,
+        externalPrintJob: event.externalJobId
+          ? {
+            job: {
+              name: event.jobName ?? event.externalJobId,
+              printerName: event.printerName ?? boundPrinter?.name,
+              gcodeFileName: event.gcodeFileName,
+              status: "printing",
+              startedAt: new Date(),
+              externalJobId: event.externalJobId,
+            },
+            finalStatus: event.jobStatus,
+          }
+          : undefined,
       });
 
-      res.json(updatedFilament);
+      // Lost the race against a concurrent duplicate of this event
+      if (!applied) {
+        if (await replay()) return;
+        return res.status(409).json({ message: "Duplicate printer usage event" });
+      }
+
+      await emitUsageEvents(req.userId, applied);
+      respond(applied.filaments);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -0,0 +1,211 @@
+import type { Express, Request } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import {
+  labelPdfQuerySchema,
+  labelTemplates,
+  insertLabelPrinterSchema,
+  updateLabelPrinterSchema,
+  printLabelsSchema,
+  type LabelField,
+} from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import { labelContent, renderLabelPdf, type LabelContent } from "../utils/label-pdf";
+import { renderLabelJob, sendToLabelPrinter, testLabel } from "../utils/label-printers";
+
+// Label QR codes point back at this server, as seen by the browser
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+// The labels for the given spools, in order and `copies` times each;
+// null when one of them isn't the user's
+async function buildLabels(
+  req: Request,
+  ids: number[],
+  options: { fields: LabelField[]; customFields: number[]; copies: number },
+): Promise<LabelContent[] | null> {
+  const [user, userFilaments, definitions] = await Promise.all([
+    storage.getUser(req.userId),
+    storage.getFilaments(req.userId),
+    storage.getCustomFieldDefinitions(req.userId),
+  ]);
+
+  const byId = new Map(userFilaments.map((filament) => [filament.id, filament]));
+  const filaments = ids.map((id) => byId.get(id));
+  if (filaments.some((filament) => !filament)) return null;
+
+  const contentOptions = {
+    baseUrl: baseUrl(req),
+    fields: options.fields,
+    customFields: options.customFields
+      .map((id) => definitions.find((definition) => definition.id === id))
+      .filter((definition) => definition !== undefined),
+    temperatureUnit: user?.temperatureUnit ?? null,
+  };
+  return filaments.flatMap((filament) => Array(options.copies).fill(labelContent(filament!, contentOptions)));
+}
+
+export function registerLabelRoutes(app: Express): void {
+  // Print-ready PDF of spool labels in one of the shared labelTemplates.
+  // A GET, so the browser can open it in a new tab and print from there.
+  app.get("/api/labels/pdf", authenticate, async (req, res) => {
+    try {
+      const query = labelPdfQuerySchema.parse(req.query);
+      const labels = await buildLabels(req, query.ids, query);
+      if (!labels) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+
+      const pdf = await renderLabelPdf(labels, labelTemplates[query.template], { qr: query.qr, skip: query.skip });
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="labels-${query.template}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error generating label PDF:", error);
+      res.status(500).json({ message: "Failed to generate labels" });
+    }
+  });
+
+  // Renders the labels in the label printer's language and sends them to it
+  // directly, without going through the browser's print dialog
+  app.post("/api/labels/print", authenticate, async (req, res) => {
+    try {
+      const data = printLabelsSchema.parse(req.body);
+      const printer = await storage.getLabelPrinter(data.printerId, req.userId);
+      if (!printer) {
+        return res.status(404).json({ message: "Label printer not found" });
+      }
+
+      const labels = await buildLabels(req, data.filamentIds, data);
+      if (!labels) {
+        return res.status(404).json({ message: "Filament not found" });
+      }
+
+      try {
+        await sendToLabelPrinter(printer, renderLabelJob(printer, labels, data.qr));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return res.status(502).json({ message: `Printing failed: ${reason}` });
+      }
+
+      res.json({ printed: labels.length });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error printing labels:", error);
+      res.status(500).json({ message: "Failed to print labels" });
+    }
+  });
+
+  // Per-user label printers: ZPL, Brother QL or ESC/POS, reached over a raw
+  // TCP port or through a CUPS queue
+  app.get("/api/label-printers", authenticate, async (req, res) => {
+    try {
+      res.json(await storage.getLabelPrinters(req.userId));
+    } catch (error) {
+      appLogger.error("Error fetching label printers:", error);
+      res.status(500).json({ message: "Failed to fetch label printers" });
+    }
+  });
+
+  app.post("/api/label-printers", authenticate, async (req, res) => {
+    try {
+      const data = insertLabelPrinterSchema.parse(req.body);
+      const created = await storage.createLabelPrinter(req.userId, data);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error creating label printer:", error);
+      res.status(500).json({ message: "Failed to create label printer" });
+    }
+  });
+
+  app.patch("/api/label-printers/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid label printer ID" });
+      }
+
+      const existing = await storage.getLabelPrinter(id, req.userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Label printer not found" });
+      }
+
+      // Validated as a whole, since e.g. switching to CUPS needs a queue
+      const changes = updateLabelPrinterSchema.parse(req.body);
+      const data = insertLabelPrinterSchema.parse({ ...existing, ...changes });
+
+      const updated = await storage.updateLabelPrinter(id, data, req.userId);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating label printer:", error);
+      res.status(500).json({ message: "Failed to update label printer" });
+    }
+  });
+
+  app.delete("/api/label-printers/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid label printer ID" });
+      }
+
+      const success = await storage.deleteLabelPrinter(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Label printer not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting label printer:", error);
+      res.status(500).json({ message: "Failed to delete label printer" });
+    }
+  });
+
+  // Prints a single label with the printer's name, so a wrong address,
+  // language or label size shows up before real labels are wasted
+  app.post("/api/label-printers/:id/test", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid label printer ID" });
+      }
+
+      const printer = await storage.getLabelPrinter(id, req.userId);
+      if (!printer) {
+        return res.status(404).json({ message: "Label printer not found" });
+      }
+
+      try {
+        await sendToLabelPrinter(printer, renderLabelJob(printer, [testLabel(printer, baseUrl(req))], true));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return res.status(502).json({ message: `Test label failed: ${reason}` });
+      }
+
+      res.json({ message: "Test label sent" });
+    } catch (error) {
+      appLogger.error("Error printing test label:", error);
+      res.status(500).json({ message: "Failed to print test label" });
+    }
+  });
+}
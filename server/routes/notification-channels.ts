@@ -0,0 +1,125 @@
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import {
+  users,
+  insertNotificationChannelSchema,
+  updateNotificationChannelSchema,
+  notificationChannelConfigSchemas,
+  type NotificationChannelType,
+} from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import { sendToChannel, testNotification } from "../utils/notification-channels";
+
+/**
+ * Per-user notification channels (ntfy, Gotify, generic/chat webhooks) that
+ * the scheduled low-stock and drying checks deliver to, alongside email. The
+ * email channel itself is toggled via /api/users/notification-preferences.
+ */
+export function registerNotificationChannelRoutes(app: Express): void {
+  app.get("/api/notification-channels", authenticate, async (req, res) => {
+    try {
+      res.json(await storage.getNotificationChannels(req.userId));
+    } catch (error) {
+      appLogger.error("Error fetching notification channels:", error);
+      res.status(500).json({ message: "Failed to fetch notification channels" });
+    }
+  });
+
+  app.post("/api/notification-channels", authenticate, async (req, res) => {
+    try {
+      const data = insertNotificationChannelSchema.parse(req.body);
+      const created = await storage.createNotificationChannel(req.userId, data);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error creating notification channel:", error);
+      res.status(500).json({ message: "Failed to create notification channel" });
+    }
+  });
+
+  app.patch("/api/notification-channels/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid notification channel ID" });
+      }
+
+      const existing = await storage.getNotificationChannel(id, req.userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+
+      const data = updateNotificationChannelSchema.parse(req.body);
+      if (data.config !== undefined) {
+        data.config = notificationChannelConfigSchemas[existing.type as NotificationChannelType].parse(data.config);
+      }
+
+      const updated = await storage.updateNotificationChannel(id, data, req.userId);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating notification channel:", error);
+      res.status(500).json({ message: "Failed to update notification channel" });
+    }
+  });
+
+  app.delete("/api/notification-channels/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid notification channel ID" });
+      }
+
+      const success = await storage.deleteNotificationChannel(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting notification channel:", error);
+      res.status(500).json({ message: "Failed to delete notification channel" });
+    }
+  });
+
+  // Sends a test notification right away, so a misconfigured target shows up
+  // as an error here rather than as a silently missed reminder
+  app.post("/api/notification-channels/:id/test", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid notification channel ID" });
+      }
+
+      const channel = await storage.getNotificationChannel(id, req.userId);
+      if (!channel) {
+        return res.status(404).json({ message: "Notification channel not found" });
+      }
+
+      const [user] = await db.select({ language: users.language }).from(users).where(eq(users.id, req.userId));
+      try {
+        await sendToChannel(channel, testNotification(user?.language === "de" ? "de" : "en"));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return res.status(502).json({ message: `Test notification failed: ${reason}` });
+      }
+
+      res.json({ message: "Test notification sent" });
+    } catch (error) {
+      appLogger.error("Error sending test notification:", error);
+      res.status(500).json({ message: "Failed to send test notification" });
+    }
+  });
+}
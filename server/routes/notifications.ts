@@ -0,0 +1,83 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+
+const DEFAULT_NOTIFICATION_LIMIT = 50;
+const MAX_NOTIFICATION_LIMIT = 200;
+
+/**
+ * In-app notification center. Notifications are created by the scheduled
+ * checks and catalog-request reviews; users can only read and dismiss them.
+ */
+export function registerNotificationRoutes(app: Express): void {
+  // Most recent first, with the unread count for the header bell
+  app.get("/api/notifications", authenticate, async (req, res) => {
+    try {
+      const requested = Number(req.query.limit);
+      const limit = Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_NOTIFICATION_LIMIT)
+        : DEFAULT_NOTIFICATION_LIMIT;
+
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(req.userId, limit),
+        storage.getUnreadNotificationCount(req.userId),
+      ]);
+      res.json({ unreadCount, notifications });
+    } catch (error) {
+      appLogger.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  // Registered before /:id/read so "read-all" isn't taken for an ID
+  app.post("/api/notifications/read-all", authenticate, async (req, res) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.userId);
+      res.json({ updated });
+    } catch (error) {
+      appLogger.error("Error marking notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid notification ID" });
+      }
+
+      const notification = await storage.markNotificationRead(id, req.userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      appLogger.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  // Dismiss
+  app.delete("/api/notifications/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid notification ID" });
+      }
+
+      const success = await storage.deleteNotification(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error dismissing notification:", error);
+      res.status(500).json({ message: "Failed to dismiss notification" });
+    }
+  });
+}
@@ -0,0 +1,177 @@
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import {
+  users,
+  calculatePrintCostSchema,
+  updatePrintCostDefaultsSchema,
+  type Printer,
+} from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { loadCurrencyConverter, loadUserCurrencyConverter, type CurrencyConverter } from "../utils/currency";
+import { userCostPerKgResolver } from "../utils/purchase-prices";
+import { printCostBreakdown, type PrintCostMaterial } from "../utils/print-cost";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function loadDefaults(userId: number) {
+  const [user] = await db.select({
+    electricityRate: users.electricityRate,
+    machineCostPerHour: users.machineCostPerHour,
+    printCostCurrency: users.printCostCurrency,
+  }).from(users).where(eq(users.id, userId));
+  return user;
+}
+
+type PrintCostDefaults = Awaited<ReturnType<typeof loadDefaults>>;
+
+// A stored default converted into the converter's currency
+const defaultIn = (value: string | null | undefined, defaults: PrintCostDefaults, converter: CurrencyConverter) =>
+  value != null ? converter.convert(Number(value), defaults?.printCostCurrency) : null;
+
+/**
+ * The print cost calculator: what a print cost in filament, electricity and
+ * machine time, for a recorded print or as a quote. The electricity rate and
+ * machine cost per hour can be saved as per-user defaults.
+ */
+export function registerPrintCostRoutes(app: Express): void {
+  // Defaults in the user's currency
+  app.get("/api/print-cost/defaults", authenticate, async (req, res) => {
+    try {
+      const [defaults, converter] = await Promise.all([loadDefaults(req.userId), loadUserCurrencyConverter(req.userId)]);
+      res.json({
+        currency: converter.currency,
+        electricityRate: defaultIn(defaults?.electricityRate, defaults, converter),
+        machineCostPerHour: defaultIn(defaults?.machineCostPerHour, defaults, converter),
+      });
+    } catch (error) {
+      appLogger.error("Error fetching print cost defaults:", error);
+      res.status(500).json({ message: "Failed to fetch print cost defaults" });
+    }
+  });
+
+  app.put("/api/print-cost/defaults", authenticate, async (req, res) => {
+    try {
+      const data = updatePrintCostDefaultsSchema.parse(req.body);
+      const defaults = await loadDefaults(req.userId);
+      const converter = data.currency
+        ? await loadCurrencyConverter(data.currency)
+        : await loadUserCurrencyConverter(req.userId);
+
+      // Both amounts share one currency, so a default that isn't given is
+      // converted into the currency of the one that is
+      const electricityRate = data.electricityRate !== undefined
+        ? data.electricityRate
+        : defaultIn(defaults?.electricityRate, defaults, converter);
+      const machineCostPerHour = data.machineCostPerHour !== undefined
+        ? data.machineCostPerHour
+        : defaultIn(defaults?.machineCostPerHour, defaults, converter);
+
+      await db.update(users).set({
+        electricityRate: electricityRate !== null ? String(electricityRate) : null,
+        machineCostPerHour: machineCostPerHour !== null ? String(machineCostPerHour) : null,
+        printCostCurrency: converter.currency,
+      }).where(eq(users.id, req.userId));
+
+      res.json({ currency: converter.currency, electricityRate, machineCostPerHour });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating print cost defaults:", error);
+      res.status(500).json({ message: "Failed to update print cost defaults" });
+    }
+  });
+
+  // Cost breakdown in the user's currency. A print job brings its usage, its
+  // duration as the print time and the printer it ran on (by name).
+  app.post("/api/print-cost", authenticate, async (req, res) => {
+    try {
+      const data = calculatePrintCostSchema.parse(req.body);
+      const [userFilaments, purchaseOrders, converter, defaults] = await Promise.all([
+        storage.getFilaments(req.userId),
+        storage.getPurchaseOrders(req.userId),
+        loadUserCurrencyConverter(req.userId),
+        loadDefaults(req.userId),
+      ]);
+      const filamentsById = new Map(userFilaments.map((f) => [f.id, f]));
+
+      const materials: PrintCostMaterial[] = [];
+      let printHours = data.printHours ?? null;
+      let printer: Printer | undefined;
+
+      if (data.printJobId !== undefined) {
+        const job = await storage.getPrintJob(data.printJobId, req.userId);
+        if (!job) {
+          return res.status(404).json({ message: "Print job not found" });
+        }
+        for (const log of await storage.getPrintJobUsageLogs(req.userId, job.id)) {
+          const filament = filamentsById.get(log.filamentId);
+          const grams = -Number(log.deltaWeight);
+          if (filament && grams > 0) materials.push({ filament, material: filament.material, grams });
+        }
+        if (printHours === null && job.startedAt && job.endedAt) {
+          printHours = (job.endedAt.getTime() - job.startedAt.getTime()) / HOUR_MS;
+        }
+        if (job.printerName && data.printerId === undefined) {
+          printer = (await storage.getPrinters(req.userId)).find((p) => p.name === job.printerName);
+        }
+      } else if (data.usageLog !== undefined) {
+        const entry = (await storage.getFilamentUsageLog(data.usageLog.filamentId, req.userId))
+          .find((row) => row.id === data.usageLog!.logId);
+        const filament = filamentsById.get(data.usageLog.filamentId);
+        if (!entry || !filament) {
+          return res.status(404).json({ message: "Usage log entry not found" });
+        }
+        // A transfer moves filament between spools without printing it
+        if (Number(entry.deltaWeight) >= 0 || entry.source === "transfer") {
+          return res.status(400).json({ message: "Usage log entry didn't consume any filament" });
+        }
+        materials.push({ filament, material: filament.material, grams: -Number(entry.deltaWeight) });
+      } else if (data.items !== undefined) {
+        for (const item of data.items) {
+          const filament = filamentsById.get(item.filamentId);
+          if (!filament) {
+            return res.status(404).json({ message: `Filament ${item.filamentId} not found` });
+          }
+          materials.push({ filament, material: filament.material, grams: item.grams });
+        }
+      } else {
+        materials.push({ material: data.material ?? "PLA", grams: data.grams! });
+      }
+
+      if (data.printerId !== undefined) {
+        printer = await storage.getPrinter(data.printerId, req.userId);
+        if (!printer) {
+          return res.status(404).json({ message: "Printer not found" });
+        }
+      }
+
+      const breakdown = printCostBreakdown(materials, {
+        printHours,
+        printerWatts: data.printerWatts ?? printer?.powerWatts ?? null,
+        electricityRate: data.electricityRate ?? defaultIn(defaults?.electricityRate, defaults, converter),
+        machineCostPerHour: data.machineCostPerHour ?? defaultIn(defaults?.machineCostPerHour, defaults, converter),
+        markupPercent: data.markupPercent ?? 0,
+      }, userCostPerKgResolver(purchaseOrders, userFilaments, converter));
+
+      res.json({
+        currency: converter.currency,
+        ...breakdown,
+        missingExchangeRates: Array.from(converter.missing),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error calculating print cost:", error);
+      res.status(500).json({ message: "Failed to calculate print cost" });
+    }
+  });
+}
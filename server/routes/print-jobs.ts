@@ -0,0 +1,304 @@
+import express, { type Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage, type FilamentUsageChange } from "../storage";
+import { authenticate } from "../auth";
+import {
+  applyGcodeUsageSchema,
+  insertPrintJobSchema,
+  updatePrintJobSchema,
+  type Filament,
+  type FilamentUsageLog,
+  type PrintJob,
+} from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import {
+  filamentDiameterMm,
+  lengthToGrams,
+  loadMaterialDensities,
+  usageCost,
+} from "../utils/filament-usage";
+import { parseSlicerUsage } from "../utils/gcode-usage";
+import { emitUsageEvents } from "../utils/webhooks";
+import { loadUserCurrencyConverter, type CurrencyConverter } from "../utils/currency";
+
+// Sliced files are uploaded as the raw request body. Large prints run to
+// tens of MB of gcode; 3mf archives are compressed, and readZipEntries caps
+// what they may unpack to.
+const gcodeUpload = express.raw({ type: () => true, limit: "100mb" });
+
+// A print job plus the per-spool usage rows linked to it, with grams shown
+// as positive consumption and a cost pro-rated from each spool's purchase price,
+// in the user's currency.
+function summarizePrintJob(
+  job: PrintJob,
+  logs: FilamentUsageLog[],
+  filamentsById: Map<number, Filament>,
+  converter: CurrencyConverter,
+) {
+  const usage = logs
+    .filter((log) => log.printJobId === job.id)
+    .map((log) => {
+      const filament = filamentsById.get(log.filamentId);
+      const grams = -Number(log.deltaWeight);
+      return {
+        logId: log.id,
+        filamentId: log.filamentId,
+        filamentName: filament?.name ?? null,
+        colorCode: filament?.colorCode ?? null,
+        grams,
+        cost: filament ? usageCost(filament, grams, converter) : null,
+        createdAt: log.createdAt,
+      };
+    });
+
+  const totalGrams = usage.reduce((sum, entry) => sum + entry.grams, 0);
+  const pricedEntries = usage.filter((entry) => entry.cost !== null);
+  const totalCost = pricedEntries.length > 0
+    ? pricedEntries.reduce((sum, entry) => sum + (entry.cost ?? 0), 0)
+    : null;
+
+  return { ...job, usage, totalGrams, totalCost, currency: converter.currency };
+}
+
+async function loadFilamentsById(userId: number): Promise<Map<number, Filament>> {
+  const filaments = await storage.getFilaments(userId);
+  return new Map(filaments.map((f) => [f.id, f]));
+}
+
+/**
+ * Print jobs group filament_usage_log rows into prints, answering "which
+ * prints ate this spool" and "what did that print cost". Jobs reported by a
+ * print server are created from POST /api/integrations/usage (keyed on
+ * externalJobId); the routes here cover manual entry and the history view.
+ */
+export function registerPrintJobRoutes(app: Express): void {
+  // List jobs, newest first; ?filamentId= limits to jobs that used that spool.
+  app.get("/api/print-jobs", authenticate, async (req, res) => {
+    try {
+      let filamentId: number | undefined;
+      if (req.query.filamentId !== undefined) {
+        const parsed = validateId(req.query.filamentId);
+        if (parsed === null) {
+          return res.status(400).json({ message: "Invalid filament ID" });
+        }
+        filamentId = parsed;
+      }
+
+      const [jobs, logs, filamentsById, converter] = await Promise.all([
+        storage.getPrintJobs(req.userId),
+        storage.getPrintJobUsageLogs(req.userId),
+        loadFilamentsById(req.userId),
+        loadUserCurrencyConverter(req.userId),
+      ]);
+
+      const summaries = jobs
+        .map((job) => summarizePrintJob(job, logs, filamentsById, converter))
+        .filter((job) => filamentId === undefined || job.usage.some((u) => u.filamentId === filamentId));
+
+      res.json(summaries);
+    } catch (error) {
+      appLogger.error("Error fetching print jobs:", error);
+      res.status(500).json({ message: "Failed to fetch print jobs" });
+    }
+  });
+
+  app.get("/api/print-jobs/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid print job ID" });
+      }
+
+      const job = await storage.getPrintJob(id, req.userId);
+      if (!job) {
+        return res.status(404).json({ message: "Print job not found" });
+      }
+
+      const [logs, filamentsById, converter] = await Promise.all([
+        storage.getPrintJobUsageLogs(req.userId, id),
+        loadFilamentsById(req.userId),
+        loadUserCurrencyConverter(req.userId),
+      ]);
+
+      res.json(summarizePrintJob(job, logs, filamentsById, converter));
+    } catch (error) {
+      appLogger.error("Error fetching print job:", error);
+      res.status(500).json({ message: "Failed to fetch print job" });
+    }
+  });
+
+  // Create a job; any `usage` entries are deducted from their spools and
+  // logged against the new job.
+  app.post("/api/print-jobs", authenticate, async (req, res) => {
+    try {
+      const { usage = [], ...jobFields } = insertPrintJobSchema.parse(req.body);
+
+      const filamentsById = await loadFilamentsById(req.userId);
+      const missing = usage.find((entry) => !filamentsById.has(entry.filamentId));
+      if (missing) {
+        return res.status(404).json({ message: `Filament ${missing.filamentId} not found` });
+      }
+
+      const { job, applied } = await storage.createPrintJobWithUsage(
+        req.userId,
+        jobFields,
+        usage.map((entry) => ({ filamentId: entry.filamentId, deltaWeight: -entry.grams })),
+        { source: "manual" }
+      );
+      if (applied) {
+        await emitUsageEvents(req.userId, applied);
+      }
+      const logs = applied?.logs ?? [];
+
+      res.status(201).json(summarizePrintJob(job, logs, filamentsById, await loadUserCurrencyConverter(req.userId)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error creating print job:", error);
+      res.status(500).json({ message: "Failed to create print job" });
+    }
+  });
+
+  // Step 1 of a gcode/3mf upload: parse the slicer's usage summary without
+  // deducting anything, so the user can check it and pick a spool per extruder.
+  app.post("/api/print-jobs/gcode/preview", authenticate, gcodeUpload, async (req, res) => {
+    try {
+      const fileName = typeof req.query.fileName === "string" ? req.query.fileName : "";
+      if (!fileName) {
+        return res.status(400).json({ message: "fileName query parameter is required" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      let estimate;
+      try {
+        estimate = parseSlicerUsage(req.body, fileName);
+      } catch (parseError) {
+        return res.status(400).json({ message: `Could not read ${fileName}: ${(parseError as Error).message}` });
+      }
+      if (estimate.extruders.length === 0) {
+        return res.status(400).json({ message: `No slicer filament usage found in ${fileName} - is it sliced?` });
+      }
+
+      res.json({ fileName, ...estimate });
+    } catch (error) {
+      appLogger.error("Error previewing gcode usage:", error);
+      res.status(500).json({ message: "Failed to preview gcode usage" });
+    }
+  });
+
+  // Step 2: record the confirmed usage as a completed print job.
+  app.post("/api/print-jobs/gcode", authenticate, async (req, res) => {
+    try {
+      const { fileName, name, printerName, entries } = applyGcodeUsageSchema.parse(req.body);
+
+      const filamentsById = await loadFilamentsById(req.userId);
+      const densityByMaterial = entries.some((entry) => entry.lengthMm !== undefined)
+        ? await loadMaterialDensities()
+        : new Map<string, number>();
+
+      const changes: FilamentUsageChange[] = [];
+      for (const entry of entries) {
+        const filament = filamentsById.get(entry.filamentId);
+        if (!filament) {
+          return res.status(404).json({ message: `Filament ${entry.filamentId} not found` });
+        }
+        if (entry.grams !== undefined) {
+          changes.push({ filamentId: entry.filamentId, deltaWeight: -entry.grams });
+          continue;
+        }
+        const density = densityByMaterial.get(filament.material);
+        if (!density) {
+          return res.status(400).json({
+            message: `Material ${filament.material} has no density set, so lengthMm can't be converted to grams`,
+          });
+        }
+        changes.push({
+          filamentId: entry.filamentId,
+          deltaWeight: -lengthToGrams(entry.lengthMm!, filamentDiameterMm(filament), density),
+        });
+      }
+
+      const { job, applied } = await storage.createPrintJobWithUsage(
+        req.userId,
+        {
+          name: name ?? fileName,
+          printerName,
+          gcodeFileName: fileName,
+          status: "completed",
+          endedAt: new Date(),
+        },
+        changes,
+        { note: `G-code ${fileName}`, source: "gcode" }
+      );
+      if (applied) {
+        await emitUsageEvents(req.userId, applied);
+      }
+
+      res.status(201).json(summarizePrintJob(job, applied?.logs ?? [], filamentsById, await loadUserCurrencyConverter(req.userId)));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error applying gcode usage:", error);
+      res.status(500).json({ message: "Failed to apply gcode usage" });
+    }
+  });
+
+  app.patch("/api/print-jobs/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid print job ID" });
+      }
+
+      const updates = updatePrintJobSchema.parse(req.body);
+      const job = await storage.updatePrintJob(id, updates, req.userId);
+      if (!job) {
+        return res.status(404).json({ message: "Print job not found" });
+      }
+
+      const [logs, filamentsById, converter] = await Promise.all([
+        storage.getPrintJobUsageLogs(req.userId, id),
+        loadFilamentsById(req.userId),
+        loadUserCurrencyConverter(req.userId),
+      ]);
+
+      res.json(summarizePrintJob(job, logs, filamentsById, converter));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating print job:", error);
+      res.status(500).json({ message: "Failed to update print job" });
+    }
+  });
+
+  // Deleting a job keeps its usage log rows (and the spool deductions) - they
+  // just stop being attributed to a job.
+  app.delete("/api/print-jobs/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid print job ID" });
+      }
+
+      const success = await storage.deletePrintJob(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Print job not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting print job:", error);
+      res.status(500).json({ message: "Failed to delete print job" });
+    }
+  });
+}
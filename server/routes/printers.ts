@@ -0,0 +1,173 @@
+import type { Express, Request, Response } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import { insertPrinterSchema, updatePrinterSchema, loadSpoolSchema } from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+
+// Checks a requested API token binding: the token must belong to the user
+// and not already drive another printer. Sends the error response and
+// returns false when it doesn't.
+async function checkApiTokenBinding(
+  req: Request,
+  res: Response,
+  apiTokenId: number | null | undefined,
+  printerId?: number
+): Promise<boolean> {
+  if (apiTokenId === null || apiTokenId === undefined) return true;
+
+  const tokens = await storage.getApiTokens(req.userId);
+  if (!tokens.some((token) => token.id === apiTokenId)) {
+    res.status(404).json({ message: "API token not found" });
+    return false;
+  }
+
+  const bound = await storage.getPrinterByApiToken(apiTokenId, req.userId);
+  if (bound && bound.id !== printerId) {
+    res.status(409).json({ message: `API token is already bound to printer ${bound.name}` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Printers and the spool loaded in each of their tools. A printer bound to
+ * an API token lets that token's POST /api/integrations/usage events omit
+ * filamentId - the spool loaded in the reported tool is used instead, the
+ * way Moonraker's "active spool" works.
+ */
+export function registerPrinterRoutes(app: Express): void {
+  app.get("/api/printers", authenticate, async (req, res) => {
+    try {
+      const printers = await storage.getPrinters(req.userId);
+      res.json(printers);
+    } catch (error) {
+      appLogger.error("Error fetching printers:", error);
+      res.status(500).json({ message: "Failed to fetch printers" });
+    }
+  });
+
+  app.post("/api/printers", authenticate, async (req, res) => {
+    try {
+      const data = insertPrinterSchema.parse(req.body);
+      if (!await checkApiTokenBinding(req, res, data.apiTokenId)) return;
+
+      const printer = await storage.createPrinter(req.userId, data);
+      res.status(201).json(printer);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error creating printer:", error);
+      res.status(500).json({ message: "Failed to create printer" });
+    }
+  });
+
+  app.patch("/api/printers/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid printer ID" });
+      }
+
+      const updates = updatePrinterSchema.parse(req.body);
+      if (!await checkApiTokenBinding(req, res, updates.apiTokenId, id)) return;
+
+      const printer = await storage.updatePrinter(id, updates, req.userId);
+      if (!printer) {
+        return res.status(404).json({ message: "Printer not found" });
+      }
+
+      res.json(printer);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating printer:", error);
+      res.status(500).json({ message: "Failed to update printer" });
+    }
+  });
+
+  app.delete("/api/printers/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid printer ID" });
+      }
+
+      const success = await storage.deletePrinter(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Printer not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting printer:", error);
+      res.status(500).json({ message: "Failed to delete printer" });
+    }
+  });
+
+  // Load a spool into a tool, replacing whatever was loaded there. The spool
+  // is taken out of any other tool it was in.
+  app.put("/api/printers/:id/tools/:tool", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid printer ID" });
+      }
+      const toolIndex = Number(req.params.tool);
+
+      const printer = await storage.getPrinter(id, req.userId);
+      if (!printer) {
+        return res.status(404).json({ message: "Printer not found" });
+      }
+      if (!Number.isInteger(toolIndex) || toolIndex < 0 || toolIndex >= printer.toolCount) {
+        return res.status(400).json({ message: "Invalid tool index" });
+      }
+
+      const { filamentId } = loadSpoolSchema.parse(req.body);
+      const filament = await storage.getFilament(filamentId, req.userId);
+      if (!filament) {
+        return res.status(404).json({ message: `Filament ${filamentId} not found` });
+      }
+
+      await storage.loadSpool(id, toolIndex, filamentId);
+      res.json(await storage.getPrinter(id, req.userId));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error loading spool:", error);
+      res.status(500).json({ message: "Failed to load spool" });
+    }
+  });
+
+  app.delete("/api/printers/:id/tools/:tool", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid printer ID" });
+      }
+      const toolIndex = Number(req.params.tool);
+      if (!Number.isInteger(toolIndex) || toolIndex < 0) {
+        return res.status(400).json({ message: "Invalid tool index" });
+      }
+
+      const printer = await storage.getPrinter(id, req.userId);
+      if (!printer) {
+        return res.status(404).json({ message: "Printer not found" });
+      }
+
+      await storage.unloadSpool(id, toolIndex);
+      res.json(await storage.getPrinter(id, req.userId));
+    } catch (error) {
+      appLogger.error("Error unloading spool:", error);
+      res.status(500).json({ message: "Failed to unload spool" });
+    }
+  });
+}
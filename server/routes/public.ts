@@ -38,8 +38,8 @@ export function registerPublicRoutes(app: Express): void {
       // Check if user has global sharing enabled
       const hasGlobalSharing = sharingSettings.some((s) => s.materialId === null);
 
-      // Get all filaments for this user
-      const filaments = await storage.getFilaments(userId);
+      // Get the user's filaments; archived spools aren't part of what's shared
+      const filaments = (await storage.getFilaments(userId)).filter((filament) => !filament.archivedAt);
 
       let publicFilaments = filaments;
       if (!hasGlobalSharing) {
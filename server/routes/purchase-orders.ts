@@ -0,0 +1,162 @@
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import {
+  insertPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  type FilamentType,
+  type PurchaseOrderWithItems,
+} from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import { orderTotals } from "../utils/purchase-prices";
+import { spoolsByType, newSpoolsOfType, emitSpoolsCreated } from "../utils/restock";
+import { userCurrency } from "../utils/currency";
+
+const summarizeOrder = (order: PurchaseOrderWithItems) => ({ ...order, ...orderTotals(order) });
+
+/**
+ * Purchase orders: what was bought where, when and for how much. Their items
+ * make up each filament type's price history
+ * (GET /api/filament-types/:id/price-history).
+ */
+export function registerPurchaseOrderRoutes(app: Express): void {
+  app.get("/api/purchase-orders", authenticate, async (req, res) => {
+    try {
+      const orders = await storage.getPurchaseOrders(req.userId);
+      res.json(orders.map(summarizeOrder));
+    } catch (error) {
+      appLogger.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid purchase order ID" });
+      }
+
+      const order = await storage.getPurchaseOrder(id, req.userId);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      res.json(summarizeOrder(order));
+    } catch (error) {
+      appLogger.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  // With createSpools, the bought spools are added to the inventory too,
+  // copying name, spool type and location from each type's latest spool
+  app.post("/api/purchase-orders", authenticate, async (req, res) => {
+    try {
+      const data = insertPurchaseOrderSchema.parse(req.body);
+
+      const filamentTypes = new Map<number, FilamentType>();
+      for (const item of data.items) {
+        const filamentType = await storage.getFilamentType(item.filamentTypeId, req.userId);
+        if (!filamentType) {
+          return res.status(404).json({ message: `Filament type ${item.filamentTypeId} not found` });
+        }
+        filamentTypes.set(filamentType.id, filamentType);
+      }
+
+      const byType = spoolsByType(await storage.getFilaments(req.userId));
+      const orderDate = data.orderDate ?? new Date().toISOString().split("T")[0];
+
+      const items = data.items.map((item) => ({
+        filamentTypeId: item.filamentTypeId,
+        quantity: item.quantity,
+        pricePerSpool: String(item.pricePerSpool),
+        weightKg: String(item.weightKg ?? byType.get(item.filamentTypeId)?.[0]?.totalWeight ?? 1),
+      }));
+      const currency = data.currency ?? await userCurrency(req.userId);
+      const spools = data.createSpools
+        ? items.flatMap((item) => newSpoolsOfType(
+          req.userId,
+          filamentTypes.get(item.filamentTypeId)!,
+          byType.get(item.filamentTypeId)?.[0],
+          {
+            quantity: item.quantity,
+            purchasePrice: Number(item.pricePerSpool),
+            purchaseCurrency: currency,
+            purchaseDate: orderDate,
+            totalWeight: Number(item.weightKg),
+          },
+        ))
+        : [];
+      // Spools are created in the order's transaction, so a failure leaves
+      // neither behind and a retry doesn't duplicate the order
+      const { order, filaments: created } = await storage.createPurchaseOrder(req.userId, {
+        vendor: data.vendor,
+        orderDate,
+        shippingCost: String(data.shippingCost ?? 0),
+        currency,
+        note: data.note ?? null,
+      }, items, spools);
+      await emitSpoolsCreated(req.userId, created);
+
+      res.status(201).json({ order: summarizeOrder(order), filaments: created });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  app.patch("/api/purchase-orders/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid purchase order ID" });
+      }
+
+      const { shippingCost, ...changes } = updatePurchaseOrderSchema.parse(req.body);
+      const updated = await storage.updatePurchaseOrder(id, {
+        ...changes,
+        ...(shippingCost !== undefined ? { shippingCost: String(shippingCost) } : {}),
+      }, req.userId);
+      if (!updated) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      res.json(summarizeOrder((await storage.getPurchaseOrder(id, req.userId))!));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating purchase order:", error);
+      res.status(500).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  // Spools added from the order stay in the inventory
+  app.delete("/api/purchase-orders/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid purchase order ID" });
+      }
+
+      const success = await storage.deletePurchaseOrder(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting purchase order:", error);
+      res.status(500).json({ message: "Failed to delete purchase order" });
+    }
+  });
+}
@@ -1,11 +1,16 @@
 import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "../storage";
+import { authenticate, isAdmin } from "../auth";
 import {
   insertManufacturerSchema,
   insertMaterialSchema,
   insertColorSchema,
   insertDiameterSchema,
   insertStorageLocationSchema,
+  updateStorageLocationSchema,
+  storageLocationCapacitySchema,
   type Manufacturer,
   type Material,
   type Color,
@@ -15,9 +20,12 @@ import {
 } from "@shared/schema";
 import { parseCSVLine, escapeCsvField } from "../utils/csv-parser";
 import { registerCrudSettingsRoutes, simpleNameParseLine } from "../utils/settings-crud";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import { buildLocationTree, createsLocationCycle, parentsFirst } from "../utils/storage-locations";
 
 export function registerSettingsRoutes(app: Express): void {
-  registerCrudSettingsRoutes<Manufacturer, { name: string }>(app, {
+  registerCrudSettingsRoutes<Manufacturer, { name: string; spoolWeight?: string | null }>(app, {
     entityName: "manufacturer",
     basePath: "/api/manufacturers",
     csvFilename: "manufacturers.csv",
@@ -29,10 +37,17 @@ export function registerSettingsRoutes(app: Express): void {
       updateOrder: (id, newOrder) => storage.updateManufacturerOrder(id, newOrder),
     },
     csv: {
-      exportHeader: "name",
-      exportRow: (item) => `${escapeCsvField(item.name)}\n`,
+      exportHeader: "name,spoolWeight",
+      exportRow: (item) => `${escapeCsvField(item.name)},${escapeCsvField(item.spoolWeight)}\n`,
       isHeaderRow: (line) => /name|hersteller|vendor/i.test(line),
-      parseLine: simpleNameParseLine,
+      parseLine: (line, existing) => {
+        const [, rawSpoolWeight] = parseCSVLine(line);
+        const outcome = simpleNameParseLine(line, existing);
+        if (outcome.kind !== "create") return outcome;
+
+        const spoolWeight = rawSpoolWeight?.trim() ? rawSpoolWeight.trim() : undefined;
+        return { kind: "create", data: { ...outcome.data, spoolWeight } };
+      },
     },
     isInUse: (filament: Filament, item) => filament.manufacturer === item.name,
   });
@@ -147,7 +162,10 @@ export function registerSettingsRoutes(app: Express): void {
     isInUse: (filament: Filament, item) => filament.diameter === String(item.value),
   });
 
-  registerCrudSettingsRoutes<StorageLocation, { name: string }>(app, {
+  registerCrudSettingsRoutes<
+    StorageLocation,
+    { name: string; parentId?: number | null; capacity?: number | null; humidityControlled?: boolean | null }
+  >(app, {
     entityName: "storage location",
     basePath: "/api/storage-locations",
     csvFilename: "storage-locations.csv",
@@ -159,11 +177,91 @@ export function registerSettingsRoutes(app: Express): void {
       updateOrder: (id, newOrder) => storage.updateStorageLocationOrder(id, newOrder),
     },
     csv: {
-      exportHeader: "name",
-      exportRow: (item) => `${escapeCsvField(item.name)}\n`,
+      // The parent is referenced by name, like spools reference locations
+      exportHeader: "name,parent,capacity,humidityControlled",
+      exportRow: (item, items) => {
+        const parent = items.find((l) => l.id === item.parentId);
+        return `${escapeCsvField(item.name)},${escapeCsvField(parent?.name)},` +
+          `${escapeCsvField(item.capacity)},${escapeCsvField(item.humidityControlled)}\n`;
+      },
+      exportOrder: parentsFirst,
       isHeaderRow: (line) => /name/i.test(line),
-      parseLine: simpleNameParseLine,
+      parseLine: (line, existing) => {
+        const [rawName, rawParent, rawCapacity, rawHumidityControlled] = parseCSVLine(line);
+        const name = rawName?.trim();
+        if (!name) return { kind: "skip" };
+        if (existing.some((l) => l.name.toLowerCase() === name.toLowerCase())) {
+          return { kind: "duplicate" };
+        }
+
+        const parentName = rawParent?.trim();
+        const parent = parentName ? existing.find((l) => l.name.toLowerCase() === parentName.toLowerCase()) : undefined;
+        if (parentName && !parent) return { kind: "error" };
+        // Same check as the create body, so e.g. "abc" or "-3" is an import error
+        const capacity = storageLocationCapacitySchema.safeParse(rawCapacity?.trim() ? Number(rawCapacity.trim()) : null);
+        if (!capacity.success) return { kind: "error" };
+        const humidityControlled = /^(true|yes|1)$/i.test(rawHumidityControlled?.trim() ?? "");
+
+        return { kind: "create", data: { name, parentId: parent?.id ?? null, capacity: capacity.data, humidityControlled } };
+      },
     },
+    // Same check as PATCH, so a missing parent is a 400 rather than a failed foreign key
+    validateCreate: (data, existing) =>
+      data.parentId != null && !existing.some((location) => location.id === data.parentId)
+        ? "Parent storage location not found"
+        : null,
     isInUse: (filament: Filament, item) => filament.storageLocation === item.name,
   });
+
+  // The location hierarchy with how many of the user's active spools each
+  // location (and everything below it) holds, and how full it is overall
+  app.get("/api/storage-locations/tree", authenticate, async (req, res) => {
+    try {
+      const [locations, filaments, occupancy] = await Promise.all([
+        storage.getStorageLocations(),
+        storage.getFilaments(req.userId),
+        storage.getStorageLocationOccupancy(),
+      ]);
+      res.json(buildLocationTree(locations, filaments, occupancy));
+    } catch (error) {
+      appLogger.error("Error fetching storage location tree:", error);
+      res.status(500).json({ message: "Failed to fetch storage location tree" });
+    }
+  });
+
+  app.patch("/api/storage-locations/:id", authenticate, isAdmin, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid storage location ID" });
+      }
+
+      const data = updateStorageLocationSchema.parse(req.body);
+      const locations = await storage.getStorageLocations();
+      if (!locations.some((location) => location.id === id)) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      if (data.parentId !== undefined && data.parentId !== null) {
+        if (!locations.some((location) => location.id === data.parentId)) {
+          return res.status(400).json({ message: "Parent storage location not found" });
+        }
+        if (createsLocationCycle(locations, id, data.parentId)) {
+          return res.status(400).json({ message: "A storage location can't be moved below itself" });
+        }
+      }
+
+      const updated = await storage.updateStorageLocation(id, data);
+      if (!updated) {
+        return res.status(404).json({ message: "Storage location not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating storage location:", error);
+      res.status(500).json({ message: "Failed to update storage location" });
+    }
+  });
 }
@@ -0,0 +1,226 @@
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import {
+  users,
+  insertShoppingListItemSchema,
+  updateShoppingListItemSchema,
+  receiveShoppingListItemSchema,
+  type Filament,
+  type ShoppingListEntry,
+} from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import { spoolsByType, lastPricedSpool, newSpoolsOfType, emitSpoolsCreated } from "../utils/restock";
+import { priceHistory, historyInCurrency, type PriceHistoryEntry } from "../utils/purchase-prices";
+import { loadUserCurrencyConverter, userCurrency, type CurrencyConverter } from "../utils/currency";
+
+// Adds what the list shows next to each type: where and for how much it was
+// last bought - from the latest purchase order, else the latest priced spool
+// and its manufacturer - and how many spools of it are still in stock.
+// `lastPurchase` must already be in the converter's currency.
+function summarizeEntry(
+  entry: ShoppingListEntry,
+  spools: Filament[],
+  lastPurchase: PriceHistoryEntry | undefined,
+  converter: CurrencyConverter,
+) {
+  const lastPriced = lastPricedSpool(spools);
+  return {
+    ...entry,
+    vendor: lastPurchase?.vendor ?? entry.manufacturer,
+    lastPurchasePrice: lastPurchase?.pricePerSpool
+      ?? (lastPriced ? converter.convert(Number(lastPriced.purchasePrice), lastPriced.purchaseCurrency) : null),
+    currency: converter.currency,
+    lastPurchaseDate: lastPurchase?.orderDate ?? lastPriced?.purchaseDate ?? null,
+    spoolsInStock: spools.filter((spool) => !spool.archivedAt && Number(spool.remainingPercentage) > 0).length,
+  };
+}
+
+export function registerShoppingListRoutes(app: Express): void {
+  // Open and ordered items; ?includeReceived=true adds the received history
+  app.get("/api/shopping-list", authenticate, async (req, res) => {
+    try {
+      const includeReceived = req.query.includeReceived === "true";
+      const [entries, userFilaments, purchaseOrders, converter] = await Promise.all([
+        storage.getShoppingList(req.userId, includeReceived),
+        storage.getFilaments(req.userId),
+        storage.getPurchaseOrders(req.userId),
+        loadUserCurrencyConverter(req.userId),
+      ]);
+      const byType = spoolsByType(userFilaments);
+      const history = historyInCurrency(priceHistory(purchaseOrders), converter);
+      res.json(entries.map((entry) => summarizeEntry(
+        entry,
+        byType.get(entry.filamentTypeId) ?? [],
+        history.find((purchase) => purchase.filamentTypeId === entry.filamentTypeId),
+        converter,
+      )));
+    } catch (error) {
+      appLogger.error("Error fetching shopping list:", error);
+      res.status(500).json({ message: "Failed to fetch shopping list" });
+    }
+  });
+
+  app.post("/api/shopping-list", authenticate, async (req, res) => {
+    try {
+      const data = insertShoppingListItemSchema.parse(req.body);
+      const filamentType = await storage.getFilamentType(data.filamentTypeId, req.userId);
+      if (!filamentType) {
+        return res.status(404).json({ message: "Filament type not found" });
+      }
+
+      const created = await storage.createShoppingListItem(req.userId, { ...data, source: "manual" });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error adding shopping list item:", error);
+      res.status(500).json({ message: "Failed to add shopping list item" });
+    }
+  });
+
+  // Adds every type with a spool at or below the user's low-stock threshold
+  // that isn't already on the list. The scheduled check does the same for
+  // newly low spools; this catches up on demand.
+  app.post("/api/shopping-list/generate", authenticate, async (req, res) => {
+    try {
+      const [user] = await db.select({ lowStockThresholdPercent: users.lowStockThresholdPercent })
+        .from(users).where(eq(users.id, req.userId));
+      const threshold = user?.lowStockThresholdPercent ?? 15;
+
+      const lowStockTypeIds = (await storage.getFilaments(req.userId))
+        .filter((filament) => !filament.archivedAt && Number(filament.remainingPercentage) <= threshold)
+        .map((filament) => filament.filamentTypeId);
+      const added = await storage.addToShoppingList(req.userId, lowStockTypeIds, "low_stock");
+
+      res.json({ added: added.length, items: added });
+    } catch (error) {
+      appLogger.error("Error generating shopping list:", error);
+      res.status(500).json({ message: "Failed to generate shopping list" });
+    }
+  });
+
+  app.patch("/api/shopping-list/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid shopping list item ID" });
+      }
+
+      const data = updateShoppingListItemSchema.parse(req.body);
+      const existing = await storage.getShoppingListItem(id, req.userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Shopping list item not found" });
+      }
+      if (existing.status === "received") {
+        return res.status(409).json({ message: "Shopping list item was already received" });
+      }
+
+      const { status, ...changes } = data;
+      const updated = await storage.updateShoppingListItem(id, {
+        ...changes,
+        ...(status !== undefined && status !== existing.status
+          ? { status, orderedAt: status === "ordered" ? new Date() : null }
+          : {}),
+      }, req.userId);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating shopping list item:", error);
+      res.status(500).json({ message: "Failed to update shopping list item" });
+    }
+  });
+
+  // Creates the bought spools as new, sealed filaments of the item's type,
+  // copying name, weight, spool type and location from the most recently
+  // bought spool of that type, and marks the item received
+  app.post("/api/shopping-list/:id/receive", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid shopping list item ID" });
+      }
+
+      const data = receiveShoppingListItemSchema.parse(req.body ?? {});
+      const item = await storage.getShoppingListItem(id, req.userId);
+      if (!item) {
+        return res.status(404).json({ message: "Shopping list item not found" });
+      }
+      if (item.status === "received") {
+        return res.status(409).json({ message: "Shopping list item was already received" });
+      }
+
+      const filamentType = await storage.getFilamentType(item.filamentTypeId, req.userId);
+      if (!filamentType) {
+        return res.status(404).json({ message: "Filament type not found" });
+      }
+
+      const spools = spoolsByType(await storage.getFilaments(req.userId)).get(item.filamentTypeId) ?? [];
+      const template = spools[0];
+      const lastPriced = lastPricedSpool(spools);
+      const quantity = data.quantity ?? item.quantity;
+      // An entered price is in the user's currency; a reused one keeps its own
+      const purchasePrice = data.purchasePrice !== undefined
+        ? data.purchasePrice
+        : lastPriced ? Number(lastPriced.purchasePrice) : null;
+      const purchaseCurrency = data.purchasePrice === undefined && lastPriced?.purchaseCurrency
+        ? lastPriced.purchaseCurrency
+        : await userCurrency(req.userId);
+
+      const spoolFields = newSpoolsOfType(req.userId, filamentType, template, {
+        quantity,
+        purchasePrice,
+        purchaseCurrency,
+        purchaseDate: data.purchaseDate,
+        totalWeight: data.totalWeight,
+        storageLocation: data.storageLocation,
+      });
+
+      // Claims the item and creates the spools together, so a retry or a
+      // double-click can't receive it twice
+      const received = await storage.receiveShoppingListItem(id, req.userId, quantity, spoolFields);
+      if (!received) {
+        return res.status(409).json({ message: "Shopping list item was already received" });
+      }
+      await emitSpoolsCreated(req.userId, received.filaments);
+
+      res.status(201).json(received);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error receiving shopping list item:", error);
+      res.status(500).json({ message: "Failed to receive shopping list item" });
+    }
+  });
+
+  app.delete("/api/shopping-list/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid shopping list item ID" });
+      }
+
+      const success = await storage.deleteShoppingListItem(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Shopping list item not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting shopping list item:", error);
+      res.status(500).json({ message: "Failed to delete shopping list item" });
+    }
+  });
+}
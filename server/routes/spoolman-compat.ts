@@ -1,9 +1,14 @@
 import type { Express, Request, Response } from "express";
+import { createHash } from "crypto";
 import { storage } from "../storage";
 import { requireApiToken } from "../auth";
-import type { Filament } from "@shared/schema";
+import type { Filament, FilamentType, Manufacturer } from "@shared/schema";
 import { logger as appLogger } from "../utils/logger";
 import { validateId } from "../utils/validation";
+import { emptySpoolWeight, filamentDiameterMm, gramsToLength, lengthToGrams, loadMaterialDensities } from "../utils/filament-usage";
+import { emitUsageEvents } from "../utils/webhooks";
+import { loadUserCurrencyConverter, type CurrencyConverter } from "../utils/currency";
+import { spoolsByType } from "../utils/restock";
 
 /**
  * Phase B of the printer integration (see IMPLEMENTATION_PLAN.md #5):
@@ -13,35 +18,160 @@ import { validateId } from "../utils/validation";
  * any change on the Klipper/Mainsail/Fluidd side - point Moonraker's
  * `server` config at this base URL with an API token (see requireApiToken).
  *
- * Best-effort compatibility, not a full Spoolman API implementation: only
- * the fields Moonraker's integration actually reads/writes are covered.
+ * Also covers the read-only endpoints other Spoolman clients call
+ * (OctoPrint-Spoolman, Spoolman-aware slicers, Home Assistant): info/health,
+ * filaments (from filamentTypes), vendors (from manufacturers), locations
+ * (from storageLocations) and settings. Best-effort compatibility, not a full
+ * Spoolman API implementation: creating/deleting vendors, filaments or spools
+ * through it is not supported.
  */
 
-function toSpoolmanShape(filament: Filament) {
+// Reported by /v1/info - the Spoolman release whose API this layer follows,
+// for clients that check the server version before talking to it.
+const SPOOLMAN_API_VERSION = "0.22.1";
+
+// Spoolman reports the filament's settings_extruder_temp as a number;
+// Filadex keeps printTemp as free text like "200-220°C".
+function parseExtruderTemp(printTemp: string | null): number | null {
+  const match = printTemp?.match(/\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+// Lookups shared by every shape below, loaded once per request
+interface SpoolmanContext {
+  densityByMaterial: Map<string, number>;
+  vendorsByName: Map<string, Manufacturer>;
+  converter: CurrencyConverter; // into the currency /v1/setting reports
+}
+
+async function loadContext(userId: number): Promise<SpoolmanContext> {
+  const [densityByMaterial, manufacturers, converter] = await Promise.all([
+    loadMaterialDensities(),
+    storage.getManufacturers(),
+    loadUserCurrencyConverter(userId),
+  ]);
+  return {
+    densityByMaterial,
+    vendorsByName: new Map(manufacturers.map((m) => [m.name, m])),
+    converter,
+  };
+}
+
+// Spoolman has one currency per instance, so prices are given in the user's
+function spoolPrice(filament: Filament, ctx: SpoolmanContext): number | null {
+  return filament.purchasePrice ? ctx.converter.convert(Number(filament.purchasePrice), filament.purchaseCurrency) : null;
+}
+
+function toVendorShape(manufacturer: Manufacturer) {
+  return {
+    id: manufacturer.id,
+    registered: manufacturer.createdAt,
+    name: manufacturer.name,
+    empty_spool_weight: manufacturer.spoolWeight ? Number(manufacturer.spoolWeight) : null,
+    extra: {},
+  };
+}
+
+// Spoolman clients expect every vendor to have an integer id, but a type's
+// manufacturer doesn't have to be in the manufacturers list. Those get an id
+// derived from the name, so it's the same on every request, in a range far
+// above the manufacturers' serial ids.
+const UNLISTED_VENDOR_ID_BASE = 1_000_000_000;
+
+function unlistedVendorId(name: string): number {
+  return UNLISTED_VENDOR_ID_BASE + createHash("sha256").update(name).digest().readUInt32BE(0) % UNLISTED_VENDOR_ID_BASE;
+}
+
+function toVendorRef(name: string | null, ctx: SpoolmanContext) {
+  if (!name) return null;
+  const vendor = ctx.vendorsByName.get(name);
+  return vendor
+    ? toVendorShape(vendor)
+    : { id: unlistedVendorId(name), registered: null, name, empty_spool_weight: null, extra: {} };
+}
+
+type FilamentProduct = Pick<
+  FilamentType,
+  "id" | "manufacturer" | "material" | "colorName" | "colorCode" | "diameter" | "printTemp" | "spoolWeight"
+>;
+
+function productOf(spool: Filament): FilamentProduct {
+  const { filamentTypeId, manufacturer, material, colorName, colorCode, diameter, printTemp, spoolWeight } = spool;
+  return { id: filamentTypeId, manufacturer, material, colorName, colorCode, diameter, printTemp, spoolWeight };
+}
+
+// A Spoolman "filament" is a product, which is Filadex's filamentTypes row -
+// so its id is the filament type id, not a spool id. Price and weight are
+// per spool in Filadex, so they come from `spool` (normally the type's most
+// recently bought one) and are null for a type without spools.
+function toFilamentShape(product: FilamentProduct, spool: Filament | undefined, ctx: SpoolmanContext) {
+  return {
+    id: product.id,
+    registered: null,
+    name: `${product.material} ${product.colorName}`,
+    vendor: toVendorRef(product.manufacturer, ctx),
+    material: product.material,
+    price: spool ? spoolPrice(spool, ctx) : null,
+    density: ctx.densityByMaterial.get(product.material) ?? null,
+    diameter: filamentDiameterMm(product),
+    weight: spool ? Number(spool.totalWeight) * 1000 : null,
+    spool_weight: product.spoolWeight ? Number(product.spoolWeight) : null,
+    settings_extruder_temp: parseExtruderTemp(product.printTemp),
+    color_hex: product.colorCode ? product.colorCode.replace(/^#/, "") : null,
+    extra: {},
+  };
+}
+
+function toSpoolmanShape(filament: Filament, ctx: SpoolmanContext) {
   const totalWeightGrams = Number(filament.totalWeight) * 1000;
   const remainingWeightGrams = (totalWeightGrams * Number(filament.remainingPercentage)) / 100;
+  const usedWeightGrams = totalWeightGrams - remainingWeightGrams;
+  const density = ctx.densityByMaterial.get(filament.material);
 
   return {
     id: filament.id,
     registered: filament.purchaseDate ?? null,
-    price: filament.purchasePrice ? Number(filament.purchasePrice) : null,
+    price: spoolPrice(filament, ctx),
     initial_weight: totalWeightGrams,
     remaining_weight: remainingWeightGrams,
-    used_weight: totalWeightGrams - remainingWeightGrams,
+    used_weight: usedWeightGrams,
+    spool_weight: emptySpoolWeight(filament, filament.manufacturer ? ctx.vendorsByName.get(filament.manufacturer) : undefined),
+    // Lengths (mm) need the material's density, which is optional
+    remaining_length: density ? gramsToLength(remainingWeightGrams, filamentDiameterMm(filament), density) : null,
+    used_length: density ? gramsToLength(usedWeightGrams, filamentDiameterMm(filament), density) : null,
     location: filament.storageLocation ?? null,
-    archived: false,
-    filament: {
-      id: filament.id,
-      name: filament.name,
-      material: filament.material,
-      price: filament.purchasePrice ? Number(filament.purchasePrice) : null,
-      diameter: filament.diameter ? Number(filament.diameter) : 1.75,
-      color_hex: filament.colorCode ? filament.colorCode.replace(/^#/, "") : null,
-      vendor: filament.manufacturer ? { name: filament.manufacturer } : null,
-    },
+    archived: !!filament.archivedAt,
+    filament: toFilamentShape(productOf(filament), filament, ctx),
+    extra: {},
   };
 }
 
+// Spoolman list endpoints report the unpaginated count in this header
+function sendList(res: Response, items: unknown[]) {
+  res.setHeader("X-Total-Count", String(items.length));
+  res.json(items);
+}
+
+// Spoolman stores every setting value JSON-encoded, with its type alongside.
+async function loadSettings(userId: number) {
+  const [user, locations] = await Promise.all([storage.getUser(userId), storage.getStorageLocations()]);
+  return {
+    currency: { value: JSON.stringify(user?.currency ?? "EUR"), is_set: !!user?.currency, type: "string" },
+    locations: { value: JSON.stringify(locations.map((l) => l.name)), is_set: locations.length > 0, type: "array" },
+  };
+}
+
+async function listVendors(userId: number) {
+  const [ctx, types] = await Promise.all([loadContext(userId), storage.getFilamentTypes(userId)]);
+  const unlisted = new Set(types
+    .map((type) => type.manufacturer)
+    .filter((name): name is string => !!name && !ctx.vendorsByName.has(name)));
+  return [
+    ...Array.from(ctx.vendorsByName.values()).map(toVendorShape),
+    ...Array.from(unlisted).map((name) => toVendorRef(name, ctx)!),
+  ];
+}
+
 async function handleUse(req: Request, res: Response) {
   try {
     const id = validateId(req.params.id);
@@ -54,34 +184,38 @@ async function handleUse(req: Request, res: Response) {
       return res.status(404).json({ error: "Spool not found" });
     }
 
-    const useWeight: number | undefined = req.body.use_weight;
-    if (typeof useWeight !== "number") {
-      return res.status(400).json({ error: "use_weight (grams) is required" });
+    const useWeight: unknown = req.body.use_weight;
+    const useLength: unknown = req.body.use_length;
+    if ((typeof useWeight === "number") === (typeof useLength === "number")) {
+      return res.status(400).json({ error: "Exactly one of use_weight (grams) or use_length (mm) is required" });
+    }
+    // Like Spoolman, only consumption is accepted here - a negative amount
+    // would add filament to the spool
+    const amount = (useWeight ?? useLength) as number;
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return res.status(400).json({ error: "use_weight and use_length must be greater than 0" });
     }
 
-    const totalWeightGrams = Number(filament.totalWeight) * 1000;
-    const oldPercentage = Number(filament.remainingPercentage);
-    const deltaPercentage = totalWeightGrams > 0 ? (-useWeight / totalWeightGrams) * 100 : 0;
-    const newPercentage = Math.min(100, Math.max(0, oldPercentage + deltaPercentage));
-
-    const updatedFilament = await storage.updateFilament(
-      id,
-      { remainingPercentage: newPercentage.toString() },
-      req.userId
-    );
-    if (!updatedFilament) {
-      return res.status(404).json({ error: "Spool not found" });
+    const ctx = await loadContext(req.userId);
+    let grams: number;
+    if (typeof useWeight === "number") {
+      grams = useWeight;
+    } else {
+      const density = ctx.densityByMaterial.get(filament.material);
+      if (!density) {
+        return res.status(400).json({ error: `use_length needs a density for material ${filament.material}` });
+      }
+      grams = lengthToGrams(useLength as number, filamentDiameterMm(filament), density);
     }
 
-    await storage.createFilamentUsageLog({
-      filamentId: id,
-      userId: req.userId,
-      deltaWeight: (-useWeight).toString(),
-      remainingPercentageAfter: updatedFilament.remainingPercentage,
-      source: "printer",
-    });
+    const applied = await storage.applyFilamentUsage(
+      req.userId,
+      [{ filamentId: id, deltaWeight: -grams }],
+      { source: "printer" }
+    );
+    await emitUsageEvents(req.userId, applied!);
 
-    res.json(toSpoolmanShape(updatedFilament));
+    res.json(toSpoolmanShape(applied!.filaments[0], ctx));
   } catch (error) {
     appLogger.error("Error handling spoolman-compat /use:", error);
     res.status(500).json({ error: "Failed to record spool usage" });
@@ -89,6 +223,26 @@ async function handleUse(req: Request, res: Response) {
 }
 
 export function registerSpoolmanCompatRoutes(app: Express): void {
+  // Unauthenticated, like Spoolman's own: clients probe these before they
+  // send anything else, and neither reveals user data.
+  app.get("/api/spoolman-compat/v1/info", (_req, res) => {
+    res.json({
+      version: SPOOLMAN_API_VERSION,
+      debug_mode: false,
+      automatic_backups: false,
+      data_dir: null,
+      logs_dir: null,
+      backups_dir: null,
+      db_type: "postgres",
+      git_commit: null,
+      build_date: null,
+    });
+  });
+
+  app.get("/api/spoolman-compat/v1/health", (_req, res) => {
+    res.json({ status: "healthy" });
+  });
+
   app.get("/api/spoolman-compat/v1/spool/:id", requireApiToken, async (req, res) => {
     try {
       const id = validateId(req.params.id);
@@ -101,17 +255,29 @@ export function registerSpoolmanCompatRoutes(app: Express): void {
         return res.status(404).json({ error: "Spool not found" });
       }
 
-      res.json(toSpoolmanShape(filament));
+      res.json(toSpoolmanShape(filament, await loadContext(req.userId)));
     } catch (error) {
       appLogger.error("Error fetching spoolman-compat spool:", error);
       res.status(500).json({ error: "Failed to fetch spool" });
     }
   });
 
+  // Supports Spoolman's `filament.id`, `location` and `allow_archived`
+  // filters; like Spoolman, archived spools are left out by default.
   app.get("/api/spoolman-compat/v1/spool", requireApiToken, async (req, res) => {
     try {
-      const filaments = await storage.getFilaments(req.userId);
-      res.json(filaments.map(toSpoolmanShape));
+      const filamentTypeId = req.query["filament.id"] !== undefined ? validateId(req.query["filament.id"]) : undefined;
+      const location = typeof req.query.location === "string" ? req.query.location : undefined;
+      const allowArchived = req.query.allow_archived === "true";
+
+      const [filaments, ctx] = await Promise.all([storage.getFilaments(req.userId), loadContext(req.userId)]);
+      const spools = filaments
+        .filter((f) => filamentTypeId === undefined || f.filamentTypeId === filamentTypeId)
+        .filter((f) => location === undefined || f.storageLocation === location)
+        .filter((f) => allowArchived || !f.archivedAt)
+        .map((f) => toSpoolmanShape(f, ctx));
+
+      sendList(res, spools);
     } catch (error) {
       appLogger.error("Error listing spoolman-compat spools:", error);
       res.status(500).json({ error: "Failed to list spools" });
@@ -130,7 +296,7 @@ export function registerSpoolmanCompatRoutes(app: Express): void {
         return res.status(404).json({ error: "Spool not found" });
       }
 
-      const updateData: { remainingPercentage?: string } = {};
+      const updateData: { remainingPercentage?: string; storageLocation?: string | null; archivedAt?: Date | null } = {};
       if (typeof req.body.remaining_weight === "number") {
         const totalWeightGrams = Number(filament.totalWeight) * 1000;
         const newPercentage = totalWeightGrams > 0
@@ -138,13 +304,19 @@ export function registerSpoolmanCompatRoutes(app: Express): void {
           : 0;
         updateData.remainingPercentage = newPercentage.toString();
       }
+      if (typeof req.body.location === "string" || req.body.location === null) {
+        updateData.storageLocation = req.body.location;
+      }
+      if (typeof req.body.archived === "boolean" && req.body.archived !== !!filament.archivedAt) {
+        updateData.archivedAt = req.body.archived ? new Date() : null;
+      }
 
       const updatedFilament = await storage.updateFilament(id, updateData, req.userId);
       if (!updatedFilament) {
         return res.status(404).json({ error: "Spool not found" });
       }
 
-      res.json(toSpoolmanShape(updatedFilament));
+      res.json(toSpoolmanShape(updatedFilament, await loadContext(req.userId)));
     } catch (error) {
       appLogger.error("Error updating spoolman-compat spool:", error);
       res.status(500).json({ error: "Failed to update spool" });
@@ -155,4 +327,125 @@ export function registerSpoolmanCompatRoutes(app: Express): void {
   // Moonraker versions have called it differently.
   app.put("/api/spoolman-compat/v1/spool/:id/use", requireApiToken, handleUse);
   app.post("/api/spoolman-compat/v1/spool/:id/use", requireApiToken, handleUse);
+
+  // One filament per filament type of the user, including types without
+  // spools. Supports Spoolman's `vendor.id` and `material` filters.
+  app.get("/api/spoolman-compat/v1/filament", requireApiToken, async (req, res) => {
+    try {
+      const vendorId = req.query["vendor.id"] !== undefined ? validateId(req.query["vendor.id"]) : undefined;
+      const material = typeof req.query.material === "string" ? req.query.material : undefined;
+
+      const [types, filaments, ctx] = await Promise.all([
+        storage.getFilamentTypes(req.userId),
+        storage.getFilaments(req.userId),
+        loadContext(req.userId),
+      ]);
+      const byType = spoolsByType(filaments);
+
+      const result = types
+        .map((type) => toFilamentShape(type, byType.get(type.id)?.[0], ctx))
+        .filter((f) => vendorId === undefined || f.vendor?.id === vendorId)
+        .filter((f) => material === undefined || f.material.toLowerCase() === material.toLowerCase());
+
+      sendList(res, result);
+    } catch (error) {
+      appLogger.error("Error listing spoolman-compat filaments:", error);
+      res.status(500).json({ error: "Failed to list filaments" });
+    }
+  });
+
+  app.get("/api/spoolman-compat/v1/filament/:id", requireApiToken, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid filament id" });
+      }
+
+      const filamentType = await storage.getFilamentType(id, req.userId);
+      if (!filamentType) {
+        return res.status(404).json({ error: "Filament not found" });
+      }
+
+      const spools = spoolsByType(await storage.getFilaments(req.userId)).get(id) ?? [];
+      res.json(toFilamentShape(filamentType, spools[0], await loadContext(req.userId)));
+    } catch (error) {
+      appLogger.error("Error fetching spoolman-compat filament:", error);
+      res.status(500).json({ error: "Failed to fetch filament" });
+    }
+  });
+
+  // The manufacturers, plus the manufacturers of the user's filament types
+  // that aren't in that list (see unlistedVendorId)
+  app.get("/api/spoolman-compat/v1/vendor", requireApiToken, async (req, res) => {
+    try {
+      sendList(res, await listVendors(req.userId));
+    } catch (error) {
+      appLogger.error("Error listing spoolman-compat vendors:", error);
+      res.status(500).json({ error: "Failed to list vendors" });
+    }
+  });
+
+  app.get("/api/spoolman-compat/v1/vendor/:id", requireApiToken, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid vendor id" });
+      }
+
+      const vendor = (await listVendors(req.userId)).find((v) => v.id === id);
+      if (!vendor) {
+        return res.status(404).json({ error: "Vendor not found" });
+      }
+
+      res.json(vendor);
+    } catch (error) {
+      appLogger.error("Error fetching spoolman-compat vendor:", error);
+      res.status(500).json({ error: "Failed to fetch vendor" });
+    }
+  });
+
+  // Spoolman returns plain location names: the configured storage locations
+  // plus any free-text location a spool is in.
+  app.get("/api/spoolman-compat/v1/location", requireApiToken, async (req, res) => {
+    try {
+      const [locations, filaments] = await Promise.all([storage.getStorageLocations(), storage.getFilaments(req.userId)]);
+      const names = new Set(locations.map((l) => l.name));
+      for (const filament of filaments) {
+        if (filament.storageLocation) names.add(filament.storageLocation);
+      }
+      res.json(Array.from(names));
+    } catch (error) {
+      appLogger.error("Error listing spoolman-compat locations:", error);
+      res.status(500).json({ error: "Failed to list locations" });
+    }
+  });
+
+  app.get("/api/spoolman-compat/v1/setting", requireApiToken, async (req, res) => {
+    try {
+      res.json(await loadSettings(req.userId));
+    } catch (error) {
+      appLogger.error("Error listing spoolman-compat settings:", error);
+      res.status(500).json({ error: "Failed to list settings" });
+    }
+  });
+
+  app.get("/api/spoolman-compat/v1/setting/:key", requireApiToken, async (req, res) => {
+    try {
+      const settings: Record<string, unknown> = await loadSettings(req.userId);
+      // Own keys only, so e.g. "constructor" isn't found on the prototype
+      const key = req.params.key;
+      if (!Object.hasOwn(settings, key)) {
+        return res.status(404).json({ error: "Setting not found" });
+      }
+      const setting = settings[key];
+      if (!setting) {
+        return res.status(404).json({ error: "Setting not found" });
+      }
+
+      res.json(setting);
+    } catch (error) {
+      appLogger.error("Error fetching spoolman-compat setting:", error);
+      res.status(500).json({ error: "Failed to fetch setting" });
+    }
+  });
 }
@@ -1,12 +1,146 @@
 import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
 import { authenticate } from "../auth";
 import { storage } from "../storage";
 import { logger as appLogger } from "../utils/logger";
+import { stockLevels } from "../utils/min-stock";
+import { userCostPerKgResolver } from "../utils/purchase-prices";
+import { loadUserCurrencyConverter } from "../utils/currency";
+import {
+  users,
+  agingQuerySchema,
+  consumptionGroupBys,
+  consumptionPeriods,
+  consumptionQuerySchema,
+  dryingQuerySchema,
+  forecastQuerySchema,
+  spendQuerySchema,
+  statisticsFilterSchema,
+  updateStatisticsWidgetsSchema,
+  type Filament,
+  type FilamentUsageLog,
+  type StatisticsFilter,
+  type StatisticsWidget,
+} from "@shared/schema";
+
+type ConsumptionPeriod = typeof consumptionPeriods[number];
+type ConsumptionGroupBy = typeof consumptionGroupBys[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the UTC day/week (Monday)/month containing `date`
+function periodStart(date: Date, period: ConsumptionPeriod): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (period === "week") {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (period === "month") {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+function nextPeriod(date: Date, period: ConsumptionPeriod): Date {
+  const next = new Date(date);
+  if (period === "day") next.setUTCDate(next.getUTCDate() + 1);
+  else if (period === "week") next.setUTCDate(next.getUTCDate() + 7);
+  else next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+}
+
+// Default range when none is given: the last 30 days, 12 weeks or 12 months
+function defaultFrom(to: Date, period: ConsumptionPeriod): Date {
+  const from = new Date(to);
+  if (period === "day") from.setUTCDate(from.getUTCDate() - 29);
+  else if (period === "week") from.setUTCDate(from.getUTCDate() - 7 * 11);
+  else from.setUTCMonth(from.getUTCMonth() - 11);
+  return periodStart(from, period);
+}
+
+function groupKey(log: FilamentUsageLog, filament: Filament | undefined, groupBy: ConsumptionGroupBy): string {
+  switch (groupBy) {
+    case "material": return filament?.material || "Unknown";
+    case "manufacturer": return filament?.manufacturer || "Unknown";
+    case "color": return filament?.colorName || "Unknown";
+    case "source": return log.source;
+    default: return "total";
+  }
+}
+
+// Only negative deltas are consumption; refills and corrections upward are
+// ignored, and so are transfers, which only move filament between spools
+const consumedGrams = (log: FilamentUsageLog) =>
+  log.source === "transfer" ? 0 : Math.max(0, -Number(log.deltaWeight));
+
+const remainingGrams = (filament: Filament) =>
+  Number(filament.totalWeight) * 1000 * Number(filament.remainingPercentage) / 100;
+
+const daysUntilEmpty = (remaining: number, gramsPerDay: number) =>
+  gramsPerDay > 0 ? remaining / gramsPerDay : null;
+
+const daysSince = (date: string | Date, now: Date) =>
+  Math.floor((now.getTime() - new Date(date).getTime()) / DAY_MS);
+
+const sameText = (a: string | null | undefined, b: string) => (a ?? "").toLowerCase() === b.toLowerCase();
+
+function matchesFilter(filament: Filament, filter: StatisticsFilter): boolean {
+  return (!filter.material || sameText(filament.material, filter.material))
+    && (!filter.manufacturer || sameText(filament.manufacturer, filter.manufacturer))
+    && (!filter.storageLocation || sameText(filament.storageLocation, filter.storageLocation));
+}
+
+const hasFilter = (filter: StatisticsFilter) => !!(filter.material || filter.manufacturer || filter.storageLocation);
+
+// Longest range per period, so one request can't make emptyBuckets build
+// millions of buckets
+const MAX_RANGE_YEARS: Record<ConsumptionPeriod, number> = { day: 3, week: 10, month: 50 };
+
+const rangeTooLong = (from: Date, to: Date, period: ConsumptionPeriod) =>
+  to.getTime() - from.getTime() > MAX_RANGE_YEARS[period] * 366 * DAY_MS;
+
+const rangeTooLongMessage = (period: ConsumptionPeriod) =>
+  `Range too long: at most ${MAX_RANGE_YEARS[period]} years with period=${period}`;
+
+// Empty periods from `from` up to `to`, keyed by their start date
+function emptyBuckets<T extends object>(from: Date, to: Date, period: ConsumptionPeriod, fields: () => T) {
+  const buckets: ({ start: string } & T)[] = [];
+  const bucketIndex = new Map<string, number>();
+  for (let start = from; start < to; start = nextPeriod(start, period)) {
+    const key = start.toISOString().slice(0, 10);
+    bucketIndex.set(key, buckets.length);
+    buckets.push({ start: key, ...fields() });
+  }
+  const bucketFor = (date: Date) => {
+    const index = bucketIndex.get(periodStart(date, period).toISOString().slice(0, 10));
+    return index === undefined ? undefined : buckets[index];
+  };
+  return { buckets, bucketFor };
+}
+
+// Lower bounds in days of the aging widget's brackets; the last is open-ended
+const AGE_BRACKETS = [0, 90, 180, 365];
+
+// Shown until a user arranges their own dashboard
+const DEFAULT_WIDGETS: StatisticsWidget[] = [
+  { id: "overview", type: "overview", params: {} },
+  { id: "consumption", type: "consumption", params: { period: "day", groupBy: "material" } },
+  { id: "forecast", type: "forecast", params: { windowDays: 30 } },
+];
 
 export function registerStatisticsRoutes(app: Express): void {
   app.get("/api/statistics", authenticate, async (req, res) => {
     try {
-      const filaments = await storage.getFilaments(req.userId);
+      const [allFilaments, filamentTypes, purchaseOrders, converter] = await Promise.all([
+        storage.getFilaments(req.userId),
+        storage.getFilamentTypes(req.userId),
+        storage.getPurchaseOrders(req.userId),
+        loadUserCurrencyConverter(req.userId),
+      ]);
+      // The inventory figures cover the spools on hand; the purchase value
+      // below still counts archived ones, as that money was spent
+      const filaments = allFilaments.filter((filament) => !filament.archivedAt);
 
       const totalSpools = filaments.length;
 
@@ -18,29 +152,8 @@ export function registerStatisticsRoutes(app: Express): void {
       const materialCounts: Record<string, number> = {};
       const colorCounts: Record<string, number> = {};
 
-      // For estimated value (average cost per kg is ~30 EUR, adjusting based on material)
-      const materialValues: Record<string, number> = {
-        'pla': 25,
-        'petg': 30,
-        'abs': 30,
-        'tpu': 40,
-        'asa': 40,
-        'pa': 60,
-        'pc': 60,
-        'pva': 65,
-        'hips': 30,
-        'pla-cf': 50,
-        'pa-cf': 75,
-        'petg-cf': 55,
-        'pet-cf': 55,
-        'pla-hf': 35,
-        'pp': 40,
-        'petg-hf': 40,
-        'pps': 80,
-        'peek': 150,
-        'pei': 100
-      };
-      const defaultValue = 30; // Default EUR per kg
+      const costPerKg = userCostPerKgResolver(purchaseOrders, allFilaments, converter);
+      let estimatedSpools = 0;
       let totalValue = 0;
       let totalPurchaseValue = 0;
 
@@ -72,18 +185,10 @@ export function registerStatisticsRoutes(app: Express): void {
         const color = filament.colorName || 'Unbekannt';
         colorCounts[color] = (colorCounts[color] || 0) + 1;
 
-        // Estimate value of remaining filament
-        const materialValue = materialValues[material] || defaultValue;
-        const remainingValue = remaining * materialValue;
-        totalValue += remainingValue;
-
-        // Calculate total purchase value
-        if (filament.purchasePrice) {
-          totalPurchaseValue += Number(filament.purchasePrice);
-        } else {
-          // If no purchase price is set, estimate based on material and weight
-          totalPurchaseValue += total * materialValue;
-        }
+        // Value of the remaining filament at what a kg of it cost
+        const cost = costPerKg.forSpool(filament);
+        if (cost.source === "estimate") estimatedSpools++;
+        totalValue += remaining * cost.costPerKg;
 
         // Calculate filament age if purchase date exists
         if (filament.purchaseDate) {
@@ -105,6 +210,19 @@ export function registerStatisticsRoutes(app: Express): void {
         }
       });
 
+      // Calculate total purchase value
+      allFilaments.forEach(filament => {
+        const purchasePrice = filament.purchasePrice
+          ? converter.convert(Number(filament.purchasePrice), filament.purchaseCurrency)
+          : null;
+        if (purchasePrice !== null) {
+          totalPurchaseValue += purchasePrice;
+        } else {
+          // If no (convertible) purchase price is set, derive it from the cost per kg
+          totalPurchaseValue += Number(filament.totalWeight) * costPerKg.forSpool(filament).costPerKg;
+        }
+      });
+
       // Calculate average age of filaments
       const averageAge = ageInDays.length > 0
         ? Math.round(ageInDays.reduce((sum, days) => sum + days, 0) / ageInDays.length)
@@ -139,16 +257,25 @@ export function registerStatisticsRoutes(app: Express): void {
         .slice(0, 3)
         .map(([color]) => color);
 
+      // Filament types whose combined stock is under their minimum
+      const belowMinimumStock = stockLevels(filamentTypes, filaments).filter((level) => level.belowMinimum);
+
       res.json({
         totalSpools,
+        archivedSpools: allFilaments.length - filaments.length,
         totalWeight: totalWeight.toFixed(2),
         remainingWeight: totalRemainingWeight.toFixed(2),
         averageRemaining,
         lowStockCount,
+        belowMinimumStock,
+        costPerKgByMaterial: costPerKg.materialAverages(), // from purchases and spool prices
+        estimatedSpools, // spools valued with the guessed per-material table
         materialDistribution: materialDistribution.slice(0, 5), // Top 5 materials
         topMaterials,
         topColors,
-        estimatedValue: Math.round(totalValue), // Rounded to nearest EUR
+        currency: converter.currency, // of every amount here
+        missingExchangeRates: Array.from(converter.missing), // amounts in these couldn't be converted
+        estimatedValue: Math.round(totalValue), // Rounded to whole units
         totalPurchaseValue: Math.round(totalPurchaseValue), // Total purchase value
         averageAge, // Average age in days
         oldestFilament, // Oldest filament info
@@ -159,5 +286,359 @@ export function registerStatisticsRoutes(app: Express): void {
       res.status(500).json({ message: "Failed to calculate statistics" });
     }
   });
-}
 
+  // Consumed grams per day/week/month, optionally split by material,
+  // manufacturer, color or usage source. Every period in the range is
+  // present, so charts get explicit zeros.
+  app.get("/api/statistics/consumption", authenticate, async (req, res) => {
+    try {
+      const query = consumptionQuerySchema.parse(req.query);
+      const to = query.to ?? new Date();
+      const from = query.from ? periodStart(query.from, query.period) : defaultFrom(to, query.period);
+      if (from >= to) {
+        return res.status(400).json({ message: "from must be before to" });
+      }
+      if (rangeTooLong(from, to, query.period)) {
+        return res.status(400).json({ message: rangeTooLongMessage(query.period) });
+      }
+
+      const [logs, filaments] = await Promise.all([
+        storage.getUsageLogsBetween(req.userId, from, to),
+        storage.getFilaments(req.userId),
+      ]);
+      const filamentsById = new Map(filaments.map((f) => [f.id, f]));
+      const filtered = hasFilter(query);
+
+      const { buckets, bucketFor } = emptyBuckets(from, to, query.period, () => ({
+        grams: 0,
+        byGroup: {} as Record<string, number>,
+      }));
+
+      const groupTotals: Record<string, number> = {};
+      let totalGrams = 0;
+      for (const log of logs) {
+        const grams = consumedGrams(log);
+        if (grams === 0 || !log.createdAt) continue;
+        const filament = filamentsById.get(log.filamentId);
+        // Usage of deleted spools can't be matched against a filter
+        if (filtered && (!filament || !matchesFilter(filament, query))) continue;
+        const bucket = bucketFor(log.createdAt);
+        if (!bucket) continue;
+        const group = groupKey(log, filament, query.groupBy);
+        bucket.grams += grams;
+        bucket.byGroup[group] = (bucket.byGroup[group] ?? 0) + grams;
+        groupTotals[group] = (groupTotals[group] ?? 0) + grams;
+        totalGrams += grams;
+      }
+
+      res.json({
+        period: query.period,
+        groupBy: query.groupBy,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        totalGrams,
+        groups: Object.entries(groupTotals)
+          .map(([key, grams]) => ({ key, grams }))
+          .sort((a, b) => b.grams - a.grams),
+        buckets,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error calculating consumption:", error);
+      res.status(500).json({ message: "Failed to calculate consumption" });
+    }
+  });
+
+  // "Days until empty" per spool and per material, from the average burn
+  // rate over the last windowDays. Only spools/materials that were used in
+  // that window get a forecast.
+  app.get("/api/statistics/forecast", authenticate, async (req, res) => {
+    try {
+      const { windowDays } = forecastQuerySchema.parse(req.query);
+      const to = new Date();
+      const from = new Date(to.getTime() - windowDays * DAY_MS);
+
+      const [logs, filaments] = await Promise.all([
+        storage.getUsageLogsBetween(req.userId, from, to),
+        storage.getFilaments(req.userId),
+      ]);
+
+      const consumedByFilament = new Map<number, number>();
+      for (const log of logs) {
+        consumedByFilament.set(log.filamentId, (consumedByFilament.get(log.filamentId) ?? 0) + consumedGrams(log));
+      }
+
+      const spools = [];
+      const materials = new Map<string, { remainingGrams: number; gramsPerDay: number }>();
+      for (const filament of filaments) {
+        const remaining = remainingGrams(filament);
+        const gramsPerDay = (consumedByFilament.get(filament.id) ?? 0) / windowDays;
+
+        // Unused spools of a material still count towards its stock, archived
+        // ones don't - but what they used in the window is still consumption
+        const material = materials.get(filament.material) ?? { remainingGrams: 0, gramsPerDay: 0 };
+        if (!filament.archivedAt) material.remainingGrams += remaining;
+        material.gramsPerDay += gramsPerDay;
+        materials.set(filament.material, material);
+
+        if (gramsPerDay > 0 && !filament.archivedAt) {
+          spools.push({
+            filamentId: filament.id,
+            name: filament.name,
+            material: filament.material,
+            colorCode: filament.colorCode,
+            remainingGrams: remaining,
+            gramsPerDay,
+            daysUntilEmpty: daysUntilEmpty(remaining, gramsPerDay),
+          });
+        }
+      }
+
+      const byDaysLeft = (a: { daysUntilEmpty: number | null }, b: { daysUntilEmpty: number | null }) =>
+        (a.daysUntilEmpty ?? Infinity) - (b.daysUntilEmpty ?? Infinity);
+
+      res.json({
+        windowDays,
+        spools: spools.sort(byDaysLeft),
+        materials: Array.from(materials.entries())
+          .filter(([, m]) => m.gramsPerDay > 0)
+          .map(([material, m]) => ({ material, ...m, daysUntilEmpty: daysUntilEmpty(m.remainingGrams, m.gramsPerDay) }))
+          .sort(byDaysLeft),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error calculating usage forecast:", error);
+      res.status(500).json({ message: "Failed to calculate usage forecast" });
+    }
+  });
+
+  // Spools and filament per storage location; spools without one are
+  // grouped under a null location
+  app.get("/api/statistics/stock-by-location", authenticate, async (req, res) => {
+    try {
+      const filter = statisticsFilterSchema.parse(req.query);
+      const filaments = (await storage.getFilaments(req.userId))
+        .filter((f) => !f.archivedAt && matchesFilter(f, filter));
+
+      const locations = new Map<string | null, { spools: number; totalKg: number; remainingKg: number }>();
+      for (const filament of filaments) {
+        const location = filament.storageLocation || null;
+        const entry = locations.get(location) ?? { spools: 0, totalKg: 0, remainingKg: 0 };
+        entry.spools++;
+        entry.totalKg += Number(filament.totalWeight);
+        entry.remainingKg += remainingGrams(filament) / 1000;
+        locations.set(location, entry);
+      }
+
+      res.json({
+        locations: Array.from(locations.entries())
+          .map(([location, entry]) => ({ location, ...entry }))
+          .sort((a, b) => b.remainingKg - a.remainingKg),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error calculating stock by location:", error);
+      res.status(500).json({ message: "Failed to calculate stock by location" });
+    }
+  });
+
+  // Money spent per day/week/month in the user's currency. The two sources
+  // overlap (spools added from a purchase order carry its price), so they
+  // are reported separately rather than summed.
+  app.get("/api/statistics/spend", authenticate, async (req, res) => {
+    try {
+      const query = spendQuerySchema.parse(req.query);
+      const to = query.to ?? new Date();
+      const from = query.from ? periodStart(query.from, query.period) : defaultFrom(to, query.period);
+      if (from >= to) {
+        return res.status(400).json({ message: "from must be before to" });
+      }
+      if (rangeTooLong(from, to, query.period)) {
+        return res.status(400).json({ message: rangeTooLongMessage(query.period) });
+      }
+
+      const converter = await loadUserCurrencyConverter(req.userId);
+      const { buckets, bucketFor } = emptyBuckets(from, to, query.period, () => ({ amount: 0, purchases: 0 }));
+      const add = (date: string, amount: number | null) => {
+        const bucket = bucketFor(new Date(date));
+        if (!bucket || amount === null) return;
+        bucket.amount += amount;
+        bucket.purchases++;
+      };
+
+      if (query.source === "orders") {
+        for (const order of await storage.getPurchaseOrders(req.userId)) {
+          // Shipping is shared out by weight, as in the price history
+          const orderKg = order.items.reduce((sum, item) => sum + Number(item.weightKg) * item.quantity, 0);
+          const shippingPerKg = orderKg > 0 ? Number(order.shippingCost) / orderKg : 0;
+          for (const item of order.items) {
+            if (query.material && !sameText(item.material, query.material)) continue;
+            if (query.manufacturer && !sameText(item.manufacturer, query.manufacturer)) continue;
+            const amount = item.quantity * (Number(item.pricePerSpool) + shippingPerKg * Number(item.weightKg));
+            add(order.orderDate, converter.convert(amount, order.currency));
+          }
+        }
+      } else {
+        for (const filament of await storage.getFilaments(req.userId)) {
+          if (!filament.purchaseDate || !filament.purchasePrice || !matchesFilter(filament, query)) continue;
+          add(filament.purchaseDate, converter.convert(Number(filament.purchasePrice), filament.purchaseCurrency));
+        }
+      }
+
+      for (const bucket of buckets) bucket.amount = Math.round(bucket.amount * 100) / 100;
+
+      res.json({
+        source: query.source,
+        period: query.period,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        currency: converter.currency,
+        total: Math.round(buckets.reduce((sum, bucket) => sum + bucket.amount, 0) * 100) / 100,
+        buckets,
+        missingExchangeRates: Array.from(converter.missing),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error calculating spend:", error);
+      res.status(500).json({ message: "Failed to calculate spend" });
+    }
+  });
+
+  // Spools by age since purchase, oldest first. Spools without a purchase
+  // date have no age and are left out.
+  app.get("/api/statistics/aging", authenticate, async (req, res) => {
+    try {
+      const query = agingQuerySchema.parse(req.query);
+      const now = new Date();
+
+      const aged = (await storage.getFilaments(req.userId))
+        .filter((f) => f.purchaseDate && !f.archivedAt && matchesFilter(f, query))
+        .map((f) => ({
+          filamentId: f.id,
+          name: f.name,
+          material: f.material,
+          colorCode: f.colorCode,
+          purchaseDate: f.purchaseDate!,
+          ageDays: daysSince(f.purchaseDate!, now),
+          remainingPercentage: Number(f.remainingPercentage),
+        }));
+
+      const ageBrackets = AGE_BRACKETS.map((minDays, index) => {
+        const maxDays = AGE_BRACKETS[index + 1] ?? null;
+        return {
+          minDays,
+          maxDays,
+          spools: aged.filter((spool) => spool.ageDays >= minDays && (maxDays === null || spool.ageDays < maxDays)).length,
+        };
+      });
+
+      const matching = aged.filter((spool) => spool.ageDays >= query.minDays).sort((a, b) => b.ageDays - a.ageDays);
+
+      res.json({
+        minDays: query.minDays,
+        total: matching.length,
+        ageBrackets,
+        spools: matching.slice(0, query.limit),
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error calculating spool aging:", error);
+      res.status(500).json({ message: "Failed to calculate spool aging" });
+    }
+  });
+
+  // Spools of hygroscopic materials and how long since they were dried (or
+  // bought, if never), longest first - the same rule as the drying reminder
+  app.get("/api/statistics/drying", authenticate, async (req, res) => {
+    try {
+      const query = dryingQuerySchema.parse(req.query);
+      const [filaments, materials, [user]] = await Promise.all([
+        storage.getFilaments(req.userId),
+        storage.getMaterials(),
+        db.select({ dryingReminderDays: users.dryingReminderDays }).from(users).where(eq(users.id, req.userId)),
+      ]);
+      const reminderDays = query.reminderDays ?? user?.dryingReminderDays ?? 30;
+      const hygroscopic = new Set(materials.filter((m) => m.isHygroscopic).map((m) => m.name));
+      const now = new Date();
+
+      const spools = filaments
+        .filter((f) => hygroscopic.has(f.material) && !f.archivedAt && matchesFilter(f, query))
+        .map((f) => {
+          const referenceDate = f.lastDryingDate ?? f.purchaseDate;
+          const days = referenceDate ? daysSince(referenceDate, now) : null;
+          return {
+            filamentId: f.id,
+            name: f.name,
+            material: f.material,
+            colorCode: f.colorCode,
+            lastDryingDate: f.lastDryingDate,
+            dryerCount: f.dryerCount ?? 0,
+            daysSinceDrying: days,
+            due: days !== null && days >= reminderDays,
+          };
+        })
+        .sort((a, b) => (b.daysSinceDrying ?? -1) - (a.daysSinceDrying ?? -1));
+
+      res.json({
+        reminderDays,
+        dueCount: spools.filter((spool) => spool.due).length,
+        spools,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error calculating drying status:", error);
+      res.status(500).json({ message: "Failed to calculate drying status" });
+    }
+  });
+
+  // The user's dashboard layout
+  app.get("/api/statistics/widgets", authenticate, async (req, res) => {
+    try {
+      const [user] = await db.select({ statisticsWidgets: users.statisticsWidgets })
+        .from(users)
+        .where(eq(users.id, req.userId));
+      res.json({ widgets: user?.statisticsWidgets ?? DEFAULT_WIDGETS });
+    } catch (error) {
+      appLogger.error("Error fetching statistics widgets:", error);
+      res.status(500).json({ message: "Failed to fetch statistics widgets" });
+    }
+  });
+
+  // Replaces the layout; the order given is the display order
+  app.put("/api/statistics/widgets", authenticate, async (req, res) => {
+    try {
+      const { widgets } = updateStatisticsWidgetsSchema.parse(req.body);
+      if (new Set(widgets.map((widget) => widget.id)).size !== widgets.length) {
+        return res.status(400).json({ message: "Widget ids must be unique" });
+      }
+
+      await db.update(users).set({ statisticsWidgets: widgets }).where(eq(users.id, req.userId));
+      res.json({ widgets });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating statistics widgets:", error);
+      res.status(500).json({ message: "Failed to update statistics widgets" });
+    }
+  });
+}
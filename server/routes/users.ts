@@ -1,7 +1,7 @@
 import type { Express } from "express";
 import { eq, count, sql } from "drizzle-orm";
 import { db } from "../db";
-import { users, userSharing } from "../../shared/schema";
+import { users, userSharing, supportedCurrencies } from "../../shared/schema";
 import { authenticate, isAdmin, hashPassword } from "../auth";
 import { logger as appLogger } from "../utils/logger";
 import { and } from "drizzle-orm";
@@ -38,7 +38,7 @@ export function registerUserRoutes(app: Express): void {
 
       // Validate and update currency
       if (currency) {
-        const validCurrencies = ['EUR', 'USD', 'GBP', 'JPY', 'CAD', 'AUD', 'CHF', 'CNY', 'PLN', 'CZK', 'NOK', 'SEK', 'DKK', 'HUF', 'RON', 'BGN', 'HRK'];
+        const validCurrencies: readonly string[] = supportedCurrencies;
         if (!validCurrencies.includes(currency)) {
           return res.status(400).json({ message: `Invalid currency. Supported currencies are: ${validCurrencies.join(', ')}` });
         }
@@ -67,10 +67,11 @@ export function registerUserRoutes(app: Express): void {
     }
   });
 
-  // Update user notification preferences (low-stock / drying-reminder emails)
+  // Update user notification preferences (which reminders to send, and
+  // whether email is one of the channels - see /api/notification-channels)
   app.post("/api/users/notification-preferences", authenticate, async (req, res) => {
     try {
-      const { lowStockThresholdPercent, notifyLowStock, notifyDryingReminder, dryingReminderDays } = req.body;
+      const { lowStockThresholdPercent, notifyLowStock, notifyDryingReminder, dryingReminderDays, notifyViaEmail } = req.body;
       const updateData: any = {};
 
       if (lowStockThresholdPercent !== undefined) {
@@ -103,6 +104,13 @@ export function registerUserRoutes(app: Express): void {
         updateData.dryingReminderDays = value;
       }
 
+      if (notifyViaEmail !== undefined) {
+        if (typeof notifyViaEmail !== "boolean") {
+          return res.status(400).json({ message: "notifyViaEmail must be a boolean" });
+        }
+        updateData.notifyViaEmail = notifyViaEmail;
+      }
+
       if (Object.keys(updateData).length > 0) {
         await db.update(users).set(updateData).where(eq(users.id, req.userId));
       }
@@ -114,6 +122,23 @@ export function registerUserRoutes(app: Express): void {
     }
   });
 
+  // Update spool lifecycle preferences (auto-archiving spools once empty)
+  app.post("/api/users/spool-preferences", authenticate, async (req, res) => {
+    try {
+      const { autoArchiveEmpty } = req.body;
+      if (typeof autoArchiveEmpty !== "boolean") {
+        return res.status(400).json({ message: "autoArchiveEmpty must be a boolean" });
+      }
+
+      await db.update(users).set({ autoArchiveEmpty }).where(eq(users.id, req.userId));
+
+      res.json({ message: "Spool preferences updated successfully" });
+    } catch (error) {
+      appLogger.error("Update spool preferences error:", error);
+      res.status(500).json({ message: "Server error" });
+    }
+  });
+
   // User management routes (admin only)
   app.get("/api/users", authenticate, isAdmin, async (_req, res) => {
     try {
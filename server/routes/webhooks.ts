@@ -0,0 +1,142 @@
+import type { Express } from "express";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "../storage";
+import { authenticate } from "../auth";
+import { insertWebhookSchema, updateWebhookSchema, type Webhook } from "@shared/schema";
+import { logger as appLogger } from "../utils/logger";
+import { validateId } from "../utils/validation";
+import { generateWebhookSecret, queueWebhookDeliveries } from "../utils/webhooks";
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+// The secret is only returned when it's set (create, or PATCH with a new
+// one), like API tokens - afterwards it's only used to sign deliveries.
+function withoutSecret({ secret, ...rest }: Webhook) {
+  return rest;
+}
+
+/**
+ * Per-user outgoing webhooks. Events are emitted from the routes that write
+ * the usage log or create/delete spools, and from runScheduledChecks; see
+ * server/utils/webhooks.ts for signing and retries.
+ */
+export function registerWebhookRoutes(app: Express): void {
+  app.get("/api/webhooks", authenticate, async (req, res) => {
+    try {
+      const webhooks = await storage.getWebhooks(req.userId);
+      res.json(webhooks.map(withoutSecret));
+    } catch (error) {
+      appLogger.error("Error fetching webhooks:", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post("/api/webhooks", authenticate, async (req, res) => {
+    try {
+      const data = insertWebhookSchema.parse(req.body);
+      const created = await storage.createWebhook(req.userId, {
+        ...data,
+        secret: data.secret ?? generateWebhookSecret(),
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error creating webhook:", error);
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch("/api/webhooks/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid webhook ID" });
+      }
+
+      const data = updateWebhookSchema.parse(req.body);
+      const updated = await storage.updateWebhook(id, data, req.userId);
+      if (!updated) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      res.json(data.secret !== undefined ? updated : withoutSecret(updated));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        return res.status(400).json({ message: validationError.message });
+      }
+      appLogger.error("Error updating webhook:", error);
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid webhook ID" });
+      }
+
+      const success = await storage.deleteWebhook(id, req.userId);
+      if (!success) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      appLogger.error("Error deleting webhook:", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // Delivery log, most recent first
+  app.get("/api/webhooks/:id/deliveries", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid webhook ID" });
+      }
+
+      const webhook = await storage.getWebhook(id, req.userId);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const requested = Number(req.query.limit);
+      const limit = Number.isInteger(requested) && requested > 0
+        ? Math.min(requested, MAX_DELIVERY_LIMIT)
+        : DEFAULT_DELIVERY_LIMIT;
+      res.json(await storage.getWebhookDeliveries(id, limit));
+    } catch (error) {
+      appLogger.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  // Sends a "ping" event, regardless of the webhook's event types or whether
+  // it's enabled, so the receiving end can be checked
+  app.post("/api/webhooks/:id/test", authenticate, async (req, res) => {
+    try {
+      const id = validateId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ message: "Invalid webhook ID" });
+      }
+
+      const webhook = await storage.getWebhook(id, req.userId);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+
+      const [delivery] = await queueWebhookDeliveries([webhook], "ping", { webhookId: webhook.id });
+      res.status(202).json(delivery);
+    } catch (error) {
+      appLogger.error("Error sending test webhook:", error);
+      res.status(500).json({ message: "Failed to send test webhook" });
+    }
+  });
+}
@@ -5,16 +5,32 @@ import {
   materials, type Material, type InsertMaterial,
   colors, type Color, type InsertColor,
   diameters, type Diameter, type InsertDiameter,
-  storageLocations, type StorageLocation, type InsertStorageLocation,
+  storageLocations, type StorageLocation, type InsertStorageLocation, type UpdateStorageLocation,
   filamentUsageLog, type FilamentUsageLog,
+  filamentLocationLog, type FilamentLocationLog, type FilamentLocationMoveSource,
+  printJobs, type PrintJob, type InsertPrintJob, type PrintJobStatus,
+  printerUsageEvents, type PrinterUsageEventRecord,
   customFieldDefinitions, type CustomFieldDefinition, type InsertCustomFieldDefinition,
-  apiTokens, type ApiToken
+  apiTokens, type ApiToken,
+  printers, printerLoadedSpools, type Printer, type PrinterLoadedSpool, type PrinterWithSpools,
+  type InsertPrinter, type UpdatePrinter,
+  labelPrinters, type LabelPrinter, type InsertLabelPrinter, type UpdateLabelPrinter,
+  webhooks, webhookDeliveries, type Webhook, type WebhookDelivery, type InsertWebhook, type UpdateWebhook,
+  notificationChannels, type NotificationChannel, type InsertNotificationChannel, type UpdateNotificationChannel,
+  notifications, type UserNotification, type NotificationType,
+  shoppingListItems, type ShoppingListItem, type ShoppingListEntry, type ShoppingListSource,
+  type InsertShoppingListItem, type FilamentType,
+  purchaseOrders, purchaseOrderItems, type PurchaseOrder, type PurchaseOrderItem,
+  type PurchaseOrderItemEntry, type PurchaseOrderWithItems,
+  exchangeRates, type ExchangeRate
 } from "@shared/schema";
 import { users, type User, type InsertUser } from "@shared/schema";
 import { db } from "./db";
-import { eq, sql, and, inArray, desc, isNull } from "drizzle-orm";
+import { eq, ne, sql, and, or, gte, lt, inArray, desc, isNull, isNotNull, count } from "drizzle-orm";
 import { logger } from "./utils/logger";
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export interface InsertFilamentUsageLog {
   filamentId: number;
   userId: number;
@@ -22,8 +38,106 @@ export interface InsertFilamentUsageLog {
   remainingPercentageAfter: string;
   note?: string;
   source?: string;
+  printJobId?: number;
+  revertsLogId?: number;
+}
+
+// One spool's weight change in grams (negative = consumed)
+export interface FilamentUsageChange {
+  filamentId: number;
+  deltaWeight: number;
+  note?: string; // this spool's entry only, instead of UsageLogOptions.note
+}
+
+export interface UsageLogOptions {
+  note?: string;
+  source: string;
+  printJobId?: number | null;
+  // Idempotency key of a printer event - see printerUsageEvents
+  externalEvent?: { externalJobId: string; sequence?: number };
+  // Instead of printJobId: the print server's job the usage belongs to,
+  // created or ended along with the usage
+  externalPrintJob?: ExternalPrintJob;
+  // The entry this usage backs out - see filamentUsageLog.revertsLogId
+  revertsLogId?: number;
+  // The two changes are one transfer between spools; their entries are
+  // linked to each other - see filamentUsageLog.transferLogId
+  transfer?: boolean;
+}
+
+export interface ExternalPrintJob {
+  job: PrintJobFields & { externalJobId: string }; // used when the job is created
+  // Set by the job's last event: the job ends with this status
+  finalStatus?: Exclude<PrintJobStatus, "printing">;
+}
+
+export interface AppliedFilamentUsage {
+  logs: FilamentUsageLog[];
+  filaments: Filament[]; // updated spools, in the order of the changes
+}
+
+export interface PrintJobWithUsage {
+  job: PrintJob;
+  // undefined only if options made applyFilamentUsage skip (e.g. a duplicate externalEvent)
+  applied: AppliedFilamentUsage | undefined;
+}
+
+// A new spool of a known filament type (a restock), so the type isn't
+// looked up by its fields like createFilament does
+export type NewSpoolOfType = InsertFilament & { filamentTypeId: number };
+
+export interface ReceivedShoppingListItem {
+  item: ShoppingListItem;
+  filaments: Filament[]; // the spools it was received into
 }
 
+export interface CreatedPurchaseOrder {
+  order: PurchaseOrderWithItems;
+  filaments: Filament[]; // the spools created with it
+}
+
+export interface MovedFilaments {
+  moves: FilamentLocationLog[]; // only spools that weren't there already
+  filaments: Filament[];
+}
+
+// New remainingPercentage after applying deltaWeight grams to a spool.
+// totalWeight is stored in kg; the result is clamped to 0-100.
+function remainingPercentageAfterUsage(
+  filament: Pick<Filament, "totalWeight" | "remainingPercentage">,
+  deltaWeight: number,
+): number {
+  const totalWeightGrams = Number(filament.totalWeight) * 1000;
+  const oldPercentage = Number(filament.remainingPercentage);
+  const deltaPercentage = totalWeightGrams > 0 ? (deltaWeight / totalWeightGrams) * 100 : 0;
+  return Math.min(100, Math.max(0, oldPercentage + deltaPercentage));
+}
+
+// The grams a usage change actually moved once clamped to 0-100%, which is
+// what gets logged - a revert or the consumption statistics must not count
+// grams the spool never had (same as PATCH /api/filaments/:id logs it)
+function appliedDeltaWeight(filament: Pick<Filament, "totalWeight">, oldPercentage: number, newPercentage: number): string {
+  return (((newPercentage - oldPercentage) / 100) * Number(filament.totalWeight) * 1000).toFixed(3);
+}
+
+// The archive change for a spool whose remainingPercentage moved from
+// oldPercentage to newPercentage: emptying it archives it when the owner has
+// autoArchiveEmpty on, and bringing an empty spool back above 0% (a refill or
+// a reverted print) restores it. Empty when archivedAt stays as it is.
+export function archiveChangeAfterUsage(
+  oldPercentage: number,
+  newPercentage: number,
+  autoArchiveEmpty: boolean,
+): { archivedAt?: Date | null } {
+  if (autoArchiveEmpty && oldPercentage > 0 && newPercentage <= 0) return { archivedAt: new Date() };
+  if (oldPercentage <= 0 && newPercentage > 0) return { archivedAt: null };
+  return {};
+}
+
+export type PrintJobFields = Omit<InsertPrintJob, "usage"> & {
+  externalJobId?: string | null;
+};
+
 type FilamentTypeFieldsInput = {
   manufacturer?: string | null;
   material: string;
@@ -31,6 +145,7 @@ type FilamentTypeFieldsInput = {
   colorCode?: string | null;
   diameter?: string | null;
   printTemp?: string | null;
+  spoolWeight?: string | null;
 };
 
 // Finds an existing filamentTypes row matching all product-identity fields
@@ -54,7 +169,14 @@ async function findOrCreateFilamentType(userId: number, fields: FilamentTypeFiel
   ];
 
   const [existing] = await db.select().from(filamentTypes).where(and(...conditions));
-  if (existing) return existing.id;
+  if (existing) {
+    // spoolWeight describes the product without identifying it, so a new
+    // value updates the matched type rather than splitting off another one
+    if (fields.spoolWeight !== undefined && fields.spoolWeight !== existing.spoolWeight) {
+      await db.update(filamentTypes).set({ spoolWeight: fields.spoolWeight }).where(eq(filamentTypes.id, existing.id));
+    }
+    return existing.id;
+  }
 
   const [created] = await db.insert(filamentTypes).values({
     userId,
@@ -64,6 +186,7 @@ async function findOrCreateFilamentType(userId: number, fields: FilamentTypeFiel
     colorCode,
     diameter,
     printTemp,
+    spoolWeight: fields.spoolWeight ?? null,
   }).returning();
   return created.id;
 }
@@ -80,22 +203,80 @@ const FILAMENT_SELECT_COLUMNS = {
   remainingPercentage: filaments.remainingPercentage,
   purchaseDate: filaments.purchaseDate,
   purchasePrice: filaments.purchasePrice,
+  purchaseCurrency: filaments.purchaseCurrency,
   status: filaments.status,
   spoolType: filaments.spoolType,
   dryerCount: filaments.dryerCount,
   lastDryingDate: filaments.lastDryingDate,
   storageLocation: filaments.storageLocation,
   lowStockNotifiedAt: filaments.lowStockNotifiedAt,
+  lowStockListedAt: filaments.lowStockListedAt,
   dryingReminderNotifiedAt: filaments.dryingReminderNotifiedAt,
   customFieldValues: filaments.customFieldValues,
+  archivedAt: filaments.archivedAt,
   manufacturer: filamentTypes.manufacturer,
   material: filamentTypes.material,
   colorName: filamentTypes.colorName,
   colorCode: filamentTypes.colorCode,
   diameter: filamentTypes.diameter,
   printTemp: filamentTypes.printTemp,
+  spoolWeight: filamentTypes.spoolWeight,
 };
 
+const SHOPPING_LIST_SELECT_COLUMNS = {
+  id: shoppingListItems.id,
+  userId: shoppingListItems.userId,
+  filamentTypeId: shoppingListItems.filamentTypeId,
+  quantity: shoppingListItems.quantity,
+  status: shoppingListItems.status,
+  source: shoppingListItems.source,
+  note: shoppingListItems.note,
+  orderedAt: shoppingListItems.orderedAt,
+  receivedAt: shoppingListItems.receivedAt,
+  createdAt: shoppingListItems.createdAt,
+  manufacturer: filamentTypes.manufacturer,
+  material: filamentTypes.material,
+  colorName: filamentTypes.colorName,
+  colorCode: filamentTypes.colorCode,
+  diameter: filamentTypes.diameter,
+};
+
+const PURCHASE_ORDER_ITEM_SELECT_COLUMNS = {
+  id: purchaseOrderItems.id,
+  purchaseOrderId: purchaseOrderItems.purchaseOrderId,
+  filamentTypeId: purchaseOrderItems.filamentTypeId,
+  quantity: purchaseOrderItems.quantity,
+  pricePerSpool: purchaseOrderItems.pricePerSpool,
+  weightKg: purchaseOrderItems.weightKg,
+  manufacturer: filamentTypes.manufacturer,
+  material: filamentTypes.material,
+  colorName: filamentTypes.colorName,
+  colorCode: filamentTypes.colorCode,
+};
+
+type PurchaseOrderFields = Omit<PurchaseOrder, "id" | "userId" | "createdAt">;
+type PurchaseOrderItemFields = Omit<PurchaseOrderItem, "id" | "purchaseOrderId">;
+
+async function attachPurchaseOrderItems(orders: PurchaseOrder[]): Promise<PurchaseOrderWithItems[]> {
+  if (orders.length === 0) return [];
+  const items = await db.select(PURCHASE_ORDER_ITEM_SELECT_COLUMNS).from(purchaseOrderItems)
+    .innerJoin(filamentTypes, eq(purchaseOrderItems.filamentTypeId, filamentTypes.id))
+    .where(inArray(purchaseOrderItems.purchaseOrderId, orders.map((order) => order.id)))
+    .orderBy(purchaseOrderItems.id);
+  return orders.map((order) => ({ ...order, items: items.filter((item) => item.purchaseOrderId === order.id) }));
+}
+
+async function attachLoadedSpools(rows: Printer[]): Promise<PrinterWithSpools[]> {
+  if (rows.length === 0) return [];
+  const loaded = await db.select().from(printerLoadedSpools)
+    .where(inArray(printerLoadedSpools.printerId, rows.map((p) => p.id)))
+    .orderBy(printerLoadedSpools.toolIndex);
+  return rows.map((printer) => ({
+    ...printer,
+    loadedSpools: loaded.filter((spool) => spool.printerId === printer.id),
+  }));
+}
+
 // Modify the interface with any CRUD methods
 // you might need
 export interface IStorage {
@@ -117,7 +298,24 @@ export interface IStorage {
 
   // Filament usage log
   getFilamentUsageLog(filamentId: number, userId: number): Promise<FilamentUsageLog[]>;
+  getUsageLogsBetween(userId: number, from: Date, to: Date): Promise<FilamentUsageLog[]>;
   createFilamentUsageLog(entry: InsertFilamentUsageLog): Promise<FilamentUsageLog>;
+  applyFilamentUsage(userId: number, changes: FilamentUsageChange[], options: UsageLogOptions): Promise<AppliedFilamentUsage | undefined>;
+  getPrinterUsageEvent(userId: number, externalJobId: string, sequence?: number): Promise<PrinterUsageEventRecord | undefined>;
+  getPrintJobUsageLogs(userId: number, printJobId?: number): Promise<FilamentUsageLog[]>;
+
+  // Storage location moves
+  getFilamentLocationLog(filamentId: number, userId: number): Promise<FilamentLocationLog[]>;
+  moveFilaments(userId: number, filamentIds: number[], storageLocation: string | null, source: FilamentLocationMoveSource): Promise<MovedFilaments | undefined>;
+
+  // Print jobs
+  getPrintJobs(userId: number): Promise<PrintJob[]>;
+  getPrintJob(id: number, userId: number): Promise<PrintJob | undefined>;
+  getPrintJobByExternalId(externalJobId: string, userId: number): Promise<PrintJob | undefined>;
+  createPrintJob(userId: number, job: PrintJobFields): Promise<PrintJob>;
+  createPrintJobWithUsage(userId: number, job: PrintJobFields, changes: FilamentUsageChange[], options: Omit<UsageLogOptions, "printJobId">): Promise<PrintJobWithUsage>;
+  updatePrintJob(id: number, job: Partial<PrintJobFields>, userId: number): Promise<PrintJob | undefined>;
+  deletePrintJob(id: number, userId: number): Promise<boolean>;
 
   // Custom field definitions
   getCustomFieldDefinitions(userId: number): Promise<CustomFieldDefinition[]>;
@@ -128,9 +326,93 @@ export interface IStorage {
   getApiTokens(userId: number): Promise<ApiToken[]>;
   createApiToken(userId: number, tokenHash: string, label: string | undefined): Promise<ApiToken>;
   deleteApiToken(id: number, userId: number): Promise<boolean>;
-  getUserIdByTokenHash(tokenHash: string): Promise<number | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
   touchApiTokenLastUsed(id: number): Promise<void>;
 
+  // Printers and the spools loaded in their tools
+  getPrinters(userId: number): Promise<PrinterWithSpools[]>;
+  getPrinter(id: number, userId: number): Promise<PrinterWithSpools | undefined>;
+  getPrinterByApiToken(apiTokenId: number, userId: number): Promise<PrinterWithSpools | undefined>;
+  createPrinter(userId: number, printer: InsertPrinter): Promise<PrinterWithSpools>;
+  updatePrinter(id: number, printer: UpdatePrinter, userId: number): Promise<PrinterWithSpools | undefined>;
+  deletePrinter(id: number, userId: number): Promise<boolean>;
+  loadSpool(printerId: number, toolIndex: number, filamentId: number): Promise<PrinterLoadedSpool>;
+  unloadSpool(printerId: number, toolIndex: number): Promise<boolean>;
+
+  // Label printers that labels are sent to directly
+  getLabelPrinters(userId: number): Promise<LabelPrinter[]>;
+  getLabelPrinter(id: number, userId: number): Promise<LabelPrinter | undefined>;
+  createLabelPrinter(userId: number, printer: InsertLabelPrinter): Promise<LabelPrinter>;
+  updateLabelPrinter(id: number, printer: UpdateLabelPrinter, userId: number): Promise<LabelPrinter | undefined>;
+  deleteLabelPrinter(id: number, userId: number): Promise<boolean>;
+
+  // Outgoing webhooks and their delivery log
+  getWebhooks(userId: number): Promise<Webhook[]>;
+  getWebhook(id: number, userId: number): Promise<Webhook | undefined>;
+  createWebhook(userId: number, webhook: InsertWebhook & { secret: string }): Promise<Webhook>;
+  updateWebhook(id: number, webhook: UpdateWebhook, userId: number): Promise<Webhook | undefined>;
+  deleteWebhook(id: number, userId: number): Promise<boolean>;
+  getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]>;
+
+  // Notification channels (ntfy, Gotify, chat webhooks, ...) besides email
+  getNotificationChannels(userId: number): Promise<NotificationChannel[]>;
+  getNotificationChannel(id: number, userId: number): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(userId: number, channel: InsertNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(id: number, channel: UpdateNotificationChannel, userId: number): Promise<NotificationChannel | undefined>;
+  deleteNotificationChannel(id: number, userId: number): Promise<boolean>;
+
+  // In-app notification center
+  getNotifications(userId: number, limit: number): Promise<UserNotification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  createNotification(userId: number, type: NotificationType, data: Record<string, unknown>): Promise<UserNotification>;
+  markNotificationRead(id: number, userId: number): Promise<UserNotification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  deleteNotification(id: number, userId: number): Promise<boolean>;
+
+  // Shopping list / reorder planner
+  getFilamentType(id: number, userId: number): Promise<FilamentType | undefined>;
+  getShoppingList(userId: number, includeReceived: boolean): Promise<ShoppingListEntry[]>;
+  getShoppingListItem(id: number, userId: number): Promise<ShoppingListEntry | undefined>;
+  createShoppingListItem(userId: number, item: InsertShoppingListItem & { source: ShoppingListSource }): Promise<ShoppingListItem>;
+  updateShoppingListItem(
+    id: number,
+    changes: Partial<Pick<ShoppingListItem, "quantity" | "note" | "status" | "orderedAt" | "receivedAt">>,
+    userId: number,
+  ): Promise<ShoppingListItem | undefined>;
+  deleteShoppingListItem(id: number, userId: number): Promise<boolean>;
+  // Marks the item received and creates its spools in one go; undefined if
+  // it doesn't exist or was already received
+  receiveShoppingListItem(id: number, userId: number, quantity: number, spools: NewSpoolOfType[]): Promise<ReceivedShoppingListItem | undefined>;
+  // Adds an open item for each type not already open or ordered, with the
+  // given quantity (default 1); returns the new items
+  addToShoppingList(
+    userId: number,
+    filamentTypeIds: number[],
+    source: ShoppingListSource,
+    quantities?: Map<number, number>,
+  ): Promise<ShoppingListItem[]>;
+
+  // Filament types (minimum stock levels)
+  getFilamentTypes(userId: number): Promise<FilamentType[]>;
+  updateFilamentType(
+    id: number,
+    changes: Partial<Pick<FilamentType, "minStockQuantity" | "minStockUnit" | "minStockNotifiedAt">>,
+    userId: number,
+  ): Promise<FilamentType | undefined>;
+
+  // Purchase orders; their items make up each filament type's price history
+  getPurchaseOrders(userId: number): Promise<PurchaseOrderWithItems[]>;
+  getPurchaseOrder(id: number, userId: number): Promise<PurchaseOrderWithItems | undefined>;
+  // Also creates `spools` (the bought spools), all in one go
+  createPurchaseOrder(userId: number, order: PurchaseOrderFields, items: PurchaseOrderItemFields[], spools?: NewSpoolOfType[]): Promise<CreatedPurchaseOrder>;
+  updatePurchaseOrder(id: number, changes: Partial<PurchaseOrderFields>, userId: number): Promise<PurchaseOrder | undefined>;
+  deletePurchaseOrder(id: number, userId: number): Promise<boolean>;
+
+  // Exchange rates (global, admin-maintained) - units of each currency per 1 EUR
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  setExchangeRates(rates: { currency: string; ratePerEur: string }[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(currency: string): Promise<boolean>;
+
   // Manufacturer operations
   getManufacturers(): Promise<Manufacturer[]>;
   createManufacturer(manufacturer: InsertManufacturer): Promise<Manufacturer>;
@@ -155,7 +437,11 @@ export interface IStorage {
 
   // Storage Location operations
   getStorageLocations(): Promise<StorageLocation[]>;
+  // Active spools per location name across all users - locations are shared,
+  // so this is what their capacity is checked against
+  getStorageLocationOccupancy(): Promise<Map<string, number>>;
   createStorageLocation(location: InsertStorageLocation): Promise<StorageLocation>;
+  updateStorageLocation(id: number, data: UpdateStorageLocation): Promise<StorageLocation | undefined>;
   deleteStorageLocation(id: number): Promise<boolean>;
   updateStorageLocationOrder(id: number, newOrder: number): Promise<StorageLocation | undefined>;
 }
@@ -200,8 +486,8 @@ export class DatabaseStorage implements IStorage {
 
     logger.debug(`Getting public filaments for user: ${user.username} (ID: ${userId})`);
 
-    // Get filaments
-    const allFilaments = await this.getFilaments(userId);
+    // Get filaments, without archived spools
+    const allFilaments = (await this.getFilaments(userId)).filter((filament) => !filament.archivedAt);
 
     // Apply filter if provided
     const filteredFilaments = filterFn ? allFilaments.filter(filterFn) : allFilaments;
@@ -232,13 +518,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createFilament(insertFilament: InsertFilament): Promise<Filament> {
-    const { manufacturer, material, colorName, colorCode, diameter, printTemp, ...spoolFields } = insertFilament;
+    const { manufacturer, material, colorName, colorCode, diameter, printTemp, spoolWeight, ...spoolFields } = insertFilament;
     if (spoolFields.userId == null) {
       throw new Error("createFilament requires a userId");
     }
 
     const filamentTypeId = await findOrCreateFilamentType(spoolFields.userId, {
-      manufacturer, material, colorName, colorCode, diameter, printTemp,
+      manufacturer, material, colorName, colorCode, diameter, printTemp, spoolWeight,
     });
     const [created] = await db.insert(filaments).values({ ...spoolFields, filamentTypeId }).returning();
 
@@ -252,8 +538,8 @@ export class DatabaseStorage implements IStorage {
       const existing = await this.getFilament(id, userId);
       if (!existing) return undefined;
 
-      const { manufacturer, material, colorName, colorCode, diameter, printTemp, ...spoolFields } = updateFilament;
-      const typeFieldsChanged = [manufacturer, material, colorName, colorCode, diameter, printTemp]
+      const { manufacturer, material, colorName, colorCode, diameter, printTemp, spoolWeight, ...spoolFields } = updateFilament;
+      const typeFieldsChanged = [manufacturer, material, colorName, colorCode, diameter, printTemp, spoolWeight]
         .some((value) => value !== undefined);
 
       const dbUpdate: Partial<typeof filaments.$inferInsert> = { ...spoolFields };
@@ -265,6 +551,7 @@ export class DatabaseStorage implements IStorage {
           colorCode: colorCode !== undefined ? colorCode : existing.colorCode,
           diameter: diameter !== undefined ? diameter : existing.diameter,
           printTemp: printTemp !== undefined ? printTemp : existing.printTemp,
+          spoolWeight,
         });
       }
 
@@ -335,6 +622,20 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(filamentUsageLog.createdAt));
   }
 
+  // A user's usage rows in [from, to), oldest first - for aggregation, so
+  // reverted entries and the entries reverting them are left out
+  async getUsageLogsBetween(userId: number, from: Date, to: Date): Promise<FilamentUsageLog[]> {
+    return await db.select().from(filamentUsageLog)
+      .where(and(
+        eq(filamentUsageLog.userId, userId),
+        gte(filamentUsageLog.createdAt, from),
+        lt(filamentUsageLog.createdAt, to),
+        isNull(filamentUsageLog.revertsLogId),
+        sql`NOT EXISTS (SELECT 1 FROM filament_usage_log r WHERE r.reverts_log_id = ${filamentUsageLog.id})`,
+      ))
+      .orderBy(filamentUsageLog.createdAt);
+  }
+
   async createFilamentUsageLog(entry: InsertFilamentUsageLog): Promise<FilamentUsageLog> {
     const [log] = await db
       .insert(filamentUsageLog)
@@ -343,6 +644,250 @@ export class DatabaseStorage implements IStorage {
     return log;
   }
 
+  // Applies every change and writes its usage log row in one transaction, so
+  // a multi-spool print either lands completely or not at all. Throws (and
+  // rolls back) if any spool doesn't belong to the user.
+  //
+  // With options.externalEvent, the event's key is claimed first; if it's
+  // already taken (a retried event, or a concurrent duplicate - which waits on
+  // the unique index until the original commits) nothing is applied and
+  // undefined is returned, so the caller can replay the stored result.
+  //
+  // With options.revertsLogId, the reverted entry is locked first and
+  // undefined is returned if something already reverted it.
+  async applyFilamentUsage(userId: number, changes: FilamentUsageChange[], options: UsageLogOptions): Promise<AppliedFilamentUsage | undefined> {
+    return await db.transaction((tx) => this.applyFilamentUsageIn(tx, userId, changes, options));
+  }
+
+  // The job and its usage in one transaction, so a failing change doesn't
+  // leave a job behind with nothing logged against it
+  async createPrintJobWithUsage(userId: number, job: PrintJobFields, changes: FilamentUsageChange[], options: Omit<UsageLogOptions, "printJobId">): Promise<PrintJobWithUsage> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(printJobs).values({ ...job, userId }).returning();
+      const applied = await this.applyFilamentUsageIn(tx, userId, changes, { ...options, printJobId: created.id });
+      return { job: created, applied };
+    });
+  }
+
+  private async applyFilamentUsageIn(tx: Transaction, userId: number, changes: FilamentUsageChange[], options: UsageLogOptions): Promise<AppliedFilamentUsage | undefined> {
+    if (options.revertsLogId !== undefined) {
+      await tx.select({ id: filamentUsageLog.id }).from(filamentUsageLog)
+        .where(eq(filamentUsageLog.id, options.revertsLogId))
+        .for("update");
+      const [existingRevert] = await tx.select({ id: filamentUsageLog.id }).from(filamentUsageLog)
+        .where(eq(filamentUsageLog.revertsLogId, options.revertsLogId));
+      if (existingRevert) return undefined;
+    }
+
+    let eventId: number | undefined;
+    if (options.externalEvent) {
+      const [claimed] = await tx
+        .insert(printerUsageEvents)
+        .values({
+          userId,
+          externalJobId: options.externalEvent.externalJobId,
+          sequence: options.externalEvent.sequence ?? null,
+          result: [],
+        })
+        .onConflictDoNothing()
+        .returning({ id: printerUsageEvents.id });
+      if (!claimed) return undefined;
+      eventId = claimed.id;
+    }
+
+    // Only after the event is claimed, so a replay leaves the job alone
+    const printJobId = options.externalPrintJob
+      ? await this.upsertExternalPrintJobIn(tx, userId, options.externalPrintJob)
+      : options.printJobId;
+
+    const [owner] = await tx.select({ autoArchiveEmpty: users.autoArchiveEmpty })
+      .from(users).where(eq(users.id, userId));
+
+    const logs: FilamentUsageLog[] = [];
+    for (const change of changes) {
+      const [current] = await tx
+        .select({ totalWeight: filaments.totalWeight, remainingPercentage: filaments.remainingPercentage })
+        .from(filaments)
+        .where(and(eq(filaments.id, change.filamentId), eq(filaments.userId, userId)))
+        .for("update");
+      if (!current) {
+        throw new Error(`Filament ${change.filamentId} not found`);
+      }
+
+      const oldPercentage = Number(current.remainingPercentage);
+      const newPercentage = remainingPercentageAfterUsage(current, change.deltaWeight);
+      await tx
+        .update(filaments)
+        .set({
+          remainingPercentage: newPercentage.toString(),
+          // A top-up clears the low-stock latches (see PATCH /api/filaments/:id)
+          ...(newPercentage > oldPercentage ? { lowStockNotifiedAt: null, lowStockListedAt: null } : {}),
+          ...archiveChangeAfterUsage(oldPercentage, newPercentage, !!owner?.autoArchiveEmpty),
+        })
+        .where(and(eq(filaments.id, change.filamentId), eq(filaments.userId, userId)));
+
+      const [log] = await tx
+        .insert(filamentUsageLog)
+        .values({
+          filamentId: change.filamentId,
+          userId,
+          deltaWeight: appliedDeltaWeight(current, oldPercentage, newPercentage),
+          remainingPercentageAfter: newPercentage.toString(),
+          note: change.note ?? options.note,
+          source: options.source,
+          printJobId: printJobId ?? undefined,
+          revertsLogId: options.revertsLogId,
+        })
+        .returning();
+      logs.push(log);
+    }
+
+    if (options.transfer && logs.length === 2) {
+      const [from, to] = logs;
+      [logs[0]] = await tx.update(filamentUsageLog).set({ transferLogId: to.id })
+        .where(eq(filamentUsageLog.id, from.id)).returning();
+      [logs[1]] = await tx.update(filamentUsageLog).set({ transferLogId: from.id })
+        .where(eq(filamentUsageLog.id, to.id)).returning();
+    }
+
+    const updatedFilaments: Filament[] = [];
+    for (const change of changes) {
+      const [filament] = await tx.select(FILAMENT_SELECT_COLUMNS).from(filaments)
+        .innerJoin(filamentTypes, eq(filaments.filamentTypeId, filamentTypes.id))
+        .where(and(eq(filaments.id, change.filamentId), eq(filaments.userId, userId)));
+      updatedFilaments.push(filament);
+    }
+
+    if (eventId !== undefined) {
+      await tx
+        .update(printerUsageEvents)
+        .set({ result: updatedFilaments })
+        .where(eq(printerUsageEvents.id, eventId));
+    }
+
+    return { logs, filaments: updatedFilaments };
+  }
+
+  // Creates the job on its first event and ends it on its last; the unique
+  // (user_id, external_job_id) index makes concurrent first events share one
+  private async upsertExternalPrintJobIn(tx: Transaction, userId: number, { job, finalStatus }: ExternalPrintJob): Promise<number> {
+    const ended = finalStatus ? { status: finalStatus, endedAt: new Date() } : undefined;
+    const [upserted] = await tx
+      .insert(printJobs)
+      .values({ ...job, ...ended, userId })
+      .onConflictDoUpdate({
+        target: [printJobs.userId, printJobs.externalJobId],
+        // A no-op update when nothing changes, so the row is still returned
+        set: ended ?? { externalJobId: job.externalJobId },
+      })
+      .returning({ id: printJobs.id });
+    return upserted.id;
+  }
+
+  async getPrinterUsageEvent(userId: number, externalJobId: string, sequence?: number): Promise<PrinterUsageEventRecord | undefined> {
+    const [event] = await db.select().from(printerUsageEvents)
+      .where(and(
+        eq(printerUsageEvents.userId, userId),
+        eq(printerUsageEvents.externalJobId, externalJobId),
+        sequence !== undefined ? eq(printerUsageEvents.sequence, sequence) : isNull(printerUsageEvents.sequence),
+      ));
+    return event || undefined;
+  }
+
+  // Usage rows attributed to a print job - all of the user's, or one job's
+  async getPrintJobUsageLogs(userId: number, printJobId?: number): Promise<FilamentUsageLog[]> {
+    return await db.select().from(filamentUsageLog)
+      .where(and(
+        eq(filamentUsageLog.userId, userId),
+        printJobId !== undefined ? eq(filamentUsageLog.printJobId, printJobId) : isNotNull(filamentUsageLog.printJobId),
+      ))
+      .orderBy(desc(filamentUsageLog.createdAt));
+  }
+
+  // Storage location move implementations
+  async getFilamentLocationLog(filamentId: number, userId: number): Promise<FilamentLocationLog[]> {
+    return await db.select().from(filamentLocationLog)
+      .where(and(eq(filamentLocationLog.filamentId, filamentId), eq(filamentLocationLog.userId, userId)))
+      .orderBy(desc(filamentLocationLog.createdAt));
+  }
+
+  // Moves the spools and logs each one that actually changed location, in
+  // one transaction. Returns undefined, changing nothing, if any spool
+  // doesn't belong to the user.
+  async moveFilaments(userId: number, filamentIds: number[], storageLocation: string | null, source: FilamentLocationMoveSource): Promise<MovedFilaments | undefined> {
+    const ids = Array.from(new Set(filamentIds));
+    const moves = await db.transaction(async (tx) => {
+      const rows = await tx.select({ id: filaments.id, storageLocation: filaments.storageLocation }).from(filaments)
+        .where(and(eq(filaments.userId, userId), inArray(filaments.id, ids)))
+        .for("update");
+      if (rows.length !== ids.length) return undefined;
+
+      const moved = rows.filter((row) => row.storageLocation !== storageLocation);
+      if (moved.length === 0) return [];
+
+      await tx.update(filaments)
+        .set({ storageLocation })
+        .where(inArray(filaments.id, moved.map((row) => row.id)));
+      return await tx.insert(filamentLocationLog)
+        .values(moved.map((row) => ({
+          filamentId: row.id,
+          userId,
+          fromLocation: row.storageLocation,
+          toLocation: storageLocation,
+          source,
+        })))
+        .returning();
+    });
+    if (!moves) return undefined;
+
+    const updated = await Promise.all(ids.map((id) => this.getFilament(id, userId)));
+    return { moves, filaments: updated.filter((filament): filament is Filament => !!filament) };
+  }
+
+  // Print job implementations
+  async getPrintJobs(userId: number): Promise<PrintJob[]> {
+    return await db.select().from(printJobs)
+      .where(eq(printJobs.userId, userId))
+      .orderBy(desc(printJobs.createdAt));
+  }
+
+  async getPrintJob(id: number, userId: number): Promise<PrintJob | undefined> {
+    const [job] = await db.select().from(printJobs)
+      .where(and(eq(printJobs.id, id), eq(printJobs.userId, userId)));
+    return job || undefined;
+  }
+
+  async getPrintJobByExternalId(externalJobId: string, userId: number): Promise<PrintJob | undefined> {
+    const [job] = await db.select().from(printJobs)
+      .where(and(eq(printJobs.externalJobId, externalJobId), eq(printJobs.userId, userId)));
+    return job || undefined;
+  }
+
+  async createPrintJob(userId: number, job: PrintJobFields): Promise<PrintJob> {
+    const [created] = await db
+      .insert(printJobs)
+      .values({ ...job, userId })
+      .returning();
+    return created;
+  }
+
+  async updatePrintJob(id: number, job: Partial<PrintJobFields>, userId: number): Promise<PrintJob | undefined> {
+    const [updated] = await db
+      .update(printJobs)
+      .set(job)
+      .where(and(eq(printJobs.id, id), eq(printJobs.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deletePrintJob(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(printJobs)
+      .where(and(eq(printJobs.id, id), eq(printJobs.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
   // Custom field definition implementations
   async getCustomFieldDefinitions(userId: number): Promise<CustomFieldDefinition[]> {
     return await db.select().from(customFieldDefinitions).where(eq(customFieldDefinitions.userId, userId));
@@ -382,19 +927,444 @@ export class DatabaseStorage implements IStorage {
     return !!deleted;
   }
 
-  async getUserIdByTokenHash(tokenHash: string): Promise<number | undefined> {
-    const [row] = await db.select({ userId: apiTokens.userId, id: apiTokens.id }).from(apiTokens)
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [row] = await db.select().from(apiTokens)
       .where(eq(apiTokens.tokenHash, tokenHash));
     if (row) {
       await this.touchApiTokenLastUsed(row.id);
     }
-    return row?.userId;
+    return row || undefined;
   }
 
   async touchApiTokenLastUsed(id: number): Promise<void> {
     await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
   }
 
+  // Printer implementations
+  async getPrinters(userId: number): Promise<PrinterWithSpools[]> {
+    const rows = await db.select().from(printers)
+      .where(eq(printers.userId, userId))
+      .orderBy(printers.name);
+    return await attachLoadedSpools(rows);
+  }
+
+  async getPrinter(id: number, userId: number): Promise<PrinterWithSpools | undefined> {
+    const rows = await db.select().from(printers)
+      .where(and(eq(printers.id, id), eq(printers.userId, userId)));
+    const [printer] = await attachLoadedSpools(rows);
+    return printer;
+  }
+
+  async getPrinterByApiToken(apiTokenId: number, userId: number): Promise<PrinterWithSpools | undefined> {
+    const rows = await db.select().from(printers)
+      .where(and(eq(printers.apiTokenId, apiTokenId), eq(printers.userId, userId)));
+    const [printer] = await attachLoadedSpools(rows);
+    return printer;
+  }
+
+  async createPrinter(userId: number, printer: InsertPrinter): Promise<PrinterWithSpools> {
+    const [created] = await db.insert(printers).values({ ...printer, userId }).returning();
+    return { ...created, loadedSpools: [] };
+  }
+
+  async updatePrinter(id: number, printer: UpdatePrinter, userId: number): Promise<PrinterWithSpools | undefined> {
+    const [updated] = await db
+      .update(printers)
+      .set(printer)
+      .where(and(eq(printers.id, id), eq(printers.userId, userId)))
+      .returning();
+    if (!updated) return undefined;
+
+    // Tools removed by a lower toolCount can't hold spools any more
+    await db.delete(printerLoadedSpools)
+      .where(and(eq(printerLoadedSpools.printerId, id), gte(printerLoadedSpools.toolIndex, updated.toolCount)));
+
+    const [withSpools] = await attachLoadedSpools([updated]);
+    return withSpools;
+  }
+
+  async deletePrinter(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(printers)
+      .where(and(eq(printers.id, id), eq(printers.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Loading a spool replaces whatever the tool held, and takes the spool out
+  // of any other tool it was in.
+  async loadSpool(printerId: number, toolIndex: number, filamentId: number): Promise<PrinterLoadedSpool> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(printerLoadedSpools).where(or(
+        eq(printerLoadedSpools.filamentId, filamentId),
+        and(eq(printerLoadedSpools.printerId, printerId), eq(printerLoadedSpools.toolIndex, toolIndex)),
+      ));
+      const [loaded] = await tx.insert(printerLoadedSpools)
+        .values({ printerId, toolIndex, filamentId })
+        .returning();
+      return loaded;
+    });
+  }
+
+  async unloadSpool(printerId: number, toolIndex: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(printerLoadedSpools)
+      .where(and(eq(printerLoadedSpools.printerId, printerId), eq(printerLoadedSpools.toolIndex, toolIndex)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Webhook implementations
+  async getWebhooks(userId: number): Promise<Webhook[]> {
+    return await db.select().from(webhooks)
+      .where(eq(webhooks.userId, userId))
+      .orderBy(webhooks.createdAt);
+  }
+
+  async getWebhook(id: number, userId: number): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)));
+    return webhook;
+  }
+
+  async createWebhook(userId: number, webhook: InsertWebhook & { secret: string }): Promise<Webhook> {
+    const [created] = await db.insert(webhooks).values({ ...webhook, userId }).returning();
+    return created;
+  }
+
+  async updateWebhook(id: number, webhook: UpdateWebhook, userId: number): Promise<Webhook | undefined> {
+    const [updated] = await db
+      .update(webhooks)
+      .set(webhook)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhook(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Most recent first; callers check the webhook belongs to the user
+  async getWebhookDeliveries(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+    return await db.select().from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  // Label printer implementations
+  async getLabelPrinters(userId: number): Promise<LabelPrinter[]> {
+    return await db.select().from(labelPrinters)
+      .where(eq(labelPrinters.userId, userId))
+      .orderBy(labelPrinters.name);
+  }
+
+  async getLabelPrinter(id: number, userId: number): Promise<LabelPrinter | undefined> {
+    const [printer] = await db.select().from(labelPrinters)
+      .where(and(eq(labelPrinters.id, id), eq(labelPrinters.userId, userId)));
+    return printer;
+  }
+
+  async createLabelPrinter(userId: number, printer: InsertLabelPrinter): Promise<LabelPrinter> {
+    const [created] = await db.insert(labelPrinters).values({ ...printer, userId }).returning();
+    return created;
+  }
+
+  async updateLabelPrinter(id: number, printer: UpdateLabelPrinter, userId: number): Promise<LabelPrinter | undefined> {
+    const [updated] = await db
+      .update(labelPrinters)
+      .set(printer)
+      .where(and(eq(labelPrinters.id, id), eq(labelPrinters.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteLabelPrinter(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(labelPrinters)
+      .where(and(eq(labelPrinters.id, id), eq(labelPrinters.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Notification channel implementations
+  async getNotificationChannels(userId: number): Promise<NotificationChannel[]> {
+    return await db.select().from(notificationChannels)
+      .where(eq(notificationChannels.userId, userId))
+      .orderBy(notificationChannels.createdAt);
+  }
+
+  async getNotificationChannel(id: number, userId: number): Promise<NotificationChannel | undefined> {
+    const [channel] = await db.select().from(notificationChannels)
+      .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId)));
+    return channel;
+  }
+
+  async createNotificationChannel(userId: number, channel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const [created] = await db.insert(notificationChannels).values({ ...channel, userId }).returning();
+    return created;
+  }
+
+  async updateNotificationChannel(id: number, channel: UpdateNotificationChannel, userId: number): Promise<NotificationChannel | undefined> {
+    const [updated] = await db
+      .update(notificationChannels)
+      .set(channel)
+      .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteNotificationChannel(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(notificationChannels)
+      .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Notification center implementations
+  async getNotifications(userId: number, limit: number): Promise<UserNotification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [row] = await db.select({ count: count() }).from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  async createNotification(userId: number, type: NotificationType, data: Record<string, unknown>): Promise<UserNotification> {
+    const [created] = await db.insert(notifications).values({ userId, type, data }).returning();
+    return created;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<UserNotification | undefined> {
+    // Keeps the original readAt if it was already read
+    const [updated] = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async deleteNotification(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Shopping list implementations
+  async getFilamentType(id: number, userId: number): Promise<FilamentType | undefined> {
+    const [filamentType] = await db.select().from(filamentTypes)
+      .where(and(eq(filamentTypes.id, id), eq(filamentTypes.userId, userId)));
+    return filamentType;
+  }
+
+  async getShoppingList(userId: number, includeReceived: boolean): Promise<ShoppingListEntry[]> {
+    const conditions = [eq(shoppingListItems.userId, userId)];
+    if (!includeReceived) {
+      conditions.push(inArray(shoppingListItems.status, ["open", "ordered"]));
+    }
+    return await db.select(SHOPPING_LIST_SELECT_COLUMNS).from(shoppingListItems)
+      .innerJoin(filamentTypes, eq(shoppingListItems.filamentTypeId, filamentTypes.id))
+      .where(and(...conditions))
+      .orderBy(shoppingListItems.createdAt, shoppingListItems.id);
+  }
+
+  async getShoppingListItem(id: number, userId: number): Promise<ShoppingListEntry | undefined> {
+    const [item] = await db.select(SHOPPING_LIST_SELECT_COLUMNS).from(shoppingListItems)
+      .innerJoin(filamentTypes, eq(shoppingListItems.filamentTypeId, filamentTypes.id))
+      .where(and(eq(shoppingListItems.id, id), eq(shoppingListItems.userId, userId)));
+    return item;
+  }
+
+  async createShoppingListItem(userId: number, item: InsertShoppingListItem & { source: ShoppingListSource }): Promise<ShoppingListItem> {
+    const [created] = await db.insert(shoppingListItems).values({ ...item, userId }).returning();
+    return created;
+  }
+
+  async updateShoppingListItem(
+    id: number,
+    changes: Partial<Pick<ShoppingListItem, "quantity" | "note" | "status" | "orderedAt" | "receivedAt">>,
+    userId: number,
+  ): Promise<ShoppingListItem | undefined> {
+    const [updated] = await db
+      .update(shoppingListItems)
+      .set(changes)
+      .where(and(eq(shoppingListItems.id, id), eq(shoppingListItems.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteShoppingListItem(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(shoppingListItems)
+      .where(and(eq(shoppingListItems.id, id), eq(shoppingListItems.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // The conditional update claims the item, so of two concurrent receives
+  // only one gets a row back and creates spools
+  async receiveShoppingListItem(id: number, userId: number, quantity: number, spools: NewSpoolOfType[]): Promise<ReceivedShoppingListItem | undefined> {
+    return await db.transaction(async (tx) => {
+      const [item] = await tx
+        .update(shoppingListItems)
+        .set({ status: "received", quantity, receivedAt: new Date() })
+        .where(and(
+          eq(shoppingListItems.id, id),
+          eq(shoppingListItems.userId, userId),
+          ne(shoppingListItems.status, "received"),
+        ))
+        .returning();
+      if (!item) return undefined;
+      return { item, filaments: await this.insertSpoolsIn(tx, userId, spools) };
+    });
+  }
+
+  private async insertSpoolsIn(tx: Transaction, userId: number, spools: NewSpoolOfType[]): Promise<Filament[]> {
+    if (spools.length === 0) return [];
+    const inserted = await tx.insert(filaments).values(spools.map((spool) => {
+      const { manufacturer, material, colorName, colorCode, diameter, printTemp, spoolWeight, ...spoolFields } = spool;
+      return { ...spoolFields, userId };
+    })).returning({ id: filaments.id });
+    return await tx.select(FILAMENT_SELECT_COLUMNS).from(filaments)
+      .innerJoin(filamentTypes, eq(filaments.filamentTypeId, filamentTypes.id))
+      .where(inArray(filaments.id, inserted.map((row) => row.id)))
+      .orderBy(filaments.id);
+  }
+
+  async addToShoppingList(
+    userId: number,
+    filamentTypeIds: number[],
+    source: ShoppingListSource,
+    quantities?: Map<number, number>,
+  ): Promise<ShoppingListItem[]> {
+    if (filamentTypeIds.length === 0) return [];
+
+    const pending = await db.select({ filamentTypeId: shoppingListItems.filamentTypeId }).from(shoppingListItems)
+      .where(and(
+        eq(shoppingListItems.userId, userId),
+        inArray(shoppingListItems.status, ["open", "ordered"]),
+      ));
+    const alreadyListed = new Set(pending.map((item) => item.filamentTypeId));
+    const toAdd = Array.from(new Set(filamentTypeIds)).filter((id) => !alreadyListed.has(id));
+    if (toAdd.length === 0) return [];
+
+    return await db.insert(shoppingListItems)
+      .values(toAdd.map((filamentTypeId) => ({ userId, filamentTypeId, source, quantity: quantities?.get(filamentTypeId) ?? 1 })))
+      .returning();
+  }
+
+  // Filament type implementations
+  async getFilamentTypes(userId: number): Promise<FilamentType[]> {
+    return await db.select().from(filamentTypes)
+      .where(eq(filamentTypes.userId, userId))
+      .orderBy(filamentTypes.manufacturer, filamentTypes.material, filamentTypes.colorName);
+  }
+
+  async updateFilamentType(
+    id: number,
+    changes: Partial<Pick<FilamentType, "minStockQuantity" | "minStockUnit" | "minStockNotifiedAt">>,
+    userId: number,
+  ): Promise<FilamentType | undefined> {
+    const [updated] = await db
+      .update(filamentTypes)
+      .set(changes)
+      .where(and(eq(filamentTypes.id, id), eq(filamentTypes.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  // Purchase order implementations
+  async getPurchaseOrders(userId: number): Promise<PurchaseOrderWithItems[]> {
+    const orders = await db.select().from(purchaseOrders)
+      .where(eq(purchaseOrders.userId, userId))
+      .orderBy(desc(purchaseOrders.orderDate), desc(purchaseOrders.id));
+    return attachPurchaseOrderItems(orders);
+  }
+
+  async getPurchaseOrder(id: number, userId: number): Promise<PurchaseOrderWithItems | undefined> {
+    const [order] = await db.select().from(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.userId, userId)));
+    if (!order) return undefined;
+    const [withItems] = await attachPurchaseOrderItems([order]);
+    return withItems;
+  }
+
+  // The order, its items and its spools land together or not at all
+  async createPurchaseOrder(userId: number, order: PurchaseOrderFields, items: PurchaseOrderItemFields[], spools: NewSpoolOfType[] = []): Promise<CreatedPurchaseOrder> {
+    const { created, createdSpools } = await db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(purchaseOrders).values({ ...order, userId }).returning();
+      await tx.insert(purchaseOrderItems).values(items.map((item) => ({ ...item, purchaseOrderId: inserted.id })));
+      return { created: inserted, createdSpools: await this.insertSpoolsIn(tx, userId, spools) };
+    });
+    const [withItems] = await attachPurchaseOrderItems([created]);
+    return { order: withItems, filaments: createdSpools };
+  }
+
+  async updatePurchaseOrder(id: number, changes: Partial<PurchaseOrderFields>, userId: number): Promise<PurchaseOrder | undefined> {
+    const [updated] = await db
+      .update(purchaseOrders)
+      .set(changes)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deletePurchaseOrder(id: number, userId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(purchaseOrders)
+      .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.userId, userId)))
+      .returning();
+    return !!deleted;
+  }
+
+  // Exchange rate implementations
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return await db.select().from(exchangeRates).orderBy(exchangeRates.currency);
+  }
+
+  async setExchangeRates(rates: { currency: string; ratePerEur: string }[]): Promise<ExchangeRate[]> {
+    const updatedAt = new Date();
+    return await db
+      .insert(exchangeRates)
+      .values(rates.map((rate) => ({ ...rate, updatedAt })))
+      .onConflictDoUpdate({
+        target: exchangeRates.currency,
+        set: { ratePerEur: sql`excluded.rate_per_eur`, updatedAt },
+      })
+      .returning();
+  }
+
+  async deleteExchangeRate(currency: string): Promise<boolean> {
+    const [deleted] = await db
+      .delete(exchangeRates)
+      .where(eq(exchangeRates.currency, currency))
+      .returning();
+    return !!deleted;
+  }
+
   // Manufacturer implementations
   async getManufacturers(): Promise<Manufacturer[]> {
     return await db.select().from(manufacturers).orderBy(manufacturers.sortOrder, manufacturers.name);
@@ -502,6 +1472,13 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(storageLocations).orderBy(storageLocations.sortOrder, storageLocations.name);
   }
 
+  async getStorageLocationOccupancy(): Promise<Map<string, number>> {
+    const rows = await db.select({ name: filaments.storageLocation, spools: count() }).from(filaments)
+      .where(and(isNotNull(filaments.storageLocation), isNull(filaments.archivedAt)))
+      .groupBy(filaments.storageLocation);
+    return new Map(rows.map((row) => [row.name!, Number(row.spools)]));
+  }
+
   async createStorageLocation(insertLocation: InsertStorageLocation): Promise<StorageLocation> {
     const [location] = await db
       .insert(storageLocations)
@@ -510,6 +1487,15 @@ export class DatabaseStorage implements IStorage {
     return location;
   }
 
+  async updateStorageLocation(id: number, data: UpdateStorageLocation): Promise<StorageLocation | undefined> {
+    const [updated] = await db
+      .update(storageLocations)
+      .set(data)
+      .where(eq(storageLocations.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   async deleteStorageLocation(id: number): Promise<boolean> {
     const [deleted] = await db
       .delete(storageLocations)
@@ -538,8 +1524,23 @@ export class MemStorage implements IStorage {
   private diameterStore: Map<number, Diameter>;
   private storageLocationStore: Map<number, StorageLocation>;
   private usageLogStore: Map<number, FilamentUsageLog>;
+  private locationLogStore: Map<number, FilamentLocationLog>;
   private customFieldDefinitionStore: Map<number, CustomFieldDefinition>;
   private apiTokenStore: Map<number, ApiToken>;
+  private printJobStore: Map<number, PrintJob>;
+  private printerUsageEventStore: Map<string, PrinterUsageEventRecord>;
+  private printerStore: Map<number, Printer>;
+  private loadedSpoolStore: PrinterLoadedSpool[];
+  private labelPrinterStore: Map<number, LabelPrinter>;
+  private webhookStore: Map<number, Webhook>;
+  private notificationChannelStore: Map<number, NotificationChannel>;
+  private notificationStore: Map<number, UserNotification>;
+  private shoppingListStore: Map<number, ShoppingListItem>;
+  // Type-level settings keyed by the synthetic filament type id
+  private filamentTypeMinStockStore: Map<number, Pick<FilamentType, "minStockQuantity" | "minStockUnit" | "minStockNotifiedAt">>;
+  private purchaseOrderStore: Map<number, PurchaseOrder>;
+  private purchaseOrderItemStore: Map<number, PurchaseOrderItem>;
+  private exchangeRateStore: Map<string, ExchangeRate>;
 
   userCurrentId: number;
   filamentCurrentId: number;
@@ -549,8 +1550,20 @@ export class MemStorage implements IStorage {
   diameterCurrentId: number;
   storageLocationCurrentId: number;
   usageLogCurrentId: number;
+  locationLogCurrentId: number;
   customFieldDefinitionCurrentId: number;
   apiTokenCurrentId: number;
+  printJobCurrentId: number;
+  printerUsageEventCurrentId: number;
+  printerCurrentId: number;
+  loadedSpoolCurrentId: number;
+  labelPrinterCurrentId: number;
+  webhookCurrentId: number;
+  notificationChannelCurrentId: number;
+  notificationCurrentId: number;
+  shoppingListCurrentId: number;
+  purchaseOrderCurrentId: number;
+  purchaseOrderItemCurrentId: number;
 
   constructor() {
     this.users = new Map();
@@ -561,8 +1574,22 @@ export class MemStorage implements IStorage {
     this.diameterStore = new Map();
     this.storageLocationStore = new Map();
     this.usageLogStore = new Map();
+    this.locationLogStore = new Map();
     this.customFieldDefinitionStore = new Map();
     this.apiTokenStore = new Map();
+    this.printJobStore = new Map();
+    this.printerUsageEventStore = new Map();
+    this.printerStore = new Map();
+    this.loadedSpoolStore = [];
+    this.labelPrinterStore = new Map();
+    this.webhookStore = new Map();
+    this.notificationChannelStore = new Map();
+    this.notificationStore = new Map();
+    this.shoppingListStore = new Map();
+    this.filamentTypeMinStockStore = new Map();
+    this.purchaseOrderStore = new Map();
+    this.purchaseOrderItemStore = new Map();
+    this.exchangeRateStore = new Map();
 
     this.userCurrentId = 1;
     this.filamentCurrentId = 1;
@@ -572,8 +1599,20 @@ export class MemStorage implements IStorage {
     this.diameterCurrentId = 1;
     this.storageLocationCurrentId = 1;
     this.usageLogCurrentId = 1;
+    this.locationLogCurrentId = 1;
     this.customFieldDefinitionCurrentId = 1;
     this.apiTokenCurrentId = 1;
+    this.printJobCurrentId = 1;
+    this.printerUsageEventCurrentId = 1;
+    this.printerCurrentId = 1;
+    this.loadedSpoolCurrentId = 1;
+    this.labelPrinterCurrentId = 1;
+    this.webhookCurrentId = 1;
+    this.notificationChannelCurrentId = 1;
+    this.notificationCurrentId = 1;
+    this.shoppingListCurrentId = 1;
+    this.purchaseOrderCurrentId = 1;
+    this.purchaseOrderItemCurrentId = 1;
 
     // Add some initial data
     this.createFilament({
@@ -659,10 +1698,16 @@ export class MemStorage implements IStorage {
       notifyLowStock: true,
       notifyDryingReminder: true,
       dryingReminderDays: 30,
+      notifyViaEmail: true,
       themeVariant: "professional",
       themePrimary: "#EA580C",
       themeAppearance: "dark",
       themeRadius: "0.8",
+      electricityRate: null,
+      machineCostPerHour: null,
+      printCostCurrency: null,
+      statisticsWidgets: null,
+      autoArchiveEmpty: false,
     };
     this.users.set(id, user);
     return user;
@@ -681,8 +1726,8 @@ export class MemStorage implements IStorage {
       throw new Error(`User with ID ${userId} not found`);
     }
 
-    // Get filaments
-    const allFilaments = await this.getFilaments(userId);
+    // Get filaments, without archived spools
+    const allFilaments = (await this.getFilaments(userId)).filter((filament) => !filament.archivedAt);
 
     // Apply filter if provided
     const filteredFilaments = filterFn ? allFilaments.filter(filterFn) : allFilaments;
@@ -719,20 +1764,24 @@ export class MemStorage implements IStorage {
       remainingPercentage: insertFilament.remainingPercentage,
       purchaseDate: insertFilament.purchaseDate ?? null,
       purchasePrice: insertFilament.purchasePrice ?? null,
+      purchaseCurrency: insertFilament.purchaseCurrency ?? null,
       status: insertFilament.status ?? null,
       spoolType: insertFilament.spoolType ?? null,
       dryerCount: insertFilament.dryerCount ?? 0,
       lastDryingDate: insertFilament.lastDryingDate ?? null,
       storageLocation: insertFilament.storageLocation ?? null,
       lowStockNotifiedAt: insertFilament.lowStockNotifiedAt ?? null,
+      lowStockListedAt: insertFilament.lowStockListedAt ?? null,
       dryingReminderNotifiedAt: insertFilament.dryingReminderNotifiedAt ?? null,
       customFieldValues: insertFilament.customFieldValues ?? {},
+      archivedAt: insertFilament.archivedAt ?? null,
       manufacturer: insertFilament.manufacturer ?? null,
       material: insertFilament.material,
       colorName: insertFilament.colorName,
       colorCode: insertFilament.colorCode ?? null,
       diameter: insertFilament.diameter ?? null,
       printTemp: insertFilament.printTemp ?? null,
+      spoolWeight: insertFilament.spoolWeight ?? null,
     };
     this.filamentStore.set(id, filament);
     return filament;
@@ -788,6 +1837,15 @@ export class MemStorage implements IStorage {
       .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
   }
 
+  async getUsageLogsBetween(userId: number, from: Date, to: Date): Promise<FilamentUsageLog[]> {
+    const logs = Array.from(this.usageLogStore.values());
+    const reverted = new Set(logs.map(log => log.revertsLogId).filter(id => id !== null));
+    return logs
+      .filter(log => log.userId === userId && log.createdAt !== null && log.createdAt >= from && log.createdAt < to)
+      .filter(log => log.revertsLogId === null && !reverted.has(log.id))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
   async createFilamentUsageLog(entry: InsertFilamentUsageLog): Promise<FilamentUsageLog> {
     const id = this.usageLogCurrentId++;
     const log: FilamentUsageLog = {
@@ -798,12 +1856,208 @@ export class MemStorage implements IStorage {
       remainingPercentageAfter: entry.remainingPercentageAfter,
       note: entry.note ?? null,
       source: entry.source ?? "manual",
+      printJobId: entry.printJobId ?? null,
+      revertsLogId: entry.revertsLogId ?? null,
+      transferLogId: null,
       createdAt: new Date(),
     };
     this.usageLogStore.set(id, log);
     return log;
   }
 
+  async applyFilamentUsage(userId: number, changes: FilamentUsageChange[], options: UsageLogOptions): Promise<AppliedFilamentUsage | undefined> {
+    const eventKey = options.externalEvent
+      ? this.printerUsageEventKey(userId, options.externalEvent.externalJobId, options.externalEvent.sequence)
+      : undefined;
+    if (eventKey && this.printerUsageEventStore.has(eventKey)) {
+      return undefined;
+    }
+    if (options.revertsLogId !== undefined &&
+        Array.from(this.usageLogStore.values()).some(log => log.revertsLogId === options.revertsLogId)) {
+      return undefined;
+    }
+
+    // Check every spool up front so a bad entry leaves nothing half-applied
+    const missing = changes.find(change => this.filamentStore.get(change.filamentId)?.userId !== userId);
+    if (missing) {
+      throw new Error(`Filament ${missing.filamentId} not found`);
+    }
+
+    let printJobId = options.printJobId;
+    if (options.externalPrintJob) {
+      const { job, finalStatus } = options.externalPrintJob;
+      const ended = finalStatus ? { status: finalStatus, endedAt: new Date() } : undefined;
+      const existing = await this.getPrintJobByExternalId(job.externalJobId, userId);
+      const upserted = existing
+        ? (ended ? await this.updatePrintJob(existing.id, ended, userId) : existing)!
+        : await this.createPrintJob(userId, { ...job, ...ended });
+      printJobId = upserted.id;
+    }
+
+    const autoArchiveEmpty = !!this.users.get(userId)?.autoArchiveEmpty;
+    const logs: FilamentUsageLog[] = [];
+    for (const change of changes) {
+      const existing = this.filamentStore.get(change.filamentId)!;
+      const oldPercentage = Number(existing.remainingPercentage);
+      const newPercentage = remainingPercentageAfterUsage(existing, change.deltaWeight);
+      this.filamentStore.set(change.filamentId, {
+        ...existing,
+        remainingPercentage: newPercentage.toString(),
+        ...(newPercentage > oldPercentage ? { lowStockNotifiedAt: null, lowStockListedAt: null } : {}),
+        ...archiveChangeAfterUsage(oldPercentage, newPercentage, autoArchiveEmpty),
+      });
+      logs.push(await this.createFilamentUsageLog({
+        filamentId: change.filamentId,
+        userId,
+        deltaWeight: appliedDeltaWeight(existing, oldPercentage, newPercentage),
+        remainingPercentageAfter: newPercentage.toString(),
+        note: change.note ?? options.note,
+        source: options.source,
+        printJobId: printJobId ?? undefined,
+        revertsLogId: options.revertsLogId,
+      }));
+    }
+
+    if (options.transfer && logs.length === 2) {
+      const [from, to] = logs;
+      logs[0] = { ...from, transferLogId: to.id };
+      logs[1] = { ...to, transferLogId: from.id };
+      logs.forEach(log => this.usageLogStore.set(log.id, log));
+    }
+
+    const updatedFilaments = changes.map(change => this.filamentStore.get(change.filamentId)!);
+    if (eventKey && options.externalEvent) {
+      this.printerUsageEventStore.set(eventKey, {
+        id: this.printerUsageEventCurrentId++,
+        userId,
+        externalJobId: options.externalEvent.externalJobId,
+        sequence: options.externalEvent.sequence ?? null,
+        result: updatedFilaments,
+        createdAt: new Date(),
+      });
+    }
+
+    return { logs, filaments: updatedFilaments };
+  }
+
+  private printerUsageEventKey(userId: number, externalJobId: string, sequence?: number): string {
+    return `${userId}:${externalJobId}:${sequence ?? ""}`;
+  }
+
+  async getPrinterUsageEvent(userId: number, externalJobId: string, sequence?: number): Promise<PrinterUsageEventRecord | undefined> {
+    return this.printerUsageEventStore.get(this.printerUsageEventKey(userId, externalJobId, sequence));
+  }
+
+  async getPrintJobUsageLogs(userId: number, printJobId?: number): Promise<FilamentUsageLog[]> {
+    return Array.from(this.usageLogStore.values())
+      .filter(log => log.userId === userId && log.printJobId !== null &&
+        (printJobId === undefined || log.printJobId === printJobId))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  // Storage location move implementations
+  async getFilamentLocationLog(filamentId: number, userId: number): Promise<FilamentLocationLog[]> {
+    return Array.from(this.locationLogStore.values())
+      .filter(log => log.filamentId === filamentId && log.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async moveFilaments(userId: number, filamentIds: number[], storageLocation: string | null, source: FilamentLocationMoveSource): Promise<MovedFilaments | undefined> {
+    const ids = Array.from(new Set(filamentIds));
+    const spools = ids.map(id => this.filamentStore.get(id));
+    if (spools.some(spool => !spool || spool.userId !== userId)) return undefined;
+
+    const moves: FilamentLocationLog[] = [];
+    const updated: Filament[] = [];
+    for (const spool of spools as Filament[]) {
+      if (spool.storageLocation !== storageLocation) {
+        const id = this.locationLogCurrentId++;
+        const move: FilamentLocationLog = {
+          id,
+          filamentId: spool.id,
+          userId,
+          fromLocation: spool.storageLocation,
+          toLocation: storageLocation,
+          source,
+          createdAt: new Date(),
+        };
+        this.locationLogStore.set(id, move);
+        moves.push(move);
+      }
+      const moved = { ...spool, storageLocation };
+      this.filamentStore.set(spool.id, moved);
+      updated.push(moved);
+    }
+    return { moves, filaments: updated };
+  }
+
+  // Print job implementations
+  async getPrintJobs(userId: number): Promise<PrintJob[]> {
+    return Array.from(this.printJobStore.values())
+      .filter(job => job.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getPrintJob(id: number, userId: number): Promise<PrintJob | undefined> {
+    const job = this.printJobStore.get(id);
+    return job && job.userId === userId ? job : undefined;
+  }
+
+  async getPrintJobByExternalId(externalJobId: string, userId: number): Promise<PrintJob | undefined> {
+    return Array.from(this.printJobStore.values())
+      .find(job => job.userId === userId && job.externalJobId === externalJobId);
+  }
+
+  async createPrintJob(userId: number, job: PrintJobFields): Promise<PrintJob> {
+    const id = this.printJobCurrentId++;
+    const created: PrintJob = {
+      id,
+      userId,
+      name: job.name,
+      printerName: job.printerName ?? null,
+      startedAt: job.startedAt ?? null,
+      endedAt: job.endedAt ?? null,
+      status: job.status ?? "completed",
+      gcodeFileName: job.gcodeFileName ?? null,
+      externalJobId: job.externalJobId ?? null,
+      note: job.note ?? null,
+      createdAt: new Date(),
+    };
+    this.printJobStore.set(id, created);
+    return created;
+  }
+
+  async createPrintJobWithUsage(userId: number, job: PrintJobFields, changes: FilamentUsageChange[], options: Omit<UsageLogOptions, "printJobId">): Promise<PrintJobWithUsage> {
+    // Same up-front check as applyFilamentUsage, so a bad entry doesn't leave the job behind
+    const missing = changes.find(change => this.filamentStore.get(change.filamentId)?.userId !== userId);
+    if (missing) {
+      throw new Error(`Filament ${missing.filamentId} not found`);
+    }
+    const created = await this.createPrintJob(userId, job);
+    const applied = await this.applyFilamentUsage(userId, changes, { ...options, printJobId: created.id });
+    return { job: created, applied };
+  }
+
+  async updatePrintJob(id: number, job: Partial<PrintJobFields>, userId: number): Promise<PrintJob | undefined> {
+    const existing = this.printJobStore.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+
+    const updated: PrintJob = { ...existing, ...job } as PrintJob;
+    this.printJobStore.set(id, updated);
+    return updated;
+  }
+
+  async deletePrintJob(id: number, userId: number): Promise<boolean> {
+    const job = this.printJobStore.get(id);
+    if (!job || job.userId !== userId) return false;
+
+    // Mirrors the FK's ON DELETE SET NULL: usage history outlives the job
+    this.usageLogStore.forEach((log, logId) => {
+      if (log.printJobId === id) this.usageLogStore.set(logId, { ...log, printJobId: null });
+    });
+    return this.printJobStore.delete(id);
+  }
+
   // Custom field definition implementations
   async getCustomFieldDefinitions(userId: number): Promise<CustomFieldDefinition[]> {
     return Array.from(this.customFieldDefinitionStore.values()).filter((d) => d.userId === userId);
@@ -858,12 +2112,12 @@ export class MemStorage implements IStorage {
     return false;
   }
 
-  async getUserIdByTokenHash(tokenHash: string): Promise<number | undefined> {
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
     const token = Array.from(this.apiTokenStore.values()).find((t) => t.tokenHash === tokenHash);
     if (token) {
       await this.touchApiTokenLastUsed(token.id);
     }
-    return token?.userId;
+    return token;
   }
 
   async touchApiTokenLastUsed(id: number): Promise<void> {
@@ -873,6 +2127,481 @@ export class MemStorage implements IStorage {
     }
   }
 
+  // Printer implementations
+  private withLoadedSpools(printer: Printer): PrinterWithSpools {
+    return {
+      ...printer,
+      loadedSpools: this.loadedSpoolStore
+        .filter(spool => spool.printerId === printer.id)
+        .sort((a, b) => a.toolIndex - b.toolIndex),
+    };
+  }
+
+  async getPrinters(userId: number): Promise<PrinterWithSpools[]> {
+    return Array.from(this.printerStore.values())
+      .filter(printer => printer.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(printer => this.withLoadedSpools(printer));
+  }
+
+  async getPrinter(id: number, userId: number): Promise<PrinterWithSpools | undefined> {
+    const printer = this.printerStore.get(id);
+    return printer && printer.userId === userId ? this.withLoadedSpools(printer) : undefined;
+  }
+
+  async getPrinterByApiToken(apiTokenId: number, userId: number): Promise<PrinterWithSpools | undefined> {
+    const printer = Array.from(this.printerStore.values())
+      .find(p => p.apiTokenId === apiTokenId && p.userId === userId);
+    return printer ? this.withLoadedSpools(printer) : undefined;
+  }
+
+  async createPrinter(userId: number, printer: InsertPrinter): Promise<PrinterWithSpools> {
+    const id = this.printerCurrentId++;
+    const created: Printer = {
+      id,
+      userId,
+      name: printer.name,
+      toolCount: printer.toolCount,
+      apiTokenId: printer.apiTokenId ?? null,
+      powerWatts: printer.powerWatts ?? null,
+      createdAt: new Date(),
+    };
+    this.printerStore.set(id, created);
+    return this.withLoadedSpools(created);
+  }
+
+  async updatePrinter(id: number, printer: UpdatePrinter, userId: number): Promise<PrinterWithSpools | undefined> {
+    const existing = this.printerStore.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+
+    const updated: Printer = { ...existing, ...printer };
+    this.printerStore.set(id, updated);
+    this.loadedSpoolStore = this.loadedSpoolStore
+      .filter(spool => spool.printerId !== id || spool.toolIndex < updated.toolCount);
+    return this.withLoadedSpools(updated);
+  }
+
+  async deletePrinter(id: number, userId: number): Promise<boolean> {
+    const printer = this.printerStore.get(id);
+    if (!printer || printer.userId !== userId) return false;
+
+    this.loadedSpoolStore = this.loadedSpoolStore.filter(spool => spool.printerId !== id);
+    return this.printerStore.delete(id);
+  }
+
+  async loadSpool(printerId: number, toolIndex: number, filamentId: number): Promise<PrinterLoadedSpool> {
+    this.loadedSpoolStore = this.loadedSpoolStore.filter(spool =>
+      spool.filamentId !== filamentId && !(spool.printerId === printerId && spool.toolIndex === toolIndex));
+    const loaded: PrinterLoadedSpool = {
+      id: this.loadedSpoolCurrentId++,
+      printerId,
+      toolIndex,
+      filamentId,
+      loadedAt: new Date(),
+    };
+    this.loadedSpoolStore.push(loaded);
+    return loaded;
+  }
+
+  async unloadSpool(printerId: number, toolIndex: number): Promise<boolean> {
+    const before = this.loadedSpoolStore.length;
+    this.loadedSpoolStore = this.loadedSpoolStore
+      .filter(spool => !(spool.printerId === printerId && spool.toolIndex === toolIndex));
+    return this.loadedSpoolStore.length < before;
+  }
+
+  // Webhook implementations
+  async getWebhooks(userId: number): Promise<Webhook[]> {
+    return Array.from(this.webhookStore.values()).filter(webhook => webhook.userId === userId);
+  }
+
+  async getWebhook(id: number, userId: number): Promise<Webhook | undefined> {
+    const webhook = this.webhookStore.get(id);
+    return webhook && webhook.userId === userId ? webhook : undefined;
+  }
+
+  async createWebhook(userId: number, webhook: InsertWebhook & { secret: string }): Promise<Webhook> {
+    const id = this.webhookCurrentId++;
+    const created: Webhook = {
+      id,
+      userId,
+      url: webhook.url,
+      secret: webhook.secret,
+      eventTypes: webhook.eventTypes,
+      enabled: webhook.enabled ?? true,
+      createdAt: new Date(),
+    };
+    this.webhookStore.set(id, created);
+    return created;
+  }
+
+  async updateWebhook(id: number, webhook: UpdateWebhook, userId: number): Promise<Webhook | undefined> {
+    const existing = await this.getWebhook(id, userId);
+    if (!existing) return undefined;
+
+    const updated: Webhook = {
+      ...existing,
+      url: webhook.url ?? existing.url,
+      secret: webhook.secret ?? existing.secret,
+      eventTypes: webhook.eventTypes ?? existing.eventTypes,
+      enabled: webhook.enabled ?? existing.enabled,
+    };
+    this.webhookStore.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhook(id: number, userId: number): Promise<boolean> {
+    if (!(await this.getWebhook(id, userId))) return false;
+    return this.webhookStore.delete(id);
+  }
+
+  // Deliveries are only ever sent for the database-backed storage
+  async getWebhookDeliveries(_webhookId: number, _limit: number): Promise<WebhookDelivery[]> {
+    return [];
+  }
+
+  // Label printer implementations
+  async getLabelPrinters(userId: number): Promise<LabelPrinter[]> {
+    return Array.from(this.labelPrinterStore.values())
+      .filter(printer => printer.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLabelPrinter(id: number, userId: number): Promise<LabelPrinter | undefined> {
+    const printer = this.labelPrinterStore.get(id);
+    return printer && printer.userId === userId ? printer : undefined;
+  }
+
+  async createLabelPrinter(userId: number, printer: InsertLabelPrinter): Promise<LabelPrinter> {
+    const id = this.labelPrinterCurrentId++;
+    const created: LabelPrinter = {
+      id,
+      userId,
+      name: printer.name,
+      language: printer.language,
+      connection: printer.connection,
+      host: printer.host ?? null,
+      port: printer.port,
+      queue: printer.queue ?? null,
+      template: printer.template,
+      dpi: printer.dpi,
+      createdAt: new Date(),
+    };
+    this.labelPrinterStore.set(id, created);
+    return created;
+  }
+
+  async updateLabelPrinter(id: number, printer: UpdateLabelPrinter, userId: number): Promise<LabelPrinter | undefined> {
+    const existing = await this.getLabelPrinter(id, userId);
+    if (!existing) return undefined;
+
+    const updated: LabelPrinter = {
+      ...existing,
+      ...Object.fromEntries(Object.entries(printer).filter(([, value]) => value !== undefined)),
+    };
+    this.labelPrinterStore.set(id, updated);
+    return updated;
+  }
+
+  async deleteLabelPrinter(id: number, userId: number): Promise<boolean> {
+    if (!(await this.getLabelPrinter(id, userId))) return false;
+    return this.labelPrinterStore.delete(id);
+  }
+
+  // Notification channel implementations
+  async getNotificationChannels(userId: number): Promise<NotificationChannel[]> {
+    return Array.from(this.notificationChannelStore.values()).filter(channel => channel.userId === userId);
+  }
+
+  async getNotificationChannel(id: number, userId: number): Promise<NotificationChannel | undefined> {
+    const channel = this.notificationChannelStore.get(id);
+    return channel && channel.userId === userId ? channel : undefined;
+  }
+
+  async createNotificationChannel(userId: number, channel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const id = this.notificationChannelCurrentId++;
+    const created: NotificationChannel = {
+      id,
+      userId,
+      type: channel.type,
+      name: channel.name ?? null,
+      config: channel.config,
+      enabled: channel.enabled ?? true,
+      createdAt: new Date(),
+    };
+    this.notificationChannelStore.set(id, created);
+    return created;
+  }
+
+  async updateNotificationChannel(id: number, channel: UpdateNotificationChannel, userId: number): Promise<NotificationChannel | undefined> {
+    const existing = await this.getNotificationChannel(id, userId);
+    if (!existing) return undefined;
+
+    const updated: NotificationChannel = {
+      ...existing,
+      name: channel.name !== undefined ? channel.name : existing.name,
+      config: channel.config ?? existing.config,
+      enabled: channel.enabled ?? existing.enabled,
+    };
+    this.notificationChannelStore.set(id, updated);
+    return updated;
+  }
+
+  async deleteNotificationChannel(id: number, userId: number): Promise<boolean> {
+    if (!(await this.getNotificationChannel(id, userId))) return false;
+    return this.notificationChannelStore.delete(id);
+  }
+
+  // Notification center implementations
+  async getNotifications(userId: number, limit: number): Promise<UserNotification[]> {
+    return Array.from(this.notificationStore.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notificationStore.values())
+      .filter(notification => notification.userId === userId && notification.readAt === null).length;
+  }
+
+  async createNotification(userId: number, type: NotificationType, data: Record<string, unknown>): Promise<UserNotification> {
+    const id = this.notificationCurrentId++;
+    const created: UserNotification = { id, userId, type, data, readAt: null, createdAt: new Date() };
+    this.notificationStore.set(id, created);
+    return created;
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<UserNotification | undefined> {
+    const existing = this.notificationStore.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const updated: UserNotification = { ...existing, readAt: existing.readAt ?? new Date() };
+    this.notificationStore.set(id, updated);
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    let marked = 0;
+    for (const notification of Array.from(this.notificationStore.values())) {
+      if (notification.userId === userId && notification.readAt === null) {
+        this.notificationStore.set(notification.id, { ...notification, readAt: new Date() });
+        marked++;
+      }
+    }
+    return marked;
+  }
+
+  async deleteNotification(id: number, userId: number): Promise<boolean> {
+    const existing = this.notificationStore.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    return this.notificationStore.delete(id);
+  }
+
+  // Shopping list implementations. Filament types aren't stored separately
+  // here, so they're read back off a spool carrying the (synthetic) type id.
+  async getFilamentType(id: number, userId: number): Promise<FilamentType | undefined> {
+    const spool = Array.from(this.filamentStore.values())
+      .find(filament => filament.filamentTypeId === id && filament.userId === userId);
+    if (!spool) return undefined;
+    return {
+      id,
+      userId,
+      manufacturer: spool.manufacturer,
+      material: spool.material,
+      colorName: spool.colorName,
+      colorCode: spool.colorCode,
+      diameter: spool.diameter,
+      printTemp: spool.printTemp,
+      spoolWeight: spool.spoolWeight,
+      minStockQuantity: null,
+      minStockUnit: null,
+      minStockNotifiedAt: null,
+      ...this.filamentTypeMinStockStore.get(id),
+      createdAt: null,
+    };
+  }
+
+  private async toShoppingListEntry(item: ShoppingListItem): Promise<ShoppingListEntry | undefined> {
+    const filamentType = await this.getFilamentType(item.filamentTypeId, item.userId);
+    if (!filamentType) return undefined;
+    const { manufacturer, material, colorName, colorCode, diameter } = filamentType;
+    return { ...item, manufacturer, material, colorName, colorCode, diameter };
+  }
+
+  async getShoppingList(userId: number, includeReceived: boolean): Promise<ShoppingListEntry[]> {
+    const items = Array.from(this.shoppingListStore.values())
+      .filter(item => item.userId === userId && (includeReceived || item.status !== "received"));
+    const entries = await Promise.all(items.map(item => this.toShoppingListEntry(item)));
+    return entries.filter((entry): entry is ShoppingListEntry => entry !== undefined);
+  }
+
+  async getShoppingListItem(id: number, userId: number): Promise<ShoppingListEntry | undefined> {
+    const item = this.shoppingListStore.get(id);
+    return item && item.userId === userId ? this.toShoppingListEntry(item) : undefined;
+  }
+
+  async createShoppingListItem(userId: number, item: InsertShoppingListItem & { source: ShoppingListSource }): Promise<ShoppingListItem> {
+    const id = this.shoppingListCurrentId++;
+    const created: ShoppingListItem = {
+      id,
+      userId,
+      filamentTypeId: item.filamentTypeId,
+      quantity: item.quantity ?? 1,
+      status: "open",
+      source: item.source,
+      note: item.note ?? null,
+      orderedAt: null,
+      receivedAt: null,
+      createdAt: new Date(),
+    };
+    this.shoppingListStore.set(id, created);
+    return created;
+  }
+
+  async updateShoppingListItem(
+    id: number,
+    changes: Partial<Pick<ShoppingListItem, "quantity" | "note" | "status" | "orderedAt" | "receivedAt">>,
+    userId: number,
+  ): Promise<ShoppingListItem | undefined> {
+    const existing = this.shoppingListStore.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const updated: ShoppingListItem = { ...existing, ...changes };
+    this.shoppingListStore.set(id, updated);
+    return updated;
+  }
+
+  async deleteShoppingListItem(id: number, userId: number): Promise<boolean> {
+    const existing = this.shoppingListStore.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    return this.shoppingListStore.delete(id);
+  }
+
+  async receiveShoppingListItem(id: number, userId: number, quantity: number, spools: NewSpoolOfType[]): Promise<ReceivedShoppingListItem | undefined> {
+    const existing = this.shoppingListStore.get(id);
+    if (!existing || existing.userId !== userId || existing.status === "received") return undefined;
+    const item: ShoppingListItem = { ...existing, status: "received", quantity, receivedAt: new Date() };
+    this.shoppingListStore.set(id, item);
+    const created: Filament[] = [];
+    for (const spool of spools) {
+      created.push(await this.createFilament({ ...spool, userId }));
+    }
+    return { item, filaments: created };
+  }
+
+  async addToShoppingList(
+    userId: number,
+    filamentTypeIds: number[],
+    source: ShoppingListSource,
+    quantities?: Map<number, number>,
+  ): Promise<ShoppingListItem[]> {
+    const alreadyListed = new Set(Array.from(this.shoppingListStore.values())
+      .filter(item => item.userId === userId && item.status !== "received")
+      .map(item => item.filamentTypeId));
+    const added: ShoppingListItem[] = [];
+    for (const filamentTypeId of Array.from(new Set(filamentTypeIds))) {
+      if (alreadyListed.has(filamentTypeId)) continue;
+      added.push(await this.createShoppingListItem(userId, { filamentTypeId, quantity: quantities?.get(filamentTypeId), source }));
+    }
+    return added;
+  }
+
+  // Filament type implementations
+  async getFilamentTypes(userId: number): Promise<FilamentType[]> {
+    const typeIds = new Set(Array.from(this.filamentStore.values())
+      .filter(filament => filament.userId === userId)
+      .map(filament => filament.filamentTypeId));
+    const types = await Promise.all(Array.from(typeIds).map(id => this.getFilamentType(id, userId)));
+    return types.filter((type): type is FilamentType => type !== undefined);
+  }
+
+  async updateFilamentType(
+    id: number,
+    changes: Partial<Pick<FilamentType, "minStockQuantity" | "minStockUnit" | "minStockNotifiedAt">>,
+    userId: number,
+  ): Promise<FilamentType | undefined> {
+    const existing = await this.getFilamentType(id, userId);
+    if (!existing) return undefined;
+    const { minStockQuantity, minStockUnit, minStockNotifiedAt } = { ...existing, ...changes };
+    this.filamentTypeMinStockStore.set(id, { minStockQuantity, minStockUnit, minStockNotifiedAt });
+    return { ...existing, ...changes };
+  }
+
+  // Purchase order implementations
+  private async withPurchaseOrderItems(order: PurchaseOrder): Promise<PurchaseOrderWithItems> {
+    const items: PurchaseOrderItemEntry[] = [];
+    for (const item of Array.from(this.purchaseOrderItemStore.values())) {
+      if (item.purchaseOrderId !== order.id) continue;
+      const filamentType = await this.getFilamentType(item.filamentTypeId, order.userId);
+      if (!filamentType) continue;
+      const { manufacturer, material, colorName, colorCode } = filamentType;
+      items.push({ ...item, manufacturer, material, colorName, colorCode });
+    }
+    return { ...order, items };
+  }
+
+  async getPurchaseOrders(userId: number): Promise<PurchaseOrderWithItems[]> {
+    const orders = Array.from(this.purchaseOrderStore.values())
+      .filter(order => order.userId === userId)
+      .sort((a, b) => b.orderDate.localeCompare(a.orderDate) || b.id - a.id);
+    return Promise.all(orders.map(order => this.withPurchaseOrderItems(order)));
+  }
+
+  async getPurchaseOrder(id: number, userId: number): Promise<PurchaseOrderWithItems | undefined> {
+    const order = this.purchaseOrderStore.get(id);
+    return order && order.userId === userId ? this.withPurchaseOrderItems(order) : undefined;
+  }
+
+  async createPurchaseOrder(userId: number, order: PurchaseOrderFields, items: PurchaseOrderItemFields[], spools: NewSpoolOfType[] = []): Promise<CreatedPurchaseOrder> {
+    const id = this.purchaseOrderCurrentId++;
+    const created: PurchaseOrder = { ...order, id, userId, createdAt: new Date() };
+    this.purchaseOrderStore.set(id, created);
+    for (const item of items) {
+      const itemId = this.purchaseOrderItemCurrentId++;
+      this.purchaseOrderItemStore.set(itemId, { ...item, id: itemId, purchaseOrderId: id });
+    }
+    const createdSpools: Filament[] = [];
+    for (const spool of spools) {
+      createdSpools.push(await this.createFilament({ ...spool, userId }));
+    }
+    return { order: await this.withPurchaseOrderItems(created), filaments: createdSpools };
+  }
+
+  async updatePurchaseOrder(id: number, changes: Partial<PurchaseOrderFields>, userId: number): Promise<PurchaseOrder | undefined> {
+    const existing = this.purchaseOrderStore.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const updated: PurchaseOrder = { ...existing, ...changes };
+    this.purchaseOrderStore.set(id, updated);
+    return updated;
+  }
+
+  async deletePurchaseOrder(id: number, userId: number): Promise<boolean> {
+    const existing = this.purchaseOrderStore.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    Array.from(this.purchaseOrderItemStore.values())
+      .filter(item => item.purchaseOrderId === id)
+      .forEach(item => this.purchaseOrderItemStore.delete(item.id));
+    return this.purchaseOrderStore.delete(id);
+  }
+
+  // Exchange rate implementations
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRateStore.values())
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  async setExchangeRates(rates: { currency: string; ratePerEur: string }[]): Promise<ExchangeRate[]> {
+    const updatedAt = new Date();
+    return rates.map((rate) => {
+      const saved: ExchangeRate = { ...rate, updatedAt };
+      this.exchangeRateStore.set(rate.currency, saved);
+      return saved;
+    });
+  }
+
+  async deleteExchangeRate(currency: string): Promise<boolean> {
+    return this.exchangeRateStore.delete(currency);
+  }
+
   // Manufacturer implementations
   async getManufacturers(): Promise<Manufacturer[]> {
     return Array.from(this.manufacturerStore.values())
@@ -888,6 +2617,7 @@ export class MemStorage implements IStorage {
     const id = this.manufacturerCurrentId++;
     const manufacturer: Manufacturer = {
       ...insertManufacturer,
+      spoolWeight: insertManufacturer.spoolWeight ?? null,
       id,
       createdAt: new Date(),
       sortOrder: 999 // Default to end of list
@@ -980,6 +2710,15 @@ export class MemStorage implements IStorage {
   }
 
   // Storage Location implementations
+  async getStorageLocationOccupancy(): Promise<Map<string, number>> {
+    const occupancy = new Map<string, number>();
+    for (const filament of Array.from(this.filamentStore.values())) {
+      if (!filament.storageLocation || filament.archivedAt) continue;
+      occupancy.set(filament.storageLocation, (occupancy.get(filament.storageLocation) ?? 0) + 1);
+    }
+    return occupancy;
+  }
+
   async getStorageLocations(): Promise<StorageLocation[]> {
     return Array.from(this.storageLocationStore.values())
       .sort((a, b) => {
@@ -995,6 +2734,9 @@ export class MemStorage implements IStorage {
     const location: StorageLocation = {
       ...insertLocation,
       id,
+      parentId: insertLocation.parentId ?? null,
+      capacity: insertLocation.capacity ?? null,
+      humidityControlled: insertLocation.humidityControlled ?? false,
       createdAt: new Date(),
       sortOrder: 999 // Default to end of list
     };
@@ -1002,7 +2744,22 @@ export class MemStorage implements IStorage {
     return location;
   }
 
+  async updateStorageLocation(id: number, data: UpdateStorageLocation): Promise<StorageLocation | undefined> {
+    const location = this.storageLocationStore.get(id);
+    if (!location) return undefined;
+
+    const updated = { ...location, ...data };
+    this.storageLocationStore.set(id, updated);
+    return updated;
+  }
+
   async deleteStorageLocation(id: number): Promise<boolean> {
+    // Mirrors the parent_id foreign key's ON DELETE SET NULL
+    for (const location of Array.from(this.storageLocationStore.values())) {
+      if (location.parentId === id) {
+        this.storageLocationStore.set(location.id, { ...location, parentId: null });
+      }
+    }
     return this.storageLocationStore.delete(id);
   }
 
@@ -4,6 +4,8 @@ declare global {
   namespace Express {
     interface Request {
       userId?: number;
+      // Set by requireApiToken - which token authenticated the request
+      apiTokenId?: number;
       user?: {
         id: number;
         username: string;
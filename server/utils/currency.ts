@@ -0,0 +1,59 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { users, supportedCurrencies, type SupportedCurrency } from "@shared/schema";
+
+// Every rate in the exchange-rate table is relative to this
+export const BASE_CURRENCY = "EUR";
+
+export function isSupportedCurrency(value: unknown): value is SupportedCurrency {
+  return typeof value === "string" && (supportedCurrencies as readonly string[]).includes(value);
+}
+
+/** The currency a user has picked to see and enter prices in. */
+export async function userCurrency(userId: number): Promise<string> {
+  const [user] = await db.select({ currency: users.currency }).from(users).where(eq(users.id, userId));
+  return user?.currency ?? BASE_CURRENCY;
+}
+
+export interface CurrencyConverter {
+  currency: string; // what amounts are converted into
+  /**
+   * `amount` in `from` converted into `currency`; a null `from` is taken to
+   * already be in it. null when either side has no exchange rate.
+   */
+  convert(amount: number, from: string | null | undefined): number | null;
+  // Currencies a convert() call has failed for, so responses can flag them
+  missing: Set<string>;
+}
+
+/**
+ * Converts into `currency` with the admin-maintained exchange rates. There
+ * is no live lookup: the rates are whatever was last entered in the
+ * settings, so conversions keep working offline.
+ */
+export async function loadCurrencyConverter(currency: string): Promise<CurrencyConverter> {
+  const rates = new Map((await storage.getExchangeRates()).map((rate) => [rate.currency, Number(rate.ratePerEur)]));
+  rates.set(BASE_CURRENCY, 1);
+  const missing = new Set<string>();
+
+  return {
+    currency,
+    missing,
+    convert(amount, from) {
+      if (!from || from === currency) return amount;
+      const fromRate = rates.get(from);
+      const toRate = rates.get(currency);
+      if (!fromRate || !toRate) {
+        missing.add(fromRate ? currency : from);
+        return null;
+      }
+      return (amount / fromRate) * toRate;
+    },
+  };
+}
+
+/** The converter into a user's own currency. */
+export async function loadUserCurrencyConverter(userId: number): Promise<CurrencyConverter> {
+  return loadCurrencyConverter(await userCurrency(userId));
+}
@@ -103,6 +103,42 @@ export function dryingReminderEmail(language: Language, filamentNames: string[])
   };
 }
 
+// `lines` are preformatted "type: current / minimum" entries
+export function minStockEmail(language: Language, lines: string[]): EmailTemplate {
+  const items = lines.map((line) => `<li>${line}</li>`).join("");
+  if (language === "de") {
+    return {
+      subject: "Filadex: Mindestbestand unterschritten",
+      html: wrapper(`
+        <p>Von folgenden Filamenten ist weniger als der Mindestbestand vorrätig:</p>
+        <ul>${items}</ul>
+        <p>Diese wurden auf deine Einkaufsliste gesetzt.</p>
+      `),
+    };
+  }
+  return {
+    subject: "Filadex: Below minimum stock",
+    html: wrapper(`
+      <p>You have less than the minimum stock of the following filaments:</p>
+      <ul>${items}</ul>
+      <p>They've been added to your shopping list.</p>
+    `),
+  };
+}
+
+export function testNotificationEmail(language: Language): EmailTemplate {
+  if (language === "de") {
+    return {
+      subject: "Filadex: Testbenachrichtigung",
+      html: wrapper(`<p>Dieser Kanal ist eingerichtet und empfängt Filadex-Benachrichtigungen.</p>`),
+    };
+  }
+  return {
+    subject: "Filadex: Test notification",
+    html: wrapper(`<p>This channel is set up and will receive Filadex notifications.</p>`),
+  };
+}
+
 export function catalogRequestReviewedEmail(
   language: Language,
   approved: boolean,
@@ -0,0 +1,61 @@
+import type { Filament, Manufacturer } from "@shared/schema";
+import { storage } from "../storage";
+import type { CurrencyConverter } from "./currency";
+
+/**
+ * Cost of `grams` taken from a spool, pro-rated from its purchasePrice and
+ * converted into the converter's currency. null when the spool has no price,
+ * no weight to pro-rate against or its currency has no exchange rate.
+ */
+export function usageCost(
+  filament: Pick<Filament, "totalWeight" | "purchasePrice" | "purchaseCurrency">,
+  grams: number,
+  converter: CurrencyConverter,
+): number | null {
+  const totalWeightGrams = Number(filament.totalWeight) * 1000;
+  if (!filament.purchasePrice || totalWeightGrams <= 0) return null;
+  const price = converter.convert(Number(filament.purchasePrice), filament.purchaseCurrency);
+  return price !== null ? (price / totalWeightGrams) * grams : null;
+}
+
+/**
+ * Grams of filament in `lengthMm` of strand, from the material density
+ * (g/cm^3) and the filament diameter (mm).
+ */
+export function lengthToGrams(lengthMm: number, diameterMm: number, density: number): number {
+  const radiusCm = diameterMm / 20;
+  const lengthCm = lengthMm / 10;
+  return Math.PI * radiusCm * radiusCm * lengthCm * density;
+}
+
+/** Inverse of lengthToGrams: mm of strand in `grams` of filament. */
+export function gramsToLength(grams: number, diameterMm: number, density: number): number {
+  const radiusCm = diameterMm / 20;
+  return (grams / (density * Math.PI * radiusCm * radiusCm)) * 10;
+}
+
+/**
+ * Weight of the empty spool in grams: the filament type's own tare, else the
+ * manufacturer's typical one. null when neither is set.
+ */
+export function emptySpoolWeight(
+  filament: Pick<Filament, "spoolWeight">,
+  manufacturer: Pick<Manufacturer, "spoolWeight"> | undefined,
+): number | null {
+  const tare = filament.spoolWeight ?? manufacturer?.spoolWeight;
+  return tare != null ? Number(tare) : null;
+}
+
+/** The spool's diameter in mm, assuming the common 1.75mm when unset. */
+export function filamentDiameterMm(filament: Pick<Filament, "diameter">): number {
+  return filament.diameter ? Number(filament.diameter) : 1.75;
+}
+
+/**
+ * Density (g/cm^3) per material name, for the materials that have one set -
+ * materials.density is optional, so length conversions can be unavailable.
+ */
+export async function loadMaterialDensities(): Promise<Map<string, number>> {
+  const materials = await storage.getMaterials();
+  return new Map(materials.filter((m) => m.density).map((m) => [m.name, Number(m.density)]));
+}
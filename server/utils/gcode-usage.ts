@@ -0,0 +1,128 @@
+import { readZipEntries } from "./zip";
+
+/** Filament one extruder/tool uses, as reported by the slicer. */
+export interface ExtruderUsage {
+  tool: number; // 0-based, like T0/T1
+  grams: number | null; // null when the slicer only reports length
+  lengthMm: number | null;
+}
+
+export interface SlicerUsageEstimate {
+  slicer: string | null;
+  extruders: ExtruderUsage[];
+}
+
+// Slicers put their usage summary in a header (Cura, OrcaSlicer) or after the
+// moves (PrusaSlicer), so only the start and end of a gcode file are scanned.
+const SCAN_BYTES = 1024 * 1024;
+
+// Per-extruder lists like "4538.76, 0.00", keyed by which comment they came
+// from, in order of preference - "total filament used [g]" (PrusaSlicer) is
+// a single sum, so it only counts when nothing per-extruder was found.
+const GRAM_KEYS = ["filament used [g]", "total filament weight [g]", "total filament used [g]"];
+const MM_KEYS = ["filament used [mm]", "total filament length [mm]"];
+
+function parseNumberList(value: string, unitScale = 1): number[] {
+  return value
+    .split(",")
+    .map((part) => parseFloat(part.trim()) * unitScale)
+    .map((n) => (Number.isFinite(n) ? n : 0));
+}
+
+function detectSlicer(text: string): string | null {
+  const generatedBy = text.match(/generated by (PrusaSlicer|SuperSlicer|OrcaSlicer|BambuStudio|Slic3r)/i);
+  if (generatedBy) return generatedBy[1];
+  if (/^;\s*Generated with Cura/m.test(text) || /^;FLAVOR:/m.test(text)) return "Cura";
+  return null;
+}
+
+function combine(grams: number[] | undefined, lengths: number[] | undefined): ExtruderUsage[] {
+  const count = Math.max(grams?.length ?? 0, lengths?.length ?? 0);
+  const extruders: ExtruderUsage[] = [];
+  for (let tool = 0; tool < count; tool++) {
+    const g = grams?.[tool] ?? null;
+    const mm = lengths?.[tool] ?? null;
+    // Unused extruders show up as 0.00 in the lists
+    if (!g && !mm) continue;
+    extruders.push({ tool, grams: g || null, lengthMm: mm || null });
+  }
+  return extruders;
+}
+
+/** Reads the usage summary out of a gcode file's comments. */
+export function parseGcodeUsage(gcode: Buffer): SlicerUsageEstimate {
+  const text = gcode.length > 2 * SCAN_BYTES
+    ? gcode.toString("utf8", 0, SCAN_BYTES) + "\n" + gcode.toString("utf8", gcode.length - SCAN_BYTES)
+    : gcode.toString("utf8");
+
+  const values = new Map<string, number[]>();
+  for (const match of Array.from(text.matchAll(/^;\s*((?:total )?filament (?:used|length|weight) \[(?:g|mm)\])\s*[:=]\s*(.+)$/gim))) {
+    const key = match[1].toLowerCase();
+    if (!values.has(key)) values.set(key, parseNumberList(match[2]));
+  }
+  // Cura: ";Filament used: 1.23456m, 0.5m"
+  const cura = text.match(/^;\s*Filament used:\s*(.+)$/im);
+  if (cura && !values.has("filament used [mm]")) {
+    values.set("filament used [mm]", parseNumberList(cura[1].replace(/m/g, ""), 1000));
+  }
+
+  const grams = GRAM_KEYS.map((key) => values.get(key)).find(Boolean);
+  const lengths = MM_KEYS.map((key) => values.get(key)).find(Boolean);
+  return { slicer: detectSlicer(text), extruders: combine(grams, lengths) };
+}
+
+// Adds up usage per tool across several plates
+function mergeExtruders(plates: ExtruderUsage[][]): ExtruderUsage[] {
+  const byTool = new Map<number, ExtruderUsage>();
+  for (const extruder of plates.flat()) {
+    const existing = byTool.get(extruder.tool);
+    if (!existing) {
+      byTool.set(extruder.tool, { ...extruder });
+      continue;
+    }
+    existing.grams = existing.grams !== null && extruder.grams !== null ? existing.grams + extruder.grams : null;
+    existing.lengthMm = existing.lengthMm !== null && extruder.lengthMm !== null ? existing.lengthMm + extruder.lengthMm : null;
+  }
+  return Array.from(byTool.values()).sort((a, b) => a.tool - b.tool);
+}
+
+/**
+ * Reads the usage out of a sliced 3mf. OrcaSlicer/BambuStudio list it per
+ * plate in Metadata/slice_info.config; otherwise the embedded plate gcode is
+ * parsed. A 3mf that was never sliced has neither.
+ */
+export function parse3mfUsage(archive: Buffer): SlicerUsageEstimate {
+  const entries = readZipEntries(archive, (name) =>
+    name === "Metadata/slice_info.config" || name.toLowerCase().endsWith(".gcode"));
+
+  const gcodes = Array.from(entries.entries())
+    .filter(([name]) => name.toLowerCase().endsWith(".gcode"))
+    .map(([, data]) => parseGcodeUsage(data));
+  const slicer = gcodes.find((g) => g.slicer)?.slicer ?? null;
+
+  const sliceInfo = entries.get("Metadata/slice_info.config");
+  if (sliceInfo) {
+    // <filament id="1" type="PLA" color="#FFFFFF" used_m="1.52" used_g="4.53" />,
+    // one per filament per plate; ids are 1-based
+    const plates: ExtruderUsage[][] = [];
+    for (const tag of Array.from(sliceInfo.toString("utf8").matchAll(/<filament\s([^>]*)\/>/g))) {
+      const attrs = new Map(Array.from(tag[1].matchAll(/(\w+)="([^"]*)"/g)).map((a) => [a[1], a[2]]));
+      const id = Number(attrs.get("id"));
+      const grams = Number(attrs.get("used_g"));
+      const meters = Number(attrs.get("used_m"));
+      if (!Number.isInteger(id) || id < 1) continue;
+      if (!(grams > 0) && !(meters > 0)) continue;
+      plates.push([{ tool: id - 1, grams: grams > 0 ? grams : null, lengthMm: meters > 0 ? meters * 1000 : null }]);
+    }
+    if (plates.length > 0) {
+      return { slicer, extruders: mergeExtruders(plates) };
+    }
+  }
+
+  return { slicer, extruders: mergeExtruders(gcodes.map((g) => g.extruders)) };
+}
+
+/** Dispatches on the file extension: .3mf is a zip archive, anything else gcode. */
+export function parseSlicerUsage(file: Buffer, fileName: string): SlicerUsageEstimate {
+  return fileName.toLowerCase().endsWith(".3mf") ? parse3mfUsage(file) : parseGcodeUsage(file);
+}
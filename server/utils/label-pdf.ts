@@ -0,0 +1,193 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import type { CustomFieldDefinition, Filament, LabelField, LabelTemplate } from "@shared/schema";
+
+const POINTS_PER_MM = 72 / 25.4;
+const PADDING_MM = 2;
+const MIN_FONT_SIZE = 5;
+
+export interface LabelLine {
+  text: string;
+  swatch?: string; // hex color shown in front of the text where the output supports it
+}
+
+/** What goes on one spool label, independent of how it's printed */
+export interface LabelContent {
+  url: string; // encoded in the QR code; the same URL the app's scanner reads
+  title: string;
+  lines: LabelLine[];
+}
+
+export interface LabelContentOptions {
+  baseUrl: string;
+  fields: LabelField[];
+  customFields: CustomFieldDefinition[];
+  temperatureUnit: string | null;
+}
+
+// Temperatures are stored in °C, as a single value or a "min-max" range
+function formatPrintTemp(printTemp: string, unit: string | null): string {
+  const values = printTemp.replace(/[°CF\s]/g, "").split("-").map(Number);
+  if (values.some((value) => Number.isNaN(value))) return printTemp;
+  const converted = unit === "F" ? values.map((celsius) => Math.round((celsius * 9) / 5 + 32)) : values;
+  return `${converted.join("-")}°${unit === "F" ? "F" : "C"}`;
+}
+
+const formatDate = (value: unknown) => (value instanceof Date ? value.toISOString() : String(value)).slice(0, 10);
+
+function fieldText(filament: Filament, field: LabelField, temperatureUnit: string | null): string | null {
+  switch (field) {
+    case "manufacturer":
+      return filament.manufacturer;
+    case "material":
+      return filament.material;
+    case "color":
+      return filament.colorName;
+    case "printTemp":
+      return filament.printTemp ? formatPrintTemp(filament.printTemp, temperatureUnit) : null;
+    case "diameter":
+      return filament.diameter ? `Ø ${Number(filament.diameter)} mm` : null;
+    case "weight":
+      return `${Number(filament.totalWeight) * 1000} g`;
+    case "remaining": {
+      const percent = Number(filament.remainingPercentage);
+      return `${Math.round(percent)}% · ${Math.round(Number(filament.totalWeight) * percent * 10)} g`;
+    }
+    case "purchaseDate":
+      return filament.purchaseDate ? formatDate(filament.purchaseDate) : null;
+    case "storageLocation":
+      return filament.storageLocation;
+  }
+}
+
+function customFieldText(filament: Filament, definition: CustomFieldDefinition): string | null {
+  const value = filament.customFieldValues?.[String(definition.id)];
+  if (value === undefined || value === null || value === "") return null;
+  // A checked box reads as a tag ("Dried"); an unchecked one is left off
+  if (definition.fieldType === "boolean") return value ? definition.name : null;
+  const text = definition.fieldType === "date" ? formatDate(value) : String(value);
+  return `${definition.name}: ${text}`;
+}
+
+export function labelContent(filament: Filament, options: LabelContentOptions): LabelContent {
+  const swatch = filament.colorCode && /^#[0-9a-f]{6}$/i.test(filament.colorCode) ? filament.colorCode : undefined;
+  const lines: LabelLine[] = [];
+  for (const field of options.fields) {
+    const text = fieldText(filament, field, options.temperatureUnit);
+    if (text) lines.push(field === "color" ? { text, swatch } : { text });
+  }
+  for (const definition of options.customFields) {
+    const text = customFieldText(filament, definition);
+    if (text) lines.push({ text });
+  }
+
+  return { url: `${options.baseUrl}/?openFilament=${filament.id}`, title: filament.name, lines };
+}
+
+// Shortens text with an ellipsis until it fits the width at the current font
+function fitText(doc: PDFKit.PDFDocument, text: string, width: number): string {
+  if (doc.widthOfString(text) <= width) return text;
+  let end = text.length;
+  while (end > 0 && doc.widthOfString(`${text.slice(0, end)}…`) > width) end--;
+  return end > 0 ? `${text.slice(0, end)}…` : "";
+}
+
+function drawQrCode(doc: PDFKit.PDFDocument, url: string, x: number, y: number, size: number) {
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: "M" });
+  const moduleSize = size / modules.size;
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        // Slight overlap so viewers don't show hairlines between modules
+        doc.rect(x + col * moduleSize, y + row * moduleSize, moduleSize + 0.05, moduleSize + 0.05);
+      }
+    }
+  }
+  doc.fill("#000000");
+}
+
+function drawLabel(doc: PDFKit.PDFDocument, label: LabelContent, qr: boolean, x: number, y: number, width: number, height: number) {
+  const padding = PADDING_MM * POINTS_PER_MM;
+  let textX = x + padding;
+  let textY = y + padding;
+  let textWidth = width - 2 * padding;
+  let textHeight = height - 2 * padding;
+
+  if (qr) {
+    // Tall labels get the code on top, wide ones on the left
+    if (height > width * 1.2) {
+      const size = Math.min(textWidth, textHeight * 0.5);
+      drawQrCode(doc, label.url, x + (width - size) / 2, textY, size);
+      textY += size + padding;
+      textHeight -= size + padding;
+    } else {
+      const size = Math.min(textHeight, textWidth * 0.45);
+      drawQrCode(doc, label.url, textX, y + (height - size) / 2, size);
+      textX += size + padding;
+      textWidth -= size + padding;
+    }
+  }
+
+  // Largest font that fits every line, the title a bit bigger than the rest
+  const lineCount = label.lines.length + 1.25;
+  const fontSize = Math.max(MIN_FONT_SIZE, Math.min(12, textHeight / (lineCount * 1.2)));
+  const lineHeight = fontSize * 1.2;
+  const visibleLines = Math.max(0, Math.floor((textHeight - fontSize * 1.25 * 1.2) / lineHeight));
+
+  doc.font("Helvetica-Bold").fontSize(fontSize * 1.25).fillColor("#000000");
+  doc.text(fitText(doc, label.title, textWidth), textX, textY, { lineBreak: false });
+  textY += fontSize * 1.25 * 1.2;
+
+  doc.font("Helvetica").fontSize(fontSize);
+  label.lines.slice(0, visibleLines).forEach((line) => {
+    let lineX = textX;
+    let lineWidth = textWidth;
+    if (line.swatch) {
+      const swatch = fontSize * 0.8;
+      doc.lineWidth(0.3).rect(lineX, textY + fontSize * 0.1, swatch, swatch).fillAndStroke(line.swatch, "#000000");
+      doc.fillColor("#000000");
+      lineX += swatch + fontSize * 0.4;
+      lineWidth -= swatch + fontSize * 0.4;
+    }
+    doc.text(fitText(doc, line.text, lineWidth), lineX, textY, { lineBreak: false });
+    textY += lineHeight;
+  });
+}
+
+/**
+ * Renders spool labels into a print-ready PDF: one page per label on roll
+ * and tape templates, a filled grid per page on sheet templates. `skip`
+ * leaves that many positions empty at the start of the first sheet.
+ */
+export function renderLabelPdf(labels: LabelContent[], template: LabelTemplate, options: { qr: boolean; skip: number }): Promise<Buffer> {
+  const mm = (value: number) => value * POINTS_PER_MM;
+  const perPage = template.columns * template.rows;
+  const doc = new PDFDocument({ size: [mm(template.pageWidth), mm(template.pageHeight)], margin: 0, autoFirstPage: false });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const skip = perPage > 1 ? options.skip % perPage : 0;
+  labels.forEach((label, index) => {
+    const position = (index + skip) % perPage;
+    if (index === 0 || position === 0) doc.addPage();
+    const column = position % template.columns;
+    const row = Math.floor(position / template.columns);
+    drawLabel(
+      doc,
+      label,
+      options.qr,
+      mm(template.marginLeft + column * (template.labelWidth + template.gapX)),
+      mm(template.marginTop + row * (template.labelHeight + template.gapY)),
+      mm(template.labelWidth),
+      mm(template.labelHeight),
+    );
+  });
+
+  doc.end();
+  return done;
+}
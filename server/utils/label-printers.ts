@@ -0,0 +1,262 @@
+import net from "net";
+import { execFile } from "child_process";
+import QRCode from "qrcode";
+import { labelTemplates, type LabelPrinter, type LabelPrinterLanguage, type LabelTemplateId } from "@shared/schema";
+import type { LabelContent } from "./label-pdf";
+import { renderLabelBitmap, type Bitmap } from "./label-raster";
+import { logger } from "./logger";
+
+const SEND_TIMEOUT_MS = 10 * 1000;
+const PADDING_MM = 2;
+
+const dotsPerMm = (dpi: number) => dpi / 25.4;
+
+// Cuts text to `maxChars`, marking the cut with an ellipsis
+function fitText(text: string, maxChars: number, ellipsis = "…"): string {
+  const chars = Array.from(text);
+  if (chars.length <= maxChars) return text;
+  return maxChars > ellipsis.length ? `${chars.slice(0, maxChars - ellipsis.length).join("")}${ellipsis}` : "";
+}
+
+// --- ZPL (Zebra and compatibles) ---
+
+// With ^FH, "^", "~" and the escape character itself are sent as hex
+const zplText = (text: string) => text.replace(/[\\^~]/g, (char) => `\\${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+function zplLabel(label: LabelContent, qr: boolean, template: LabelTemplateId, dpi: number): string {
+  const { labelWidth, labelHeight } = labelTemplates[template];
+  const width = Math.round(labelWidth * dotsPerMm(dpi));
+  const height = Math.round(labelHeight * dotsPerMm(dpi));
+  const padding = Math.round(PADDING_MM * dotsPerMm(dpi));
+  // ^CI28: field data is UTF-8
+  const commands = ["^XA", "^CI28", `^PW${width}`, `^LL${height}`];
+
+  let textX = padding;
+  let textY = padding;
+  let textWidth = width - 2 * padding;
+  let textHeight = height - 2 * padding;
+
+  if (qr) {
+    const modules = QRCode.create(label.url, { errorCorrectionLevel: "M" }).modules.size;
+    const tall = height > width * 1.2;
+    const space = tall ? Math.min(textWidth, textHeight * 0.5) : Math.min(textHeight, textWidth * 0.45);
+    const magnification = Math.max(1, Math.min(10, Math.floor(space / modules)));
+    const size = magnification * modules;
+    const x = tall ? Math.round((width - size) / 2) : textX;
+    const y = tall ? textY : Math.round((height - size) / 2);
+    commands.push(`^FO${x},${y}^BQN,2,${magnification}^FH\\^FDMA,${zplText(label.url)}^FS`);
+    if (tall) {
+      textY += size + padding;
+      textHeight -= size + padding;
+    } else {
+      textX += size + padding;
+      textWidth -= size + padding;
+    }
+  }
+
+  // Same sizing as the PDF labels; font 0 averages a bit over half its height in width
+  const points = dpi / 72;
+  const lineCount = label.lines.length + 1.25;
+  const fontSize = Math.max(5 * points, Math.min(12 * points, textHeight / (lineCount * 1.2)));
+  const titleSize = Math.round(fontSize * 1.25);
+  const visibleLines = Math.max(0, Math.floor((textHeight - titleSize * 1.2) / (fontSize * 1.2)));
+
+  commands.push(`^FO${textX},${textY}^A0N,${titleSize},${titleSize}^FH\\^FD${zplText(fitText(label.title, Math.floor(textWidth / (titleSize * 0.6))))}^FS`);
+  textY += Math.round(titleSize * 1.2);
+  for (const line of label.lines.slice(0, visibleLines)) {
+    const size = Math.round(fontSize);
+    commands.push(`^FO${textX},${textY}^A0N,${size},${size}^FH\\^FD${zplText(fitText(line.text, Math.floor(textWidth / (size * 0.55))))}^FS`);
+    textY += Math.round(fontSize * 1.2);
+  }
+
+  commands.push("^XZ");
+  return commands.join("\n");
+}
+
+function renderZpl(labels: LabelContent[], qr: boolean, template: LabelTemplateId, dpi: number): Buffer {
+  return Buffer.from(labels.map((label) => zplLabel(label, qr, template, dpi)).join("\n") + "\n", "utf8");
+}
+
+// --- ESC/POS (receipt-style thermal printers) ---
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Code page 850 (ESC t 2) for the characters labels commonly contain
+const CP850: Record<string, number> = {
+  "ä": 0x84, "ö": 0x94, "ü": 0x81, "Ä": 0x8e, "Ö": 0x99, "Ü": 0x9a, "ß": 0xe1,
+  "é": 0x82, "è": 0x8a, "á": 0xa0, "à": 0x85, "ç": 0x87, "ñ": 0xa4,
+  "°": 0xf8, "Ø": 0x9d, "ø": 0x9b, "·": 0xfa, "×": 0x9e, "µ": 0xe6,
+};
+
+function escposText(text: string): number[] {
+  return Array.from(text.replace(/…/g, "...").replace(/€/g, "EUR")).map((char) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : CP850[char] ?? 0x3f;
+  });
+}
+
+function escposQrCode(url: string, moduleSize: number): number[] {
+  const data = Array.from(Buffer.from(url, "utf8"));
+  const store = data.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00, // model 2
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31, // error correction M
+    GS, 0x28, 0x6b, store & 0xff, store >> 8, 0x31, 0x50, 0x30, ...data,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30, // print
+  ];
+}
+
+// Receipt printers feed continuously, so the code goes on top, centred, with
+// the text below it in the printer's built-in 12-dot-wide font
+function renderEscpos(labels: LabelContent[], qr: boolean, template: LabelTemplateId, dpi: number): Buffer {
+  const { labelWidth } = labelTemplates[template];
+  const widthDots = Math.round(labelWidth * dotsPerMm(dpi));
+  const columns = Math.floor(widthDots / 12);
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 2];
+
+  for (const label of labels) {
+    if (qr) {
+      const modules = QRCode.create(label.url, { errorCorrectionLevel: "M" }).modules.size;
+      const moduleSize = Math.max(1, Math.min(16, Math.floor((widthDots * 0.6) / modules)));
+      bytes.push(ESC, 0x61, 1, ...escposQrCode(label.url, moduleSize), 0x0a, ESC, 0x61, 0);
+    }
+    // Bold, double height
+    bytes.push(ESC, 0x45, 1, GS, 0x21, 0x01, ...escposText(fitText(label.title, columns, "...")), 0x0a, ESC, 0x45, 0, GS, 0x21, 0x00);
+    for (const line of label.lines) {
+      bytes.push(...escposText(fitText(line.text, columns, "...")), 0x0a);
+    }
+    // Feed past the cutter, then a partial cut
+    bytes.push(ESC, 0x64, 3, GS, 0x56, 66, 0);
+  }
+
+  return Buffer.from(bytes);
+}
+
+// --- Brother QL raster ---
+
+// Die-cut label sizes at the QL series' fixed 300 dpi, from Brother's
+// raster command reference
+const BROTHER_MEDIA: Partial<Record<LabelTemplateId, { width: number; height: number; widthMm: number; lengthMm: number }>> = {
+  "brother-62x29": { width: 696, height: 271, widthMm: 62, lengthMm: 29 },
+  "brother-62x100": { width: 696, height: 1109, widthMm: 62, lengthMm: 100 },
+};
+const BROTHER_HEAD_PINS = 720;
+const BROTHER_RIGHT_MARGIN_PINS = 12; // for 62 mm media
+
+// One raster line per bitmap row; the print head sees the label mirrored
+function brotherRasterLines(bitmap: Bitmap): Buffer {
+  const lineLength = 3 + BROTHER_HEAD_PINS / 8;
+  const buffer = Buffer.alloc(bitmap.height * lineLength);
+  const offset = BROTHER_HEAD_PINS - bitmap.width - BROTHER_RIGHT_MARGIN_PINS;
+  for (let y = 0; y < bitmap.height; y++) {
+    const start = y * lineLength;
+    buffer.set([0x67, 0x00, BROTHER_HEAD_PINS / 8], start);
+    for (let x = 0; x < bitmap.width; x++) {
+      if (bitmap.pixels[y * bitmap.width + x]) {
+        const pin = offset + (bitmap.width - 1 - x);
+        buffer[start + 3 + (pin >> 3)] |= 0x80 >> (pin & 7);
+      }
+    }
+  }
+  return buffer;
+}
+
+function renderBrotherQl(labels: LabelContent[], qr: boolean, template: LabelTemplateId): Buffer {
+  const media = BROTHER_MEDIA[template];
+  if (!media) throw new Error(`Template ${template} is not a Brother QL label`);
+  const padding = Math.round(PADDING_MM * dotsPerMm(300));
+  // Clear any half-received job, initialise, switch to raster mode
+  const chunks: Buffer[] = [Buffer.alloc(200), Buffer.from([ESC, 0x40, ESC, 0x69, 0x61, 0x01])];
+
+  labels.forEach((label, index) => {
+    const lines = media.height;
+    chunks.push(
+      Buffer.from([
+        // Print information: media type, width and length valid; die-cut labels
+        ESC, 0x69, 0x7a, 0x8e, 0x0b, media.widthMm, media.lengthMm,
+        lines & 0xff, (lines >> 8) & 0xff, (lines >> 16) & 0xff, lines >>> 24,
+        index === 0 ? 0 : 1, 0,
+        ESC, 0x69, 0x4d, 0x40, // auto cut
+        ESC, 0x69, 0x41, 0x01, // cut after every label
+        ESC, 0x69, 0x4b, 0x08, // cut at end
+        ESC, 0x69, 0x64, 0x00, 0x00, // no feed margin on die-cut labels
+      ]),
+      brotherRasterLines(renderLabelBitmap(label, qr, media.width, media.height, padding)),
+      // Print and feed to the next label, or print and finish the job
+      Buffer.from([index === labels.length - 1 ? 0x1a : 0x0c]),
+    );
+  });
+
+  return Buffer.concat(chunks);
+}
+
+// Spool names and fields are user input and end up inside printer commands;
+// without control characters a line break can't start a command of its own
+const printable = (text: string) => text.replace(/[\x00-\x1f\x7f]+/g, " ");
+
+const printableLabel = (label: LabelContent): LabelContent => ({
+  url: printable(label.url),
+  title: printable(label.title),
+  lines: label.lines.map((line) => ({ ...line, text: printable(line.text) })),
+});
+
+/** Renders labels into a print job in the printer's own language */
+export function renderLabelJob(printer: LabelPrinter, jobLabels: LabelContent[], qr: boolean): Buffer {
+  const template = printer.template as LabelTemplateId;
+  const labels = jobLabels.map(printableLabel);
+  const renderers: Record<LabelPrinterLanguage, () => Buffer> = {
+    zpl: () => renderZpl(labels, qr, template, printer.dpi),
+    "brother-ql": () => renderBrotherQl(labels, qr, template),
+    escpos: () => renderEscpos(labels, qr, template, printer.dpi),
+  };
+  return renderers[printer.language as LabelPrinterLanguage]();
+}
+
+// Raw port printing: connect, send the job, close. Printers don't answer on
+// this port, so "sent" is as much as can be known. The cause of a failure is
+// only logged: passed on, refused-versus-timed-out would make this a port
+// scanner for whatever the server can reach.
+function sendOverTcp(host: string, port: number, job: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host: host.replace(/^\[(.*)\]$/, "$1"), port });
+    socket.setTimeout(SEND_TIMEOUT_MS, () => socket.destroy(new Error("timed out")));
+    socket.on("error", (error) => {
+      logger.warn(`Label printer ${host}:${port} failed:`, error.message);
+      reject(new Error(`Could not send the labels to ${host}:${port}`));
+    });
+    socket.on("connect", () => socket.end(job, () => resolve()));
+    // Some printers send status bytes back; read and drop them
+    socket.resume();
+  });
+}
+
+// A raw job through the CUPS client, so the queue's driver doesn't touch it
+function sendToCups(queue: string, host: string | null, job: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const args = [...(host ? ["-h", host] : []), "-d", queue, "-o", "raw"];
+    const child = execFile("lp", args, { timeout: SEND_TIMEOUT_MS }, (error, _stdout, stderr) => {
+      if (!error) return resolve();
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return reject(new Error("The CUPS client (lp) is not installed on the server"));
+      }
+      logger.warn(`CUPS queue ${queue} failed:`, stderr.trim() || error.message);
+      reject(new Error(`CUPS did not accept the job for queue ${queue}`));
+    });
+    // A failed spawn is reported to the callback above; don't also throw on the closed pipe
+    child.stdin?.on("error", () => {});
+    child.stdin?.end(job);
+  });
+}
+
+export function sendToLabelPrinter(printer: LabelPrinter, job: Buffer): Promise<void> {
+  if (printer.connection === "cups") {
+    return sendToCups(printer.queue!, printer.host, job);
+  }
+  return sendOverTcp(printer.host!, printer.port, job);
+}
+
+export function testLabel(printer: LabelPrinter, baseUrl: string): LabelContent {
+  return { url: `${baseUrl}/`, title: "Filadex", lines: [{ text: printer.name }, { text: "Test label" }] };
+}
@@ -0,0 +1,230 @@
+import QRCode from "qrcode";
+import type { LabelContent } from "./label-pdf";
+
+/** A 1-bit image, one byte per pixel (1 = black), row by row */
+export interface Bitmap {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+// 5x7 pixel font for printers that only take raster images. Rows top to
+// bottom, "#" is a black pixel; an 8th row holds descenders. Anything not
+// listed prints as "?".
+const GLYPHS: Record<string, string> = {
+  " ": "..... ..... ..... ..... ..... ..... .....",
+  "!": "..#.. ..#.. ..#.. ..#.. ..#.. ..... ..#..",
+  "\"": ".#.#. .#.#. ..... ..... ..... ..... .....",
+  "#": ".#.#. .#.#. ##### .#.#. ##### .#.#. .#.#.",
+  "$": "..#.. .#### #.#.. .###. ..#.# ####. ..#..",
+  "%": "##... ##..# ...#. ..#.. .#... #..## ...##",
+  "&": ".##.. #..#. #.#.. .#... #.#.# #..#. .##.#",
+  "'": "..#.. ..#.. ..... ..... ..... ..... .....",
+  "(": "...#. ..#.. .#... .#... .#... ..#.. ...#.",
+  ")": ".#... ..#.. ...#. ...#. ...#. ..#.. .#...",
+  "*": "..... ..#.. #.#.# .###. #.#.# ..#.. .....",
+  "+": "..... ..#.. ..#.. ##### ..#.. ..#.. .....",
+  ",": "..... ..... ..... ..... ..... .##.. ..#.. .#...",
+  "-": "..... ..... ..... ##### ..... ..... .....",
+  ".": "..... ..... ..... ..... ..... .##.. .##..",
+  "/": "..... ....# ...#. ..#.. .#... #.... .....",
+  "0": ".###. #...# #..## #.#.# ##..# #...# .###.",
+  "1": "..#.. .##.. ..#.. ..#.. ..#.. ..#.. .###.",
+  "2": ".###. #...# ....# ...#. ..#.. .#... #####",
+  "3": "##### ...#. ..#.. ...#. ....# #...# .###.",
+  "4": "...#. ..##. .#.#. #..#. ##### ...#. ...#.",
+  "5": "##### #.... ####. ....# ....# #...# .###.",
+  "6": "..##. .#... #.... ####. #...# #...# .###.",
+  "7": "##### ....# ...#. ..#.. .#... .#... .#...",
+  "8": ".###. #...# #...# .###. #...# #...# .###.",
+  "9": ".###. #...# #...# .#### ....# ...#. .##..",
+  ":": "..... .##.. .##.. ..... .##.. .##.. .....",
+  ";": "..... .##.. .##.. ..... .##.. ..#.. .#...",
+  "<": "...#. ..#.. .#... #.... .#... ..#.. ...#.",
+  "=": "..... ..... ##### ..... ##### ..... .....",
+  ">": ".#... ..#.. ...#. ....# ...#. ..#.. .#...",
+  "?": ".###. #...# ....# ...#. ..#.. ..... ..#..",
+  "@": ".###. #...# ....# .##.# #.#.# #.#.# .###.",
+  "A": ".###. #...# #...# ##### #...# #...# #...#",
+  "B": "####. #...# #...# ####. #...# #...# ####.",
+  "C": ".###. #...# #.... #.... #.... #...# .###.",
+  "D": "###.. #..#. #...# #...# #...# #..#. ###..",
+  "E": "##### #.... #.... ####. #.... #.... #####",
+  "F": "##### #.... #.... ####. #.... #.... #....",
+  "G": ".###. #...# #.... #.### #...# #...# .####",
+  "H": "#...# #...# #...# ##### #...# #...# #...#",
+  "I": ".###. ..#.. ..#.. ..#.. ..#.. ..#.. .###.",
+  "J": "..### ...#. ...#. ...#. ...#. #..#. .##..",
+  "K": "#...# #..#. #.#.. ##... #.#.. #..#. #...#",
+  "L": "#.... #.... #.... #.... #.... #.... #####",
+  "M": "#...# ##.## #.#.# #.#.# #...# #...# #...#",
+  "N": "#...# #...# ##..# #.#.# #..## #...# #...#",
+  "O": ".###. #...# #...# #...# #...# #...# .###.",
+  "P": "####. #...# #...# ####. #.... #.... #....",
+  "Q": ".###. #...# #...# #...# #.#.# #..#. .##.#",
+  "R": "####. #...# #...# ####. #.#.. #..#. #...#",
+  "S": ".#### #.... #.... .###. ....# ....# ####.",
+  "T": "##### ..#.. ..#.. ..#.. ..#.. ..#.. ..#..",
+  "U": "#...# #...# #...# #...# #...# #...# .###.",
+  "V": "#...# #...# #...# #...# #...# .#.#. ..#..",
+  "W": "#...# #...# #...# #.#.# #.#.# #.#.# .#.#.",
+  "X": "#...# #...# .#.#. ..#.. .#.#. #...# #...#",
+  "Y": "#...# #...# .#.#. ..#.. ..#.. ..#.. ..#..",
+  "Z": "##### ....# ...#. ..#.. .#... #.... #####",
+  "[": ".###. .#... .#... .#... .#... .#... .###.",
+  "\\": "..... #.... .#... ..#.. ...#. ....# .....",
+  "]": ".###. ...#. ...#. ...#. ...#. ...#. .###.",
+  "^": "..#.. .#.#. #...# ..... ..... ..... .....",
+  "_": "..... ..... ..... ..... ..... ..... #####",
+  "`": ".#... ..#.. ..... ..... ..... ..... .....",
+  "a": "..... ..... .###. ....# .#### #...# .####",
+  "b": "#.... #.... #.##. ##..# #...# #...# ####.",
+  "c": "..... ..... .###. #.... #.... #...# .###.",
+  "d": "....# ....# .##.# #..## #...# #...# .####",
+  "e": "..... ..... .###. #...# ##### #.... .###.",
+  "f": "..##. .#..# .#... ###.. .#... .#... .#...",
+  "g": "..... ..... .#### #...# #...# .#### ....# .###.",
+  "h": "#.... #.... #.##. ##..# #...# #...# #...#",
+  "i": "..#.. ..... .##.. ..#.. ..#.. ..#.. .###.",
+  "j": "...#. ..... ..##. ...#. ...#. ...#. #..#. .##..",
+  "k": "#.... #.... #..#. #.#.. ##... #.#.. #..#.",
+  "l": ".##.. ..#.. ..#.. ..#.. ..#.. ..#.. .###.",
+  "m": "..... ..... ##.#. #.#.# #.#.# #...# #...#",
+  "n": "..... ..... #.##. ##..# #...# #...# #...#",
+  "o": "..... ..... .###. #...# #...# #...# .###.",
+  "p": "..... ..... ####. #...# #...# ####. #.... #....",
+  "q": "..... ..... .#### #...# #...# .#### ....# ....#",
+  "r": "..... ..... #.##. ##..# #.... #.... #....",
+  "s": "..... ..... .###. #.... .###. ....# ####.",
+  "t": ".#... .#... ###.. .#... .#... .#..# ..##.",
+  "u": "..... ..... #...# #...# #...# #..## .##.#",
+  "v": "..... ..... #...# #...# #...# .#.#. ..#..",
+  "w": "..... ..... #...# #...# #.#.# #.#.# .#.#.",
+  "x": "..... ..... #...# .#.#. ..#.. .#.#. #...#",
+  "y": "..... ..... #...# #...# #...# .#### ....# .###.",
+  "z": "..... ..... ##### ...#. ..#.. .#... #####",
+  "{": "...#. ..#.. ..#.. .#... ..#.. ..#.. ...#.",
+  "|": "..#.. ..#.. ..#.. ..#.. ..#.. ..#.. ..#..",
+  "}": ".#... ..#.. ..#.. ...#. ..#.. ..#.. .#...",
+  "~": "..... ..... .#... #.#.# ...#. ..... .....",
+  "°": ".##.. #..#. #..#. .##.. ..... ..... .....",
+  "·": "..... ..... ..... ..#.. ..... ..... .....",
+  "…": "..... ..... ..... ..... ..... ..... #.#.#",
+  "×": "..... #...# .#.#. ..#.. .#.#. #...# .....",
+  "€": "..### .#... ####. .#... ####. .#... ..###",
+  "Ø": ".###. #..## #.#.# #.#.# #.#.# ##..# .###.",
+  "ø": "..... ..... .###. #..## #.#.# ##..# .###.",
+  "Ä": "#...# .###. #...# #...# ##### #...# #...#",
+  "Ö": "#...# .###. #...# #...# #...# #...# .###.",
+  "Ü": "#...# ..... #...# #...# #...# #...# .###.",
+  "ä": ".#.#. ..... .###. ....# .#### #...# .####",
+  "ö": ".#.#. ..... .###. #...# #...# #...# .###.",
+  "ü": ".#.#. ..... #...# #...# #...# #..## .##.#",
+  "ß": ".##.. #..#. #..#. #.#.. #..#. #..#. #.##.",
+  "é": "...#. ..#.. .###. #...# ##### #.... .###.",
+};
+
+const GLYPH_WIDTH = 5;
+const CELL_WIDTH = 6; // glyph plus a column of spacing
+const CELL_HEIGHT = 9; // 7 rows, a descender row and a row of spacing
+
+export function createBitmap(width: number, height: number): Bitmap {
+  return { width, height, pixels: new Uint8Array(width * height) };
+}
+
+function fillRect(bitmap: Bitmap, x: number, y: number, width: number, height: number) {
+  for (let row = Math.max(0, y); row < Math.min(bitmap.height, y + height); row++) {
+    bitmap.pixels.fill(1, row * bitmap.width + Math.max(0, x), row * bitmap.width + Math.min(bitmap.width, x + width));
+  }
+}
+
+function drawQrCode(bitmap: Bitmap, url: string, x: number, y: number, size: number) {
+  const { modules } = QRCode.create(url, { errorCorrectionLevel: "M" });
+  // Whole pixels per module, or scanners struggle with the uneven grid
+  const moduleSize = Math.max(1, Math.floor(size / modules.size));
+  const offset = Math.floor((size - moduleSize * modules.size) / 2);
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        fillRect(bitmap, x + offset + col * moduleSize, y + offset + row * moduleSize, moduleSize, moduleSize);
+      }
+    }
+  }
+}
+
+function drawText(bitmap: Bitmap, text: string, x: number, y: number, scale: number, bold = false) {
+  Array.from(text).forEach((char, index) => {
+    const rows = (GLYPHS[char] ?? GLYPHS["?"]).split(" ");
+    const left = x + index * CELL_WIDTH * scale;
+    rows.forEach((row, rowIndex) => {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        if (row[col] === "#") {
+          // Bold smears each pixel sideways by a bit
+          const width = bold ? scale + Math.max(1, Math.floor(scale / 2)) : scale;
+          fillRect(bitmap, left + col * scale, y + rowIndex * scale, width, scale);
+        }
+      }
+    });
+  });
+}
+
+// Cuts text to `maxChars`, marking the cut with an ellipsis
+function fitText(text: string, maxChars: number): string {
+  const chars = Array.from(text);
+  if (chars.length <= maxChars) return text;
+  return maxChars > 1 ? `${chars.slice(0, maxChars - 1).join("")}…` : "";
+}
+
+/**
+ * Draws a label onto a bitmap of the given size in printer dots, laid out
+ * like the PDF labels: the QR code on the left (or on top of tall labels)
+ * and the name and fields next to it in the largest font that fits.
+ */
+export function renderLabelBitmap(label: LabelContent, qr: boolean, width: number, height: number, padding: number): Bitmap {
+  const bitmap = createBitmap(width, height);
+  let textX = padding;
+  let textY = padding;
+  let textWidth = width - 2 * padding;
+  let textHeight = height - 2 * padding;
+
+  if (qr) {
+    if (height > width * 1.2) {
+      const size = Math.min(textWidth, Math.floor(textHeight * 0.5));
+      drawQrCode(bitmap, label.url, Math.floor((width - size) / 2), textY, size);
+      textY += size + padding;
+      textHeight -= size + padding;
+    } else {
+      const size = Math.min(textHeight, Math.floor(textWidth * 0.45));
+      drawQrCode(bitmap, label.url, textX, Math.floor((height - size) / 2), size);
+      textX += size + padding;
+      textWidth -= size + padding;
+    }
+  }
+
+  const bottom = textY + textHeight;
+
+  // The title is one step bigger than the fields. Keep at least ~14
+  // characters per line; fields that still don't fit are left off.
+  const maxScale = Math.max(1, Math.floor(textWidth / (CELL_WIDTH * 14)));
+  let scale = 1;
+  for (let candidate = maxScale; candidate > 1; candidate--) {
+    if (CELL_HEIGHT * (candidate + 1) + label.lines.length * CELL_HEIGHT * candidate <= textHeight) {
+      scale = candidate;
+      break;
+    }
+  }
+  const titleScale = Math.min(scale + 1, maxScale + 1);
+
+  drawText(bitmap, fitText(label.title, Math.floor(textWidth / (CELL_WIDTH * titleScale))), textX, textY, titleScale, true);
+  textY += CELL_HEIGHT * titleScale;
+
+  const maxChars = Math.floor(textWidth / (CELL_WIDTH * scale));
+  for (const line of label.lines) {
+    // The last row of a cell is spacing, so it may run into the padding
+    if (textY + (CELL_HEIGHT - 1) * scale > bottom) break;
+    drawText(bitmap, fitText(line.text, maxChars), textX, textY, scale);
+    textY += CELL_HEIGHT * scale;
+  }
+
+  return bitmap;
+}
@@ -0,0 +1,74 @@
+import type { Filament, FilamentType, MinStockUnit } from "@shared/schema";
+
+/**
+ * A filament type's combined stock across its spools, against the minimum
+ * set on it. Shared by the filament-types routes, statistics and the
+ * scheduled checks so they all agree on what "below minimum" means.
+ */
+export interface FilamentTypeStockLevel {
+  filamentTypeId: number;
+  manufacturer: string | null;
+  material: string;
+  colorName: string;
+  colorCode: string | null;
+  minStockQuantity: number | null;
+  minStockUnit: MinStockUnit | null;
+  spools: number; // non-empty spools
+  remainingKg: number;
+  // In minStockUnit; null without a minimum
+  current: number | null;
+  belowMinimum: boolean;
+  minStockNotifiedAt: Date | null;
+}
+
+const remainingKg = (filament: Filament) =>
+  Number(filament.totalWeight) * Number(filament.remainingPercentage) / 100;
+
+export function typeLabel(type: Pick<FilamentType, "manufacturer" | "material" | "colorName">): string {
+  return [type.manufacturer, type.material, type.colorName].filter(Boolean).join(" ");
+}
+
+export function stockLevels(types: FilamentType[], userFilaments: Filament[]): FilamentTypeStockLevel[] {
+  const byType = new Map<number, Filament[]>();
+  for (const filament of userFilaments) {
+    byType.set(filament.filamentTypeId, [...(byType.get(filament.filamentTypeId) ?? []), filament]);
+  }
+
+  return types.map((type) => {
+    const spools = (byType.get(type.id) ?? [])
+      .filter((filament) => !filament.archivedAt && Number(filament.remainingPercentage) > 0);
+    const remaining = spools.reduce((sum, filament) => sum + remainingKg(filament), 0);
+    const minimum = type.minStockQuantity !== null ? Number(type.minStockQuantity) : null;
+    const unit = minimum !== null ? (type.minStockUnit as MinStockUnit | null) ?? "spools" : null;
+    const current = unit === "kg" ? remaining : unit === "spools" ? spools.length : null;
+
+    return {
+      filamentTypeId: type.id,
+      manufacturer: type.manufacturer,
+      material: type.material,
+      colorName: type.colorName,
+      colorCode: type.colorCode,
+      minStockQuantity: minimum,
+      minStockUnit: unit,
+      spools: spools.length,
+      remainingKg: Math.round(remaining * 1000) / 1000,
+      current: current !== null ? Math.round(current * 1000) / 1000 : null,
+      belowMinimum: minimum !== null && current !== null && current < minimum,
+      minStockNotifiedAt: type.minStockNotifiedAt,
+    };
+  });
+}
+
+/**
+ * Spools to buy to get a type back to its minimum. For a kg minimum this
+ * assumes spools the size of the type's most recent one (1 kg if unknown).
+ */
+export function shortfallInSpools(level: FilamentTypeStockLevel, typeFilaments: Filament[]): number {
+  if (!level.belowMinimum || level.minStockQuantity === null || level.current === null) return 0;
+  const missing = level.minStockQuantity - level.current;
+  if (level.minStockUnit === "spools") return Math.ceil(missing);
+
+  const latest = typeFilaments.reduce<Filament | undefined>((a, b) => (!a || b.id > a.id ? b : a), undefined);
+  const spoolKg = latest && Number(latest.totalWeight) > 0 ? Number(latest.totalWeight) : 1;
+  return Math.max(1, Math.ceil(missing / spoolKg));
+}
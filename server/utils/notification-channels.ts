@@ -0,0 +1,136 @@
+import type { NotificationChannel, NotificationChannelType, User } from "@shared/schema";
+import { sendMail } from "./mailer";
+import { lowStockEmail, dryingReminderEmail, minStockEmail, testNotificationEmail } from "./email-templates";
+import { logger } from "./logger";
+import { typeLabel, type FilamentTypeStockLevel } from "./min-stock";
+
+type Language = "en" | "de";
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Discord rejects messages over 2000 characters; the others are far more lenient
+const DISCORD_MAX_CONTENT_LENGTH = 2000;
+
+/**
+ * A notification rendered for every channel: email gets the HTML version,
+ * the push/chat channels the title and plain text.
+ */
+export interface NotificationMessage {
+  title: string;
+  text: string;
+  html: string;
+}
+
+export function lowStockNotification(language: Language, filamentNames: string[]): NotificationMessage {
+  const { subject, html } = lowStockEmail(language, filamentNames);
+  const intro = language === "de" ? "Folgende Spulen sind fast leer:" : "The following spools are running low:";
+  return { title: subject, text: [intro, ...filamentNames.map((name) => `- ${name}`)].join("\n"), html };
+}
+
+export function dryingReminderNotification(language: Language, filamentNames: string[]): NotificationMessage {
+  const { subject, html } = dryingReminderEmail(language, filamentNames);
+  const intro = language === "de"
+    ? "Folgende feuchtigkeitsempfindlichen Spulen wurden längere Zeit nicht getrocknet:"
+    : "The following moisture-sensitive spools haven't been dried in a while:";
+  return { title: subject, text: [intro, ...filamentNames.map((name) => `- ${name}`)].join("\n"), html };
+}
+
+export function minStockNotification(language: Language, levels: FilamentTypeStockLevel[]): NotificationMessage {
+  const unitLabel = (level: FilamentTypeStockLevel) =>
+    level.minStockUnit === "kg" ? "kg" : language === "de" ? "Spulen" : "spools";
+  const lines = levels.map((level) =>
+    `${typeLabel(level)}: ${level.current} / ${level.minStockQuantity} ${unitLabel(level)}`);
+  const { subject, html } = minStockEmail(language, lines);
+  const intro = language === "de"
+    ? "Von folgenden Filamenten ist weniger als der Mindestbestand vorrätig:"
+    : "You have less than the minimum stock of the following filaments:";
+  return { title: subject, text: [intro, ...lines.map((line) => `- ${line}`)].join("\n"), html };
+}
+
+export function testNotification(language: Language): NotificationMessage {
+  const { subject, html } = testNotificationEmail(language);
+  const text = language === "de"
+    ? "Dieser Kanal ist eingerichtet und empfängt Filadex-Benachrichtigungen."
+    : "This channel is set up and will receive Filadex notifications.";
+  return { title: subject, text, html };
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status} ${res.statusText}`);
+  }
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+type ChannelSender = (config: Record<string, string>, message: NotificationMessage) => Promise<void>;
+
+// One sender per channel type; config has been validated against
+// notificationChannelConfigSchemas when the channel was saved
+const channelSenders: Record<NotificationChannelType, ChannelSender> = {
+  webhook: (config, { title, text }) => postJson(config.url, { title, message: text }),
+  // JSON publishing (topic in the body) rather than headers, so titles with
+  // umlauts survive
+  ntfy: (config, { title, text }) => postJson(
+    trimTrailingSlash(config.serverUrl),
+    { topic: config.topic, title, message: text },
+    config.token ? { Authorization: `Bearer ${config.token}` } : {},
+  ),
+  gotify: (config, { title, text }) => postJson(
+    `${trimTrailingSlash(config.serverUrl)}/message`,
+    { title, message: text, priority: 5 },
+    { "X-Gotify-Key": config.token },
+  ),
+  matrix: (config, { title, text }) => postJson(config.url, { username: "Filadex", text: `${title}\n${text}` }),
+  discord: (config, { title, text }) => postJson(config.url, {
+    username: "Filadex",
+    content: `**${title}**\n${text}`.slice(0, DISCORD_MAX_CONTENT_LENGTH),
+  }),
+  slack: (config, { title, text }) => postJson(config.url, { text: `*${title}*\n${text}` }),
+};
+
+/** Sends to a single channel; throws if the target rejects it or is unreachable. */
+export async function sendToChannel(channel: NotificationChannel, message: NotificationMessage): Promise<void> {
+  const sender = channelSenders[channel.type as NotificationChannelType];
+  if (!sender) {
+    throw new Error(`Unknown notification channel type: ${channel.type}`);
+  }
+  await sender(channel.config, message);
+}
+
+/** Email only counts as a channel once the address is verified. */
+export function emailChannelActive(user: User): boolean {
+  return !!user.notifyViaEmail && !!user.email && !!user.emailVerified;
+}
+
+/**
+ * Delivers a notification through every active channel of the user: email
+ * (if enabled and verified) plus each enabled entry of `channels`. Never
+ * throws - a failing channel is logged and the others still get it.
+ */
+export async function dispatchNotification(
+  user: User,
+  channels: NotificationChannel[],
+  message: NotificationMessage,
+): Promise<void> {
+  if (emailChannelActive(user)) {
+    await sendMail({ to: user.email!, subject: message.title, html: message.html });
+  }
+
+  for (const channel of channels) {
+    if (!channel.enabled) continue;
+    try {
+      await sendToChannel(channel, message);
+    } catch (error) {
+      logger.error(`Failed to send notification to ${channel.type} channel ${channel.id} of user ${user.id}:`, error);
+    }
+  }
+}
@@ -1,10 +1,16 @@
 import { eq } from "drizzle-orm";
 import { db } from "../db";
-import { users, materials, filaments } from "@shared/schema";
+import {
+  users, materials, filaments, webhooks, notificationChannels,
+  type NotificationChannel, type WebhookEventType,
+} from "@shared/schema";
 import { storage } from "../storage";
-import { sendMail } from "./mailer";
-import { lowStockEmail, dryingReminderEmail } from "./email-templates";
+import {
+  dispatchNotification, lowStockNotification, dryingReminderNotification, minStockNotification,
+} from "./notification-channels";
 import { logger } from "./logger";
+import { stockLevels, shortfallInSpools, typeLabel } from "./min-stock";
+import { emitWebhookEvent } from "./webhooks";
 
 const DRYING_REMINDER_COOLDOWN_MS = 24 * 60 * 60 * 1000; // at most one reminder/day per spool
 
@@ -13,14 +19,44 @@ function daysAgo(dateStr: string | Date): number {
   return (Date.now() - date.getTime()) / (24 * 60 * 60 * 1000);
 }
 
+// Event types each user's enabled webhooks subscribe to, keyed by user id
+async function loadWebhookSubscriptions(): Promise<Map<number, Set<WebhookEventType>>> {
+  const rows = await db.select({ userId: webhooks.userId, eventTypes: webhooks.eventTypes })
+    .from(webhooks)
+    .where(eq(webhooks.enabled, true));
+  const subscriptions = new Map<number, Set<WebhookEventType>>();
+  for (const row of rows) {
+    const events = subscriptions.get(row.userId) ?? new Set<WebhookEventType>();
+    row.eventTypes.forEach((event) => events.add(event));
+    subscriptions.set(row.userId, events);
+  }
+  return subscriptions;
+}
+
+// Enabled notification channels, keyed by user id
+async function loadNotificationChannels(): Promise<Map<number, NotificationChannel[]>> {
+  const rows = await db.select().from(notificationChannels).where(eq(notificationChannels.enabled, true));
+  const channels = new Map<number, NotificationChannel[]>();
+  for (const row of rows) {
+    channels.set(row.userId, [...(channels.get(row.userId) ?? []), row]);
+  }
+  return channels;
+}
+
 /**
- * Runs the low-stock and drying-reminder checks for every user with the
- * corresponding preference enabled, and emails a single batched summary per
- * user per run. Called on a timer from server/index.ts - not a request
- * handler, since there's no external trigger for "check periodically".
+ * Runs the minimum-stock, low-stock and drying-reminder checks for every
+ * user. Types that drop below their minimum and newly low spools always go
+ * on the shopping list; for the rest, users with the
+ * corresponding preference enabled or a webhook subscribed to the event get
+ * a single batched notification (in-app, plus email and their notification
+ * channels) / webhook event per run.
+ * Called on a timer from server/index.ts - not a request handler, since
+ * there's no external trigger for "check periodically".
  */
 export async function runScheduledChecks(): Promise<void> {
-  const allUsers = await db.select().from(users).where(eq(users.emailVerified, true));
+  const allUsers = await db.select().from(users);
+  const webhookSubscriptions = await loadWebhookSubscriptions();
+  const channelsByUser = await loadNotificationChannels();
 
   const hygroscopicMaterials = await db.select({ name: materials.name })
     .from(materials)
@@ -28,33 +64,95 @@ export async function runScheduledChecks(): Promise<void> {
   const hygroscopicNames = new Set(hygroscopicMaterials.map((m) => m.name));
 
   for (const user of allUsers) {
-    if (!user.email) continue;
-    if (!user.notifyLowStock && !user.notifyDryingReminder) continue;
+    const channels = channelsByUser.get(user.id) ?? [];
+    // The in-app notification center always works, so unlike email these no
+    // longer depend on the user having a channel configured
+    const notifyLowStock = !!user.notifyLowStock;
+    const notifyDrying = !!user.notifyDryingReminder;
+    const subscribed = webhookSubscriptions.get(user.id);
+    const checkLowStock = notifyLowStock || !!subscribed?.has("filament.low_stock");
+    const checkDrying = notifyDrying || !!subscribed?.has("filament.drying_reminder");
 
     // Via storage, not a raw db query: filaments no longer carries `material`
     // directly (see IMPLEMENTATION_PLAN.md #9) - storage.getFilaments joins it
-    // back in from filamentTypes.
-    const userFilaments = await storage.getFilaments(user.id);
+    // back in from filamentTypes. Archived spools are out of stock and
+    // need no reminders.
+    const userFilaments = (await storage.getFilaments(user.id)).filter((f) => !f.archivedAt);
     const language = user.language === "de" ? "de" : "en";
 
-    if (user.notifyLowStock) {
-      const threshold = user.lowStockThresholdPercent ?? 15;
-      const lowStockCandidates = userFilaments.filter(
-        (f) => f.lowStockNotifiedAt === null && Number(f.remainingPercentage) <= threshold
-      );
+    // Minimum stock per filament type. Runs before the per-spool check so
+    // a type's shopping list item gets the full shortfall as its quantity.
+    const levels = stockLevels(await storage.getFilamentTypes(user.id), userFilaments)
+      .filter((level) => level.minStockQuantity !== null);
+    for (const level of levels) {
+      if (!level.belowMinimum && level.minStockNotifiedAt) {
+        await storage.updateFilamentType(level.filamentTypeId, { minStockNotifiedAt: null }, user.id);
+      }
+    }
+    const belowMinimum = levels.filter((level) => level.belowMinimum && !level.minStockNotifiedAt);
+    if (belowMinimum.length > 0) {
+      const quantities = new Map(belowMinimum.map((level) => [
+        level.filamentTypeId,
+        shortfallInSpools(level, userFilaments.filter((f) => f.filamentTypeId === level.filamentTypeId)),
+      ]));
+      await storage.addToShoppingList(user.id, belowMinimum.map((level) => level.filamentTypeId), "min_stock", quantities);
+
+      // Shares the low-stock preference - it's the same kind of alert
+      if (notifyLowStock) {
+        await storage.createNotification(user.id, "min_stock", {
+          types: belowMinimum.map((level) => ({
+            id: level.filamentTypeId,
+            name: typeLabel(level),
+            current: level.current,
+            minimum: level.minStockQuantity,
+            unit: level.minStockUnit,
+          })),
+        });
+        await dispatchNotification(user, channels, minStockNotification(language, belowMinimum));
+      }
+
+      for (const level of belowMinimum) {
+        await storage.updateFilamentType(level.filamentTypeId, { minStockNotifiedAt: new Date() }, user.id);
+      }
+      logger.info(`Flagged ${belowMinimum.length} filament type(s) below minimum stock for user ${user.id}`);
+    }
+
+    // Always checked, since it feeds the shopping list. It has its own latch,
+    // so spools listed while notifications were off still get notified about
+    // once they're turned on.
+    const threshold = user.lowStockThresholdPercent ?? 15;
+    const lowSpools = userFilaments.filter((f) => Number(f.remainingPercentage) <= threshold);
+    const unlisted = lowSpools.filter((f) => f.lowStockListedAt === null);
+    if (unlisted.length > 0) {
+      await storage.addToShoppingList(user.id, unlisted.map((f) => f.filamentTypeId), "low_stock");
+      for (const f of unlisted) {
+        await db.update(filaments).set({ lowStockListedAt: new Date() }).where(eq(filaments.id, f.id));
+      }
+    }
+
+    if (checkLowStock) {
+      const lowStockCandidates = lowSpools.filter((f) => f.lowStockNotifiedAt === null);
 
       if (lowStockCandidates.length > 0) {
-        const { subject, html } = lowStockEmail(language, lowStockCandidates.map((f) => f.name));
-        await sendMail({ to: user.email, subject, html });
+        if (notifyLowStock) {
+          await storage.createNotification(user.id, "low_stock", {
+            thresholdPercent: threshold,
+            filaments: lowStockCandidates.map((f) => ({ id: f.id, name: f.name })),
+          });
+          await dispatchNotification(user, channels, lowStockNotification(language, lowStockCandidates.map((f) => f.name)));
+        }
+        if (subscribed?.has("filament.low_stock")) {
+          await emitWebhookEvent(user.id, "filament.low_stock", { thresholdPercent: threshold, filaments: lowStockCandidates });
+        }
 
         for (const f of lowStockCandidates) {
           await db.update(filaments).set({ lowStockNotifiedAt: new Date() }).where(eq(filaments.id, f.id));
         }
-        logger.info(`Sent low-stock email to user ${user.id} for ${lowStockCandidates.length} spool(s)`);
+        logger.info(`Sent low-stock notification to user ${user.id} for ${lowStockCandidates.length} spool(s)`);
       }
     }
 
-    if (user.notifyDryingReminder) {
+    if (checkDrying) {
       const reminderDays = user.dryingReminderDays ?? 30;
       const dryingCandidates = userFilaments.filter((f) => {
         if (!hygroscopicNames.has(f.material)) return false;
@@ -70,13 +168,21 @@ export async function runScheduledChecks(): Promise<void> {
       });
 
       if (dryingCandidates.length > 0) {
-        const { subject, html } = dryingReminderEmail(language, dryingCandidates.map((f) => f.name));
-        await sendMail({ to: user.email, subject, html });
+        if (notifyDrying) {
+          await storage.createNotification(user.id, "drying_reminder", {
+            reminderDays,
+            filaments: dryingCandidates.map((f) => ({ id: f.id, name: f.name })),
+          });
+          await dispatchNotification(user, channels, dryingReminderNotification(language, dryingCandidates.map((f) => f.name)));
+        }
+        if (subscribed?.has("filament.drying_reminder")) {
+          await emitWebhookEvent(user.id, "filament.drying_reminder", { reminderDays, filaments: dryingCandidates });
+        }
 
         for (const f of dryingCandidates) {
           await db.update(filaments).set({ dryingReminderNotifiedAt: new Date() }).where(eq(filaments.id, f.id));
         }
-        logger.info(`Sent drying-reminder email to user ${user.id} for ${dryingCandidates.length} spool(s)`);
+        logger.info(`Sent drying-reminder notification to user ${user.id} for ${dryingCandidates.length} spool(s)`);
       }
     }
   }
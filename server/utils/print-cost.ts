@@ -0,0 +1,73 @@
+import type { Filament } from "@shared/schema";
+import type { CostPerKgResolver } from "./purchase-prices";
+
+/** Filament going into a print: a specific spool, or just a material for quotes. */
+export interface PrintCostMaterial {
+  filament?: Filament;
+  material: string;
+  grams: number;
+}
+
+/**
+ * What a print costs besides its filament. Money amounts are in the
+ * resolver's currency; a missing rate, wattage or time leaves its part out.
+ */
+export interface PrintCostOptions {
+  printHours: number | null;
+  printerWatts: number | null;
+  electricityRate: number | null; // per kWh
+  machineCostPerHour: number | null;
+  markupPercent: number;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Cost breakdown of a print: each filament at what a kg of it cost (see
+ * costPerKgResolver), electricity for the print time at the printer's draw,
+ * machine time, and a markup on top of their sum for quoting.
+ */
+export function printCostBreakdown(materials: PrintCostMaterial[], options: PrintCostOptions, costPerKg: CostPerKgResolver) {
+  const lines = materials.map(({ filament, material, grams }) => {
+    const { costPerKg: perKg, source } = filament ? costPerKg.forSpool(filament) : costPerKg.forMaterial(material);
+    return {
+      filamentId: filament?.id ?? null,
+      name: filament?.name ?? material,
+      material,
+      grams: round(grams),
+      costPerKg: round(perKg),
+      source,
+      cost: round((perKg * grams) / 1000),
+    };
+  });
+  const materialCost = round(lines.reduce((sum, line) => sum + line.cost, 0));
+
+  const { printHours, printerWatts, electricityRate, machineCostPerHour, markupPercent } = options;
+  const electricity = printHours !== null && printerWatts !== null && electricityRate !== null
+    ? {
+        watts: printerWatts,
+        kWh: round((printerWatts * printHours) / 1000, 3),
+        rate: electricityRate,
+        cost: round(((printerWatts * printHours) / 1000) * electricityRate),
+      }
+    : null;
+  const machine = printHours !== null && machineCostPerHour !== null
+    ? { hours: printHours, costPerHour: machineCostPerHour, cost: round(printHours * machineCostPerHour) }
+    : null;
+
+  const subtotal = round(materialCost + (electricity?.cost ?? 0) + (machine?.cost ?? 0));
+  const markup = round((subtotal * markupPercent) / 100);
+
+  return {
+    grams: round(lines.reduce((sum, line) => sum + line.grams, 0)),
+    materials: lines,
+    materialCost,
+    printHours,
+    electricity,
+    machine,
+    subtotal,
+    markupPercent,
+    markup,
+    total: round(subtotal + markup),
+  };
+}
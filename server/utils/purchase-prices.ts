@@ -0,0 +1,207 @@
+import type { Filament, PurchaseOrderWithItems } from "@shared/schema";
+import { BASE_CURRENCY, type CurrencyConverter } from "./currency";
+
+/**
+ * One purchase of a filament type, from a purchase order item. pricePerKg
+ * is the landed cost: the spool price plus its share of the order's
+ * shipping, which is split over the order's items by weight.
+ */
+export interface PriceHistoryEntry {
+  purchaseOrderId: number;
+  itemId: number;
+  filamentTypeId: number;
+  material: string;
+  orderDate: string;
+  vendor: string;
+  currency: string;
+  quantity: number;
+  pricePerSpool: number;
+  weightKg: number;
+  shippingPerSpool: number;
+  pricePerKg: number;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function orderTotals(order: PurchaseOrderWithItems): { subtotal: number; total: number } {
+  const subtotal = order.items.reduce((sum, item) => sum + Number(item.pricePerSpool) * item.quantity, 0);
+  return { subtotal: round(subtotal), total: round(subtotal + Number(order.shippingCost)) };
+}
+
+/** Every item of the given orders as a price history entry, newest first. */
+export function priceHistory(orders: PurchaseOrderWithItems[]): PriceHistoryEntry[] {
+  const entries: PriceHistoryEntry[] = [];
+  for (const order of orders) {
+    const orderKg = order.items.reduce((sum, item) => sum + Number(item.weightKg) * item.quantity, 0);
+    const shippingPerKg = orderKg > 0 ? Number(order.shippingCost) / orderKg : 0;
+
+    for (const item of order.items) {
+      const weightKg = Number(item.weightKg);
+      const pricePerSpool = Number(item.pricePerSpool);
+      const shippingPerSpool = shippingPerKg * weightKg;
+      entries.push({
+        purchaseOrderId: order.id,
+        itemId: item.id,
+        filamentTypeId: item.filamentTypeId,
+        material: item.material,
+        orderDate: order.orderDate,
+        vendor: order.vendor,
+        currency: order.currency,
+        quantity: item.quantity,
+        pricePerSpool,
+        weightKg,
+        shippingPerSpool: round(shippingPerSpool),
+        pricePerKg: round((pricePerSpool + shippingPerSpool) / weightKg),
+      });
+    }
+  }
+  return entries.sort((a, b) => b.orderDate.localeCompare(a.orderDate) || b.itemId - a.itemId);
+}
+
+/**
+ * The entries with their prices converted into the converter's currency.
+ * Entries in a currency without an exchange rate are left out, since they
+ * can't be compared with the rest.
+ */
+export function historyInCurrency(history: PriceHistoryEntry[], converter: CurrencyConverter): PriceHistoryEntry[] {
+  return history.flatMap((entry) => {
+    const rate = converter.convert(1, entry.currency);
+    if (rate === null) return [];
+    return [{
+      ...entry,
+      currency: converter.currency,
+      pricePerSpool: round(entry.pricePerSpool * rate),
+      shippingPerSpool: round(entry.shippingPerSpool * rate),
+      pricePerKg: round(entry.pricePerKg * rate),
+    }];
+  });
+}
+
+interface Totals {
+  cost: number;
+  kg: number;
+}
+
+function addTo(map: Map<string | number, Totals>, key: string | number, cost: number, kg: number) {
+  const totals = map.get(key) ?? { cost: 0, kg: 0 };
+  totals.cost += cost;
+  totals.kg += kg;
+  map.set(key, totals);
+}
+
+export type CostSource = "purchases" | "spool" | "material" | "estimate";
+
+export interface MaterialCostPerKg {
+  material: string;
+  costPerKg: number;
+  kg: number; // purchased filament the average is based on
+}
+
+/**
+ * Resolves what a kg of a spool's filament cost, from the best data there is:
+ * the weighted average over its type's purchase history, else the spool's own
+ * purchase price, else the average over everything bought of its material,
+ * else `estimate` (the guessed per-material table). `history` and `estimate`
+ * must already be in the converter's currency; spool prices are converted.
+ *
+ * Spool prices only count towards the material average for types without
+ * purchase history, since spools added from a purchase order carry the same
+ * price again.
+ */
+export function costPerKgResolver(
+  history: PriceHistoryEntry[],
+  userFilaments: Filament[],
+  estimate: (material: string) => number,
+  converter: CurrencyConverter,
+) {
+  const byType = new Map<string | number, Totals>();
+  const byMaterial = new Map<string | number, Totals>();
+  for (const entry of history) {
+    const kg = entry.weightKg * entry.quantity;
+    addTo(byType, entry.filamentTypeId, entry.pricePerKg * kg, kg);
+    addTo(byMaterial, entry.material.toLowerCase(), entry.pricePerKg * kg, kg);
+  }
+
+  const spoolCostPerKg = (filament: Filament) => {
+    const kg = Number(filament.totalWeight);
+    if (!filament.purchasePrice || kg <= 0) return null;
+    const price = converter.convert(Number(filament.purchasePrice), filament.purchaseCurrency);
+    return price !== null ? price / kg : null;
+  };
+  for (const filament of userFilaments) {
+    const costPerKg = spoolCostPerKg(filament);
+    if (costPerKg !== null && !byType.has(filament.filamentTypeId)) {
+      addTo(byMaterial, filament.material.toLowerCase(), costPerKg * Number(filament.totalWeight), Number(filament.totalWeight));
+    }
+  }
+
+  const average = (totals: Totals | undefined) => (totals && totals.kg > 0 ? totals.cost / totals.kg : null);
+
+  const forMaterial = (material: string): { costPerKg: number; source: CostSource } => {
+    const materialAverage = average(byMaterial.get(material.toLowerCase()));
+    if (materialAverage !== null) return { costPerKg: materialAverage, source: "material" };
+    return { costPerKg: estimate(material.toLowerCase()), source: "estimate" };
+  };
+
+  return {
+    forSpool(filament: Filament): { costPerKg: number; source: CostSource } {
+      const typeAverage = average(byType.get(filament.filamentTypeId));
+      if (typeAverage !== null) return { costPerKg: typeAverage, source: "purchases" };
+      const own = spoolCostPerKg(filament);
+      if (own !== null) return { costPerKg: own, source: "spool" };
+      return forMaterial(filament.material);
+    },
+
+    // For filament that isn't a specific spool, e.g. a quote
+    forMaterial,
+
+    materialAverages(): MaterialCostPerKg[] {
+      return Array.from(byMaterial.entries())
+        .map(([material, totals]) => ({ material: String(material).toUpperCase(), costPerKg: round(totals.cost / totals.kg), kg: round(totals.kg, 3) }))
+        .sort((a, b) => b.kg - a.kg);
+    },
+  };
+}
+
+export type CostPerKgResolver = ReturnType<typeof costPerKgResolver>;
+
+// Guessed EUR per kg by material - only the last resort when neither
+// purchase orders nor spool prices say what a kg actually cost
+const ESTIMATED_EUR_PER_KG: Record<string, number> = {
+  'pla': 25,
+  'petg': 30,
+  'abs': 30,
+  'tpu': 40,
+  'asa': 40,
+  'pa': 60,
+  'pc': 60,
+  'pva': 65,
+  'hips': 30,
+  'pla-cf': 50,
+  'pa-cf': 75,
+  'petg-cf': 55,
+  'pet-cf': 55,
+  'pla-hf': 35,
+  'pp': 40,
+  'petg-hf': 40,
+  'pps': 80,
+  'peek': 150,
+  'pei': 100
+};
+const DEFAULT_EUR_PER_KG = 30;
+
+/**
+ * costPerKgResolver over a user's purchase orders and spools, in the
+ * converter's currency, with the guessed per-material table as the estimate.
+ */
+export function userCostPerKgResolver(
+  purchaseOrders: PurchaseOrderWithItems[],
+  userFilaments: Filament[],
+  converter: CurrencyConverter,
+) {
+  const estimate = (material: string) => {
+    const eurPerKg = ESTIMATED_EUR_PER_KG[material] || DEFAULT_EUR_PER_KG;
+    return converter.convert(eurPerKg, BASE_CURRENCY) ?? eurPerKg;
+  };
+  return costPerKgResolver(historyInCurrency(priceHistory(purchaseOrders), converter), userFilaments, estimate, converter);
+}
@@ -0,0 +1,79 @@
+import type { Filament, FilamentType } from "@shared/schema";
+import type { NewSpoolOfType } from "../storage";
+import { emitWebhookEvent } from "./webhooks";
+
+// Most recently bought first: by purchase date (undated spools last), then
+// by id as the creation order
+function byMostRecentPurchase(a: Filament, b: Filament): number {
+  if (a.purchaseDate !== b.purchaseDate) {
+    if (!a.purchaseDate) return 1;
+    if (!b.purchaseDate) return -1;
+    return a.purchaseDate < b.purchaseDate ? 1 : -1;
+  }
+  return b.id - a.id;
+}
+
+/** The user's spools grouped by filament type, most recently bought first. */
+export function spoolsByType(userFilaments: Filament[]): Map<number, Filament[]> {
+  const byType = new Map<number, Filament[]>();
+  for (const filament of userFilaments) {
+    byType.set(filament.filamentTypeId, [...(byType.get(filament.filamentTypeId) ?? []), filament]);
+  }
+  byType.forEach((spools) => spools.sort(byMostRecentPurchase));
+  return byType;
+}
+
+// The most recently bought spool that has a price, from spoolsByType order
+export function lastPricedSpool(spools: Filament[]): Filament | undefined {
+  return spools.find((spool) => spool.purchasePrice !== null && spool.purchasePrice !== "");
+}
+
+export interface NewSpoolFields {
+  quantity: number;
+  purchasePrice: number | null;
+  purchaseCurrency: string | null; // what purchasePrice is in
+  purchaseDate?: string;
+  totalWeight?: number; // kg
+  storageLocation?: string | null;
+}
+
+/**
+ * The fields of `quantity` new, sealed spools of a filament type (a restock
+ * from the shopping list or a purchase order), for storage to create along
+ * with the restock itself. Name, weight, spool type and location are copied
+ * from `template` - normally the type's most recently bought spool - unless
+ * given.
+ */
+export function newSpoolsOfType(
+  userId: number,
+  filamentType: FilamentType,
+  template: Filament | undefined,
+  fields: NewSpoolFields,
+): NewSpoolOfType[] {
+  return Array.from({ length: fields.quantity }, () => ({
+    userId,
+    filamentTypeId: filamentType.id,
+    name: template?.name ?? [filamentType.manufacturer, filamentType.material, filamentType.colorName].filter(Boolean).join(" "),
+    manufacturer: filamentType.manufacturer,
+    material: filamentType.material,
+    colorName: filamentType.colorName,
+    colorCode: filamentType.colorCode,
+    diameter: filamentType.diameter,
+    printTemp: filamentType.printTemp,
+    totalWeight: String(fields.totalWeight ?? template?.totalWeight ?? 1),
+    remainingPercentage: "100",
+    purchaseDate: fields.purchaseDate ?? new Date().toISOString().split("T")[0],
+    purchasePrice: fields.purchasePrice !== null ? String(fields.purchasePrice) : null,
+    purchaseCurrency: fields.purchaseCurrency,
+    status: "sealed",
+    spoolType: template?.spoolType ?? null,
+    storageLocation: fields.storageLocation !== undefined ? fields.storageLocation : template?.storageLocation ?? null,
+  }));
+}
+
+/** Emits filament.created for each spool a restock created. */
+export async function emitSpoolsCreated(userId: number, created: Filament[]): Promise<void> {
+  for (const filament of created) {
+    await emitWebhookEvent(userId, "filament.created", { filament });
+  }
+}
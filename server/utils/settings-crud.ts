@@ -39,10 +39,18 @@ export interface CrudEntityConfig<T extends { id: number }, InsertT> {
   };
   csv: {
     exportHeader: string;
-    exportRow: (item: T) => string;
+    /** Gets the whole list too, for rows that reference other items */
+    exportRow: (item: T, items: T[]) => string;
+    /** Row order of the export when it matters for re-importing; defaults to list order */
+    exportOrder?: (items: T[]) => T[];
     isHeaderRow: (firstLine: string) => boolean;
     parseLine: (line: string, existing: T[]) => ImportOutcome<InsertT>;
   };
+  /**
+   * Checks a validated create body against the existing items, e.g. that a
+   * referenced item exists. Returns the 400 message, or null if it's fine.
+   */
+  validateCreate?: (data: InsertT, existing: T[]) => string | null;
   /** Whether a given filament is using this settings item (blocks delete) */
   isInUse: (filament: Filament, item: T) => boolean;
 }
@@ -51,7 +59,7 @@ export function registerCrudSettingsRoutes<T extends { id: number }, InsertT>(
   app: Express,
   config: CrudEntityConfig<T, InsertT>
 ): void {
-  const { entityName, basePath, csvFilename, insertSchema, storage: entityStorage, csv, isInUse } = config;
+  const { entityName, basePath, csvFilename, insertSchema, storage: entityStorage, csv, validateCreate, isInUse } = config;
   const label = entityName.charAt(0).toUpperCase() + entityName.slice(1);
 
   app.get(basePath, authenticate, async (req, res) => {
@@ -61,7 +69,8 @@ export function registerCrudSettingsRoutes<T extends { id: number }, InsertT>(
       if (req.query.export === "csv") {
         res.setHeader("Content-Type", "text/csv");
         res.setHeader("Content-Disposition", `attachment; filename="${csvFilename}"`);
-        const csvContent = `${csv.exportHeader}\n` + items.map(csv.exportRow).join("");
+        const rows = csv.exportOrder ? csv.exportOrder(items) : items;
+        const csvContent = `${csv.exportHeader}\n` + rows.map((item) => csv.exportRow(item, items)).join("");
         return res.send(csvContent);
       }
 
@@ -113,6 +122,12 @@ export function registerCrudSettingsRoutes<T extends { id: number }, InsertT>(
       }
 
       const validatedData = insertSchema.parse(req.body);
+      if (validateCreate) {
+        const message = validateCreate(validatedData, await entityStorage.getAll());
+        if (message) {
+          return res.status(400).json({ message });
+        }
+      }
       const created = await entityStorage.create(validatedData);
       res.status(201).json(created);
     } catch (error) {
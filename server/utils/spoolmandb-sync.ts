@@ -11,6 +11,12 @@ interface SpoolmanDbColor {
   hex: string;
 }
 
+interface SpoolmanDbWeight {
+  weight: number;
+  spool_weight?: number;
+  spool_type?: string;
+}
+
 interface SpoolmanDbFilament {
   name: string;
   material: string;
@@ -19,6 +25,7 @@ interface SpoolmanDbFilament {
   extruder_temp?: number;
   bed_temp?: number;
   colors?: SpoolmanDbColor[];
+  weights?: SpoolmanDbWeight[];
 }
 
 interface SpoolmanDbVendorFile {
@@ -49,6 +56,10 @@ async function fetchVendorFile(path: string): Promise<SpoolmanDbVendorFile | nul
 function toCacheRows(vendorFile: SpoolmanDbVendorFile): Array<typeof communityFilamentCache.$inferInsert> {
   const rows: Array<typeof communityFilamentCache.$inferInsert> = [];
   const diameter = (filament: SpoolmanDbFilament) => filament.diameters?.[0]?.toString();
+  // Each net weight the product is sold in can come on a different spool;
+  // the first one with a known empty weight is used as the tare
+  const spoolWeight = (filament: SpoolmanDbFilament) =>
+    filament.weights?.find((w) => w.spool_weight !== undefined)?.spool_weight?.toString();
 
   for (const filament of vendorFile.filaments) {
     const colors = filament.colors && filament.colors.length > 0 ? filament.colors : [{ name: "Unknown", hex: "" }];
@@ -67,6 +78,7 @@ function toCacheRows(vendorFile: SpoolmanDbVendorFile): Array<typeof communityFi
         diameter: diameter(filament),
         extruderTemp: filament.extruder_temp,
         bedTemp: filament.bed_temp,
+        spoolWeight: spoolWeight(filament),
       });
     }
   }
@@ -0,0 +1,127 @@
+import type { Filament, StorageLocation } from "@shared/schema";
+
+/**
+ * A storage location with its children and how full it is. Spools reference
+ * locations by name; `spools` counts the user's ones stored directly here and
+ * `totalSpools` adds everything below. Locations are shared, so `capacity`
+ * limits `occupied`: everyone's spools here and below.
+ */
+export interface StorageLocationNode extends StorageLocation {
+  path: string[]; // names from the root down to this location
+  spools: number;
+  totalSpools: number;
+  occupied: number;
+  full: boolean; // occupied at or over capacity
+  children: StorageLocationNode[];
+}
+
+export interface StorageLocationTree {
+  locations: StorageLocationNode[]; // roots, in list order
+  unassigned: number; // spools without a known location
+}
+
+function childrenByParent(locations: StorageLocation[]): Map<number | null, StorageLocation[]> {
+  const ids = new Set(locations.map((location) => location.id));
+  const byParent = new Map<number | null, StorageLocation[]>();
+  for (const location of locations) {
+    // A dangling parent is treated as a root rather than hiding the subtree
+    const parentId = location.parentId !== null && ids.has(location.parentId) ? location.parentId : null;
+    byParent.set(parentId, [...(byParent.get(parentId) ?? []), location]);
+  }
+  return byParent;
+}
+
+/** `occupancy` is storage.getStorageLocationOccupancy() */
+export function buildLocationTree(
+  locations: StorageLocation[],
+  userFilaments: Filament[],
+  occupancy: Map<string, number>,
+): StorageLocationTree {
+  const spoolsByName = new Map<string, number>();
+  let unassigned = 0;
+  const names = new Set(locations.map((location) => location.name));
+  for (const filament of userFilaments) {
+    if (filament.archivedAt) continue;
+    if (filament.storageLocation && names.has(filament.storageLocation)) {
+      spoolsByName.set(filament.storageLocation, (spoolsByName.get(filament.storageLocation) ?? 0) + 1);
+    } else {
+      unassigned++;
+    }
+  }
+
+  const byParent = childrenByParent(locations);
+  const build = (location: StorageLocation, path: string[]): StorageLocationNode => {
+    const nodePath = [...path, location.name];
+    const children = (byParent.get(location.id) ?? []).map((child) => build(child, nodePath));
+    const spools = spoolsByName.get(location.name) ?? 0;
+    const totalSpools = children.reduce((sum, child) => sum + child.totalSpools, spools);
+    const occupied = children.reduce((sum, child) => sum + child.occupied, occupancy.get(location.name) ?? 0);
+    return {
+      ...location,
+      path: nodePath,
+      spools,
+      totalSpools,
+      occupied,
+      full: location.capacity !== null && occupied >= location.capacity,
+      children,
+    };
+  };
+
+  return { locations: (byParent.get(null) ?? []).map((root) => build(root, [])), unassigned };
+}
+
+/** Whether making `parentId` the parent of location `id` would put it below itself */
+export function createsLocationCycle(locations: StorageLocation[], id: number, parentId: number): boolean {
+  const byId = new Map(locations.map((location) => [location.id, location]));
+  const seen = new Set<number>();
+  for (let current = byId.get(parentId); current; current = current.parentId !== null ? byId.get(current.parentId) : undefined) {
+    if (current.id === id || seen.has(current.id)) return true;
+    seen.add(current.id);
+  }
+  return false;
+}
+
+/** Parents before their children, so a CSV export re-imports in one pass */
+export function parentsFirst(locations: StorageLocation[]): StorageLocation[] {
+  const byParent = childrenByParent(locations);
+  const ordered: StorageLocation[] = [];
+  const visit = (location: StorageLocation) => {
+    ordered.push(location);
+    (byParent.get(location.id) ?? []).forEach(visit);
+  };
+  (byParent.get(null) ?? []).forEach(visit);
+  return ordered;
+}
+
+/**
+ * Locations that couldn't take the given spools if they were moved to `name`:
+ * the target itself or any location it's inside, when its capacity would be
+ * exceeded. Spools already somewhere inside a location don't add to it.
+ */
+export function locationsOverCapacity(
+  locations: StorageLocation[],
+  userFilaments: Filament[],
+  occupancy: Map<string, number>,
+  name: string,
+  movingIds: number[],
+): StorageLocationNode[] {
+  const moving = userFilaments.filter((filament) => movingIds.includes(filament.id) && !filament.archivedAt);
+  const subtreeNames = (node: StorageLocationNode): string[] => [node.name, ...node.children.flatMap(subtreeNames)];
+
+  const findPath = (nodes: StorageLocationNode[]): StorageLocationNode[] | undefined => {
+    for (const node of nodes) {
+      if (node.name === name) return [node];
+      const below = findPath(node.children);
+      if (below) return [node, ...below];
+    }
+    return undefined;
+  };
+
+  const path = findPath(buildLocationTree(locations, userFilaments, occupancy).locations) ?? [];
+  return path.filter((node) => {
+    if (node.capacity === null) return false;
+    const inside = new Set(subtreeNames(node));
+    const incoming = moving.filter((filament) => !filament.storageLocation || !inside.has(filament.storageLocation)).length;
+    return incoming > 0 && node.occupied + incoming > node.capacity;
+  });
+}
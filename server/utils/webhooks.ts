@@ -0,0 +1,185 @@
+import { createHmac, randomBytes } from "crypto";
+import { and, eq, lte } from "drizzle-orm";
+import { db } from "../db";
+import {
+  webhooks,
+  webhookDeliveries,
+  type Filament,
+  type FilamentUsageLog,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEventType,
+} from "@shared/schema";
+import { logger } from "./logger";
+
+// A delivery is tried up to MAX_ATTEMPTS times, waiting 30s, 2min, 8min,
+// 32min and ~2h between attempts, then marked 'failed'.
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// What a delivery records when no response came back at all. The delivery
+// log is shown to the webhook's owner, and a timeout vs. a refused
+// connection or an unknown host would let any user map the hosts and ports
+// the server can reach; the actual error only goes to the server log.
+const NO_RESPONSE_ERROR = "No response from the webhook URL";
+
+// How long an attempt holds its claim on a delivery. If the server dies
+// mid-attempt, the retry sweep picks the delivery up again after this.
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// Deliveries retried per sweep, so a long outage drains over several runs
+const RETRY_BATCH_SIZE = 50;
+
+/** "ping" is only sent by the test button, never subscribed to. */
+export type WebhookDeliveryEvent = WebhookEventType | "ping";
+
+export function generateWebhookSecret(): string {
+  return randomBytes(24).toString("hex");
+}
+
+/**
+ * Value of the X-Filadex-Signature header: HMAC-SHA256 of the raw request
+ * body, keyed with the webhook's secret, GitHub-style ("sha256=<hex>").
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 4 ** (attempts - 1);
+}
+
+/**
+ * Records a delivery of `event` to each webhook and makes the first attempt
+ * in the background; the response doesn't wait on the receiving end.
+ */
+export async function queueWebhookDeliveries(
+  targets: Webhook[],
+  event: WebhookDeliveryEvent,
+  data: unknown,
+): Promise<WebhookDelivery[]> {
+  if (targets.length === 0) return [];
+
+  const now = new Date();
+  const deliveries = await db.insert(webhookDeliveries).values(targets.map((webhook) => ({
+    webhookId: webhook.id,
+    eventType: event,
+    payload: { event, timestamp: now.toISOString(), data },
+    nextAttemptAt: now,
+  }))).returning();
+
+  for (const delivery of deliveries) {
+    attemptDelivery(delivery.id).catch((error) =>
+      logger.error(`Webhook delivery ${delivery.id} failed unexpectedly:`, error));
+  }
+  return deliveries;
+}
+
+/**
+ * Sends `event` to every enabled webhook of the user subscribed to it. Never
+ * throws - like sendMail, callers must not depend on delivery for their own
+ * flow to succeed.
+ */
+export async function emitWebhookEvent(userId: number, event: WebhookEventType, data: unknown): Promise<void> {
+  try {
+    const subscribed = (await db.select().from(webhooks)
+      .where(and(eq(webhooks.userId, userId), eq(webhooks.enabled, true))))
+      .filter((webhook) => webhook.eventTypes.includes(event));
+    await queueWebhookDeliveries(subscribed, event, data);
+  } catch (error) {
+    logger.error(`Failed to queue webhook event ${event} for user ${userId}:`, error);
+  }
+}
+
+/** One filament.usage event per usage log entry, with the spool as updated by it. */
+export async function emitUsageEvents(
+  userId: number,
+  applied: { logs: FilamentUsageLog[]; filaments: Filament[] },
+): Promise<void> {
+  for (let i = 0; i < applied.logs.length; i++) {
+    await emitWebhookEvent(userId, "filament.usage", { log: applied.logs[i], filament: applied.filaments[i] });
+  }
+}
+
+async function attemptDelivery(deliveryId: number): Promise<void> {
+  // Claim the delivery, so the retry sweep and the initial attempt can't
+  // both send it
+  const [delivery] = await db.update(webhookDeliveries)
+    .set({ nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) })
+    .where(and(
+      eq(webhookDeliveries.id, deliveryId),
+      eq(webhookDeliveries.status, "pending"),
+      lte(webhookDeliveries.nextAttemptAt, new Date()),
+    ))
+    .returning();
+  if (!delivery) return;
+
+  const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, delivery.webhookId));
+  if (!webhook) return;
+
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  let detail: string | null = null; // logged only, see NO_RESPONSE_ERROR
+
+  try {
+    const body = JSON.stringify(delivery.payload);
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Filadex-Webhooks",
+        "X-Filadex-Event": delivery.eventType,
+        "X-Filadex-Delivery": String(delivery.id),
+        "X-Filadex-Signature": signWebhookPayload(webhook.secret, body),
+      },
+      body,
+      // A redirect isn't followed, so a public URL can't bounce the request
+      // on to an internal one; it fails with its 3xx status instead
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = res.status;
+    if (!res.ok) {
+      error = `HTTP ${res.status}`;
+    }
+  } catch (err) {
+    error = NO_RESPONSE_ERROR;
+    detail = err instanceof Error ? err.message : String(err);
+  }
+
+  if (error === null) {
+    await db.update(webhookDeliveries)
+      .set({ status: "succeeded", attempts, responseStatus, lastError: null, nextAttemptAt: null, deliveredAt: new Date() })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return;
+  }
+
+  const giveUp = attempts >= MAX_ATTEMPTS;
+  await db.update(webhookDeliveries)
+    .set({
+      status: giveUp ? "failed" : "pending",
+      attempts,
+      responseStatus,
+      lastError: error,
+      nextAttemptAt: giveUp ? null : new Date(Date.now() + retryDelayMs(attempts)),
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+  logger.warn(`Webhook delivery ${delivery.id} to ${webhook.url} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${detail ?? error}`);
+}
+
+/**
+ * Retries the pending deliveries whose backoff has elapsed. Called on a timer
+ * from server/index.ts, next to runScheduledChecks.
+ */
+export async function retryDueWebhookDeliveries(): Promise<void> {
+  const due = await db.select({ id: webhookDeliveries.id }).from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, new Date())))
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(RETRY_BATCH_SIZE);
+
+  for (const { id } of due) {
+    await attemptDelivery(id);
+  }
+}
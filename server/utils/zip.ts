@@ -0,0 +1,85 @@
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// What the entries read from one archive may add up to uncompressed, so a
+// small zip bomb can't fill the server's memory
+const DEFAULT_MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Minimal reader for the zip containers slicers write (.3mf): walks the
+ * central directory and returns the uncompressed contents of the entries
+ * `wanted` accepts. Only stored and deflated entries are supported, and no
+ * zip64 - a 3mf large enough to need it is not something we parse. Throws
+ * once the wanted entries exceed `maxTotalBytes` uncompressed.
+ */
+export function readZipEntries(
+  zip: Buffer,
+  wanted: (name: string) => boolean,
+  maxTotalBytes = DEFAULT_MAX_TOTAL_BYTES,
+): Map<string, Buffer> {
+  // The end-of-central-directory record sits at the end, followed by an
+  // optional comment of up to 64KB
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xffff); i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("Not a zip file");
+  }
+
+  const entryCount = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+  let totalBytes = 0;
+  const tooLarge = () => new Error(`Archive contents exceed ${Math.round(maxTotalBytes / 1024 / 1024)} MB uncompressed`);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeader = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) continue;
+
+    if (zip.readUInt32LE(localHeader) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+    // The local header's name/extra lengths can differ from the central ones
+    const dataStart = localHeader + 30 + zip.readUInt16LE(localHeader + 26) + zip.readUInt16LE(localHeader + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+
+    let contents: Buffer;
+    if (method === 0) {
+      contents = data;
+    } else if (method === 8) {
+      try {
+        // The sizes in the headers can lie, so the inflater itself is capped
+        contents = inflateRawSync(data, { maxOutputLength: Math.max(1, maxTotalBytes - totalBytes) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+        throw error;
+      }
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    totalBytes += contents.length;
+    if (totalBytes > maxTotalBytes) throw tooLarge();
+    entries.set(name, contents);
+  }
+
+  return entries;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, numeric, date, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, numeric, date, timestamp, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -26,6 +26,8 @@ export const users = pgTable("users", {
   lowStockThresholdPercent: integer("low_stock_threshold_percent").default(15),
   notifyLowStock: boolean("notify_low_stock").default(true),
   notifyDryingReminder: boolean("notify_drying_reminder").default(true),
+  // The built-in email channel; others live in notificationChannels
+  notifyViaEmail: boolean("notify_via_email").default(true),
   dryingReminderDays: integer("drying_reminder_days").default(30),
   // Per-user UI theme (previously a single global theme.json file shared by
   // every user - see migrations/add_user_theme_preferences.ts)
@@ -33,6 +35,16 @@ export const users = pgTable("users", {
   themePrimary: text("theme_primary").default("#EA580C"),
   themeAppearance: text("theme_appearance").default("dark"), // 'light' | 'dark'
   themeRadius: numeric("theme_radius").default("0.8"),
+  // Print cost calculator defaults, in printCostCurrency (converted like
+  // spool prices - see server/routes/print-cost.ts)
+  electricityRate: numeric("electricity_rate"), // per kWh
+  machineCostPerHour: numeric("machine_cost_per_hour"), // printer depreciation and upkeep
+  printCostCurrency: text("print_cost_currency"),
+  // The statistics dashboard's widgets, in display order; null shows the
+  // default layout (see server/routes/statistics.ts)
+  statisticsWidgets: jsonb("statistics_widgets").$type<StatisticsWidget[]>(),
+  // Archive a spool automatically once usage brings it down to 0%
+  autoArchiveEmpty: boolean("auto_archive_empty").default(false),
 });
 
 // A filament product (vendor, material, color, diameter, print temp) defined
@@ -48,11 +60,35 @@ export const filamentTypes = pgTable("filament_types", {
   colorCode: text("color_code"),
   diameter: numeric("diameter"),
   printTemp: text("print_temp"),
+  // Weight of the empty spool in grams, so a scale reading (gross weight) can
+  // be turned into remaining filament. Not part of the product identity
+  // matched by storage.ts; null falls back to manufacturers.spoolWeight.
+  spoolWeight: numeric("spool_weight"),
+  // Minimum stock to keep across all spools of the type, in minStockUnit;
+  // null means no minimum. See server/utils/min-stock.ts.
+  minStockQuantity: numeric("min_stock_quantity"),
+  minStockUnit: text("min_stock_unit"), // one of minStockUnits
+  // Set once the scheduled check has reported the type below its minimum,
+  // cleared when it's back up - so each shortfall is only reported once
+  minStockNotifiedAt: timestamp("min_stock_notified_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export type FilamentType = typeof filamentTypes.$inferSelect;
 
+// "spools" counts the type's non-empty spools, "kg" sums their remaining filament
+export const minStockUnits = ["spools", "kg"] as const;
+
+export type MinStockUnit = typeof minStockUnits[number];
+
+// null quantity removes the minimum
+export const updateMinStockSchema = z.object({
+  minStockQuantity: z.number().positive().max(10000).nullable(),
+  minStockUnit: z.enum(minStockUnits).default("spools"),
+});
+
+export type UpdateMinStock = z.infer<typeof updateMinStockSchema>;
+
 // The spool instance table. Product-identity fields (manufacturer, material,
 // colorName, colorCode, diameter, printTemp) live on filamentTypes instead -
 // server/storage.ts joins them back in so every route/component keeps
@@ -65,7 +101,8 @@ export const filaments = pgTable("filaments", {
   totalWeight: numeric("total_weight").notNull(),
   remainingPercentage: numeric("remaining_percentage").notNull(),
   purchaseDate: date("purchase_date"),
-  purchasePrice: numeric("purchase_price"), // Kaufpreis in EUR
+  purchasePrice: numeric("purchase_price"), // Kaufpreis, in purchaseCurrency
+  purchaseCurrency: text("purchase_currency"), // one of supportedCurrencies; null means the owner's currency
   status: text("status"),  // 'sealed', 'opened'
   spoolType: text("spool_type"), // 'spooled', 'spoolless'
   dryerCount: integer("dryer_count").default(0), // Anzahl der Trocknungen
@@ -74,11 +111,18 @@ export const filaments = pgTable("filaments", {
   // Set when a low-stock email is sent, cleared once remaining % rises back
   // above the threshold - prevents re-notifying every scheduled check.
   lowStockNotifiedAt: timestamp("low_stock_notified_at"),
+  // Same latch for the shopping list: set when the spool's type is put on
+  // the list for running low, whether or not a notification went out.
+  lowStockListedAt: timestamp("low_stock_listed_at"),
   // Set when a drying-reminder email is sent; throttles reminders to at most
   // once/day rather than every scheduled check, until lastDryingDate changes.
   dryingReminderNotifiedAt: timestamp("drying_reminder_notified_at"),
   // Values for this user's customFieldDefinitions, keyed by definition id (as a string)
   customFieldValues: jsonb("custom_field_values").$type<Record<string, any>>().default({}),
+  // Set when a used-up spool is put away instead of deleted; archived spools
+  // leave the default lists, stock levels and reminders but keep their usage
+  // log, so statistics and history still count them. Null means active.
+  archivedAt: timestamp("archived_at"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -146,6 +190,7 @@ type FilamentTypeSelectFields = {
   colorCode: string | null;
   diameter: string | null;
   printTemp: string | null;
+  spoolWeight: string | null;
 };
 
 type FilamentTypeInsertFields = {
@@ -155,6 +200,7 @@ type FilamentTypeInsertFields = {
   colorCode?: string | null;
   diameter?: string | null;
   printTemp?: string | null;
+  spoolWeight?: string | null;
 };
 
 export type Filament = Omit<typeof filaments.$inferSelect, "filamentTypeId"> & FilamentTypeSelectFields & {
@@ -175,6 +221,7 @@ const baseInsertFilamentSchema = createInsertSchema(filaments).omit({
   colorCode: z.string().nullable().optional(),
   diameter: z.union([z.string(), z.number()]).nullable().optional(),
   printTemp: z.string().nullable().optional(),
+  spoolWeight: z.union([z.string(), z.number()]).nullable().optional(),
 });
 
 // Schema mit Transformation für die Formvalidierung
@@ -183,6 +230,7 @@ export const insertFilamentSchema = baseInsertFilamentSchema.transform((data) =>
   return {
     ...data,
     diameter: data.diameter !== undefined && data.diameter !== null ? data.diameter.toString() : data.diameter,
+    spoolWeight: data.spoolWeight !== undefined && data.spoolWeight !== null ? data.spoolWeight.toString() : data.spoolWeight,
     totalWeight: data.totalWeight.toString(),
     remainingPercentage: data.remainingPercentage.toString(),
     purchasePrice: data.purchasePrice?.toString(),
@@ -190,11 +238,21 @@ export const insertFilamentSchema = baseInsertFilamentSchema.transform((data) =>
   };
 });
 
+// Which spools GET /api/filaments lists - archived ones only on request
+export const filamentArchivedFilters = ["exclude", "include", "only"] as const;
+
+export const filamentListQuerySchema = z.object({
+  archived: z.enum(filamentArchivedFilters).default("exclude"),
+});
+
+export type FilamentArchivedFilter = typeof filamentArchivedFilters[number];
+
 // Neue Listen für die Einstellungen
 export const manufacturers = pgTable("manufacturers", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   sortOrder: integer("sort_order").default(999),
+  spoolWeight: numeric("spool_weight"), // typical empty spool weight in grams; default tare for weigh-ins
   createdAt: timestamp("created_at").defaultNow()
 });
 
@@ -220,9 +278,14 @@ export const diameters = pgTable("diameters", {
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Locations nest (room > shelf > dry box > slot). Names stay globally unique
+// because spools reference their location by name.
 export const storageLocations = pgTable("storage_locations", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
+  parentId: integer("parent_id").references((): AnyPgColumn => storageLocations.id, { onDelete: "set null" }),
+  capacity: integer("capacity"), // max spools in this location and everything below it; null = unlimited
+  humidityControlled: boolean("humidity_controlled").default(false), // dry box, dry cabinet, ...
   sortOrder: integer("sort_order").default(999),
   createdAt: timestamp("created_at").defaultNow()
 });
@@ -255,12 +318,25 @@ export const insertDiameterSchema = createInsertSchema(diameters).omit({
   };
 });
 
-export const insertStorageLocationSchema = createInsertSchema(storageLocations).omit({
+// Max spools; null = unlimited
+export const storageLocationCapacitySchema = z.number().int().positive().nullable();
+
+export const insertStorageLocationSchema = createInsertSchema(storageLocations, {
+  parentId: z.number().int().positive().nullable().optional(),
+  capacity: storageLocationCapacitySchema.optional(),
+}).omit({
   id: true,
   createdAt: true,
   sortOrder: true,
 });
 
+// The name isn't editable: spools reference their location by name
+export const updateStorageLocationSchema = z.object({
+  parentId: z.number().int().positive().nullable().optional(),
+  capacity: storageLocationCapacitySchema.optional(),
+  humidityControlled: z.boolean().optional(),
+});
+
 // Typen für die neuen Listen
 export type InsertManufacturer = z.infer<typeof insertManufacturerSchema>;
 export type Manufacturer = typeof manufacturers.$inferSelect;
@@ -275,6 +351,7 @@ export type InsertDiameter = z.infer<typeof insertDiameterSchema>;
 export type Diameter = typeof diameters.$inferSelect;
 
 export type InsertStorageLocation = z.infer<typeof insertStorageLocationSchema>;
+export type UpdateStorageLocation = z.infer<typeof updateStorageLocationSchema>;
 export type StorageLocation = typeof storageLocations.$inferSelect;
 
 // User sharing settings
@@ -348,6 +425,72 @@ export const insertCatalogRequestSchema = z.object({
 export type InsertCatalogRequest = z.infer<typeof insertCatalogRequestSchema>;
 export type CatalogRequest = typeof catalogRequests.$inferSelect;
 
+// A single print (or print attempt), so usage log rows can be grouped into
+// "which prints ate this spool" / "what did that print cost". Per-spool grams
+// aren't stored here: they're the filamentUsageLog rows referencing the job.
+export const printJobStatuses = ["printing", "completed", "failed", "cancelled"] as const;
+
+export type PrintJobStatus = typeof printJobStatuses[number];
+
+export const printJobs = pgTable("print_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  printerName: text("printer_name"),
+  startedAt: timestamp("started_at"),
+  endedAt: timestamp("ended_at"),
+  status: text("status").notNull().default("completed"), // one of printJobStatuses
+  gcodeFileName: text("gcode_file_name"),
+  // Print-server side identifier (e.g. Moonraker job id) for jobs created via
+  // POST /api/integrations/usage, so follow-up events land on the same job.
+  // Unique per user (print_jobs_user_external_job_id_key).
+  externalJobId: text("external_job_id"),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type PrintJob = typeof printJobs.$inferSelect;
+
+export const insertPrintJobSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  printerName: z.string().nullable().optional(),
+  startedAt: z.coerce.date().nullable().optional(),
+  endedAt: z.coerce.date().nullable().optional(),
+  status: z.enum(printJobStatuses).optional(),
+  gcodeFileName: z.string().nullable().optional(),
+  note: z.string().nullable().optional(),
+  // Spools consumed by this job; each entry is deducted from the spool and
+  // recorded as a filamentUsageLog row linked to the job.
+  usage: z.array(z.object({
+    filamentId: z.number().int().positive(),
+    grams: z.number().positive(),
+  })).optional(),
+});
+
+export const updatePrintJobSchema = insertPrintJobSchema.omit({ usage: true }).partial();
+
+export type InsertPrintJob = z.infer<typeof insertPrintJobSchema>;
+export type UpdatePrintJob = z.infer<typeof updatePrintJobSchema>;
+
+// Body for POST /api/print-jobs/gcode: the confirmed result of a gcode/3mf
+// preview, with each extruder's usage assigned to a spool. Lengths are
+// converted to grams server-side from the spool's material density.
+export const applyGcodeUsageSchema = z.object({
+  fileName: z.string().min(1),
+  name: z.string().min(1).optional(), // defaults to the file name
+  printerName: z.string().nullable().optional(),
+  entries: z.array(z.object({
+    filamentId: z.number().int().positive(),
+    grams: z.number().positive().optional(),
+    lengthMm: z.number().positive().optional(),
+  }).refine(
+    (entry) => (entry.grams === undefined) !== (entry.lengthMm === undefined),
+    { message: "Provide either grams or lengthMm" },
+  )).min(1).max(32),
+});
+
+export type ApplyGcodeUsage = z.infer<typeof applyGcodeUsageSchema>;
+
 // Records every change to a filament's remainingPercentage, so "how much did
 // I use and when" is answerable without the user having tracked it manually.
 export const filamentUsageLog = pgTable("filament_usage_log", {
@@ -357,12 +500,147 @@ export const filamentUsageLog = pgTable("filament_usage_log", {
   deltaWeight: numeric("delta_weight").notNull(), // grams; negative = consumed, positive = corrected/refilled
   remainingPercentageAfter: numeric("remaining_percentage_after").notNull(),
   note: text("note"),
-  source: text("source").notNull().default("manual"), // 'manual' | 'printer'
+  source: text("source").notNull().default("manual"), // 'manual' | 'printer' | 'gcode' | 'revert' | 'scale' | 'transfer'
+  printJobId: integer("print_job_id").references(() => printJobs.id, { onDelete: "set null" }),
+  // Set on a compensating 'revert' entry: the entry it backs out. History is
+  // never deleted; an entry counts as reverted when another one points at it.
+  revertsLogId: integer("reverts_log_id").references((): AnyPgColumn => filamentUsageLog.id, { onDelete: "set null" }),
+  // Set on both entries of a 'transfer' (filament moved between two spools of
+  // the same type): the other spool's entry. Neither counts as consumption.
+  transferLogId: integer("transfer_log_id").references((): AnyPgColumn => filamentUsageLog.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export type FilamentUsageLog = typeof filamentUsageLog.$inferSelect;
 
+export const revertUsageLogSchema = z.object({
+  note: z.string().optional(),
+});
+
+// A kitchen-scale reading of the whole spool. grossWeight and spoolWeight are
+// in grams; spoolWeight overrides the tare stored on the filament type or
+// manufacturer for this one reading.
+export const weighSpoolSchema = z.object({
+  grossWeight: z.number().positive(),
+  spoolWeight: z.number().min(0).optional(),
+  note: z.string().optional(),
+});
+
+// Moves filament from one spool to another of the same filament type -
+// re-spooling leftovers onto a master spool, merging two half-empty ones or
+// refilling. grams defaults to everything left on the source spool.
+export const transferFilamentSchema = z.object({
+  toFilamentId: z.number().int().positive(),
+  grams: z.number().positive().optional(),
+  note: z.string().optional(),
+});
+
+// A spool changing storage location. Locations are referenced by name, like
+// filaments.storageLocation; null means no location.
+export const filamentLocationMoveSources = ["manual", "scan"] as const;
+
+export const filamentLocationLog = pgTable("filament_location_log", {
+  id: serial("id").primaryKey(),
+  filamentId: integer("filament_id").notNull().references(() => filaments.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fromLocation: text("from_location"),
+  toLocation: text("to_location"),
+  source: text("source").notNull().default("manual"), // 'manual' | 'scan' (scan-to-move with location/spool labels)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type FilamentLocationLog = typeof filamentLocationLog.$inferSelect;
+export type FilamentLocationMoveSource = typeof filamentLocationMoveSources[number];
+
+// Moves spools to one storage location at once; null clears their location.
+// Capacity limits of the target and the locations it's in are enforced
+// unless ignoreCapacity is set.
+export const moveFilamentsSchema = z.object({
+  filamentIds: z.array(z.number().int().positive()).min(1),
+  storageLocation: z.string().trim().min(1).nullable(),
+  source: z.enum(filamentLocationMoveSources).default("manual"),
+  ignoreCapacity: z.boolean().default(false),
+});
+
+// Query for GET /api/statistics/consumption: consumed grams bucketed per
+// period, optionally split by a spool attribute or the log source.
+export const consumptionPeriods = ["day", "week", "month"] as const;
+export const consumptionGroupBys = ["none", "material", "manufacturer", "color", "source"] as const;
+
+// Narrows a statistics endpoint to the spools matching every given field
+const statisticsFilterFields = {
+  material: z.string().trim().min(1).optional(),
+  manufacturer: z.string().trim().min(1).optional(),
+  storageLocation: z.string().trim().min(1).optional(),
+};
+
+export const statisticsFilterSchema = z.object(statisticsFilterFields);
+
+export const consumptionQuerySchema = z.object({
+  period: z.enum(consumptionPeriods).default("day"),
+  groupBy: z.enum(consumptionGroupBys).default("none"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  ...statisticsFilterFields,
+});
+
+export const forecastQuerySchema = z.object({
+  // How many recent days the burn rate is averaged over
+  windowDays: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// What spending is read from: each spool's purchase price by its purchase
+// date, or recorded purchase orders (including shipping) by order date
+export const spendSources = ["spools", "orders"] as const;
+
+export const spendQuerySchema = z.object({
+  source: z.enum(spendSources).default("spools"),
+  period: z.enum(consumptionPeriods).default("month"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  material: statisticsFilterFields.material,
+  manufacturer: statisticsFilterFields.manufacturer,
+});
+
+export const agingQuerySchema = z.object({
+  minDays: z.coerce.number().int().min(0).max(36500).default(0), // since purchase
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  ...statisticsFilterFields,
+});
+
+export const dryingQuerySchema = z.object({
+  // Days after drying (or purchase) a spool is due; defaults to the user's
+  // drying reminder setting
+  reminderDays: z.coerce.number().int().min(1).max(365).optional(),
+  ...statisticsFilterFields,
+});
+
+// A widget's params are the query parameters of its endpoint, except that
+// a date range is stored as `rangeDays` back from today so it doesn't go stale
+export const statisticsWidgetTypes = [
+  "overview",
+  "stock-by-location",
+  "consumption",
+  "forecast",
+  "spend",
+  "aging",
+  "drying",
+] as const;
+
+export const statisticsWidgetSchema = z.object({
+  id: z.string().min(1).max(64), // client-generated, stable across reorders
+  type: z.enum(statisticsWidgetTypes),
+  params: z.record(z.union([z.string(), z.number()])).default({}),
+});
+
+export const updateStatisticsWidgetsSchema = z.object({
+  widgets: z.array(statisticsWidgetSchema).max(24),
+});
+
+export type StatisticsFilter = z.infer<typeof statisticsFilterSchema>;
+export type StatisticsWidgetType = typeof statisticsWidgetTypes[number];
+export type StatisticsWidget = z.infer<typeof statisticsWidgetSchema>;
+
 // Lets a user define their own tracked attributes on filaments (e.g. "shelf",
 // "batch number") without a schema change; values live in
 // filaments.customFieldValues, keyed by this definition's id.
@@ -388,6 +666,173 @@ export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldD
 export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
 export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
 
+// Printable spool label layouts, rendered to PDF by server/utils/label-pdf.ts.
+// All sizes in mm. Roll and tape templates have one label per page; sheet
+// templates (Avery) lay labels out in a grid starting at the top left.
+export interface LabelTemplate {
+  pageWidth: number;
+  pageHeight: number;
+  labelWidth: number;
+  labelHeight: number;
+  columns: number;
+  rows: number;
+  marginLeft: number;
+  marginTop: number;
+  gapX: number; // between columns
+  gapY: number; // between rows
+}
+
+export const labelTemplateIds = [
+  "thermal-40x30",
+  "thermal-50x30",
+  "brother-62x29",
+  "brother-62x100",
+  "avery-l7160",
+  "avery-l7163",
+  "avery-5160",
+] as const;
+
+export type LabelTemplateId = typeof labelTemplateIds[number];
+
+const singleLabel = (width: number, height: number): LabelTemplate => ({
+  pageWidth: width,
+  pageHeight: height,
+  labelWidth: width,
+  labelHeight: height,
+  columns: 1,
+  rows: 1,
+  marginLeft: 0,
+  marginTop: 0,
+  gapX: 0,
+  gapY: 0,
+});
+
+export const labelTemplates: Record<LabelTemplateId, LabelTemplate> = {
+  "thermal-40x30": singleLabel(40, 30),
+  "thermal-50x30": singleLabel(50, 30),
+  "brother-62x29": singleLabel(62, 29), // DK-11209
+  "brother-62x100": singleLabel(62, 100), // DK-11202
+  // A4, 21 per sheet
+  "avery-l7160": { pageWidth: 210, pageHeight: 297, labelWidth: 63.5, labelHeight: 38.1, columns: 3, rows: 7, marginLeft: 7.2, marginTop: 15.1, gapX: 2.5, gapY: 0 },
+  // A4, 14 per sheet
+  "avery-l7163": { pageWidth: 210, pageHeight: 297, labelWidth: 99.1, labelHeight: 38.1, columns: 2, rows: 7, marginLeft: 4.7, marginTop: 15.1, gapX: 2.5, gapY: 0 },
+  // US Letter, 30 per sheet
+  "avery-5160": { pageWidth: 215.9, pageHeight: 279.4, labelWidth: 66.7, labelHeight: 25.4, columns: 3, rows: 10, marginLeft: 4.8, marginTop: 12.7, gapX: 3.2, gapY: 0 },
+};
+
+// What a label can show besides the spool's name and QR code
+export const labelFields = [
+  "manufacturer",
+  "material",
+  "color",
+  "printTemp",
+  "diameter",
+  "weight",
+  "remaining",
+  "purchaseDate",
+  "storageLocation",
+] as const;
+
+export type LabelField = typeof labelFields[number];
+
+export const MAX_LABELS_PER_PDF = 500;
+
+const commaSeparated = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+
+export const labelPdfQuerySchema = z.object({
+  ids: z.string().transform(commaSeparated).pipe(z.array(z.coerce.number().int().positive()).min(1).max(MAX_LABELS_PER_PDF)),
+  template: z.enum(labelTemplateIds).default("thermal-40x30"),
+  fields: z.string().default("manufacturer,material,color").transform(commaSeparated).pipe(z.array(z.enum(labelFields))),
+  // customFieldDefinitions ids, printed as "name: value"
+  customFields: z.string().default("").transform(commaSeparated).pipe(z.array(z.coerce.number().int().positive())),
+  qr: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+  copies: z.coerce.number().int().min(1).max(20).default(1),
+  // Labels already used on the first sheet, so a partly used sheet can be reused
+  skip: z.coerce.number().int().min(0).default(0),
+}).refine((query) => query.ids.length * query.copies <= MAX_LABELS_PER_PDF, {
+  // The PDF is rendered in one go, so the total is capped, not just each factor
+  message: `At most ${MAX_LABELS_PER_PDF} labels per PDF`,
+  path: ["copies"],
+});
+
+export type LabelPdfQuery = z.infer<typeof labelPdfQuerySchema>;
+
+// Label printers that labels are sent to directly, bypassing the browser's
+// print dialog: rendered in the printer's own language and sent raw, either
+// over TCP (port 9100, the raw "JetDirect" port) or as a raw CUPS job.
+export const labelPrinterLanguages = ["zpl", "brother-ql", "escpos"] as const;
+export const labelPrinterConnections = ["tcp", "cups"] as const;
+
+export const labelPrinters = pgTable("label_printers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  language: text("language").notNull(), // one of labelPrinterLanguages
+  connection: text("connection").notNull(), // one of labelPrinterConnections
+  // tcp: the printer's address; cups: the CUPS server (on port 631), null for the local one
+  host: text("host"),
+  port: integer("port").notNull().default(9100), // tcp only, one of the raw printing ports
+  queue: text("queue"), // cups only
+  template: text("template").notNull(), // a single-label labelTemplateId; sets the label size
+  dpi: integer("dpi").notNull().default(203), // zpl/escpos; Brother QL is always 300
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type LabelPrinter = typeof labelPrinters.$inferSelect;
+export type LabelPrinterLanguage = typeof labelPrinterLanguages[number];
+
+// The raw ("JetDirect") printing ports: 9100, plus 9101-9109 on print
+// servers with several printers. Other ports aren't allowed, so a label
+// printer can't be pointed at other services the server can reach.
+export const LABEL_PRINTER_PORTS = { min: 9100, max: 9109 } as const;
+
+const labelPrinterFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  language: z.enum(labelPrinterLanguages),
+  connection: z.enum(labelPrinterConnections),
+  // A hostname, IPv4 or bracketed IPv6 address, without a port. No leading
+  // "-", so neither this nor the queue can be taken for an lp option.
+  host: z.string().trim().regex(/^(?:[A-Za-z0-9][A-Za-z0-9.-]*|\[[0-9A-Fa-f:.]+\])$/, "Invalid host").nullable().optional(),
+  port: z.number().int()
+    .min(LABEL_PRINTER_PORTS.min, `Port must be between ${LABEL_PRINTER_PORTS.min} and ${LABEL_PRINTER_PORTS.max}`)
+    .max(LABEL_PRINTER_PORTS.max, `Port must be between ${LABEL_PRINTER_PORTS.min} and ${LABEL_PRINTER_PORTS.max}`)
+    .default(9100),
+  queue: z.string().trim().regex(/^[A-Za-z0-9_][A-Za-z0-9_.@-]*$/, "Invalid CUPS queue name").nullable().optional(),
+  template: z.enum(labelTemplateIds),
+  dpi: z.union([z.literal(203), z.literal(300)]).default(203),
+};
+
+export const insertLabelPrinterSchema = z.object(labelPrinterFields).superRefine((printer, ctx) => {
+  const template = labelTemplates[printer.template];
+  if (template.columns * template.rows > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["template"], message: "Label printers need a single-label template" });
+  }
+  if (printer.language === "brother-ql" && !printer.template.startsWith("brother-")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["template"], message: "Brother QL printers need a Brother template" });
+  }
+  if (printer.connection === "tcp" && !printer.host) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["host"], message: "Host is required for TCP printers" });
+  }
+  if (printer.connection === "cups" && !printer.queue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["queue"], message: "Queue is required for CUPS printers" });
+  }
+});
+
+// Checked together with the existing printer against insertLabelPrinterSchema by the route
+export const updateLabelPrinterSchema = z.object(labelPrinterFields).partial();
+
+export type InsertLabelPrinter = z.infer<typeof insertLabelPrinterSchema>;
+export type UpdateLabelPrinter = z.infer<typeof updateLabelPrinterSchema>;
+
+export const printLabelsSchema = z.object({
+  printerId: z.number().int().positive(),
+  filamentIds: z.array(z.number().int().positive()).min(1).max(100),
+  fields: z.array(z.enum(labelFields)).default(["manufacturer", "material", "color"]),
+  customFields: z.array(z.number().int().positive()).default([]),
+  qr: z.boolean().default(true),
+  copies: z.number().int().min(1).max(20).default(1),
+});
+
 // A locally-cached copy of community filament profiles from SpoolmanDB
 // (https://github.com/Donkie/SpoolmanDB, MIT licensed), refreshed by an
 // admin action rather than a live external API call per search. One row per
@@ -403,6 +848,7 @@ export const communityFilamentCache = pgTable("community_filament_cache", {
   diameter: numeric("diameter"),
   extruderTemp: integer("extruder_temp"),
   bedTemp: integer("bed_temp"),
+  spoolWeight: numeric("spool_weight"), // grams, from SpoolmanDB's `weights[].spool_weight`
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -429,11 +875,445 @@ export const insertApiTokenSchema = z.object({
 
 export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
 
-// Body for POST /api/integrations/usage (Phase A generic printer ingestion)
-export const printerUsageEventSchema = z.object({
+// A printer with one or more tools (extruders / AMS or MMU slots). Binding it
+// to an API token lets that token's usage events omit filamentId and fall
+// back to the spool loaded in the reported tool.
+export const printers = pgTable("printers", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  toolCount: integer("tool_count").notNull().default(1),
+  apiTokenId: integer("api_token_id").references(() => apiTokens.id, { onDelete: "set null" }),
+  powerWatts: integer("power_watts"), // average draw while printing, for print cost electricity
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Which spool is loaded in which tool. A tool holds at most one spool and a
+// spool sits in at most one tool (both enforced by unique indexes).
+export const printerLoadedSpools = pgTable("printer_loaded_spools", {
+  id: serial("id").primaryKey(),
+  printerId: integer("printer_id").notNull().references(() => printers.id, { onDelete: "cascade" }),
+  toolIndex: integer("tool_index").notNull(), // 0-based, like T0/T1 in gcode
+  filamentId: integer("filament_id").notNull().references(() => filaments.id, { onDelete: "cascade" }),
+  loadedAt: timestamp("loaded_at").defaultNow(),
+});
+
+export type Printer = typeof printers.$inferSelect;
+export type PrinterLoadedSpool = typeof printerLoadedSpools.$inferSelect;
+export type PrinterWithSpools = Printer & { loadedSpools: PrinterLoadedSpool[] };
+
+export const insertPrinterSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  toolCount: z.number().int().min(1).max(32).default(1),
+  apiTokenId: z.number().int().positive().nullable().optional(),
+  powerWatts: z.number().int().min(0).max(100000).nullable().optional(),
+});
+
+export const updatePrinterSchema = insertPrinterSchema.partial();
+
+export const loadSpoolSchema = z.object({
   filamentId: z.number().int().positive(),
-  deltaWeight: z.number(), // grams; negative = consumed
-  externalJobId: z.string().optional(),
 });
 
+export type InsertPrinter = z.infer<typeof insertPrinterSchema>;
+export type UpdatePrinter = z.infer<typeof updatePrinterSchema>;
+
+// Exactly one of deltaWeight/deltaLength per usage amount
+const hasOneUsageAmount = (amount: { deltaWeight?: number; deltaLength?: number }) =>
+  (amount.deltaWeight === undefined) !== (amount.deltaLength === undefined);
+
+export const printerUsageEntrySchema = z.object({
+  // Optional when the API token is bound to a printer: the spool loaded in
+  // `tool` (default 0) is used instead
+  filamentId: z.number().int().positive().optional(),
+  tool: z.number().int().nonnegative().optional(),
+  deltaWeight: z.number().optional(), // grams; negative = consumed
+  // mm of filament strand; negative = consumed. Converted to grams from the
+  // material density and filament diameter.
+  deltaLength: z.number().optional(),
+}).refine(hasOneUsageAmount, { message: "Provide either deltaWeight or deltaLength" });
+
+// Body for POST /api/integrations/usage (Phase A generic printer ingestion).
+// Either a single usage (filamentId or tool, plus deltaWeight/deltaLength), or
+// `entries` for multi-spool (AMS/MMU) prints - all entries are applied in one
+// transaction.
+export const printerUsageEventSchema = z.object({
+  filamentId: z.number().int().positive().optional(),
+  tool: z.number().int().nonnegative().optional(),
+  deltaWeight: z.number().optional(),
+  deltaLength: z.number().optional(),
+  entries: z.array(printerUsageEntrySchema).min(1).max(32).optional(),
+  externalJobId: z.string().optional(),
+  // Distinguishes several events of the same job; (externalJobId, sequence)
+  // is the idempotency key, so a retried event is only applied once
+  sequence: z.number().int().nonnegative().optional(),
+  // Only used when externalJobId creates a new print job record
+  jobName: z.string().optional(),
+  printerName: z.string().optional(),
+  gcodeFileName: z.string().optional(),
+  // Sent with the job's last event: ends the print job with this status
+  jobStatus: z.enum(["completed", "failed", "cancelled"]).optional(),
+}).refine(
+  (event) => event.entries !== undefined
+    ? event.filamentId === undefined && event.tool === undefined &&
+      event.deltaWeight === undefined && event.deltaLength === undefined
+    : hasOneUsageAmount(event),
+  { message: "Provide either deltaWeight or deltaLength (with filamentId or tool), or entries" },
+).refine(
+  (event) => event.sequence === undefined || event.externalJobId !== undefined,
+  { message: "sequence requires externalJobId", path: ["sequence"] },
+).refine(
+  (event) => event.jobStatus === undefined || event.externalJobId !== undefined,
+  { message: "jobStatus requires externalJobId", path: ["jobStatus"] },
+);
+
+export type PrinterUsageEntry = z.infer<typeof printerUsageEntrySchema>;
 export type PrinterUsageEvent = z.infer<typeof printerUsageEventSchema>;
+
+// Every usage event that carried an externalJobId, keyed (per user) on
+// externalJobId + sequence by a unique index, with the updated filaments it
+// returned. A print server retrying after a timeout gets that stored result
+// back instead of the spool being deducted twice.
+export const printerUsageEvents = pgTable("printer_usage_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  externalJobId: text("external_job_id").notNull(),
+  sequence: integer("sequence"),
+  result: jsonb("result").notNull(), // Filament[] as returned by the original request
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type PrinterUsageEventRecord = typeof printerUsageEvents.$inferSelect;
+
+// Outgoing webhooks: per-user subscriptions that get an HMAC-signed JSON POST
+// when one of their eventTypes happens. See server/utils/webhooks.ts.
+export const webhookEventTypes = [
+  "filament.created",
+  "filament.deleted",
+  "filament.usage", // a usage log entry was written (printer, gcode, manual edit, ...)
+  "filament.low_stock",
+  "filament.drying_reminder",
+] as const;
+
+export type WebhookEventType = typeof webhookEventTypes[number];
+
+export const webhooks = pgTable("webhooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  // Kept in plaintext (unlike apiTokens) - it's needed to sign every delivery
+  secret: text("secret").notNull(),
+  eventTypes: jsonb("event_types").$type<WebhookEventType[]>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One event sent (or being retried) to one webhook. Failed attempts are
+// retried with exponential backoff until maxAttempts, then marked 'failed'.
+export const webhookDeliveryStatuses = ["pending", "succeeded", "failed"] as const;
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(),
+  payload: jsonb("payload").notNull(), // the JSON body, signed as sent
+  status: text("status").notNull().default("pending"), // one of webhookDeliveryStatuses
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // HTTP status of the last attempt, if it got a response
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export const insertWebhookSchema = z.object({
+  url: z.string().url().refine((url) => /^https?:\/\//i.test(url), "URL must be http(s)"),
+  // Generated when omitted
+  secret: z.string().min(8, "Secret must be at least 8 characters").optional(),
+  eventTypes: z.array(z.enum(webhookEventTypes)).min(1, "Select at least one event"),
+  enabled: z.boolean().optional(),
+});
+
+export const updateWebhookSchema = insertWebhookSchema.partial();
+
+export type InsertWebhook = z.infer<typeof insertWebhookSchema>;
+export type UpdateWebhook = z.infer<typeof updateWebhookSchema>;
+
+// Where a user's low-stock / drying reminders are delivered, besides the
+// built-in email channel (users.notifyViaEmail). Apprise-style targets: each
+// type has its own config shape, see notificationChannelConfigSchemas.
+export const notificationChannelTypes = [
+  "webhook", // generic JSON POST of { title, message }
+  "ntfy",
+  "gotify",
+  "matrix", // incoming webhook, e.g. matrix-hookshot
+  "discord",
+  "slack",
+] as const;
+
+export type NotificationChannelType = typeof notificationChannelTypes[number];
+
+export const notificationChannels = pgTable("notification_channels", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // one of notificationChannelTypes
+  name: text("name"),
+  config: jsonb("config").$type<Record<string, string>>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+
+const httpUrlSchema = z.string().url().refine((url) => /^https?:\/\//i.test(url), "URL must be http(s)");
+
+export const notificationChannelConfigSchemas = {
+  webhook: z.object({ url: httpUrlSchema }),
+  ntfy: z.object({
+    serverUrl: httpUrlSchema.default("https://ntfy.sh"),
+    topic: z.string().min(1, "Topic is required"),
+    token: z.string().optional(), // access token for protected topics
+  }),
+  gotify: z.object({
+    serverUrl: httpUrlSchema,
+    token: z.string().min(1, "Application token is required"),
+  }),
+  matrix: z.object({ url: httpUrlSchema }),
+  discord: z.object({ url: httpUrlSchema }),
+  slack: z.object({ url: httpUrlSchema }),
+} satisfies Record<NotificationChannelType, z.ZodTypeAny>;
+
+const channelBaseSchema = {
+  name: z.string().max(100).optional(),
+  enabled: z.boolean().optional(),
+};
+
+export const insertNotificationChannelSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("webhook"), config: notificationChannelConfigSchemas.webhook, ...channelBaseSchema }),
+  z.object({ type: z.literal("ntfy"), config: notificationChannelConfigSchemas.ntfy, ...channelBaseSchema }),
+  z.object({ type: z.literal("gotify"), config: notificationChannelConfigSchemas.gotify, ...channelBaseSchema }),
+  z.object({ type: z.literal("matrix"), config: notificationChannelConfigSchemas.matrix, ...channelBaseSchema }),
+  z.object({ type: z.literal("discord"), config: notificationChannelConfigSchemas.discord, ...channelBaseSchema }),
+  z.object({ type: z.literal("slack"), config: notificationChannelConfigSchemas.slack, ...channelBaseSchema }),
+]);
+
+// The type can't change; a new config is validated against the existing
+// channel's type by the route
+export const updateNotificationChannelSchema = z.object({
+  name: z.string().max(100).nullable().optional(),
+  enabled: z.boolean().optional(),
+  config: z.record(z.string()).optional(),
+});
+
+export type InsertNotificationChannel = z.infer<typeof insertNotificationChannelSchema>;
+export type UpdateNotificationChannel = z.infer<typeof updateNotificationChannelSchema>;
+
+// In-app notification center, shown behind the bell in the header. Filled by
+// runScheduledChecks and catalog-request reviews alongside their emails, so
+// users without SMTP still see them. `data` holds what the client needs to
+// render the (translated) text, per type:
+// - low_stock: { thresholdPercent, filaments: { id, name }[] }
+// - drying_reminder: { reminderDays, filaments: { id, name }[] }
+// - catalog_request_approved / _rejected: { requestId, entityType, entityLabel, reviewNote }
+export const notificationTypes = [
+  "low_stock",
+  "drying_reminder",
+  "catalog_request_approved",
+  "catalog_request_rejected",
+  "min_stock",
+] as const;
+
+export type NotificationType = typeof notificationTypes[number];
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // one of notificationTypes
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type UserNotification = typeof notifications.$inferSelect;
+
+// Reorder planner: one row per filament type to buy. Added automatically by
+// runScheduledChecks when a spool of the type drops to the user's
+// lowStockThresholdPercent, or manually; "received" creates the new spools.
+export const shoppingListStatuses = ["open", "ordered", "received"] as const;
+export const shoppingListSources = ["low_stock", "min_stock", "manual"] as const;
+
+export type ShoppingListStatus = typeof shoppingListStatuses[number];
+export type ShoppingListSource = typeof shoppingListSources[number];
+
+export const shoppingListItems = pgTable("shopping_list_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  filamentTypeId: integer("filament_type_id").notNull().references(() => filamentTypes.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull().default(1), // spools to buy
+  status: text("status").notNull().default("open"), // one of shoppingListStatuses
+  source: text("source").notNull().default("manual"), // one of shoppingListSources
+  note: text("note"),
+  orderedAt: timestamp("ordered_at"),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type ShoppingListItem = typeof shoppingListItems.$inferSelect;
+
+// A shopping list item with its filament type's product fields joined in
+export type ShoppingListEntry = ShoppingListItem &
+  Pick<FilamentType, "manufacturer" | "material" | "colorName" | "colorCode" | "diameter">;
+
+export const insertShoppingListItemSchema = z.object({
+  filamentTypeId: z.number().int().positive(),
+  quantity: z.number().int().min(1).max(100).optional(),
+  note: z.string().nullable().optional(),
+});
+
+// "received" is only reachable via the receive endpoint, which creates the spools
+export const updateShoppingListItemSchema = z.object({
+  quantity: z.number().int().min(1).max(100).optional(),
+  note: z.string().nullable().optional(),
+  status: z.enum(["open", "ordered"]).optional(),
+});
+
+export const receiveShoppingListItemSchema = z.object({
+  quantity: z.number().int().min(1).max(100).optional(), // defaults to the item's quantity
+  purchasePrice: z.number().min(0).nullable().optional(), // per spool; defaults to the last purchase price
+  purchaseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date like 2024-01-31").optional(),
+  totalWeight: z.number().positive().optional(), // kg; defaults to the last spool of the type
+  storageLocation: z.string().nullable().optional(),
+});
+
+export type InsertShoppingListItem = z.infer<typeof insertShoppingListItemSchema>;
+export type UpdateShoppingListItem = z.infer<typeof updateShoppingListItemSchema>;
+export type ReceiveShoppingListItem = z.infer<typeof receiveShoppingListItemSchema>;
+
+// Currencies a user can pick for display and record prices in
+export const supportedCurrencies = [
+  "EUR", "USD", "GBP", "JPY", "CAD", "AUD", "CHF", "CNY", "PLN",
+  "CZK", "NOK", "SEK", "DKK", "HUF", "RON", "BGN", "HRK",
+] as const;
+
+export type SupportedCurrency = typeof supportedCurrencies[number];
+
+// Admin-maintained exchange rates, entered by hand so conversions work
+// offline. Rates are units of the currency per 1 EUR; EUR itself is implied.
+// See server/utils/currency.ts.
+export const exchangeRates = pgTable("exchange_rates", {
+  currency: text("currency").primaryKey(), // one of supportedCurrencies except EUR
+  ratePerEur: numeric("rate_per_eur").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+export const updateExchangeRatesSchema = z.object({
+  rates: z.array(z.object({
+    currency: z.enum(supportedCurrencies).refine((currency) => currency !== "EUR", "EUR is the base currency"),
+    ratePerEur: z.number().positive(),
+  })).min(1, "At least one rate is required"),
+});
+
+export type UpdateExchangeRates = z.infer<typeof updateExchangeRatesSchema>;
+
+// Purchases of filament: one order per vendor/shop checkout, with an item
+// per filament type bought. The items form each type's price history (see
+// server/utils/purchase-prices.ts), which statistics uses for cost per kg.
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  vendor: text("vendor").notNull(),
+  orderDate: date("order_date").notNull(),
+  shippingCost: numeric("shipping_cost").notNull().default("0"), // for the whole order
+  currency: text("currency").notNull().default("EUR"), // one of supportedCurrencies
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: serial("id").primaryKey(),
+  purchaseOrderId: integer("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  filamentTypeId: integer("filament_type_id").notNull().references(() => filamentTypes.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull().default(1), // spools
+  pricePerSpool: numeric("price_per_spool").notNull(),
+  weightKg: numeric("weight_kg").notNull(), // filament per spool
+});
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+
+// An order item with its filament type's product fields joined in
+export type PurchaseOrderItemEntry = PurchaseOrderItem &
+  Pick<FilamentType, "manufacturer" | "material" | "colorName" | "colorCode">;
+
+export type PurchaseOrderWithItems = PurchaseOrder & { items: PurchaseOrderItemEntry[] };
+
+const purchaseOrderFields = {
+  vendor: z.string().trim().min(1, "Vendor is required"),
+  orderDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be a date like 2024-01-31"),
+  shippingCost: z.number().min(0),
+  currency: z.enum(supportedCurrencies),
+  note: z.string().nullable(),
+};
+
+export const insertPurchaseOrderSchema = z.object({
+  ...purchaseOrderFields,
+  orderDate: purchaseOrderFields.orderDate.optional(), // defaults to today
+  shippingCost: purchaseOrderFields.shippingCost.optional(),
+  currency: purchaseOrderFields.currency.optional(), // defaults to the user's currency
+  note: purchaseOrderFields.note.optional(),
+  items: z.array(z.object({
+    filamentTypeId: z.number().int().positive(),
+    quantity: z.number().int().min(1).max(100).default(1),
+    pricePerSpool: z.number().min(0),
+    weightKg: z.number().positive().optional(), // defaults to the type's latest spool
+  })).min(1, "At least one item is required"),
+  // Also add the bought spools to the inventory
+  createSpools: z.boolean().optional(),
+});
+
+// Items are fixed once recorded; delete and re-create the order to change them
+export const updatePurchaseOrderSchema = z.object(purchaseOrderFields).partial();
+
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type UpdatePurchaseOrder = z.infer<typeof updatePurchaseOrderSchema>;
+
+export const updatePrintCostDefaultsSchema = z.object({
+  electricityRate: z.number().min(0).nullable().optional(), // per kWh
+  machineCostPerHour: z.number().min(0).nullable().optional(),
+  currency: z.enum(supportedCurrencies).optional(), // what the amounts are in; defaults to the user's currency
+});
+
+// Costs a print from exactly one usage source: a print job, a usage log
+// entry, spools with grams, or bare grams of a material (for quotes).
+// Money amounts are in the user's currency; omitted ones come from the
+// user's defaults and printerWatts from the printer.
+export const calculatePrintCostSchema = z.object({
+  printJobId: z.number().int().positive().optional(),
+  usageLog: z.object({
+    filamentId: z.number().int().positive(),
+    logId: z.number().int().positive(),
+  }).optional(),
+  items: z.array(z.object({
+    filamentId: z.number().int().positive(),
+    grams: z.number().positive(),
+  })).min(1).optional(),
+  grams: z.number().positive().optional(),
+  material: z.string().trim().min(1).optional(), // with grams; defaults to PLA
+  printHours: z.number().min(0).max(10000).optional(), // defaults to a print job's duration
+  printerId: z.number().int().positive().optional(),
+  printerWatts: z.number().min(0).max(100000).optional(),
+  electricityRate: z.number().min(0).optional(),
+  machineCostPerHour: z.number().min(0).optional(),
+  markupPercent: z.number().min(0).max(1000).optional(),
+}).refine(
+  (data) => [data.printJobId, data.usageLog, data.items, data.grams].filter((source) => source !== undefined).length === 1,
+  { message: "Provide exactly one of printJobId, usageLog, items or grams" },
+);
+
+export type UpdatePrintCostDefaults = z.infer<typeof updatePrintCostDefaultsSchema>;
+export type CalculatePrintCost = z.infer<typeof calculatePrintCostSchema>;